@@ -6,6 +6,7 @@ import { Session } from '@/types';
 import SessionCard from '@/app/components/SessionCard';
 import CompactSessionCard from '@/app/components/CompactSessionCard';
 import SessionMap from '@/app/components/SessionMap';
+import RecommendedSessions from '@/app/components/sessions/RecommendedSessions';
 import { useAuth } from '@/app/contexts/AuthContext';
 import { Bell, Plus, ChevronRight, Sparkles, MapPin, Map, List, Search, Filter, Loader2, RefreshCw } from 'lucide-react';
 import Button from '@/app/components/ui/Button';
@@ -16,6 +17,8 @@ import { motion } from 'framer-motion';
 import { useTranslations, useLocale } from 'next-intl';
 import { toArray } from '@/lib/utils/toArray';
 import NotificationBell from '@/app/components/notifications/NotificationBell';
+import type { BoundingBox } from '@/lib/geo';
+import { useBusySessions } from '@/lib/hooks/useBusySessions';
 
 interface HomeFeedProps {
   sessions: Session[];
@@ -25,6 +28,9 @@ interface HomeFeedProps {
 type FilterType = 'all' | 'badminton' | 'tennis' | 'basketball' | 'soccer' | 'today' | 'weekend';
 type ViewMode = 'list' | 'map';
 
+// Most sessions loaded for one map viewport
+const MAP_SESSION_LIMIT = 100;
+
 /**
  * Fetch sessions from the API with filters
  */
@@ -32,6 +38,8 @@ async function fetchSessions(params: {
   sportType?: string;
   date?: string;
   search?: string;
+  bbox?: string;
+  limit?: number;
 }): Promise<Session[]> {
   const searchParams = new URLSearchParams();
 
@@ -50,6 +58,15 @@ async function fetchSessions(params: {
     searchParams.set('search', params.search.trim());
   }
 
+  // Restrict to the visible map area
+  if (params.bbox) {
+    searchParams.set('bbox', params.bbox);
+  }
+
+  if (params.limit) {
+    searchParams.set('limit', String(params.limit));
+  }
+
   const url = `/api/sessions${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
   const response = await fetch(url);
 
@@ -63,6 +80,7 @@ async function fetchSessions(params: {
 
 export default function HomeFeed({ sessions: initialSessions, happeningNow }: HomeFeedProps) {
   const { user, profile } = useAuth();
+  const isBusy = useBusySessions(Boolean(user));
   const t = useTranslations('home');
   const tSessions = useTranslations('sessions');
   const locale = useLocale();
@@ -151,6 +169,23 @@ export default function HomeFeed({ sessions: initialSessions, happeningNow }: Ho
   // Use initial sessions if no filters, otherwise use query data
   const sessionsToDisplay = toArray<Session>(hasFilters ? (filteredSessions ?? []) : initialSessions);
 
+  // Map view loads the sessions inside the visible viewport as the user pans.
+  // Coordinates are rounded so small movements reuse the cached result.
+  const [mapBounds, setMapBounds] = useState<string | null>(null);
+  const handleMapBoundsChange = (bounds: BoundingBox) => {
+    setMapBounds([bounds.west, bounds.south, bounds.east, bounds.north]
+      .map((value) => value.toFixed(3))
+      .join(','));
+  };
+
+  const { data: mapSessions, isFetching: isFetchingMap } = useQuery({
+    queryKey: ['sessions', 'map', activeFilter, debouncedSearch, mapBounds],
+    queryFn: () => fetchSessions({ ...getQueryParams(), bbox: mapBounds!, limit: MAP_SESSION_LIMIT }),
+    enabled: viewMode === 'map' && mapBounds !== null,
+    placeholderData: (previousData) => previousData,
+    staleTime: 30 * 1000,
+  });
+
   const handleFilterChange = (filter: FilterType) => {
     setActiveFilter(filter);
   };
@@ -331,7 +366,10 @@ export default function HomeFeed({ sessions: initialSessions, happeningNow }: Ho
           </motion.section>
         )}
 
-        {/* For You Feed */}
+        {/* Personalized picks */}
+        {user && !hasFilters && <RecommendedSessions enabled />}
+
+        {/* Upcoming Sessions Feed */}
         <motion.section
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -342,7 +380,7 @@ export default function HomeFeed({ sessions: initialSessions, happeningNow }: Ho
               <div className="p-1.5 rounded-lg bg-primary-100 text-primary-600">
                 <Sparkles className="w-4 h-4" />
               </div>
-              <h2 className="text-lg font-bold text-slate-900">{t('forYou')}</h2>
+              <h2 className="text-lg font-bold text-slate-900">{t('upcoming')}</h2>
               {isFetching && !isLoading && (
                 <Loader2 className="w-4 h-4 text-primary-500 animate-spin ml-2" />
               )}
@@ -403,7 +441,11 @@ export default function HomeFeed({ sessions: initialSessions, happeningNow }: Ho
               {viewMode === 'map' ? (
                 /* Interactive Session Map */
                 <div className="relative animate-fadeIn">
-                  <SessionMap sessions={sessionsToDisplay} />
+                  <SessionMap
+                    sessions={mapSessions ?? sessionsToDisplay}
+                    onBoundsChange={handleMapBoundsChange}
+                    loading={isFetchingMap}
+                  />
                 </div>
               ) : sessionsToDisplay.length > 0 ? (
                 <motion.div
@@ -419,7 +461,7 @@ export default function HomeFeed({ sessions: initialSessions, happeningNow }: Ho
                       variants={cardVariants}
                       whileHover={{ y: -4, transition: { duration: 0.2 } }}
                     >
-                      <SessionCard session={session} />
+                      <SessionCard session={session} busy={isBusy(session)} />
                     </motion.div>
                   ))}
                 </motion.div>
@@ -0,0 +1,327 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/app/contexts/AuthContext';
+import { ArrowLeft, Calendar, Check, Gavel, MapPin, Shield, X } from 'lucide-react';
+import Card from '@/app/components/ui/Card';
+import Button from '@/app/components/ui/Button';
+import Badge from '@/app/components/ui/Badge';
+import Loading from '@/app/components/ui/Loading';
+import ErrorMessage from '@/app/components/ui/ErrorMessage';
+import { csrfPatch } from '@/lib/csrfClient';
+import { formatDate } from '@/lib/utils';
+
+type AppealStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+interface Appeal {
+  id: string;
+  message: string;
+  status: AppealStatus;
+  admin_note?: string | null;
+  created_at: string;
+  reviewed_at?: string | null;
+  user: {
+    id: string;
+    username?: string;
+    display_name?: string;
+    email: string;
+    reliability_score: number;
+    no_show_count: number;
+  };
+  event: {
+    id: string;
+    delta: number;
+    recovered_points: number;
+    created_at: string;
+    session?: {
+      id: string;
+      sport_type: string;
+      date_time: string;
+      sport_center: { name_en: string };
+    } | null;
+  };
+  reviewer?: {
+    id: string;
+    username?: string;
+    display_name?: string;
+  } | null;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+const STATUS_BADGES: Record<AppealStatus, 'warning' | 'success' | 'danger'> = {
+  PENDING: 'warning',
+  APPROVED: 'success',
+  REJECTED: 'danger',
+};
+
+export default function AdminAppealsPage() {
+  const router = useRouter();
+  const { user: currentUser } = useAuth();
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [statusFilter, setStatusFilter] = useState<AppealStatus>('PENDING');
+  const [pagination, setPagination] = useState<Pagination>({
+    page: 1,
+    limit: 20,
+    totalCount: 0,
+    totalPages: 0,
+  });
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (currentUser) {
+      fetchAppeals();
+    }
+  }, [currentUser, statusFilter, pagination.page]);
+
+  const fetchAppeals = async () => {
+    try {
+      const params = new URLSearchParams({
+        status: statusFilter,
+        page: pagination.page.toString(),
+        limit: pagination.limit.toString(),
+      });
+
+      const response = await fetch(`/api/admin/reliability-appeals?${params}`);
+      if (response.status === 403) {
+        setError('Access denied. Admin privileges required.');
+        setLoading(false);
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to fetch appeals');
+
+      const data = await response.json();
+      setAppeals(data.appeals);
+      setPagination(data.pagination);
+    } catch (err: any) {
+      console.error('Error fetching appeals:', err);
+      setError(err.message || 'Failed to load appeals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const decideAppeal = async (appeal: Appeal, status: 'APPROVED' | 'REJECTED') => {
+    const action = status === 'APPROVED' ? 'approve and reverse this no-show' : 'reject this appeal';
+    if (!confirm(`Are you sure you want to ${action}?`)) return;
+
+    try {
+      setActionLoading(appeal.id);
+      await csrfPatch(`/api/admin/reliability-appeals/${appeal.id}`, {
+        status,
+        admin_note: notes[appeal.id]?.trim() || undefined,
+      });
+      await fetchAppeals();
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const changeFilter = (status: AppealStatus) => {
+    setStatusFilter(status);
+    setPagination({ ...pagination, page: 1 });
+  };
+
+  const getDisplayName = (person: { username?: string; display_name?: string; email?: string }) =>
+    person.display_name || person.username || person.email?.split('@')[0] || 'Unknown';
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <ErrorMessage
+            title="Please log in"
+            message="You need to be logged in to access this page"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Loading text="Loading appeals..." fullScreen />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push('/admin')}
+            className="p-2"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-gray-900">No-show Appeals</h1>
+            <p className="text-gray-600">
+              Approving an appeal removes the no-show and restores the user&apos;s reliability score
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Status Tabs */}
+        <div className="flex gap-2 mb-6 overflow-x-auto pb-2">
+          {(['PENDING', 'APPROVED', 'REJECTED'] as const).map((status) => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => changeFilter(status)}
+            >
+              {status.charAt(0) + status.slice(1).toLowerCase()}
+            </Button>
+          ))}
+        </div>
+
+        {/* Appeals List */}
+        <div className="grid grid-cols-1 gap-4 mb-6">
+          {appeals.map((appeal) => {
+            const { session } = appeal.event;
+
+            return (
+              <Card key={appeal.id} padding="md">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold text-gray-900">{getDisplayName(appeal.user)}</h3>
+                      <Badge variant={STATUS_BADGES[appeal.status]} size="sm">{appeal.status}</Badge>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-2">
+                      {session ? (
+                        <>
+                          <button
+                            onClick={() => router.push(`/sessions/${session.id}`)}
+                            className="flex items-center gap-2 text-sm text-gray-600 capitalize hover:text-blue-600"
+                          >
+                            <Calendar className="w-4 h-4" />
+                            {session.sport_type.replace('-', ' ')} · {formatDate(session.date_time)}
+                          </button>
+                          <div className="flex items-center gap-2 text-sm text-gray-600">
+                            <MapPin className="w-4 h-4" />
+                            {session.sport_center.name_en}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="text-sm text-gray-500 sm:col-span-2">Session deleted</div>
+                      )}
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <Shield className="w-4 h-4" />
+                        {appeal.user.reliability_score}% · {appeal.user.no_show_count} no-shows
+                      </div>
+                    </div>
+                    <p className="mt-3 text-sm text-gray-800 whitespace-pre-wrap">{appeal.message}</p>
+                    <p className="text-xs text-gray-500 mt-2">
+                      Penalty {appeal.event.delta} ({appeal.event.recovered_points} recovered) · Appealed {formatDate(appeal.created_at)}
+                    </p>
+                    {appeal.status !== 'PENDING' && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Decided{appeal.reviewer && ` by ${getDisplayName(appeal.reviewer)}`}
+                        {appeal.reviewed_at && ` on ${formatDate(appeal.reviewed_at)}`}
+                        {appeal.admin_note && ` · ${appeal.admin_note}`}
+                      </p>
+                    )}
+                  </div>
+
+                  {appeal.status === 'PENDING' && (
+                    <div className="sm:w-72 space-y-2">
+                      <textarea
+                        value={notes[appeal.id] ?? ''}
+                        onChange={(e) => setNotes({ ...notes, [appeal.id]: e.target.value })}
+                        placeholder="Note for the user (optional)"
+                        maxLength={1000}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                        rows={2}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => decideAppeal(appeal, 'APPROVED')}
+                          disabled={actionLoading === appeal.id}
+                          className="flex-1"
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => decideAppeal(appeal, 'REJECTED')}
+                          disabled={actionLoading === appeal.id}
+                          className="flex-1"
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </Card>
+            );
+          })}
+
+          {appeals.length === 0 && (
+            <Card padding="lg">
+              <div className="text-center py-8">
+                <Gavel className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-500">No {statusFilter.toLowerCase()} appeals</p>
+              </div>
+            </Card>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {pagination.totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              disabled={pagination.page === 1}
+              onClick={() =>
+                setPagination({ ...pagination, page: pagination.page - 1 })
+              }
+            >
+              Previous
+            </Button>
+            <span className="px-4 py-2 text-sm text-gray-700">
+              Page {pagination.page} of {pagination.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              disabled={pagination.page === pagination.totalPages}
+              onClick={() =>
+                setPagination({ ...pagination, page: pagination.page + 1 })
+              }
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/app/contexts/AuthContext';
+import { ArrowLeft, Calendar, ClipboardCheck, MapPin, User as UserIcon } from 'lucide-react';
+import Card from '@/app/components/ui/Card';
+import Button from '@/app/components/ui/Button';
+import Badge from '@/app/components/ui/Badge';
+import Loading from '@/app/components/ui/Loading';
+import ErrorMessage from '@/app/components/ui/ErrorMessage';
+import { formatDate } from '@/lib/utils';
+
+interface Finalization {
+  id: string;
+  attended_count: number;
+  no_show_count: number;
+  unresolved_count: number;
+  created_at: string;
+  session: {
+    id: string;
+    sport_type: string;
+    date_time: string;
+    sport_center: { name_en: string };
+    creator: {
+      id: string;
+      username?: string;
+      display_name?: string;
+      email: string;
+    };
+  };
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+export default function AdminAttendancePage() {
+  const router = useRouter();
+  const { user: currentUser } = useAuth();
+  const [finalizations, setFinalizations] = useState<Finalization[]>([]);
+  const [pagination, setPagination] = useState<Pagination>({
+    page: 1,
+    limit: 20,
+    totalCount: 0,
+    totalPages: 0,
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (currentUser) {
+      fetchFinalizations();
+    }
+  }, [currentUser, pagination.page]);
+
+  const fetchFinalizations = async () => {
+    try {
+      const params = new URLSearchParams({
+        page: pagination.page.toString(),
+        limit: pagination.limit.toString(),
+      });
+
+      const response = await fetch(`/api/admin/attendance-finalizations?${params}`);
+      if (response.status === 403) {
+        setError('Access denied. Admin privileges required.');
+        setLoading(false);
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to fetch attendance finalizations');
+
+      const data = await response.json();
+      setFinalizations(data.finalizations);
+      setPagination(data.pagination);
+    } catch (err: any) {
+      console.error('Error fetching attendance finalizations:', err);
+      setError(err.message || 'Failed to load attendance finalizations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!currentUser) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <ErrorMessage
+            title="Please log in"
+            message="You need to be logged in to access this page"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Loading text="Loading attendance audit..." fullScreen />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push('/admin')}
+            className="p-2"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-gray-900">Auto-finalized Attendance</h1>
+            <p className="text-gray-600">
+              Sessions whose hosts never marked attendance, finalized from check-ins
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Finalizations List */}
+        <div className="grid grid-cols-1 gap-4 mb-6">
+          {finalizations.map((finalization) => {
+            const { session } = finalization;
+            const host = session.creator;
+
+            return (
+              <Card key={finalization.id} padding="md">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                  <div className="flex-1">
+                    <button
+                      onClick={() => router.push(`/sessions/${session.id}`)}
+                      className="text-lg font-semibold text-gray-900 capitalize hover:text-blue-600"
+                    >
+                      {session.sport_type.replace('-', ' ')}
+                    </button>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-2">
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <Calendar className="w-4 h-4" />
+                        {formatDate(session.date_time)}
+                      </div>
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <MapPin className="w-4 h-4" />
+                        {session.sport_center.name_en}
+                      </div>
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <UserIcon className="w-4 h-4" />
+                        {host.display_name || host.username || host.email.split('@')[0]}
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      Finalized {formatDate(finalization.created_at)}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="success">{finalization.attended_count} attended</Badge>
+                    <Badge variant="danger">{finalization.no_show_count} no-show</Badge>
+                    {finalization.unresolved_count > 0 && (
+                      <Badge variant="warning">{finalization.unresolved_count} unresolved</Badge>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+
+          {finalizations.length === 0 && (
+            <Card padding="lg">
+              <div className="text-center py-8">
+                <ClipboardCheck className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-500">No sessions have been auto-finalized</p>
+              </div>
+            </Card>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {pagination.totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              disabled={pagination.page === 1}
+              onClick={() =>
+                setPagination({ ...pagination, page: pagination.page - 1 })
+              }
+            >
+              Previous
+            </Button>
+            <span className="px-4 py-2 text-sm text-gray-700">
+              Page {pagination.page} of {pagination.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              disabled={pagination.page === pagination.totalPages}
+              onClick={() =>
+                setPagination({ ...pagination, page: pagination.page + 1 })
+              }
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import {
   MessageSquare,
   TrendingUp,
   Activity,
+  ClipboardCheck,
+  Gavel,
 } from 'lucide-react';
 import Card from '@/app/components/ui/Card';
 import Loading from '@/app/components/ui/Loading';
@@ -152,7 +154,7 @@ export default function AdminDashboardPage() {
         </div>
 
         {/* Quick Actions */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
           <button
             onClick={() => router.push('/admin/users')}
             className="p-4 bg-white rounded-lg shadow-sm border border-gray-200 hover:border-blue-300 hover:shadow-md transition-all text-left"
@@ -171,6 +173,24 @@ export default function AdminDashboardPage() {
             <p className="text-sm text-gray-600">Add and edit sport centers</p>
           </button>
 
+          <button
+            onClick={() => router.push('/admin/attendance')}
+            className="p-4 bg-white rounded-lg shadow-sm border border-gray-200 hover:border-orange-300 hover:shadow-md transition-all text-left"
+          >
+            <ClipboardCheck className="w-6 h-6 text-orange-600 mb-2" />
+            <h3 className="font-semibold text-gray-900">Attendance Audit</h3>
+            <p className="text-sm text-gray-600">Review auto-finalized attendance</p>
+          </button>
+
+          <button
+            onClick={() => router.push('/admin/appeals')}
+            className="p-4 bg-white rounded-lg shadow-sm border border-gray-200 hover:border-amber-300 hover:shadow-md transition-all text-left"
+          >
+            <Gavel className="w-6 h-6 text-amber-600 mb-2" />
+            <h3 className="font-semibold text-gray-900">No-show Appeals</h3>
+            <p className="text-sm text-gray-600">Review appeals against no-shows</p>
+          </button>
+
           <button
             onClick={() => router.push('/sessions')}
             className="p-4 bg-white rounded-lg shadow-sm border border-gray-200 hover:border-green-300 hover:shadow-md transition-all text-left"
@@ -15,6 +15,10 @@ import {
   User as UserIcon,
   Calendar,
   Loader2,
+  MessageSquare,
+  EyeOff,
+  RotateCcw,
+  Trash2,
 } from 'lucide-react';
 import Card from '@/app/components/ui/Card';
 import Button from '@/app/components/ui/Button';
@@ -26,7 +30,7 @@ import { csrfPatch, csrfPost } from '@/lib/csrfClient';
 
 interface Report {
   id: string;
-  entity_type: 'USER' | 'SESSION';
+  entity_type: 'USER' | 'SESSION' | 'REVIEW';
   reason: string;
   description?: string;
   status: 'PENDING' | 'REVIEWED' | 'RESOLVED' | 'DISMISSED';
@@ -57,8 +61,25 @@ interface Report {
       username?: string;
     };
   };
+  review?: {
+    id: string;
+    rating: number;
+    comment?: string | null;
+    host_reply?: string | null;
+    hidden_at?: string | null;
+    hidden_reason?: string | null;
+    created_at: string;
+    session_id: string;
+    user: {
+      id: string;
+      display_name?: string;
+      username?: string;
+    };
+  };
 }
 
+type ReviewAction = 'HIDE' | 'RESTORE' | 'DELETE';
+
 interface StatusCounts {
   PENDING: number;
   REVIEWED: number;
@@ -73,6 +94,18 @@ const STATUS_CONFIG = {
   DISMISSED: { label: 'Dismissed', color: 'default', icon: XCircle },
 };
 
+const ENTITY_BADGES = {
+  USER: { label: 'User Report', color: 'info' },
+  SESSION: { label: 'Session Report', color: 'warning' },
+  REVIEW: { label: 'Review Report', color: 'secondary' },
+} as const;
+
+const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  HIDE: 'Hide Review',
+  RESTORE: 'Restore Review',
+  DELETE: 'Delete Review',
+};
+
 const REASON_LABELS: Record<string, { label: string; emoji: string }> = {
   HARASSMENT: { label: 'Harassment', emoji: '😤' },
   NO_SHOW: { label: 'No-Show', emoji: '👻' },
@@ -94,6 +127,8 @@ export default function AdminReportsPage() {
   const [actionLoading, setActionLoading] = useState(false);
   const [banReason, setBanReason] = useState('');
   const [showBanModal, setShowBanModal] = useState(false);
+  const [reviewAction, setReviewAction] = useState<ReviewAction | null>(null);
+  const [moderationReason, setModerationReason] = useState('');
 
   useEffect(() => {
     if (currentUser) {
@@ -169,6 +204,77 @@ export default function AdminReportsPage() {
     }
   };
 
+  const closeReviewModal = () => {
+    setReviewAction(null);
+    setModerationReason('');
+    setSelectedReport(null);
+  };
+
+  const moderateReview = async () => {
+    if (!selectedReport?.review || !reviewAction) return;
+    if (!moderationReason.trim()) {
+      alert('Please provide a reason');
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      await csrfPost(`/api/admin/reviews/${selectedReport.review.id}/moderate`, {
+        action: reviewAction,
+        reason: moderationReason.trim(),
+        report_id: selectedReport.id,
+      });
+
+      await fetchReports();
+      closeReviewModal();
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const openReviewModal = (report: Report, action: ReviewAction) => {
+    setSelectedReport(report);
+    setReviewAction(action);
+  };
+
+  const renderReviewActions = (report: Report) => {
+    if (report.entity_type !== 'REVIEW' || !report.review) return null;
+
+    return (
+      <>
+        {report.review.hidden_at ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openReviewModal(report, 'RESTORE')}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Restore Review
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openReviewModal(report, 'HIDE')}
+          >
+            <EyeOff className="w-4 h-4 mr-1" />
+            Hide Review
+          </Button>
+        )}
+        <Button
+          variant="danger"
+          size="sm"
+          onClick={() => openReviewModal(report, 'DELETE')}
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          Delete Review
+        </Button>
+      </>
+    );
+  };
+
   if (!currentUser) {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
@@ -274,8 +380,8 @@ export default function AdminReportsPage() {
                           <StatusIcon className="w-3 h-3 mr-1" />
                           {statusConfig.label}
                         </Badge>
-                        <Badge variant={report.entity_type === 'USER' ? 'info' : 'warning'} size="sm">
-                          {report.entity_type === 'USER' ? 'User Report' : 'Session Report'}
+                        <Badge variant={ENTITY_BADGES[report.entity_type].color} size="sm">
+                          {ENTITY_BADGES[report.entity_type].label}
                         </Badge>
                       </div>
 
@@ -326,6 +432,44 @@ export default function AdminReportsPage() {
                             </div>
                           </div>
                         )}
+
+                        {report.entity_type === 'REVIEW' && report.review && (
+                          <div className="flex items-start gap-3">
+                            <div className="w-10 h-10 rounded-full bg-purple-100 flex items-center justify-center flex-shrink-0">
+                              <MessageSquare className="w-5 h-5 text-purple-600" />
+                            </div>
+                            <div className="min-w-0">
+                              <p className="font-medium text-gray-900">
+                                {'★'.repeat(report.review.rating)}{'☆'.repeat(5 - report.review.rating)}
+                                <span className="ml-2 text-sm font-normal text-gray-500">
+                                  by {report.review.user.display_name || report.review.user.username || 'Unknown'}
+                                </span>
+                                {report.review.hidden_at && (
+                                  <Badge variant="default" size="sm" className="ml-2">Hidden</Badge>
+                                )}
+                              </p>
+                              {report.review.comment && (
+                                <p className="text-sm text-gray-600 mt-1">{report.review.comment}</p>
+                              )}
+                              {report.review.host_reply && (
+                                <p className="text-xs text-gray-500 mt-1">Host reply: {report.review.host_reply}</p>
+                              )}
+                              {report.review.hidden_reason && (
+                                <p className="text-xs text-gray-500 mt-1">Hidden because: {report.review.hidden_reason}</p>
+                              )}
+                              <button
+                                onClick={() => router.push(`/sessions/${report.review!.session_id}`)}
+                                className="text-xs text-blue-600 hover:underline mt-1"
+                              >
+                                {formatDate(report.review.created_at)} · View session
+                              </button>
+                            </div>
+                          </div>
+                        )}
+
+                        {report.entity_type === 'REVIEW' && !report.review && (
+                          <p className="text-sm text-gray-500">This review has been deleted.</p>
+                        )}
                       </div>
 
                       {/* Description */}
@@ -383,6 +527,7 @@ export default function AdminReportsPage() {
                               Ban User
                             </Button>
                           )}
+                          {renderReviewActions(report)}
                         </>
                       )}
 
@@ -410,8 +555,12 @@ export default function AdminReportsPage() {
                               Ban User
                             </Button>
                           )}
+                          {renderReviewActions(report)}
                         </>
                       )}
+
+                      {/* Hidden reviews can still be restored or removed after the report is closed */}
+                      {report.status === 'RESOLVED' && report.review?.hidden_at && renderReviewActions(report)}
                     </div>
                   </div>
                 </Card>
@@ -486,6 +635,70 @@ export default function AdminReportsPage() {
           </Card>
         </div>
       )}
+
+      {/* Review Moderation Modal */}
+      {reviewAction && selectedReport?.review && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <Card padding="lg" className="max-w-md w-full">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="p-2 rounded-xl bg-purple-100">
+                <MessageSquare className="w-6 h-6 text-purple-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-lg text-gray-900">{REVIEW_ACTION_LABELS[reviewAction]}</h3>
+                <p className="text-sm text-gray-500">
+                  Review by {selectedReport.review.user.display_name || selectedReport.review.user.username || 'Unknown'}
+                </p>
+              </div>
+            </div>
+
+            {reviewAction === 'DELETE' && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  <p className="text-sm text-red-800">
+                    The review will be permanently deleted. A copy is kept in the moderation log.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reason
+              </label>
+              <textarea
+                value={moderationReason}
+                onChange={(e) => setModerationReason(e.target.value)}
+                placeholder="Why are you taking this action?"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
+                rows={3}
+                maxLength={1000}
+              />
+            </div>
+
+            <div className="flex gap-3">
+              <Button
+                variant="ghost"
+                onClick={closeReviewModal}
+                disabled={actionLoading}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                variant={reviewAction === 'DELETE' ? 'danger' : 'primary'}
+                onClick={moderateReview}
+                loading={actionLoading}
+                disabled={!moderationReason.trim()}
+                className="flex-1"
+              >
+                {REVIEW_ACTION_LABELS[reviewAction]}
+              </Button>
+            </div>
+          </Card>
+        </div>
+      )}
     </div>
   );
 }
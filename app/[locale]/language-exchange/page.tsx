@@ -0,0 +1,303 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { useAuth } from '@/app/contexts/AuthContext';
+import Button from '@/app/components/ui/Button';
+import Card from '@/app/components/ui/Card';
+import Badge from '@/app/components/ui/Badge';
+import Select from '@/app/components/ui/Select';
+import Loading from '@/app/components/ui/Loading';
+import ErrorMessage from '@/app/components/ui/ErrorMessage';
+import LanguageFlag, { getLanguageOptions } from '@/app/components/ui/LanguageFlag';
+import { Languages, ArrowLeft, ArrowRight, MapPin, MessageSquare } from 'lucide-react';
+import { csrfPatch, csrfPost } from '@/lib/csrfClient';
+import { LANGUAGE_LEVELS } from '@/lib/language-exchange';
+
+interface LanguageSettings {
+  native_language: string;
+  target_language: string;
+  language_level: string;
+}
+
+interface Partner {
+  id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  location: string | null;
+  native_language: string;
+  target_language: string;
+  language_level: string | null;
+  match: { shared_sports: string[]; score: number };
+}
+
+export default function LanguageExchangePage() {
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as string;
+  const { user } = useAuth();
+  const t = useTranslations('languageExchange');
+  const tSessions = useTranslations('sessions');
+  const [partners, setPartners] = useState<Partner[]>([]);
+  const [languages, setLanguages] = useState<LanguageSettings>({
+    native_language: '',
+    target_language: '',
+    language_level: '',
+  });
+  const [editing, setEditing] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [messagingId, setMessagingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user) {
+      fetchPartners();
+    }
+  }, [user]);
+
+  const fetchPartners = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await fetch('/api/users/me/language-partners');
+      if (!response.ok) throw new Error('Failed to fetch language partners');
+      const data = await response.json();
+      setPartners(data.data);
+      setLanguages({
+        native_language: data.profile.native_language ?? '',
+        target_language: data.profile.target_language ?? '',
+        language_level: data.profile.language_level ?? '',
+      });
+      setEditing(!data.profile.native_language || !data.profile.target_language);
+    } catch (err: any) {
+      console.error('Error fetching language partners:', err);
+      setError(err.message || t('failedToLoad'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveLanguages = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (languages.native_language === languages.target_language) {
+      alert(t('sameLanguage'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await csrfPatch('/api/users/me', {
+        native_language: languages.native_language,
+        target_language: languages.target_language,
+        language_level: languages.language_level || null,
+      });
+      await fetchPartners();
+    } catch (err: any) {
+      alert(err.message || t('saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMessage = async (partnerId: string) => {
+    setMessagingId(partnerId);
+    try {
+      const conversation = await csrfPost('/api/conversations', {
+        participant_ids: [partnerId],
+        type: 'direct',
+      });
+      router.push(`/${locale}/messages/${conversation.id}`);
+    } catch (err: any) {
+      alert(err.message || t('messageError'));
+      setMessagingId(null);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <ErrorMessage
+            title={t('pleaseLogin')}
+            message={t('needLogin')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const languageOptions = getLanguageOptions().map((option) => ({
+    value: option.value,
+    label: `${option.flag} ${option.label}`,
+  }));
+  const levelOptions = [
+    { value: '', label: t('levelNotSet') },
+    ...LANGUAGE_LEVELS.map((level) => ({ value: level, label: t(`levels.${level}`) })),
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-4 mb-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="p-2"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+              <Languages className="w-8 h-8 text-blue-500" />
+              {t('title')}
+            </h1>
+          </div>
+          <p className="text-gray-600 ml-12">
+            {t('subtitle')}
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loading text={t('loading')} />
+          </div>
+        ) : error ? (
+          <ErrorMessage message={error} onRetry={fetchPartners} />
+        ) : (
+          <div className="space-y-6">
+            {/* The user's own languages */}
+            <Card padding="lg">
+              {editing ? (
+                <form onSubmit={handleSaveLanguages} className="space-y-4">
+                  <p className="text-sm text-gray-600">{t('setLanguages')}</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <Select
+                      label={t('nativeLanguage')}
+                      value={languages.native_language}
+                      onChange={(e) => setLanguages({ ...languages, native_language: e.target.value })}
+                      options={[{ value: '', label: t('chooseLanguage') }, ...languageOptions]}
+                      fullWidth
+                      required
+                    />
+                    <Select
+                      label={t('targetLanguage')}
+                      value={languages.target_language}
+                      onChange={(e) => setLanguages({ ...languages, target_language: e.target.value })}
+                      options={[{ value: '', label: t('chooseLanguage') }, ...languageOptions]}
+                      fullWidth
+                      required
+                    />
+                    <Select
+                      label={t('languageLevel')}
+                      value={languages.language_level}
+                      onChange={(e) => setLanguages({ ...languages, language_level: e.target.value })}
+                      options={levelOptions}
+                      fullWidth
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <Button type="submit" variant="primary" size="sm" loading={saving}>
+                      {t('findPartners')}
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                  <div className="flex items-center gap-3 text-sm text-gray-700">
+                    <LanguageFlag code={languages.native_language} showLabel />
+                    <ArrowRight className="w-4 h-4 text-gray-400" />
+                    <LanguageFlag code={languages.target_language} showLabel />
+                    {languages.language_level && (
+                      <Badge variant="info" size="sm">{t(`levels.${languages.language_level}`)}</Badge>
+                    )}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+                    {t('changeLanguages')}
+                  </Button>
+                </div>
+              )}
+            </Card>
+
+            {/* Partner suggestions */}
+            {!editing && (
+              partners.length === 0 ? (
+                <div className="text-center py-12">
+                  <Languages className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">
+                    {t('noPartners')}
+                  </h3>
+                  <p className="text-gray-600">
+                    {t('noPartnersDescription')}
+                  </p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {partners.map((partner) => {
+                    const name = partner.display_name || partner.username || t('anonymous');
+                    return (
+                      <Card key={partner.id} padding="md">
+                        <div className="flex items-start gap-3">
+                          {partner.avatar_url ? (
+                            <img
+                              src={partner.avatar_url}
+                              alt={name}
+                              className="w-12 h-12 rounded-full object-cover flex-shrink-0"
+                            />
+                          ) : (
+                            <div className="w-12 h-12 rounded-full bg-blue-100 text-blue-700 flex items-center justify-center font-semibold flex-shrink-0">
+                              {name.charAt(0).toUpperCase()}
+                            </div>
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <p className="font-semibold text-gray-900 truncate">{name}</p>
+                            <div className="flex items-center gap-2 text-xs text-gray-600 mt-0.5">
+                              <LanguageFlag code={partner.native_language} size="sm" />
+                              <ArrowRight className="w-3 h-3 text-gray-400" />
+                              <LanguageFlag code={partner.target_language} size="sm" />
+                              {partner.language_level && (
+                                <span>{t(`levels.${partner.language_level}`)}</span>
+                              )}
+                            </div>
+                            {partner.location && (
+                              <p className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                                <MapPin className="w-3 h-3" />
+                                {partner.location}
+                              </p>
+                            )}
+                            {partner.match.shared_sports.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-2">
+                                {partner.match.shared_sports.map((sport) => (
+                                  <Badge key={sport} variant="success" size="sm">
+                                    {tSessions(sport)}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleMessage(partner.id)}
+                            loading={messagingId === partner.id}
+                            aria-label={t('message')}
+                          >
+                            <MessageSquare className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </Card>
+                    );
+                  })}
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -114,7 +114,11 @@ export default function ConversationPage() {
 
       {/* Chat Area */}
       <div className="flex-1 max-w-4xl mx-auto w-full bg-white">
-        <ChatBox conversationId={conversationId} currentUserId={user.id} />
+        <ChatBox
+          conversationId={conversationId}
+          currentUserId={user.id}
+          canModerate={conversation.can_moderate}
+        />
       </div>
     </div>
   );
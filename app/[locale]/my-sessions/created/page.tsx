@@ -13,6 +13,7 @@ import {
   Trash2,
   ArrowLeft,
   Plus,
+  Send,
 } from 'lucide-react';
 import Card from '@/app/components/ui/Card';
 import Button from '@/app/components/ui/Button';
@@ -20,7 +21,8 @@ import Badge from '@/app/components/ui/Badge';
 import Loading from '@/app/components/ui/Loading';
 import ErrorMessage from '@/app/components/ui/ErrorMessage';
 import { formatDate, formatTime } from '@/lib/utils';
-import { csrfDelete } from '@/lib/csrfClient';
+import { csrfDelete, csrfPatch } from '@/lib/csrfClient';
+import { conflictsFromError, describeConflicts } from '@/lib/schedule-conflicts';
 import { toArray } from '@/lib/utils/toArray';
 
 interface Session {
@@ -31,6 +33,8 @@ interface Session {
   duration_minutes: number;
   max_participants: number | null;
   current_participants: number;
+  status: 'DRAFT' | 'PUBLISHED' | 'CANCELLED' | 'COMPLETED';
+  cancellation_reason?: string | null;
   description_en?: string;
   description_ja?: string;
   sport_center: {
@@ -82,13 +86,27 @@ export default function MyCreatedSessionsPage() {
     }
   };
 
-  const handleCancelSession = async (sessionId: string, sportType: string) => {
-    if (!confirm(t('confirmCancelSession', { sportType }))) {
-      return;
+  const handleCancelSession = async (session: Session) => {
+    let reason: string | null = null;
+
+    if (session.status === 'DRAFT') {
+      // Drafts have no participants and are simply deleted
+      if (!confirm(t('confirmDeleteDraft', { sportType: session.sport_type }))) {
+        return;
+      }
+    } else {
+      // Cancelling with an empty reason is allowed; dismissing the prompt aborts
+      reason = prompt(`${t('confirmCancelSession', { sportType: session.sport_type })}\n${t('cancelReasonPrompt')}`);
+      if (reason === null) {
+        return;
+      }
     }
 
     try {
-      await csrfDelete(`/api/sessions/${sessionId}`);
+      await csrfDelete(`/api/sessions/${session.id}`, {
+        body: JSON.stringify({ reason: reason || undefined }),
+        headers: { 'Content-Type': 'application/json' },
+      });
 
       // Refresh the list
       await fetchCreatedSessions();
@@ -97,6 +115,33 @@ export default function MyCreatedSessionsPage() {
     }
   };
 
+  const handlePublishSession = async (sessionId: string) => {
+    try {
+      try {
+        await csrfPatch(`/api/sessions/${sessionId}`, { status: 'PUBLISHED' });
+      } catch (publishError) {
+        // Clashes with the host's schedule need confirming first
+        const conflicts = conflictsFromError(publishError);
+        if (!conflicts) throw publishError;
+        if (!confirm(t('publishConflictConfirm', { sessions: describeConflicts(conflicts) }))) return;
+        await csrfPatch(`/api/sessions/${sessionId}`, { status: 'PUBLISHED', allow_conflicts: true });
+      }
+      await fetchCreatedSessions();
+    } catch (err: any) {
+      alert(err.message || t('failedToPublish'));
+    }
+  };
+
+  const statusBadge = (session: Session) => {
+    if (session.status === 'DRAFT') {
+      return <Badge variant="default">{t('status.DRAFT')}</Badge>;
+    }
+    if (session.status === 'CANCELLED') {
+      return <Badge variant="danger">{t('status.CANCELLED')}</Badge>;
+    }
+    return null;
+  };
+
   if (!user) {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
@@ -192,6 +237,7 @@ export default function MyCreatedSessionsPage() {
                           {session.current_participants}
                           {session.max_participants ? `/${session.max_participants}` : ''} {t('going')}
                         </Badge>
+                        {statusBadge(session)}
                       </div>
 
                       <div className="space-y-2">
@@ -214,9 +260,27 @@ export default function MyCreatedSessionsPage() {
                           {session.description_en}
                         </p>
                       )}
+
+                      {session.status === 'CANCELLED' && session.cancellation_reason && (
+                        <p className="text-sm text-red-600 mt-3">
+                          {t('cancellationReason', { reason: session.cancellation_reason })}
+                        </p>
+                      )}
                     </div>
 
+                    {session.status !== 'CANCELLED' && (
                     <div className="flex gap-2 ml-4">
+                      {session.status === 'DRAFT' && (
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          onClick={() => handlePublishSession(session.id)}
+                          className="gap-2"
+                        >
+                          <Send className="w-4 h-4" />
+                          {t('publish')}
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -229,13 +293,14 @@ export default function MyCreatedSessionsPage() {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handleCancelSession(session.id, session.sport_type)}
+                        onClick={() => handleCancelSession(session)}
                         className="gap-2 text-red-600 hover:bg-red-50"
                       >
                         <Trash2 className="w-4 h-4" />
-                        {t('cancel')}
+                        {session.status === 'DRAFT' ? t('deleteDraft') : t('cancel')}
                       </Button>
                     </div>
+                    )}
                   </div>
                 </Card>
               ))}
@@ -276,7 +341,7 @@ export default function MyCreatedSessionsPage() {
                       </div>
                     </div>
 
-                    <Badge variant="default">Completed</Badge>
+                    {statusBadge(session) ?? <Badge variant="default">{t('status.COMPLETED')}</Badge>}
                   </div>
                 </Card>
               ))}
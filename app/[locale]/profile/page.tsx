@@ -10,6 +10,9 @@ import Badge from '@/app/components/ui/Badge';
 import Loading from '@/app/components/ui/Loading';
 import ErrorMessage from '@/app/components/ui/ErrorMessage';
 import UserStats from '@/app/components/profile/UserStats';
+import SportRatings from '@/app/components/profile/SportRatings';
+import ReliabilityHistory from '@/app/components/profile/ReliabilityHistory';
+import TrustMetrics from '@/app/components/profile/TrustMetrics';
 import { formatDate } from '@/lib/utils';
 import { sportIdToSessionKey } from '@/lib/utils/sportTranslation';
 import { useTranslations } from 'next-intl';
@@ -31,12 +34,15 @@ export default function ProfilePage() {
   const tSessions = useTranslations('sessions');
   const [profile, setProfile] = useState<any>(null);
   const [stats, setStats] = useState<any>(null);
+  const [ratings, setRatings] = useState<any[]>([]);
+  const [reliability, setReliability] = useState<any>(null);
+  const [trust, setTrust] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
   useEffect(() => {
     if (user) {
-      Promise.all([fetchProfile(), fetchStats()]).catch(err => {
+      Promise.all([fetchProfile(), fetchStats(), fetchRatings(), fetchReliability(), fetchTrust()]).catch(err => {
         console.error('Error fetching profile data:', err);
       });
     }
@@ -67,6 +73,45 @@ export default function ProfilePage() {
     }
   };
 
+  const fetchRatings = async () => {
+    try {
+      const response = await fetch('/api/users/me/ratings');
+      if (!response.ok) throw new Error('Failed to fetch ratings');
+      const data = await response.json();
+      setRatings(data.data ?? []);
+    } catch (err) {
+      console.error('Error fetching ratings:', err);
+    }
+  };
+
+  const fetchReliability = async () => {
+    try {
+      const response = await fetch('/api/users/me/reliability');
+      if (!response.ok) throw new Error('Failed to fetch reliability history');
+      const data = await response.json();
+      setReliability(data.data ?? null);
+    } catch (err) {
+      console.error('Error fetching reliability history:', err);
+    }
+  };
+
+  const fetchTrust = async () => {
+    try {
+      const response = await fetch('/api/users/me/trust');
+      if (!response.ok) throw new Error('Failed to fetch trust metrics');
+      const data = await response.json();
+      setTrust(data.data ?? null);
+    } catch (err) {
+      console.error('Error fetching trust metrics:', err);
+    }
+  };
+
+  // An approved appeal changes the score shown in the stats too
+  const handleAppealed = () => {
+    fetchReliability();
+    fetchStats();
+  };
+
   // Calculate achievements
   const getAchievements = () => {
     if (!stats) return [];
@@ -338,9 +383,30 @@ export default function ProfilePage() {
           </motion.div>
         )}
 
+        {/* Sport ratings */}
+        {ratings.length > 0 && (
+          <motion.div custom={3} variants={sectionVariants} initial="hidden" animate="visible">
+            <SportRatings ratings={ratings} />
+          </motion.div>
+        )}
+
+        {/* Peer review trust metrics */}
+        {trust && (
+          <motion.div custom={4} variants={sectionVariants} initial="hidden" animate="visible">
+            <TrustMetrics metrics={trust} />
+          </motion.div>
+        )}
+
+        {/* Reliability history */}
+        {reliability && (
+          <motion.div custom={5} variants={sectionVariants} initial="hidden" animate="visible">
+            <ReliabilityHistory history={reliability} onAppealed={handleAppealed} />
+          </motion.div>
+        )}
+
         {/* Statistics */}
         {stats && (
-          <motion.div custom={3} variants={sectionVariants} initial="hidden" animate="visible">
+          <motion.div custom={6} variants={sectionVariants} initial="hidden" animate="visible">
             <UserStats stats={stats} />
           </motion.div>
         )}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import Link from 'next/link';
+import { CheckCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import { useAuth } from '@/app/contexts/AuthContext';
+import Card from '@/app/components/ui/Card';
+import Button from '@/app/components/ui/Button';
+import { csrfPost } from '@/lib/csrfClient';
+
+type CheckInState = 'checking' | 'done' | 'already' | 'error';
+
+/**
+ * Landing page of the check-in QR code: checks the signed-in participant in
+ */
+export default function CheckInPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const sessionId = params.id as string;
+  const locale = params.locale as string;
+  const token = searchParams.get('token');
+  const { user, loading: authLoading } = useAuth();
+  const t = useTranslations('checkIn');
+  const [state, setState] = useState<CheckInState>('checking');
+  const [error, setError] = useState('');
+  // Only submit once, even if the auth state settles more than once
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (authLoading || submitted.current) return;
+
+    if (!user) {
+      router.push(`/login?redirectTo=${encodeURIComponent(`/sessions/${sessionId}/check-in?token=${token ?? ''}`)}`);
+      return;
+    }
+
+    if (!token) {
+      setError(t('missingCode'));
+      setState('error');
+      return;
+    }
+
+    submitted.current = true;
+    csrfPost(`/api/sessions/${sessionId}/check-in`, { token })
+      .then((result) => setState(result.already_checked_in ? 'already' : 'done'))
+      .catch((err: any) => {
+        setError(err.message || t('failed'));
+        setState('error');
+      });
+  }, [authLoading, user, token, sessionId, router, t]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        <Card padding="lg">
+          <div className="text-center space-y-4">
+            {state === 'checking' && (
+              <>
+                <Loader2 className="w-12 h-12 mx-auto animate-spin text-primary-500" />
+                <p className="text-gray-600">{t('checkingIn')}</p>
+              </>
+            )}
+            {(state === 'done' || state === 'already') && (
+              <>
+                <CheckCircle className="w-12 h-12 mx-auto text-green-500" />
+                <h1 className="text-2xl font-bold text-gray-900">
+                  {state === 'done' ? t('checkedIn') : t('alreadyCheckedIn')}
+                </h1>
+                <p className="text-gray-600">{t('enjoy')}</p>
+              </>
+            )}
+            {state === 'error' && (
+              <>
+                <AlertTriangle className="w-12 h-12 mx-auto text-red-500" />
+                <h1 className="text-2xl font-bold text-gray-900">{t('failedTitle')}</h1>
+                <p className="text-gray-600">{error}</p>
+              </>
+            )}
+            <div className="pt-4 border-t">
+              <Link href={`/${locale}/sessions/${sessionId}`}>
+                <Button variant="outline" fullWidth>
+                  {t('backToSession')}
+                </Button>
+              </Link>
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { useAuth } from '@/app/contexts/AuthContext';
-import { ArrowLeft, Calendar, Clock } from 'lucide-react';
+import { ArrowLeft, Calendar, Clock, Repeat } from 'lucide-react';
 import Button from '@/app/components/ui/Button';
 import Input from '@/app/components/ui/Input';
 import Select from '@/app/components/ui/Select';
@@ -12,6 +12,7 @@ import Card from '@/app/components/ui/Card';
 import Loading from '@/app/components/ui/Loading';
 import ErrorMessage from '@/app/components/ui/ErrorMessage';
 import { csrfPatch } from '@/lib/csrfClient';
+import { conflictsFromError, describeConflicts } from '@/lib/schedule-conflicts';
 
 export default function EditSessionPage() {
   const router = useRouter();
@@ -26,6 +27,9 @@ export default function EditSessionPage() {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [isDirty, setIsDirty] = useState(false);
+  // Recurring series: edit only this occurrence or all following ones
+  const [seriesId, setSeriesId] = useState<string | null>(null);
+  const [editScope, setEditScope] = useState<'this' | 'future'>('this');
 
   const [formData, setFormData] = useState({
     sport_center_id: '',
@@ -35,8 +39,12 @@ export default function EditSessionPage() {
     time: '',
     duration_minutes: '120',
     max_participants: '',
+    min_participants: '',
+    decide_by_hours: '24',
     description_en: '',
     description_ja: '',
+    visibility: 'PUBLIC',
+    requires_approval: false,
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -57,6 +65,17 @@ export default function EditSessionPage() {
     { value: 'advanced', label: tSessions('advanced') },
   ];
 
+  const visibilities = [
+    { value: 'PUBLIC', label: tSessions('visibilityPublic') },
+    { value: 'UNLISTED', label: tSessions('visibilityUnlisted') },
+    { value: 'INVITE_ONLY', label: tSessions('visibilityInviteOnly') },
+  ];
+
+  const decideByOptions = [3, 6, 12, 24, 48, 72].map((hours) => ({
+    value: String(hours),
+    label: tSessions('decideByHours', { count: hours }),
+  }));
+
   const durations = [
     { value: '60', label: tSessions('oneHour') },
     { value: '90', label: tSessions('onePointFiveHours') },
@@ -91,6 +110,8 @@ export default function EditSessionPage() {
       const session = await sessionResponse.json();
 
       setSportCenters(centers);
+      // Co-hosts edit single occurrences; the series template is the creator's
+      setSeriesId(session.created_by === user?.id ? session.series_id || null : null);
 
       // Pre-fill form with session data
       const sessionDate = new Date(session.date_time);
@@ -105,8 +126,14 @@ export default function EditSessionPage() {
         time: timeStr,
         duration_minutes: session.duration_minutes.toString(),
         max_participants: session.max_participants?.toString() || '',
+        min_participants: session.min_participants?.toString() || '',
+        decide_by_hours: session.decide_by
+          ? String(Math.round((new Date(session.date_time).getTime() - new Date(session.decide_by).getTime()) / (60 * 60 * 1000)))
+          : '24',
         description_en: session.description_en || '',
         description_ja: session.description_ja || '',
+        visibility: session.visibility || 'PUBLIC',
+        requires_approval: Boolean(session.requires_approval),
       });
     } catch (err: any) {
       console.error('Error fetching data:', err);
@@ -129,8 +156,9 @@ export default function EditSessionPage() {
   }, [isDirty, submitting]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
+    const { name, value, type } = e.target;
+    const newValue = type === 'checkbox' ? (e.target as HTMLInputElement).checked : value;
+    setFormData((prev) => ({ ...prev, [name]: newValue }));
     setIsDirty(true);
     if (errors[name]) {
       setErrors((prev) => ({ ...prev, [name]: '' }));
@@ -157,6 +185,14 @@ export default function EditSessionPage() {
     if (formData.max_participants && parseInt(formData.max_participants) < 2) {
       newErrors.max_participants = t('errors.minParticipants');
     }
+    if (formData.min_participants) {
+      const min = parseInt(formData.min_participants);
+      if (min < 2) {
+        newErrors.min_participants = t('errors.minParticipants');
+      } else if (formData.max_participants && min > parseInt(formData.max_participants)) {
+        newErrors.min_participants = tSessions('minExceedsMax');
+      }
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -175,16 +211,31 @@ export default function EditSessionPage() {
     try {
       const dateTime = new Date(formData.date + 'T' + formData.time);
 
-      await csrfPatch(`/api/sessions/${sessionId}`, {
+      const payload = {
         sport_center_id: formData.sport_center_id,
         sport_type: formData.sport_type,
         skill_level: formData.skill_level,
         date_time: dateTime.toISOString(),
         duration_minutes: parseInt(formData.duration_minutes),
         max_participants: formData.max_participants ? parseInt(formData.max_participants) : null,
+        min_participants: formData.min_participants ? parseInt(formData.min_participants) : null,
+        ...(formData.min_participants && { decide_by_hours: parseInt(formData.decide_by_hours) }),
         description_en: formData.description_en || null,
         description_ja: formData.description_ja || null,
-      });
+        visibility: formData.visibility,
+        requires_approval: formData.requires_approval,
+        ...(seriesId && { scope: editScope }),
+      };
+
+      try {
+        await csrfPatch(`/api/sessions/${sessionId}`, payload);
+      } catch (updateError) {
+        // Clashes with the host's schedule need confirming first
+        const conflicts = conflictsFromError(updateError);
+        if (!conflicts) throw updateError;
+        if (!confirm(t('scheduleConflictConfirm', { sessions: describeConflicts(conflicts) }))) return;
+        await csrfPatch(`/api/sessions/${sessionId}`, { ...payload, allow_conflicts: true });
+      }
 
       // Success! Redirect to created sessions page
       router.push(`/${locale}/my-sessions/created`);
@@ -257,6 +308,44 @@ export default function EditSessionPage() {
               </div>
             )}
 
+            {/* Series edit scope */}
+            {seriesId && (
+              <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+                <h2 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                  <Repeat className="w-4 h-4" />
+                  {t('seriesScope')}
+                </h2>
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="edit_scope"
+                    value="this"
+                    checked={editScope === 'this'}
+                    onChange={() => setEditScope('this')}
+                    className="mt-1 w-4 h-4 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div>
+                    <span className="text-sm font-medium text-gray-700">{t('scopeThis')}</span>
+                    <p className="text-xs text-gray-500">{t('scopeThisDesc')}</p>
+                  </div>
+                </label>
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="edit_scope"
+                    value="future"
+                    checked={editScope === 'future'}
+                    onChange={() => setEditScope('future')}
+                    className="mt-1 w-4 h-4 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div>
+                    <span className="text-sm font-medium text-gray-700">{t('scopeFuture')}</span>
+                    <p className="text-xs text-gray-500">{t('scopeFutureDesc')}</p>
+                  </div>
+                </label>
+              </div>
+            )}
+
             {/* Session Details */}
             <div>
               <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -306,6 +395,38 @@ export default function EditSessionPage() {
                   />
                 </div>
 
+                {/* Visibility */}
+                <div className="flex flex-col gap-1">
+                  <Select
+                    label={tSessions('visibility')}
+                    name="visibility"
+                    value={formData.visibility}
+                    onChange={handleChange}
+                    fullWidth
+                    options={visibilities}
+                  />
+                  <p className="text-xs text-gray-500">
+                    {tSessions(`visibilityDesc.${formData.visibility}`)}
+                  </p>
+                </div>
+
+                {/* Host approval */}
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    name="requires_approval"
+                    checked={formData.requires_approval}
+                    onChange={handleChange}
+                    className="w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div>
+                    <span className="text-sm font-medium text-gray-700">{tSessions('requiresApproval')}</span>
+                    <p className="text-xs text-gray-500">
+                      {tSessions('requiresApprovalDesc')}
+                    </p>
+                  </div>
+                </label>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {/* Date */}
                   <div>
@@ -377,6 +498,35 @@ export default function EditSessionPage() {
                   />
                 </div>
 
+                {/* Minimum Participants */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input
+                    label={tSessions('minParticipantsOptional')}
+                    name="min_participants"
+                    type="number"
+                    value={formData.min_participants}
+                    onChange={handleChange}
+                    placeholder="e.g., 4"
+                    error={errors.min_participants}
+                    fullWidth
+                    min="2"
+                  />
+                  {formData.min_participants && (
+                    <Select
+                      label={tSessions('decideBy')}
+                      name="decide_by_hours"
+                      value={formData.decide_by_hours}
+                      onChange={handleChange}
+                      fullWidth
+                      options={
+                        decideByOptions.some((o) => o.value === formData.decide_by_hours)
+                          ? decideByOptions
+                          : [...decideByOptions, { value: formData.decide_by_hours, label: tSessions('decideByHours', { count: parseInt(formData.decide_by_hours) }) }]
+                      }
+                    />
+                  )}
+                </div>
+
                 {/* Description (English) */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
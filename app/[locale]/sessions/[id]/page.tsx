@@ -1,6 +1,6 @@
 'use client';
 
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/app/contexts/AuthContext';
 import Button from '@/app/components/ui/Button';
@@ -8,33 +8,53 @@ import Card from '@/app/components/ui/Card';
 import Badge from '@/app/components/ui/Badge';
 import { Session } from '@/types';
 import { formatDate } from '@/lib/utils';
-import { MapPin, Clock, Users, Info, ArrowLeft, Loader2, Flag, MoreVertical, Bell, BellOff, ExternalLink, Navigation } from 'lucide-react';
+import { participantsNeeded } from '@/lib/min-participants';
+import { MapPin, Clock, Users, Info, ArrowLeft, Loader2, Flag, MoreVertical, Bell, BellOff, ExternalLink, Navigation, Repeat, XCircle, FileEdit, Lock, EyeOff, Hourglass, Pencil, ShieldCheck, CalendarPlus, Trophy } from 'lucide-react';
 import ReviewSection from '@/app/components/sessions/ReviewSection';
+import PeerReviewPanel from '@/app/components/sessions/PeerReviewPanel';
 import FavoriteButton from '@/app/components/sessions/FavoriteButton';
 import AttendanceTracker from '@/app/components/sessions/AttendanceTracker';
+import InviteManager from '@/app/components/sessions/InviteManager';
+import PendingRequestsPanel from '@/app/components/sessions/PendingRequestsPanel';
+import LanguageMix from '@/app/components/sessions/LanguageMix';
+import MatchResults from '@/app/components/sessions/MatchResults';
+import TeamGenerator from '@/app/components/sessions/TeamGenerator';
+import TournamentPanel from '@/app/components/sessions/TournamentPanel';
+import CheckInCode from '@/app/components/sessions/CheckInCode';
+import { TEAM_SPORTS } from '@/lib/team-balancer';
 import ReportModal from '@/app/components/ReportModal';
 import StudentBadge from '@/app/components/ui/StudentBadge';
-import { csrfPost, csrfDelete } from '@/lib/csrfClient';
+import { csrfPost, csrfDelete, csrfPatch } from '@/lib/csrfClient';
+import { conflictsFromError, describeConflicts } from '@/lib/schedule-conflicts';
 import { useTranslations } from 'next-intl';
 
 export default function SessionDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // Invite link token for invite-only sessions
+  const inviteToken = searchParams?.get('invite') ?? null;
   const { user } = useAuth();
   const t = useTranslations('sessionDetail');
   const tSessions = useTranslations('sessions');
   const [session, setSession] = useState<Session | null>(null);
   const [isAttending, setIsAttending] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [activeAction, setActiveAction] = useState<'join' | 'leave' | 'cancel' | 'message' | 'join_waitlist' | 'leave_waitlist' | null>(null);
+  const [activeAction, setActiveAction] = useState<'join' | 'leave' | 'cancel' | 'message' | 'join_waitlist' | 'leave_waitlist' | 'accept_hold' | 'decline_hold' | 'subscribe' | 'unsubscribe' | 'publish' | 'withdraw_request' | 'co_host' | null>(null);
   const [error, setError] = useState('');
   // Waitlist state
   const [isOnWaitlist, setIsOnWaitlist] = useState(false);
   const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
   const [waitlistCount, setWaitlistCount] = useState(0);
+  const [waitlistHold, setWaitlistHold] = useState<string | null>(null);
+  const [autoJoin, setAutoJoin] = useState(false);
+  // Host approval state
+  const [joinRequestStatus, setJoinRequestStatus] = useState<'PENDING' | 'APPROVED' | 'REJECTED' | null>(null);
+  // Recurring series state
+  const [seriesInfo, setSeriesInfo] = useState<{ is_subscribed: boolean; upcoming: number } | null>(null);
   // Report modal state
   const [reportModalOpen, setReportModalOpen] = useState(false);
-  const [reportTarget, setReportTarget] = useState<{ type: 'USER' | 'SESSION'; id: string; name?: string } | null>(null);
+  const [reportTarget, setReportTarget] = useState<{ type: 'USER' | 'SESSION' | 'REVIEW'; id: string; name?: string } | null>(null);
 
   useEffect(() => {
     fetchSession();
@@ -46,7 +66,8 @@ export default function SessionDetailPage() {
   const fetchSession = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/sessions/${params.id}`);
+      const query = inviteToken ? `?invite=${encodeURIComponent(inviteToken)}` : '';
+      const response = await fetch(`/api/sessions/${params.id}${query}`);
 
       if (!response.ok) {
         throw new Error('Session not found');
@@ -55,6 +76,14 @@ export default function SessionDetailPage() {
       const data = await response.json();
       setSession(data);
 
+      if (data.series_id) {
+        fetchSeries(data.series_id);
+      }
+
+      if (user && data.requires_approval && data.created_by !== user.id) {
+        fetchJoinRequest();
+      }
+
       // Check if user is attending
       if (user && data.participants) {
         const isUserAttending = data.participants.some((p: any) => p.id === user.id);
@@ -70,27 +99,152 @@ export default function SessionDetailPage() {
 
   const fetchWaitlistStatus = async () => {
     try {
-      const response = await fetch(`/api/sessions/${params.id}/waitlist`);
+      const query = inviteToken ? `?invite=${encodeURIComponent(inviteToken)}` : '';
+      const response = await fetch(`/api/sessions/${params.id}/waitlist${query}`);
       if (response.ok) {
         const data = await response.json();
         setWaitlistCount(data.count);
         setWaitlistPosition(data.userPosition);
         setIsOnWaitlist(data.userPosition !== null);
+        setWaitlistHold(data.userHold?.expires_at ?? null);
+        setAutoJoin(data.userAutoJoin ?? false);
       }
     } catch (err) {
       console.error('Error fetching waitlist:', err);
     }
   };
 
+  const fetchJoinRequest = async () => {
+    try {
+      const response = await fetch(`/api/sessions/${params.id}/join-requests`);
+      if (response.ok) {
+        const data = await response.json();
+        setJoinRequestStatus(data.userRequest?.status ?? null);
+      }
+    } catch (err) {
+      console.error('Error fetching join request:', err);
+    }
+  };
+
+  const handleWithdrawRequest = async () => {
+    setActiveAction('withdraw_request');
+    try {
+      await csrfDelete(`/api/sessions/${params.id}/join-requests`);
+      setJoinRequestStatus(null);
+    } catch (err: any) {
+      alert(err.message || 'Failed to withdraw request');
+      console.error(err);
+    } finally {
+      setActiveAction(null);
+    }
+  };
+
+  const fetchSeries = async (seriesId: string) => {
+    try {
+      const response = await fetch(`/api/series/${seriesId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSeriesInfo({ is_subscribed: data.is_subscribed, upcoming: data.sessions.length });
+      }
+    } catch (err) {
+      console.error('Error fetching series:', err);
+    }
+  };
+
+  // Keep the invite token through the login redirect
+  const loginRedirect = `/login?redirectTo=${encodeURIComponent(
+    `/sessions/${params.id}${inviteToken ? `?invite=${inviteToken}` : ''}`
+  )}`;
+
+  const handleSeriesSubscription = async () => {
+    if (!session?.series_id) return;
+    if (!user) {
+      router.push(loginRedirect);
+      return;
+    }
+
+    const subscribed = seriesInfo?.is_subscribed;
+    setActiveAction(subscribed ? 'unsubscribe' : 'subscribe');
+    try {
+      if (subscribed) {
+        await csrfDelete(`/api/series/${session.series_id}/subscription`);
+      } else {
+        await csrfPost(`/api/series/${session.series_id}/subscription`, {});
+      }
+      // Refresh session data (attendance for this occurrence changes too)
+      await fetchSession();
+    } catch (err: any) {
+      alert(err.message || 'Failed to update series subscription');
+      console.error(err);
+    } finally {
+      setActiveAction(null);
+    }
+  };
+
+  const handlePublish = async () => {
+    setActiveAction('publish');
+    try {
+      try {
+        await csrfPatch(`/api/sessions/${params.id}`, { status: 'PUBLISHED' });
+      } catch (publishError) {
+        // Clashes with the host's schedule need confirming first
+        const conflicts = conflictsFromError(publishError);
+        if (!conflicts) throw publishError;
+        if (!confirm(t('publishConflictConfirm', { sessions: describeConflicts(conflicts) }))) return;
+        await csrfPatch(`/api/sessions/${params.id}`, { status: 'PUBLISHED', allow_conflicts: true });
+      }
+      await fetchSession();
+    } catch (err: any) {
+      alert(err.message || 'Failed to publish session');
+      console.error(err);
+    } finally {
+      setActiveAction(null);
+    }
+  };
+
+  const handleAddCoHost = async (participantId: string) => {
+    setActiveAction('co_host');
+    try {
+      await csrfPost(`/api/sessions/${params.id}/co-hosts`, { user_id: participantId });
+      await fetchSession();
+    } catch (err: any) {
+      alert(err.message || 'Failed to add co-host');
+      console.error(err);
+    } finally {
+      setActiveAction(null);
+    }
+  };
+
+  const handleRemoveCoHost = async (coHostId: string) => {
+    const confirmMessage = coHostId === user?.id ? t('coHosts.confirmStepDown') : t('coHosts.confirmRemove');
+    if (!confirm(confirmMessage)) {
+      return;
+    }
+
+    setActiveAction('co_host');
+    try {
+      await csrfDelete(`/api/sessions/${params.id}/co-hosts/${coHostId}`);
+      await fetchSession();
+    } catch (err: any) {
+      alert(err.message || 'Failed to remove co-host');
+      console.error(err);
+    } finally {
+      setActiveAction(null);
+    }
+  };
+
   const handleJoinWaitlist = async () => {
     if (!user) {
-      router.push(`/login?redirectTo=/sessions/${params.id}`);
+      router.push(loginRedirect);
       return;
     }
 
     setActiveAction('join_waitlist');
     try {
-      const data = await csrfPost(`/api/sessions/${params.id}/waitlist`, {});
+      const data = await csrfPost(`/api/sessions/${params.id}/waitlist`, {
+        auto_join: autoJoin,
+        invite_token: inviteToken ?? undefined,
+      });
 
       setIsOnWaitlist(true);
       setWaitlistPosition(data.position);
@@ -110,6 +264,7 @@ export default function SessionDetailPage() {
 
       setIsOnWaitlist(false);
       setWaitlistPosition(null);
+      setWaitlistHold(null);
       setWaitlistCount((prev) => Math.max(0, prev - 1));
     } catch (err: any) {
       alert(err.message || 'Failed to leave waitlist');
@@ -119,9 +274,47 @@ export default function SessionDetailPage() {
     }
   };
 
+  const handleWaitlistHold = async (action: 'accept' | 'decline') => {
+    setActiveAction(action === 'accept' ? 'accept_hold' : 'decline_hold');
+    try {
+      const update = (allowConflicts: boolean) => csrfPatch(`/api/sessions/${params.id}/waitlist`, {
+        action,
+        ...(allowConflicts && { allow_conflicts: true }),
+      });
+
+      let data;
+      try {
+        data = await update(false);
+      } catch (updateError) {
+        // Clashes with the user's schedule need confirming first
+        const conflicts = conflictsFromError(updateError);
+        if (!conflicts) throw updateError;
+        if (!confirm(t('scheduleConflictConfirm', { sessions: describeConflicts(conflicts) }))) return;
+        data = await update(true);
+      }
+
+      // Approval sessions turn the claim into a join request
+      if (data?.pending) {
+        setJoinRequestStatus('PENDING');
+        return;
+      }
+
+      setIsOnWaitlist(false);
+      setWaitlistPosition(null);
+      setWaitlistHold(null);
+      await fetchSession();
+      await fetchWaitlistStatus();
+    } catch (err: any) {
+      alert(err.message || 'Failed to update reserved spot');
+      console.error(err);
+    } finally {
+      setActiveAction(null);
+    }
+  };
+
   const handleAttendance = async () => {
     if (!user) {
-      router.push(`/login?redirectTo=/sessions/${params.id}`);
+      router.push(loginRedirect);
       return;
     }
 
@@ -140,7 +333,28 @@ export default function SessionDetailPage() {
         await fetchSession();
       } else {
         // Mark attendance (join session)
-        await csrfPost('/api/attendance', { session_id: session?.id });
+        const join = (allowConflicts: boolean) => csrfPost('/api/attendance', {
+          session_id: session?.id,
+          invite_token: inviteToken ?? undefined,
+          ...(allowConflicts && { allow_conflicts: true }),
+        });
+
+        let data;
+        try {
+          data = await join(false);
+        } catch (joinError) {
+          // Clashes with the user's schedule need confirming first
+          const conflicts = conflictsFromError(joinError);
+          if (!conflicts) throw joinError;
+          if (!confirm(t('scheduleConflictConfirm', { sessions: describeConflicts(conflicts) }))) return;
+          data = await join(true);
+        }
+
+        // Sessions requiring approval return a pending request instead
+        if (data?.pending) {
+          setJoinRequestStatus('PENDING');
+          return;
+        }
 
         setIsAttending(true);
         // Refresh session data
@@ -221,9 +435,17 @@ export default function SessionDetailPage() {
 
   const isFull = session.max_participants && session.current_participants >= session.max_participants;
   const spotsLeft = session.max_participants ? session.max_participants - session.current_participants : null;
+  // Only published sessions can be joined
+  const isOpen = !session.status || session.status === 'PUBLISHED';
+  // Co-hosts share the creator's day-to-day host permissions
+  const isCreator = user?.id === session.created_by;
+  const coHostIds = new Set((session.co_hosts ?? []).map((c) => c.id));
+  const isHost = isCreator || Boolean(user && coHostIds.has(user.id));
+  const canEdit = isHost && (isOpen || session.status === 'DRAFT');
+  const needed = participantsNeeded(session);
 
   // Handler for opening report modal
-  const openReportModal = (type: 'USER' | 'SESSION', id: string, name?: string) => {
+  const openReportModal = (type: 'USER' | 'SESSION' | 'REVIEW', id: string, name?: string) => {
     setReportTarget({ type, id, name });
     setReportModalOpen(true);
   };
@@ -245,6 +467,47 @@ export default function SessionDetailPage() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left Column - Session Details */}
           <div className="lg:col-span-2 space-y-6">
+            {session.status === 'CANCELLED' && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-xl flex items-start gap-3">
+                <XCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold text-red-800">{t('cancelledBanner')}</p>
+                  {session.cancellation_reason && (
+                    <p className="text-sm text-red-700 mt-1">
+                      {t('cancellationReason', { reason: session.cancellation_reason })}
+                    </p>
+                  )}
+                  {session.cancelled_at && (
+                    <p className="text-xs text-red-600 mt-1">
+                      {t('cancelledOn', { date: formatDate(session.cancelled_at) })}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {session.status === 'DRAFT' && (
+              <div className="p-4 bg-slate-100 border border-slate-200 rounded-xl flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div className="flex items-start gap-3">
+                  <FileEdit className="w-5 h-5 text-slate-600 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold text-slate-800">{t('draftBanner')}</p>
+                    <p className="text-sm text-slate-600">{t('draftBannerDesc')}</p>
+                  </div>
+                </div>
+                {isHost && (
+                  <Button
+                    variant="primary"
+                    onClick={handlePublish}
+                    loading={activeAction === 'publish'}
+                    disabled={activeAction !== null}
+                  >
+                    {t('publish')}
+                  </Button>
+                )}
+              </div>
+            )}
+
             <Card padding="lg">
               <div className="flex items-start justify-between mb-4">
                 <div>
@@ -257,10 +520,38 @@ export default function SessionDetailPage() {
                   <div className="flex gap-2">
                     <Badge variant="warning">{tSessions(session.skill_level)}</Badge>
                     {isFull && <Badge variant="danger">{tSessions('full')}</Badge>}
+                    {session.visibility === 'UNLISTED' && (
+                      <Badge variant="default">
+                        <EyeOff className="w-3 h-3 mr-1" />
+                        {tSessions('visibilityUnlisted')}
+                      </Badge>
+                    )}
+                    {session.visibility === 'INVITE_ONLY' && (
+                      <Badge variant="default">
+                        <Lock className="w-3 h-3 mr-1" />
+                        {tSessions('visibilityInviteOnly')}
+                      </Badge>
+                    )}
+                    {session.min_rating != null && (
+                      <Badge variant="primary" title={t('minRatingHint')}>
+                        <Trophy className="w-3 h-3 mr-1" />
+                        {t('minRatingBadge', { rating: session.min_rating })}
+                      </Badge>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
                   <FavoriteButton sessionId={session.id} size="lg" />
+                  {canEdit && (
+                    <button
+                      onClick={() => router.push(`/sessions/${session.id}/edit`)}
+                      className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-slate-700 transition-colors"
+                      title={t('editSession')}
+                      aria-label={t('editSession')}
+                    >
+                      <Pencil className="w-5 h-5" />
+                    </button>
+                  )}
                   {user && user.id !== session.created_by && (
                     <button
                       onClick={() => openReportModal('SESSION', session.id, `${session.sport_type} session`)}
@@ -295,6 +586,14 @@ export default function SessionDetailPage() {
                     <p className="text-sm text-gray-600">
                       {t('duration', { minutes: session.duration_minutes })}
                     </p>
+                    <a
+                      href={`/api/sessions/${session.id}/calendar.ics${inviteToken ? `?invite=${encodeURIComponent(inviteToken)}` : ''}`}
+                      download
+                      className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                    >
+                      <CalendarPlus className="w-4 h-4" />
+                      {t('addToCalendar')}
+                    </a>
                   </div>
                 </div>
 
@@ -311,11 +610,52 @@ export default function SessionDetailPage() {
                         {tSessions(spotsLeft === 1 ? 'spots_one' : 'spots_other', { count: spotsLeft })}
                       </p>
                     )}
+                    {isOpen && needed > 0 && session.decide_by && (
+                      <p className="text-sm text-amber-700">
+                        {t('minimumNotice', { count: needed, deadline: formatDate(session.decide_by) })}
+                      </p>
+                    )}
+                    {isOpen && session.min_participants && session.confirmed_at && (
+                      <p className="text-sm text-green-600">
+                        {t('minimumConfirmed', { min: session.min_participants })}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
             </Card>
 
+            {/* Recurring Series */}
+            {session.series && (
+              <Card padding="lg">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div className="flex items-start gap-3">
+                    <Repeat className="w-5 h-5 text-gray-600 mt-1" />
+                    <div>
+                      <p className="font-semibold">
+                        {t(`seriesFrequency.${session.series.frequency}`)}
+                      </p>
+                      {seriesInfo && (
+                        <p className="text-sm text-gray-600">
+                          {t('seriesUpcoming', { count: seriesInfo.upcoming })}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {user?.id !== session.created_by && seriesInfo && (
+                    <Button
+                      variant={seriesInfo.is_subscribed ? 'outline' : 'primary'}
+                      onClick={handleSeriesSubscription}
+                      loading={activeAction === 'subscribe' || activeAction === 'unsubscribe'}
+                      disabled={activeAction !== null}
+                    >
+                      {seriesInfo.is_subscribed ? t('unsubscribeSeries') : t('subscribeSeries')}
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            )}
+
             <Card padding="lg">
               <div className="flex items-center gap-2 mb-3">
                 <Info className="w-5 h-5 text-gray-600" />
@@ -409,6 +749,7 @@ export default function SessionDetailPage() {
               <h2 className="text-xl font-semibold mb-4">
                 {t('whosGoing', { count: session.current_participants })}
               </h2>
+              {session.language_mix && <LanguageMix mix={session.language_mix} />}
               <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
                 {session.participants && session.participants.length > 0 ? (
                   session.participants.map((participant: any) => (
@@ -432,11 +773,43 @@ export default function SessionDetailPage() {
                             </span>
                             {participant.is_verified_student && <StudentBadge size="sm" />}
                           </div>
+                          {participant.id === session.created_by && (
+                            <span className="flex items-center gap-1 text-xs text-primary-700">
+                              <ShieldCheck className="w-3 h-3" />
+                              {t('coHosts.host')}
+                            </span>
+                          )}
+                          {coHostIds.has(participant.id) && (
+                            <span className="flex items-center gap-1 text-xs text-primary-700">
+                              <ShieldCheck className="w-3 h-3" />
+                              {t('coHosts.coHost')}
+                            </span>
+                          )}
                           {participant.reliability_score !== undefined && participant.reliability_score < 80 && (
                             <span className="text-xs text-amber-600">Reliability: {participant.reliability_score}%</span>
                           )}
                         </div>
                       </div>
+                      {isOpen && isCreator && participant.id !== session.created_by && (
+                        <button
+                          onClick={() => coHostIds.has(participant.id)
+                            ? handleRemoveCoHost(participant.id)
+                            : handleAddCoHost(participant.id)}
+                          disabled={activeAction !== null}
+                          className="text-xs text-primary-600 hover:underline flex-shrink-0 disabled:opacity-50"
+                        >
+                          {coHostIds.has(participant.id) ? t('coHosts.remove') : t('coHosts.add')}
+                        </button>
+                      )}
+                      {isOpen && !isCreator && user?.id === participant.id && coHostIds.has(participant.id) && (
+                        <button
+                          onClick={() => handleRemoveCoHost(participant.id)}
+                          disabled={activeAction !== null}
+                          className="text-xs text-primary-600 hover:underline flex-shrink-0 disabled:opacity-50"
+                        >
+                          {t('coHosts.stepDown')}
+                        </button>
+                      )}
                       {user && user.id !== participant.id && (
                         <button
                           onClick={() => openReportModal('USER', participant.id, participant.display_name || participant.username)}
@@ -467,12 +840,77 @@ export default function SessionDetailPage() {
               sessionId={session.id}
               sessionDate={session.date_time}
               hasAttended={isAttending}
+              isHost={isHost}
+              onReport={(reviewId, name) => openReportModal('REVIEW', reviewId, name)}
             />
 
-            {/* Attendance Tracker - Only visible to host after session ends */}
+            {/* Peer reviews - attendees rate the host and each other afterwards */}
+            <PeerReviewPanel
+              sessionId={session.id}
+              hasEnded={
+                new Date(session.date_time).getTime() + session.duration_minutes * 60 * 1000 <= Date.now()
+              }
+            />
+
+            {/* Invite links - hosts only, for sessions hidden from search */}
+            {isOpen && session.visibility && session.visibility !== 'PUBLIC' && (
+              <InviteManager
+                sessionId={session.id}
+                isHost={isHost}
+              />
+            )}
+
+            {/* Join requests - hosts only, for sessions requiring approval */}
+            {isOpen && session.requires_approval && (
+              <PendingRequestsPanel
+                sessionId={session.id}
+                isHost={isHost}
+                onApproved={fetchSession}
+              />
+            )}
+
+            {/* Team generator - hosts of team sports */}
+            {isHost && isOpen && TEAM_SPORTS.includes(session.sport_type) && (
+              <TeamGenerator
+                sessionId={session.id}
+                participants={session.participants ?? []}
+              />
+            )}
+
+            {/* Tournament - started by hosts, bracket visible to everyone */}
+            <TournamentPanel
+              sessionId={session.id}
+              tournament={session.tournament}
+              participantCount={session.participants?.length ?? 0}
+              isHost={isHost}
+              isOpen={isOpen}
+              inviteToken={inviteToken}
+            />
+
+            {/* Match results - recorded by hosts once play has started */}
+            <MatchResults
+              sessionId={session.id}
+              participants={session.participants ?? []}
+              isHost={isHost}
+              inviteToken={inviteToken}
+              hasStarted={
+                (session.status === 'PUBLISHED' || session.status === 'COMPLETED') &&
+                new Date(session.date_time) <= new Date()
+              }
+            />
+
+            {/* Check-in QR code - hosts show it at the venue around the start time */}
+            {isOpen && (
+              <CheckInCode
+                sessionId={session.id}
+                isHost={isHost}
+              />
+            )}
+
+            {/* Attendance Tracker - Only visible to hosts after session ends */}
             <AttendanceTracker
               sessionId={session.id}
-              isHost={user?.id === session.created_by}
+              isHost={isHost}
               isPast={new Date(session.date_time) < new Date()}
             />
           </div>
@@ -482,7 +920,13 @@ export default function SessionDetailPage() {
             <Card padding="lg" className="sticky top-4">
               <h3 className="font-semibold text-lg mb-4">{t('joinSession')}</h3>
 
-              {isAttending ? (
+              {!isOpen ? (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                  <p className="text-gray-700 text-sm font-medium">
+                    {t(`statusNotice.${session.status}`)}
+                  </p>
+                </div>
+              ) : isAttending ? (
                 <div className="space-y-3">
                   <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
                     <p className="text-green-800 text-sm font-medium">
@@ -510,7 +954,65 @@ export default function SessionDetailPage() {
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {!isFull ? (
+                  {joinRequestStatus === 'PENDING' ? (
+                    /* Waiting for the host to approve */
+                    <div className="space-y-3">
+                      <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                        <div className="flex items-center gap-2">
+                          <Hourglass className="w-4 h-4 text-blue-600" />
+                          <p className="text-blue-800 text-sm font-medium">
+                            {t('requestPending')}
+                          </p>
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        fullWidth
+                        onClick={handleWithdrawRequest}
+                        loading={activeAction === 'withdraw_request'}
+                        disabled={activeAction !== null}
+                      >
+                        {t('withdrawRequest')}
+                      </Button>
+                    </div>
+                  ) : joinRequestStatus === 'REJECTED' ? (
+                    <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                      <p className="text-gray-700 text-sm font-medium">
+                        {t('requestRejected')}
+                      </p>
+                    </div>
+                  ) : waitlistHold ? (
+                    /* A spot is reserved for this user */
+                    <div className="space-y-3">
+                      <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                        <p className="text-green-800 text-sm font-medium">
+                          {t('holdReserved')}
+                        </p>
+                        <p className="text-green-700 text-xs mt-1">
+                          {t('holdExpires', { time: formatDate(waitlistHold) })}
+                        </p>
+                      </div>
+                      <Button
+                        variant="primary"
+                        size="lg"
+                        fullWidth
+                        onClick={() => handleWaitlistHold('accept')}
+                        loading={activeAction === 'accept_hold'}
+                        disabled={activeAction !== null}
+                      >
+                        {t('acceptHold')}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        fullWidth
+                        onClick={() => handleWaitlistHold('decline')}
+                        loading={activeAction === 'decline_hold'}
+                        disabled={activeAction !== null}
+                      >
+                        {t('declineHold')}
+                      </Button>
+                    </div>
+                  ) : !isFull ? (
                     <>
                       <Button
                         variant="primary"
@@ -520,8 +1022,15 @@ export default function SessionDetailPage() {
                         loading={activeAction === 'join'}
                         disabled={activeAction !== null}
                       >
-                        {activeAction === 'join' ? t('joining') : tSessions('imGoing')}
+                        {activeAction === 'join'
+                          ? t('joining')
+                          : session.requires_approval ? t('requestToJoin') : tSessions('imGoing')}
                       </Button>
+                      {session.requires_approval && (
+                        <p className="text-xs text-gray-500 text-center">
+                          {t('approvalRequired')}
+                        </p>
+                      )}
                       <p className="text-xs text-gray-500 text-center">
                         {t('free')}
                       </p>
@@ -537,7 +1046,7 @@ export default function SessionDetailPage() {
                           </p>
                         </div>
                         <p className="text-amber-700 text-xs">
-                          We'll notify you when a spot opens up!
+                          {autoJoin ? t('autoJoinEnabled') : "We'll notify you when a spot opens up!"}
                         </p>
                       </div>
                       <Button
@@ -585,6 +1094,15 @@ export default function SessionDetailPage() {
                           </>
                         )}
                       </Button>
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={autoJoin}
+                          onChange={(e) => setAutoJoin(e.target.checked)}
+                          className="w-4 h-4 rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+                        />
+                        <span className="text-xs text-gray-600">{t('autoJoinLabel')}</span>
+                      </label>
                       <p className="text-xs text-gray-500 text-center">
                         Get notified when a spot opens up
                       </p>
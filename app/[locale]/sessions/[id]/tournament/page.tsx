@@ -0,0 +1,311 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter, useParams, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { useAuth } from '@/app/contexts/AuthContext';
+import { ArrowLeft, Trophy } from 'lucide-react';
+import Button from '@/app/components/ui/Button';
+import Card from '@/app/components/ui/Card';
+import Badge from '@/app/components/ui/Badge';
+import Loading from '@/app/components/ui/Loading';
+import ErrorMessage from '@/app/components/ui/ErrorMessage';
+import { csrfDelete, csrfPatch } from '@/lib/csrfClient';
+import { isResultLocked } from '@/lib/tournaments';
+import type { Participant, Session, Tournament, TournamentMatch } from '@/types';
+
+const playerName = (player: Participant | undefined) => player?.display_name || player?.username || '?';
+
+export default function TournamentPage() {
+  const router = useRouter();
+  const params = useParams();
+  const sessionId = params.id as string;
+  const searchParams = useSearchParams();
+  // Invite link token for invite-only sessions
+  const inviteToken = searchParams?.get('invite') ?? null;
+  const { user } = useAuth();
+  const t = useTranslations('tournament');
+  const tDetail = useTranslations('sessionDetail');
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  // Match id -> score inputs being typed by the host
+  const [scores, setScores] = useState<Record<string, { a: string; b: string }>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setError('');
+    try {
+      const query = inviteToken ? `?invite=${encodeURIComponent(inviteToken)}` : '';
+      const [tournamentResponse, sessionResponse] = await Promise.all([
+        fetch(`/api/sessions/${sessionId}/tournament${query}`),
+        fetch(`/api/sessions/${sessionId}${query}`),
+      ]);
+      if (!tournamentResponse.ok) {
+        throw new Error(tournamentResponse.status === 404 ? t('notFound') : t('loadError'));
+      }
+      const { data } = await tournamentResponse.json();
+      setTournament(data);
+      if (sessionResponse.ok) {
+        setSession(await sessionResponse.json());
+      }
+    } catch (err: any) {
+      setError(err.message || t('loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, inviteToken, t]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Loading text={t('loading')} fullScreen />
+      </div>
+    );
+  }
+
+  if (error || !tournament) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <ErrorMessage message={error || t('notFound')} onRetry={fetchData} />
+        </div>
+      </div>
+    );
+  }
+
+  const isHost = Boolean(
+    user && session && (session.created_by === user.id || session.co_hosts?.some((c) => c.id === user.id))
+  );
+  const players = new Map(tournament.players.map((player) => [player.id, player]));
+  const isElimination = tournament.format === 'SINGLE_ELIMINATION';
+  const hasResults = tournament.matches.some((m) => m.score_a !== null);
+  const canPlay = Boolean(session && new Date(session.date_time) <= new Date());
+  const rounds = Array.from({ length: tournament.round_count }, (_, i) => i + 1);
+
+  const roundLabel = (round: number) =>
+    isElimination && round === tournament.round_count ? t('final') : t('round', { number: round });
+
+  const saveScore = async (match: TournamentMatch) => {
+    const entry = scores[match.id];
+    if (!entry || entry.a === '' || entry.b === '') return;
+    if (isElimination && entry.a === entry.b) {
+      alert(t('drawNotAllowed'));
+      return;
+    }
+
+    setSavingId(match.id);
+    try {
+      await csrfPatch(`/api/sessions/${sessionId}/tournament/matches/${match.id}`, {
+        score_a: parseInt(entry.a),
+        score_b: parseInt(entry.b),
+      });
+      await fetchData();
+    } catch (err: any) {
+      alert(err.message || t('scoreSaveError'));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const clearScore = async (match: TournamentMatch) => {
+    if (!confirm(t('clearScoreConfirm'))) return;
+
+    setSavingId(match.id);
+    try {
+      await csrfDelete(`/api/sessions/${sessionId}/tournament/matches/${match.id}`);
+      await fetchData();
+    } catch (err: any) {
+      alert(err.message || t('clearScoreError'));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm(t('cancelConfirm'))) return;
+    try {
+      await csrfDelete(`/api/sessions/${sessionId}/tournament`);
+      router.push(`/sessions/${sessionId}`);
+    } catch (err: any) {
+      alert(err.message || t('cancelError'));
+    }
+  };
+
+  const renderSide = (playerId: string | null, score: number | null, won: boolean) => (
+    <div className={`flex items-center justify-between gap-2 text-sm ${won ? 'font-semibold text-slate-900' : 'text-slate-600'}`}>
+      <span className="truncate">{playerId ? playerName(players.get(playerId)) : t('tbd')}</span>
+      {score !== null && <span>{score}</span>}
+    </div>
+  );
+
+  const renderMatch = (match: TournamentMatch) => {
+    const isBye = Boolean(match.completed_at) && (!match.player_a_id || !match.player_b_id);
+    const canEnter = isHost && canPlay && !match.completed_at && match.player_a_id && match.player_b_id;
+    const canClear = isHost && !isBye && Boolean(match.completed_at) && !isResultLocked(tournament, match);
+    const entry = scores[match.id] ?? { a: '', b: '' };
+
+    return (
+      <div key={match.id} className="p-3 rounded-xl border border-slate-200 bg-white space-y-1">
+        {isBye ? (
+          <div className="flex items-center justify-between gap-2 text-sm text-slate-700">
+            <span className="truncate">{playerName(players.get((match.player_a_id ?? match.player_b_id)!))}</span>
+            <Badge variant="default" size="sm">{t('bye')}</Badge>
+          </div>
+        ) : (
+          <>
+            {renderSide(match.player_a_id, match.score_a, Boolean(match.winner_id) && match.winner_id === match.player_a_id)}
+            {renderSide(match.player_b_id, match.score_b, Boolean(match.winner_id) && match.winner_id === match.player_b_id)}
+          </>
+        )}
+        {canEnter && (
+          <div className="flex items-center gap-2 pt-2">
+            <input
+              type="number"
+              min={0}
+              value={entry.a}
+              onChange={(e) => setScores({ ...scores, [match.id]: { ...entry, a: e.target.value } })}
+              className="w-16 px-2 py-1 border border-slate-300 rounded-lg text-sm"
+              aria-label={t('scoreFor', { name: playerName(players.get(match.player_a_id!)) })}
+            />
+            <input
+              type="number"
+              min={0}
+              value={entry.b}
+              onChange={(e) => setScores({ ...scores, [match.id]: { ...entry, b: e.target.value } })}
+              className="w-16 px-2 py-1 border border-slate-300 rounded-lg text-sm"
+              aria-label={t('scoreFor', { name: playerName(players.get(match.player_b_id!)) })}
+            />
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => saveScore(match)}
+              loading={savingId === match.id}
+              disabled={savingId !== null || entry.a === '' || entry.b === ''}
+            >
+              {t('saveScore')}
+            </Button>
+          </div>
+        )}
+        {canClear && (
+          <div className="flex justify-end pt-1">
+            <button
+              type="button"
+              onClick={() => clearScore(match)}
+              disabled={savingId !== null}
+              className="text-xs text-slate-500 hover:text-red-600 disabled:opacity-50"
+            >
+              {t('clearScore')}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="flex flex-wrap items-center gap-4 mb-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push(`/sessions/${sessionId}${inviteToken ? `?invite=${encodeURIComponent(inviteToken)}` : ''}`)}
+            className="p-2"
+            aria-label={t('back')}
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-gray-900">{t('title')}</h1>
+            <p className="text-gray-600">
+              {tDetail(`tournamentFormats.${tournament.format}`)}
+              {' · '}
+              {tournament.status === 'COMPLETED'
+                ? tDetail('tournamentCompleted')
+                : t('currentRound', { current: tournament.current_round, total: tournament.round_count })}
+            </p>
+          </div>
+          {isHost && !hasResults && (
+            <Button variant="outline" size="sm" onClick={handleCancel}>
+              {t('cancel')}
+            </Button>
+          )}
+        </div>
+
+        {tournament.winner_id && (
+          <Card padding="lg" className="mb-6">
+            <p className="flex items-center gap-2 text-lg font-semibold text-slate-900">
+              <Trophy className="w-6 h-6 text-yellow-500" />
+              {t('champion', { name: playerName(players.get(tournament.winner_id)) })}
+            </p>
+          </Card>
+        )}
+
+        {isHost && !canPlay && tournament.status !== 'COMPLETED' && (
+          <p className="mb-4 text-sm text-slate-500">{t('scoresAfterStart')}</p>
+        )}
+
+        {/* Bracket: one column per round */}
+        <div className="flex gap-4 overflow-x-auto pb-4 mb-6">
+          {rounds.map((round) => {
+            const roundMatches = tournament.matches.filter((m) => m.round === round);
+            return (
+              <div key={round} className="min-w-[220px] flex-1">
+                <h2 className="text-sm font-semibold text-slate-700 mb-2">{roundLabel(round)}</h2>
+                {roundMatches.length > 0 ? (
+                  <div className={`space-y-3 ${isElimination ? 'flex flex-col justify-around h-full' : ''}`}>
+                    {roundMatches.map(renderMatch)}
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-400">{t('roundPending')}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Standings for points-based formats */}
+        {!isElimination && (
+          <Card padding="lg">
+            <h2 className="text-xl font-semibold mb-4">{t('standings')}</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="py-2 pr-2">#</th>
+                    <th className="py-2 pr-2">{t('standingsPlayer')}</th>
+                    <th className="py-2 pr-2 text-right">{t('standingsPlayed')}</th>
+                    <th className="py-2 pr-2 text-right">{t('standingsWins')}</th>
+                    <th className="py-2 pr-2 text-right">{t('standingsDraws')}</th>
+                    <th className="py-2 pr-2 text-right">{t('standingsLosses')}</th>
+                    <th className="py-2 text-right">{t('standingsPoints')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tournament.standings.map((standing, index) => (
+                    <tr key={standing.player_id} className="border-t border-slate-100">
+                      <td className="py-2 pr-2 text-slate-500">{index + 1}</td>
+                      <td className="py-2 pr-2 font-medium text-slate-900">{playerName(players.get(standing.player_id))}</td>
+                      <td className="py-2 pr-2 text-right">{standing.played}</td>
+                      <td className="py-2 pr-2 text-right">{standing.wins}</td>
+                      <td className="py-2 pr-2 text-right">{standing.draws}</td>
+                      <td className="py-2 pr-2 text-right">{standing.losses}</td>
+                      <td className="py-2 text-right font-semibold">{standing.points}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useState, useEffect, useMemo } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { useAuth } from '@/app/contexts/AuthContext';
-import { ArrowLeft, Calendar, Clock, Users, MapPin, Flame, Coffee, GraduationCap, Languages } from 'lucide-react';
+import { ArrowLeft, Calendar, Clock, Users, MapPin, Flame, Coffee, GraduationCap, Languages, Repeat } from 'lucide-react';
 import Button from '@/app/components/ui/Button';
 import Input from '@/app/components/ui/Input';
 import Select from '@/app/components/ui/Select';
@@ -13,6 +13,8 @@ import Loading from '@/app/components/ui/Loading';
 import ErrorMessage from '@/app/components/ui/ErrorMessage';
 import { getLanguageOptions } from '@/app/components/ui/LanguageFlag';
 import { csrfPost } from '@/lib/csrfClient';
+import { conflictsFromError, describeConflicts } from '@/lib/schedule-conflicts';
+import { DEFAULT_RATING, MAX_MIN_RATING } from '@/lib/ratings';
 
 export default function CreateSessionPage() {
   const router = useRouter();
@@ -24,6 +26,7 @@ export default function CreateSessionPage() {
   const [sportCenters, setSportCenters] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const [savingDraft, setSavingDraft] = useState(false);
   const [error, setError] = useState('');
   const [isDirty, setIsDirty] = useState(false);
 
@@ -35,12 +38,21 @@ export default function CreateSessionPage() {
     time: '',
     duration_minutes: '120',
     max_participants: '8',
+    min_participants: '',
+    decide_by_hours: '24',
     description_en: '',
     description_ja: '',
     // Language exchange & vibe fields
     primary_language: 'ja',
     allow_english: false,
     vibe: 'CASUAL',
+    min_rating: '',
+    visibility: 'PUBLIC',
+    requires_approval: false,
+    // Recurring series fields
+    repeat: 'NONE',
+    repeat_count: '8',
+    repeat_until: '',
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -69,6 +81,15 @@ export default function CreateSessionPage() {
     { value: '180', label: t('threeHours') },
   ], [t]);
 
+  const decideByOptions = useMemo(() => [
+    { value: '3', label: t('decideByHours', { count: 3 }) },
+    { value: '6', label: t('decideByHours', { count: 6 }) },
+    { value: '12', label: t('decideByHours', { count: 12 }) },
+    { value: '24', label: t('decideByHours', { count: 24 }) },
+    { value: '48', label: t('decideByHours', { count: 48 }) },
+    { value: '72', label: t('decideByHours', { count: 72 }) },
+  ], [t]);
+
   const vibes = useMemo(() => [
     { value: 'COMPETITIVE', label: t('vibeCompetitive') },
     { value: 'CASUAL', label: t('vibeCasual') },
@@ -76,6 +97,19 @@ export default function CreateSessionPage() {
     { value: 'LANGUAGE_EXCHANGE', label: t('vibeLanguageExchange') },
   ], [t]);
 
+  const visibilities = useMemo(() => [
+    { value: 'PUBLIC', label: t('visibilityPublic') },
+    { value: 'UNLISTED', label: t('visibilityUnlisted') },
+    { value: 'INVITE_ONLY', label: t('visibilityInviteOnly') },
+  ], [t]);
+
+  const repeatOptions = useMemo(() => [
+    { value: 'NONE', label: t('repeatNone') },
+    { value: 'WEEKLY', label: t('repeatWeekly') },
+    { value: 'BIWEEKLY', label: t('repeatBiweekly') },
+    { value: 'MONTHLY', label: t('repeatMonthly') },
+  ], [t]);
+
   const languages = useMemo(() => {
     const languageOptions = getLanguageOptions();
     if (!Array.isArray(languageOptions)) return [];
@@ -154,6 +188,26 @@ export default function CreateSessionPage() {
     if (formData.max_participants && parseInt(formData.max_participants) < 2) {
       newErrors.max_participants = t('mustAllow2Participants');
     }
+    if (formData.min_participants) {
+      const min = parseInt(formData.min_participants);
+      if (min < 2) {
+        newErrors.min_participants = t('mustAllow2Participants');
+      } else if (formData.max_participants && min > parseInt(formData.max_participants)) {
+        newErrors.min_participants = t('minExceedsMax');
+      }
+    }
+    if (formData.vibe === 'COMPETITIVE' && formData.min_rating) {
+      const minRating = parseInt(formData.min_rating);
+      if (isNaN(minRating) || minRating < 0 || minRating > MAX_MIN_RATING) {
+        newErrors.min_rating = t('minRatingInvalid', { max: MAX_MIN_RATING });
+      }
+    }
+    if (formData.repeat !== 'NONE') {
+      const count = parseInt(formData.repeat_count);
+      if (!formData.repeat_until && (!count || count < 2)) {
+        newErrors.repeat_count = t('repeatEndRequired');
+      }
+    }
     if (!formData.description_en && !formData.description_ja) {
       newErrors.description_ja = 'セッションの説明を入力してください (Description is required)';
     }
@@ -164,38 +218,65 @@ export default function CreateSessionPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    await submitSession('PUBLISHED');
+  };
 
+  // Drafts are saved with the same validation but stay hidden until published
+  const submitSession = async (status: 'DRAFT' | 'PUBLISHED') => {
     if (!validateForm()) {
       return;
     }
 
-    setSubmitting(true);
+    const setBusy = status === 'DRAFT' ? setSavingDraft : setSubmitting;
+    setBusy(true);
     setError('');
 
     try {
       const dateTime = new Date(formData.date + 'T' + formData.time);
 
-      const session = await csrfPost('/api/sessions', {
+      const payload = {
         sport_center_id: formData.sport_center_id,
         sport_type: formData.sport_type,
         skill_level: formData.skill_level,
         date_time: dateTime.toISOString(),
         duration_minutes: parseInt(formData.duration_minutes),
         max_participants: formData.max_participants ? parseInt(formData.max_participants) : null,
+        min_participants: formData.min_participants ? parseInt(formData.min_participants) : null,
+        decide_by_hours: parseInt(formData.decide_by_hours),
         description_en: formData.description_en || undefined,
         description_ja: formData.description_ja || undefined,
         // Language exchange & vibe fields
         primary_language: formData.primary_language,
         allow_english: formData.allow_english,
         vibe: formData.vibe,
-      });
+        min_rating: formData.vibe === 'COMPETITIVE' && formData.min_rating ? parseInt(formData.min_rating) : null,
+        status,
+        visibility: formData.visibility,
+        requires_approval: formData.requires_approval,
+        recurrence: formData.repeat !== 'NONE' ? {
+          frequency: formData.repeat,
+          count: formData.repeat_count ? parseInt(formData.repeat_count) : undefined,
+          ends_at: formData.repeat_until || undefined,
+        } : undefined,
+      };
+
+      let session;
+      try {
+        session = await csrfPost('/api/sessions', payload);
+      } catch (createError) {
+        // Clashes with the host's schedule need confirming first
+        const conflicts = conflictsFromError(createError);
+        if (!conflicts) throw createError;
+        if (!confirm(t('scheduleConflictConfirm', { sessions: describeConflicts(conflicts) }))) return;
+        session = await csrfPost('/api/sessions', { ...payload, allow_conflicts: true });
+      }
 
       router.push(`/${locale}/sessions/${session.id}`);
     } catch (err: any) {
       console.error('Error creating session:', err);
       setError(err.message || 'セッションの作成に失敗しました。詳細を確認してください。');
     } finally {
-      setSubmitting(false);
+      setBusy(false);
     }
   };
 
@@ -307,6 +388,57 @@ export default function CreateSessionPage() {
               options={vibes}
             />
 
+            {/* Minimum rating - competitive sessions only */}
+            {formData.vibe === 'COMPETITIVE' && (
+              <div className="flex flex-col gap-1">
+                <Input
+                  label={t('minRatingOptional')}
+                  name="min_rating"
+                  type="number"
+                  value={formData.min_rating}
+                  onChange={handleChange}
+                  placeholder={`e.g., ${DEFAULT_RATING + 100}`}
+                  min="0"
+                  max={MAX_MIN_RATING}
+                  fullWidth
+                  error={errors.min_rating}
+                />
+                <p className="text-xs text-gray-500">{t('minRatingDesc', { rating: DEFAULT_RATING })}</p>
+              </div>
+            )}
+
+            {/* Visibility */}
+            <div className="flex flex-col gap-1">
+              <Select
+                label={t('visibility')}
+                name="visibility"
+                value={formData.visibility}
+                onChange={handleChange}
+                fullWidth
+                options={visibilities}
+              />
+              <p className="text-xs text-gray-500">
+                {t(`visibilityDesc.${formData.visibility}`)}
+              </p>
+            </div>
+
+            {/* Host approval */}
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                name="requires_approval"
+                checked={formData.requires_approval}
+                onChange={handleChange}
+                className="w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <div>
+                <span className="text-sm font-medium text-gray-700">{t('requiresApproval')}</span>
+                <p className="text-xs text-gray-500">
+                  {t('requiresApprovalDesc')}
+                </p>
+              </div>
+            </label>
+
             {/* Language Settings */}
             <div className="space-y-4 p-4 bg-slate-50 rounded-lg border border-slate-200">
               <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
@@ -385,6 +517,52 @@ export default function CreateSessionPage() {
               </div>
             </div>
 
+            {/* Repeat */}
+            <div className="space-y-4 p-4 bg-slate-50 rounded-lg border border-slate-200">
+              <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                <Repeat className="w-4 h-4" />
+                {t('repeatSettings')}
+              </h3>
+
+              <Select
+                label={t('repeat')}
+                name="repeat"
+                value={formData.repeat}
+                onChange={handleChange}
+                fullWidth
+                options={repeatOptions}
+              />
+
+              {formData.repeat !== 'NONE' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <Input
+                    label={t('repeatCount')}
+                    name="repeat_count"
+                    type="number"
+                    value={formData.repeat_count}
+                    onChange={handleChange}
+                    min="2"
+                    max="52"
+                    fullWidth
+                    error={errors.repeat_count}
+                  />
+                  <div className="flex flex-col gap-1">
+                    <label className="text-sm font-medium text-gray-700">
+                      {t('repeatUntil')}
+                    </label>
+                    <input
+                      type="date"
+                      name="repeat_until"
+                      value={formData.repeat_until}
+                      onChange={handleChange}
+                      min={formData.date || today}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 min-h-[44px]"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* Duration */}
             <Select
               label={t('duration')}
@@ -409,6 +587,34 @@ export default function CreateSessionPage() {
               error={errors.max_participants}
             />
 
+            {/* Minimum Participants */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input
+                label={t('minParticipantsOptional')}
+                name="min_participants"
+                type="number"
+                value={formData.min_participants}
+                onChange={handleChange}
+                placeholder="e.g., 4"
+                min="2"
+                fullWidth
+                error={errors.min_participants}
+              />
+              {formData.min_participants && (
+                <Select
+                  label={t('decideBy')}
+                  name="decide_by_hours"
+                  value={formData.decide_by_hours}
+                  onChange={handleChange}
+                  fullWidth
+                  options={decideByOptions}
+                />
+              )}
+            </div>
+            {formData.min_participants && (
+              <p className="text-xs text-gray-500 -mt-2">{t('minParticipantsDesc')}</p>
+            )}
+
             {/* Description (English) */}
             <div className="flex flex-col gap-1">
               <label className="text-sm font-medium text-gray-700">
@@ -462,10 +668,21 @@ export default function CreateSessionPage() {
               >
                 {tCommon('cancel')}
               </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => submitSession('DRAFT')}
+                loading={savingDraft}
+                disabled={submitting}
+                fullWidth
+              >
+                {t('saveDraftButton')}
+              </Button>
               <Button
                 type="submit"
                 variant="primary"
                 loading={submitting}
+                disabled={savingDraft}
                 fullWidth
               >
                 {t('createButton')}
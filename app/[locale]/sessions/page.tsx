@@ -10,9 +10,11 @@ import Select from '@/app/components/ui/Select';
 import Input from '@/app/components/ui/Input';
 import Button from '@/app/components/ui/Button';
 import Loading from '@/app/components/ui/Loading';
+import SavedSearches, { BrowseFilters } from '@/app/components/sessions/SavedSearches';
 import { Search, Filter, Plus, RefreshCw, Calendar } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { toArray } from '@/lib/utils/toArray';
+import { useBusySessions } from '@/lib/hooks/useBusySessions';
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -30,19 +32,28 @@ export default function SessionsPage() {
   const locale = params.locale as string;
   const t = useTranslations('browseSessions');
   const { user } = useAuth();
+  const isBusy = useBusySessions(Boolean(user));
   const [sessions, setSessions] = useState<Session[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
+  // The query last submitted, so typing doesn't refetch on every keystroke
+  const [submittedSearch, setSubmittedSearch] = useState('');
   const [sportFilter, setSportFilter] = useState<string>('all');
   const [skillFilter, setSkillFilter] = useState<string>('all');
+  const [vibeFilter, setVibeFilter] = useState<string>('all');
+  const [englishOnly, setEnglishOnly] = useState(false);
+  // Hide competitive sessions whose minimum rating the user doesn't meet
+  const [eligibleOnly, setEligibleOnly] = useState(false);
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [showFilters, setShowFilters] = useState(false);
+  // 'default' keeps the API's order (soonest first, or most relevant when searching)
+  const [sortOrder, setSortOrder] = useState<'default' | 'host_rating'>('default');
 
   useEffect(() => {
     fetchSessions();
-  }, [sportFilter, skillFilter, startDate, endDate]);
+  }, [submittedSearch, sportFilter, skillFilter, vibeFilter, englishOnly, eligibleOnly, startDate, endDate, sortOrder]);
 
   const fetchSessions = async () => {
     try {
@@ -53,9 +64,13 @@ export default function SessionsPage() {
       const params = new URLSearchParams();
       if (sportFilter !== 'all') params.append('sport_type', sportFilter);
       if (skillFilter !== 'all') params.append('skill_level', skillFilter);
-      if (searchQuery) params.append('search', searchQuery);
+      if (vibeFilter !== 'all') params.append('vibe', vibeFilter);
+      if (englishOnly) params.append('allow_english', 'true');
+      if (eligibleOnly) params.append('eligible', 'true');
+      if (submittedSearch) params.append('search', submittedSearch);
       if (startDate) params.append('start_date', startDate);
       if (endDate) params.append('end_date', endDate);
+      if (sortOrder !== 'default') params.append('sort', sortOrder);
 
       const response = await fetch(`/api/sessions?${params}`);
       if (!response.ok) throw new Error('Failed to fetch sessions');
@@ -72,17 +87,40 @@ export default function SessionsPage() {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    fetchSessions();
+    if (searchQuery === submittedSearch) {
+      fetchSessions();
+    } else {
+      setSubmittedSearch(searchQuery);
+    }
+  };
+
+  const applyFilters = (filters: BrowseFilters) => {
+    setSearchQuery(filters.search);
+    setSubmittedSearch(filters.search);
+    setSportFilter(filters.sportType);
+    setSkillFilter(filters.skillLevel);
+    setVibeFilter(filters.vibe);
+    setEnglishOnly(filters.allowEnglish);
+    setStartDate(filters.startDate);
+    setEndDate(filters.endDate);
   };
 
   const clearFilters = () => {
-    setSearchQuery('');
-    setSportFilter('all');
-    setSkillFilter('all');
-    setStartDate('');
-    setEndDate('');
+    setEligibleOnly(false);
+    applyFilters({
+      search: '',
+      sportType: 'all',
+      skillLevel: 'all',
+      vibe: 'all',
+      allowEnglish: false,
+      startDate: '',
+      endDate: '',
+    });
   };
 
+  const hasFilters = sportFilter !== 'all' || skillFilter !== 'all' || vibeFilter !== 'all' ||
+    englishOnly || eligibleOnly || startDate || endDate;
+
   return (
     <div className="min-h-screen bg-slate-50 py-4 sm:py-6 md:py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -166,6 +204,39 @@ export default function SessionsPage() {
                     { value: 'advanced', label: t('skillLevels.advanced') },
                   ]}
                 />
+                <Select
+                  label={t('vibe')}
+                  value={vibeFilter}
+                  onChange={(e) => setVibeFilter(e.target.value)}
+                  fullWidth
+                  options={[
+                    { value: 'all', label: t('allVibes') },
+                    { value: 'CASUAL', label: t('vibes.casual') },
+                    { value: 'COMPETITIVE', label: t('vibes.competitive') },
+                    { value: 'ACADEMY', label: t('vibes.academy') },
+                    { value: 'LANGUAGE_EXCHANGE', label: t('vibes.languageExchange') },
+                  ]}
+                />
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-700 md:mt-7">
+                  <input
+                    type="checkbox"
+                    checked={englishOnly}
+                    onChange={(e) => setEnglishOnly(e.target.checked)}
+                    className="w-4 h-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  {t('englishFriendlyOnly')}
+                </label>
+                {user && (
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-700 md:mt-7">
+                    <input
+                      type="checkbox"
+                      checked={eligibleOnly}
+                      onChange={(e) => setEligibleOnly(e.target.checked)}
+                      className="w-4 h-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    {t('eligibleOnly')}
+                  </label>
+                )}
               </div>
 
               {/* Date Range Filter */}
@@ -199,7 +270,7 @@ export default function SessionsPage() {
               </div>
 
               {/* Clear Filters Button */}
-              {(sportFilter !== 'all' || skillFilter !== 'all' || startDate || endDate) && (
+              {hasFilters && (
                 <div className="flex justify-end">
                   <Button
                     type="button"
@@ -213,6 +284,21 @@ export default function SessionsPage() {
               )}
             </div>
           )}
+
+          {user && (
+            <SavedSearches
+              filters={{
+                search: submittedSearch,
+                sportType: sportFilter,
+                skillLevel: skillFilter,
+                vibe: vibeFilter,
+                allowEnglish: englishOnly,
+                startDate,
+                endDate,
+              }}
+              onApply={applyFilters}
+            />
+          )}
         </div>
 
         {/* Error State */}
@@ -241,8 +327,19 @@ export default function SessionsPage() {
         ) : (
           <>
             {/* Results */}
-            <div className="mb-4 text-slate-600 text-sm sm:text-base">
-              {t(sessions.length === 1 ? 'sessionsFound' : 'sessionsFoundPlural', { count: sessions.length })}
+            <div className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <span className="text-slate-600 text-sm sm:text-base">
+                {t(sessions.length === 1 ? 'sessionsFound' : 'sessionsFoundPlural', { count: sessions.length })}
+              </span>
+              <Select
+                aria-label={t('sortBy')}
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value as 'default' | 'host_rating')}
+                options={[
+                  { value: 'default', label: t(submittedSearch ? 'sortOptions.relevance' : 'sortOptions.date') },
+                  { value: 'host_rating', label: t('sortOptions.hostRating') },
+                ]}
+              />
             </div>
 
             {/* Sessions Grid */}
@@ -251,11 +348,11 @@ export default function SessionsPage() {
               variants={containerVariants}
               initial="hidden"
               animate="visible"
-              key={`${sportFilter}-${skillFilter}-${startDate}-${endDate}`}
+              key={`${submittedSearch}-${sportFilter}-${skillFilter}-${vibeFilter}-${englishOnly}-${startDate}-${endDate}-${sortOrder}`}
             >
               {sessions.map((session) => (
                 <motion.div key={session.id} variants={cardVariants}>
-                  <SessionCard session={session} />
+                  <SessionCard session={session} busy={isBusy(session)} />
                 </motion.div>
               ))}
             </motion.div>
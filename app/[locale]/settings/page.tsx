@@ -4,16 +4,21 @@ import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { useAuth } from '@/app/contexts/AuthContext';
-import { Bell, Globe, Save, FileText, Shield, ChevronRight } from 'lucide-react';
+import { Bell, Globe, Save, FileText, Shield, ChevronRight, Timer } from 'lucide-react';
 import Link from 'next/link';
 import Button from '@/app/components/ui/Button';
 import Card from '@/app/components/ui/Card';
 import Select from '@/app/components/ui/Select';
 import Loading from '@/app/components/ui/Loading';
 import ErrorMessage from '@/app/components/ui/ErrorMessage';
+import CalendarFeedSettings from '@/app/components/settings/CalendarFeedSettings';
 import { csrfPatch } from '@/lib/csrfClient';
+import { DEFAULT_TRAVEL_BUFFER_MINUTES } from '@/lib/schedule-conflicts';
 import { motion } from 'framer-motion';
 
+/** Travel buffer choices in minutes (the API accepts 0-180) */
+const TRAVEL_BUFFER_OPTIONS = [0, 15, 30, 45, 60, 90, 120];
+
 const sectionVariants = {
   hidden: { opacity: 0, y: 16 },
   visible: (i: number) => ({
@@ -39,6 +44,7 @@ export default function SettingsPage() {
     language_preference: 'en',
     notification_email: true,
     notification_push: true,
+    travel_buffer_minutes: DEFAULT_TRAVEL_BUFFER_MINUTES,
   });
 
   useEffect(() => {
@@ -57,6 +63,7 @@ export default function SettingsPage() {
         language_preference: data.language_preference || 'en',
         notification_email: data.notification_email ?? true,
         notification_push: data.notification_push ?? true,
+        travel_buffer_minutes: data.travel_buffer_minutes ?? DEFAULT_TRAVEL_BUFFER_MINUTES,
       });
     } catch (err) {
       console.error('Error fetching profile:', err);
@@ -231,6 +238,37 @@ export default function SettingsPage() {
           </Card>
           </motion.div>
 
+          {/* Schedule Preferences */}
+          <motion.div custom={2} variants={sectionVariants} initial="hidden" animate="visible">
+          <Card padding="lg">
+            <div className="flex items-start gap-4">
+              <div className="flex-shrink-0 w-10 h-10 rounded-full bg-amber-100 flex items-center justify-center">
+                <Timer className="w-5 h-5 text-amber-600" />
+              </div>
+              <div className="flex-1">
+                <h2 className="text-lg font-semibold text-slate-900 mb-4">
+                  {t('schedule.title')}
+                </h2>
+                <Select
+                  label={t('schedule.travelBuffer')}
+                  value={String(settings.travel_buffer_minutes)}
+                  onChange={(e) =>
+                    handleChange('travel_buffer_minutes', parseInt(e.target.value, 10))
+                  }
+                  fullWidth
+                  options={TRAVEL_BUFFER_OPTIONS.map((minutes) => ({
+                    value: String(minutes),
+                    label: minutes === 0 ? t('schedule.noBuffer') : t('schedule.minutes', { count: minutes }),
+                  }))}
+                />
+                <p className="text-sm text-slate-600 mt-2">
+                  {t('schedule.description')}
+                </p>
+              </div>
+            </div>
+          </Card>
+          </motion.div>
+
           {/* Save Button */}
           <div className="flex justify-end sm:justify-end">
             <Button
@@ -245,8 +283,13 @@ export default function SettingsPage() {
           </div>
         </form>
 
+        {/* Calendar Feed */}
+        <motion.div custom={3} variants={sectionVariants} initial="hidden" animate="visible" className="mt-6">
+          <CalendarFeedSettings />
+        </motion.div>
+
         {/* Legal Section */}
-        <motion.div custom={2} variants={sectionVariants} initial="hidden" animate="visible" className="mt-8">
+        <motion.div custom={4} variants={sectionVariants} initial="hidden" animate="visible" className="mt-8">
           <h2 className="text-lg font-semibold text-slate-900 mb-4">{t('legal.title')}</h2>
           <Card padding="none">
             <Link
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import SessionCard from '@/app/components/SessionCard';
+import StarRating from '@/app/components/sessions/StarRating';
+import Loading from '@/app/components/ui/Loading';
+import ErrorMessage from '@/app/components/ui/ErrorMessage';
+import Button from '@/app/components/ui/Button';
+import { SportCenterDetail } from '@/types';
+import { ArrowLeft, MapPin, Train, CalendarX } from 'lucide-react';
+
+export default function SportCenterPage() {
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as string;
+  const id = params.id as string;
+  const t = useTranslations('sportCenter');
+  const [sportCenter, setSportCenter] = useState<SportCenterDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchSportCenter();
+  }, [id]);
+
+  const fetchSportCenter = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await fetch(`/api/sport-centers/${id}`);
+      if (response.status === 404) throw new Error(t('notFound'));
+      if (!response.ok) throw new Error(t('failedToLoad'));
+      const { data } = await response.json();
+      setSportCenter(data);
+    } catch (err: any) {
+      console.error('Error fetching sport center:', err);
+      setError(err.message || t('failedToLoad'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loading text={t('loading')} />
+      </div>
+    );
+  }
+
+  if (error || !sportCenter) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <ErrorMessage message={error || t('notFound')} onRetry={fetchSportCenter} />
+        </div>
+      </div>
+    );
+  }
+
+  const isJa = locale === 'ja';
+  const name = isJa ? sportCenter.name_ja : sportCenter.name_en;
+  const address = isJa ? sportCenter.address_ja : sportCenter.address_en;
+  const station = isJa ? sportCenter.station_ja : sportCenter.station_en;
+  const reviewCount = sportCenter.review_count ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-4 mb-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="p-2"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-3xl font-bold text-gray-900">{name}</h1>
+          </div>
+          <div className="ml-12 space-y-1 text-gray-600">
+            <p className="flex items-center gap-2">
+              <MapPin className="w-4 h-4" />
+              {address}
+            </p>
+            {station && (
+              <p className="flex items-center gap-2">
+                <Train className="w-4 h-4" />
+                {station}
+              </p>
+            )}
+            <div className="flex items-center gap-2 pt-1">
+              {reviewCount > 0 && sportCenter.rating_avg != null ? (
+                <>
+                  <StarRating rating={Math.round(sportCenter.rating_avg)} size="sm" />
+                  <span className="font-medium text-gray-900">{sportCenter.rating_avg.toFixed(1)}</span>
+                  <span className="text-sm">{t('reviewCount', { count: reviewCount })}</span>
+                </>
+              ) : (
+                <span className="text-sm">{t('noReviews')}</span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Upcoming sessions */}
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('upcomingSessions')}</h2>
+        {sportCenter.upcoming_sessions.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarX className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600 mb-6">{t('noUpcomingSessions')}</p>
+            <Button
+              variant="primary"
+              onClick={() => router.push(`/${locale}/sessions`)}
+            >
+              {t('browseSessions')}
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {sportCenter.upcoming_sessions.map((session) => (
+              <SessionCard key={session.id} session={session} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/admin';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/attendance-finalizations - Sessions whose attendance was
+ * finalized automatically, newest first, with pagination (admin)
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Require admin access
+    await requireAdmin(user?.id);
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const skip = (page - 1) * limit;
+
+    const [finalizations, totalCount] = await Promise.all([
+      prisma.attendanceFinalization.findMany({
+        include: {
+          session: {
+            select: {
+              id: true,
+              sport_type: true,
+              date_time: true,
+              sport_center: {
+                select: { name_en: true },
+              },
+              creator: {
+                select: {
+                  id: true,
+                  username: true,
+                  display_name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: {
+          created_at: 'desc',
+        },
+        skip,
+        take: limit,
+      }),
+      prisma.attendanceFinalization.count(),
+    ]);
+
+    return NextResponse.json({
+      finalizations,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching attendance finalizations:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json({ error: 'Failed to fetch attendance finalizations' }, { status: 500 });
+  }
+}
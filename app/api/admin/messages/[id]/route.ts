@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/admin';
+
+export const dynamic = 'force-dynamic';
+
+const userSummary = {
+  select: {
+    id: true,
+    username: true,
+    display_name: true,
+    email: true,
+  },
+};
+
+/**
+ * GET /api/admin/messages/[id] - A message with its edit and deletion
+ * history, oldest first (admin)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Require admin access
+    await requireAdmin(user?.id);
+
+    const { id } = await params;
+
+    const message = await prisma.message.findUnique({
+      where: { id },
+      include: {
+        sender: userSummary,
+        revisions: {
+          include: { actor: userSummary },
+          orderBy: { created_at: 'asc' },
+        },
+      },
+    });
+
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: message });
+  } catch (error: any) {
+    console.error('Error fetching message history:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch message history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { reverseNoShow } from '@/lib/reliability';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for deciding an appeal
+const DecideAppealSchema = z.object({
+  status: z.enum(['APPROVED', 'REJECTED']),
+  admin_note: z.string().trim().max(1000, 'Note must be 1000 characters or less').optional(),
+});
+
+/**
+ * PATCH /api/admin/reliability-appeals/[id] - Approve or reject a no-show
+ * appeal (admin). Approving reverses the no-show and restores the score.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Require admin access
+    await requireAdmin(user?.id);
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = DecideAppealSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { status, admin_note } = validationResult.data;
+    const now = new Date();
+
+    const appeal = await prisma.$transaction(async (tx: any) => {
+      const existing = await tx.reliabilityAppeal.findUnique({
+        where: { id },
+        include: { event: true },
+      });
+
+      if (!existing) {
+        throw new Error('APPEAL_NOT_FOUND');
+      }
+
+      if (existing.status !== 'PENDING') {
+        throw new Error('ALREADY_DECIDED');
+      }
+
+      const updated = await tx.reliabilityAppeal.update({
+        where: { id },
+        data: {
+          status,
+          admin_note: admin_note || null,
+          reviewed_by: user!.id,
+          reviewed_at: now,
+        },
+      });
+
+      let scoreAfter: number | null = null;
+      if (status === 'APPROVED' && !existing.event.reversed_at) {
+        const reversal = await reverseNoShow(tx, existing.event, admin_note || null, now);
+        scoreAfter = reversal?.score_after ?? null;
+      }
+
+      await tx.notification.create({
+        data: {
+          user_id: existing.user_id,
+          type: 'reliability_appeal',
+          title: status === 'APPROVED' ? 'Appeal Approved' : 'Appeal Rejected',
+          message: status === 'APPROVED'
+            ? `Your no-show appeal was approved and the no-show has been removed.${scoreAfter !== null ? ` Your reliability score is now ${scoreAfter}.` : ''}`
+            : `Your no-show appeal was rejected.${admin_note ? ` Note: ${admin_note}` : ''}`,
+          link: '/profile',
+        },
+      });
+
+      return updated;
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json({ data: appeal });
+  } catch (error: any) {
+    console.error('Error deciding reliability appeal:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error.message === 'APPEAL_NOT_FOUND') {
+      return NextResponse.json({ error: 'Appeal not found' }, { status: 404 });
+    }
+    if (error.message === 'ALREADY_DECIDED') {
+      return NextResponse.json(
+        { error: 'This appeal has already been decided' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Failed to update appeal' }, { status: 500 });
+  }
+}
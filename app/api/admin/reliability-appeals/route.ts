@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/admin';
+
+export const dynamic = 'force-dynamic';
+
+const APPEAL_STATUSES = ['PENDING', 'APPROVED', 'REJECTED'];
+
+/**
+ * GET /api/admin/reliability-appeals - No-show appeals, oldest pending first,
+ * optionally filtered by status, with pagination (admin)
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Require admin access
+    await requireAdmin(user?.id);
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const status = searchParams.get('status');
+
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+    if (status && APPEAL_STATUSES.includes(status)) {
+      where.status = status;
+    }
+
+    const [appeals, totalCount] = await Promise.all([
+      prisma.reliabilityAppeal.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              display_name: true,
+              email: true,
+              reliability_score: true,
+              no_show_count: true,
+            },
+          },
+          event: {
+            select: {
+              id: true,
+              delta: true,
+              recovered_points: true,
+              reversed_at: true,
+              created_at: true,
+              session: {
+                select: {
+                  id: true,
+                  sport_type: true,
+                  date_time: true,
+                  sport_center: {
+                    select: { name_en: true },
+                  },
+                },
+              },
+            },
+          },
+          reviewer: {
+            select: {
+              id: true,
+              username: true,
+              display_name: true,
+            },
+          },
+        },
+        orderBy: [
+          { status: 'asc' }, // PENDING first
+          { created_at: 'asc' },
+        ],
+        skip,
+        take: limit,
+      }),
+      prisma.reliabilityAppeal.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      appeals,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching reliability appeals:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json({ error: 'Failed to fetch reliability appeals' }, { status: 500 });
+  }
+}
@@ -40,7 +40,7 @@ export async function GET(request: Request) {
       where.status = status;
     }
 
-    if (entityType && ['USER', 'SESSION'].includes(entityType)) {
+    if (entityType && ['USER', 'SESSION', 'REVIEW'].includes(entityType)) {
       where.entity_type = entityType;
     }
 
@@ -84,6 +84,25 @@ export async function GET(request: Request) {
             },
           },
         },
+        review: {
+          select: {
+            id: true,
+            rating: true,
+            comment: true,
+            host_reply: true,
+            hidden_at: true,
+            hidden_reason: true,
+            created_at: true,
+            session_id: true,
+            user: {
+              select: {
+                id: true,
+                display_name: true,
+                username: true,
+              },
+            },
+          },
+        },
       },
     });
 
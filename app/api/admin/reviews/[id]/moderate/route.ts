@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { canModerate, moderateReview, REVIEW_MODERATION_ACTIONS } from '@/lib/review-moderation';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for moderating a review
+const ModerateReviewSchema = z.object({
+  action: z.enum(REVIEW_MODERATION_ACTIONS, {
+    message: 'Invalid action. Must be HIDE, RESTORE or DELETE',
+  }),
+  reason: z.string().trim().min(1, 'A reason is required').max(1000, 'Reason must be 1000 characters or less'),
+  report_id: z.string().uuid('Invalid report ID').optional(),
+});
+
+/**
+ * POST /api/admin/reviews/[id]/moderate - Hide, restore or delete a review
+ * with a recorded reason (admin)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Require admin access
+    await requireAdmin(user?.id);
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const validationResult = ModerateReviewSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { action, reason, report_id } = validationResult.data;
+
+    const review = await prisma.$transaction(async (tx: any) => {
+      const existing = await tx.review.findUnique({ where: { id } });
+
+      if (!existing) {
+        throw new Error('REVIEW_NOT_FOUND');
+      }
+
+      if (!canModerate(existing, action)) {
+        throw new Error('INVALID_STATE');
+      }
+
+      return moderateReview(tx, existing, action, reason, user!.id, report_id ?? null);
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json({ success: true, data: review });
+  } catch (error: any) {
+    console.error('Error moderating review:', error);
+
+    if (error.message?.includes('Unauthorized') || error.message?.includes('Forbidden')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error.message === 'REVIEW_NOT_FOUND') {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+    if (error.message === 'INVALID_STATE') {
+      return NextResponse.json(
+        { error: 'The review is already in that state' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Failed to moderate review' }, { status: 500 });
+  }
+}
@@ -3,12 +3,22 @@ import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
 import { z } from 'zod';
 import { ensureUserExists } from '@/lib/ensure-user';
+import { activeHoldWhere, promoteFromWaitlist } from '@/lib/waitlist';
+import { findValidInvite } from '@/lib/invites';
+import { createJoinRequest } from '@/lib/join-requests';
+import { transferOwnership } from '@/lib/session-hosts';
+import { checkJoinEligibility, findJoinConflicts } from '@/lib/join-eligibility';
 
 export const dynamic = 'force-dynamic';
 
 // Zod schemas for input validation
 const AttendanceSchema = z.object({
   session_id: z.string().uuid('Invalid session ID format'),
+  invite_token: z.string().max(200).optional(),
+  // Note to the host when the session requires approval
+  message: z.string().max(500, 'Message too long').optional(),
+  // Join even though the session clashes with the user's schedule
+  allow_conflicts: z.boolean().optional(),
 });
 
 // POST /api/attendance - Mark attendance for a session
@@ -32,7 +42,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: errors }, { status: 400 });
     }
 
-    const { session_id } = validationResult.data;
+    const { session_id, invite_token, message, allow_conflicts } = validationResult.data;
 
     // CRITICAL: Ensure user exists in database before creating attendance
     // This prevents P2003 foreign key constraint errors
@@ -54,7 +64,11 @@ export async function POST(request: Request) {
         where: { id: session_id },
         include: {
           _count: {
-            select: { user_sessions: true },
+            select: {
+              user_sessions: true,
+              // Spots reserved for promoted waitlist users count as taken
+              waitlist: { where: activeHoldWhere() },
+            },
           },
         },
       });
@@ -63,15 +77,46 @@ export async function POST(request: Request) {
         throw new Error('SESSION_NOT_FOUND');
       }
 
+      // Drafts, cancelled and completed sessions cannot be joined
+      if (session.status !== 'PUBLISHED') {
+        throw new Error('SESSION_NOT_OPEN');
+      }
+
       // Check if session is in the past (cannot join past sessions)
       if (new Date(session.date_time) < new Date()) {
         throw new Error('SESSION_PAST');
       }
 
+      // A user holding a reserved spot may always claim it
+      const waitlistEntry = await tx.waitlist.findUnique({
+        where: {
+          session_id_user_id: {
+            session_id,
+            user_id: user.id,
+          },
+        },
+      });
+      const hasActiveHold = Boolean(
+        waitlistEntry?.notified &&
+        waitlistEntry.hold_expires_at &&
+        new Date(waitlistEntry.hold_expires_at) > new Date()
+      );
+
+      // Invite-only sessions need a valid invite link. The host and users
+      // already on the waitlist (who needed an invite to get there) are exempt.
+      let invite = null;
+      if (session.visibility === 'INVITE_ONLY' && session.created_by !== user.id && !waitlistEntry) {
+        invite = await findValidInvite(tx, session_id, invite_token);
+        if (!invite) {
+          throw new Error('INVITE_REQUIRED');
+        }
+      }
+
       // Check if session is full
       if (
         session.max_participants &&
-        session._count.user_sessions >= session.max_participants
+        !hasActiveHold &&
+        session._count.user_sessions + session._count.waitlist >= session.max_participants
       ) {
         throw new Error('SESSION_FULL');
       }
@@ -90,6 +135,37 @@ export async function POST(request: Request) {
         throw new Error('ALREADY_JOINED');
       }
 
+      await checkJoinEligibility(tx, session, user.id);
+
+      // Warn about clashes with the user's other sessions until confirmed
+      if (!allow_conflicts) {
+        const conflicts = await findJoinConflicts(tx, session, user.id);
+        if (conflicts.length > 0) {
+          return { attendance: null, joinRequest: null, conflicts };
+        }
+      }
+
+      if (invite) {
+        await tx.sessionInvite.update({
+          where: { id: invite.id },
+          data: { use_count: { increment: 1 } },
+        });
+      }
+
+      // Sessions requiring approval get a pending request instead of a spot.
+      // Any waitlist hold is kept until the host decides.
+      if (session.requires_approval && session.created_by !== user.id) {
+        const joinRequest = await createJoinRequest(tx, {
+          sessionId: session_id,
+          userId: user.id,
+          hostId: session.created_by,
+          sportType: session.sport_type,
+          message,
+        });
+
+        return { attendance: null, joinRequest, conflicts: [] };
+      }
+
       // Create attendance record within the same transaction
       const attendance = await tx.userSession.create({
         data: {
@@ -98,7 +174,14 @@ export async function POST(request: Request) {
         },
       });
 
-      return attendance;
+      // Joining removes the user from the waitlist (claiming any hold)
+      if (waitlistEntry) {
+        await tx.waitlist.delete({
+          where: { id: waitlistEntry.id },
+        });
+      }
+
+      return { attendance, joinRequest: null, conflicts: [] };
     }, {
       // Use serializable isolation for strongest consistency
       // This prevents phantom reads and ensures accurate count
@@ -107,8 +190,25 @@ export async function POST(request: Request) {
       timeout: 10000, // Maximum time for the transaction to complete (10 seconds)
     });
 
+    if (result.conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'This session clashes with your schedule',
+          conflicts: result.conflicts,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (result.joinRequest) {
+      return NextResponse.json(
+        { message: 'Join request sent to the host', pending: true, joinRequest: result.joinRequest },
+        { status: 202 }
+      );
+    }
+
     return NextResponse.json(
-      { message: 'Attendance marked successfully', attendance: result },
+      { message: 'Attendance marked successfully', attendance: result.attendance },
       { status: 201 }
     );
   } catch (error: any) {
@@ -118,6 +218,36 @@ export async function POST(request: Request) {
     if (error.message === 'SESSION_NOT_FOUND') {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
+    if (error.message === 'SESSION_NOT_OPEN') {
+      return NextResponse.json(
+        { error: 'Session is not open for joining' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'REQUEST_PENDING') {
+      return NextResponse.json(
+        { error: 'Your join request is waiting for the host' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'REQUEST_REJECTED') {
+      return NextResponse.json(
+        { error: 'The host declined your request to join this session' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'INVITE_REQUIRED') {
+      return NextResponse.json(
+        { error: 'A valid invite is required to join this session' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'RATING_TOO_LOW') {
+      return NextResponse.json(
+        { error: 'Your rating in this sport is below the minimum for this session' },
+        { status: 403 }
+      );
+    }
     if (error.message === 'SESSION_PAST') {
       return NextResponse.json(
         { error: 'Cannot join past sessions' },
@@ -172,14 +302,16 @@ export async function DELETE(request: Request) {
 
     const { session_id } = validationResult.data;
 
-    // Use transaction to delete attendance and notify waitlist
+    // Use transaction to delete attendance and promote from the waitlist
     const result = await prisma.$transaction(async (tx: any) => {
       // Get session info first
       const session = await tx.session.findUnique({
         where: { id: session_id },
         select: {
           id: true,
+          created_by: true,
           sport_type: true,
+          sport_center_id: true,
           date_time: true,
           max_participants: true,
         },
@@ -199,57 +331,24 @@ export async function DELETE(request: Request) {
         },
       });
 
-      // Check if session is still in the future
-      if (new Date(session.date_time) < new Date()) {
-        return { notified: false };
-      }
-
-      // Find the first person on the waitlist who hasn't been notified recently
-      const nextInLine = await tx.waitlist.findFirst({
-        where: {
-          session_id,
-          notified: false,
-        },
-        orderBy: { created_at: 'asc' },
-        include: {
-          user: {
-            select: {
-              id: true,
-              display_name: true,
-              email: true,
-            },
-          },
-        },
-      });
-
-      if (nextInLine) {
-        // Mark as notified
-        await tx.waitlist.update({
-          where: { id: nextInLine.id },
-          data: {
-            notified: true,
-            notified_at: new Date(),
-          },
+      // Hosting requires taking part: a leaving co-host steps down, and a
+      // leaving creator hands the session to the longest-serving co-host
+      let newHostId: string | null = null;
+      if (session.created_by === user.id) {
+        newHostId = await transferOwnership(tx, session);
+      } else {
+        await tx.sessionCoHost.deleteMany({
+          where: { session_id, user_id: user.id },
         });
-
-        // Create notification for the waitlisted user
-        await tx.notification.create({
-          data: {
-            user_id: nextInLine.user_id,
-            type: 'waitlist_spot_available',
-            title: 'Spot Available! 🎉',
-            message: `A spot just opened up for ${session.sport_type}! Join now before it's taken.`,
-            link: `/sessions/${session_id}`,
-          },
-        });
-
-        return {
-          notified: true,
-          notifiedUser: nextInLine.user.display_name || nextInLine.user.email,
-        };
       }
 
-      return { notified: false };
+      // Offer the freed spot to the next person on the waitlist
+      const promoted = await promoteFromWaitlist(tx, session_id);
+
+      return {
+        notified: promoted.held.length > 0 || promoted.joined.length > 0,
+        newHostId,
+      };
     }, {
       maxWait: 10000, // Maximum time to wait for a transaction slot (10 seconds)
       timeout: 10000, // Maximum time for the transaction to complete (10 seconds)
@@ -258,6 +357,7 @@ export async function DELETE(request: Request) {
     return NextResponse.json({
       message: 'Attendance cancelled successfully',
       waitlistNotified: result.notified,
+      ownershipTransferred: result.newHostId !== null,
     });
   } catch (error: any) {
     console.error('Error cancelling attendance:', error);
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isAdmin } from '@/lib/admin';
+import {
+  ATTACHMENT_URL_TTL_SECONDS,
+  CHAT_ATTACHMENTS_BUCKET,
+  THUMBNAIL_SIZE,
+} from '@/lib/chat-attachments';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/conversations/[id]/attachments/[attachmentId] - Open a chat image
+// Redirects conversation participants (and admins) to a short-lived signed
+// URL. `?variant=thumbnail` returns a resized image.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, attachmentId } = await params;
+    const { searchParams } = new URL(request.url);
+    const thumbnail = searchParams.get('variant') === 'thumbnail';
+
+    const attachment = await prisma.messageAttachment.findUnique({
+      where: { id: attachmentId },
+      include: {
+        message: { select: { conversation_id: true, deleted_at: true } },
+      },
+    });
+
+    if (!attachment || attachment.message.conversation_id !== id) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const participant = await prisma.conversationParticipant.findFirst({
+      where: {
+        conversation_id: id,
+        user_id: user.id,
+      },
+    });
+
+    // Deleted messages keep their files for moderation only
+    const admin = (!participant || attachment.message.deleted_at) && await isAdmin(user.id);
+    if (!participant && !admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (attachment.message.deleted_at && !admin) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    const { data, error } = await createAdminClient()
+      .storage.from(CHAT_ATTACHMENTS_BUCKET)
+      .createSignedUrl(
+        attachment.storage_path,
+        ATTACHMENT_URL_TTL_SECONDS,
+        thumbnail
+          ? { transform: { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, resize: 'contain' } }
+          : undefined
+      );
+
+    if (error || !data) {
+      throw error ?? new Error('No signed URL returned');
+    }
+
+    const response = NextResponse.redirect(data.signedUrl, 302);
+    // The redirect must not outlive the signed URL or be shared
+    response.headers.set('Cache-Control', `private, max-age=${ATTACHMENT_URL_TTL_SECONDS - 10}`);
+    return response;
+  } catch (error) {
+    console.error('Error opening attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to open attachment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,230 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { isSessionHost } from '@/lib/session-hosts';
+import {
+  canEditMessage,
+  deleteMessage,
+  editMessage,
+  MAX_MESSAGE_LENGTH,
+  MESSAGE_EDIT_WINDOW_MINUTES,
+} from '@/lib/messages';
+import { withAttachmentUrls } from '@/lib/chat-attachments';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for editing a message
+const EditMessageSchema = z.object({
+  content: z.string()
+    .trim()
+    .min(1, 'Message content is required')
+    .max(MAX_MESSAGE_LENGTH, `Message cannot exceed ${MAX_MESSAGE_LENGTH} characters`),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string; messageId: string }>;
+}
+
+const messageInclude = {
+  sender: {
+    select: {
+      id: true,
+      email: true,
+      username: true,
+      display_name: true,
+    },
+  },
+  attachments: {
+    orderBy: { created_at: 'asc' as const },
+  },
+};
+
+// GET /api/conversations/[id]/messages/[messageId] - Get one message
+// Used by clients to load attachments announced by a realtime INSERT
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, messageId } = await context.params;
+
+    const participant = await prisma.conversationParticipant.findFirst({
+      where: {
+        conversation_id: id,
+        user_id: user.id,
+      },
+    });
+
+    if (!participant) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: messageInclude,
+    });
+
+    if (!message || message.conversation_id !== id) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    // Tombstones don't list their attachments
+    return NextResponse.json(
+      withAttachmentUrls(message.deleted_at ? { ...message, attachments: [] } : message)
+    );
+  } catch (error) {
+    console.error('Error fetching message:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch message' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/conversations/[id]/messages/[messageId] - Edit a message
+// Only the sender, and only within MESSAGE_EDIT_WINDOW_MINUTES of sending
+export async function PATCH(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, messageId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = EditMessageSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { content } = validationResult.data;
+
+    const message = await prisma.$transaction(async (tx: any) => {
+      const existing = await tx.message.findUnique({ where: { id: messageId } });
+
+      if (!existing || existing.conversation_id !== id) {
+        throw new Error('MESSAGE_NOT_FOUND');
+      }
+
+      if (existing.sender_id !== user.id) {
+        throw new Error('NOT_SENDER');
+      }
+
+      if (!canEditMessage(existing, user.id)) {
+        throw new Error('EDIT_WINDOW_CLOSED');
+      }
+
+      // Saving unchanged text doesn't record a revision
+      if (existing.content !== content) {
+        await editMessage(tx, existing, content, user.id);
+      }
+
+      return tx.message.findUnique({ where: { id: messageId }, include: messageInclude });
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json(withAttachmentUrls(message));
+  } catch (error: any) {
+    console.error('Error editing message:', error);
+
+    if (error.message === 'MESSAGE_NOT_FOUND') {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_SENDER') {
+      return NextResponse.json({ error: 'You can only edit your own messages' }, { status: 403 });
+    }
+    if (error.message === 'EDIT_WINDOW_CLOSED') {
+      return NextResponse.json(
+        { error: `Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to edit message' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/conversations/[id]/messages/[messageId] - Delete a message
+// Senders can delete their own messages; in session chats the session hosts
+// can also remove anyone's message. The message is left as a tombstone.
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, messageId } = await context.params;
+
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: {
+        conversation: {
+          select: {
+            type: true,
+            session: { select: { id: true, created_by: true } },
+          },
+        },
+      },
+    });
+
+    if (!message || message.conversation_id !== id) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    const isSender = message.sender_id === user.id;
+    const isModerator = Boolean(
+      message.conversation.type === 'session' &&
+      message.conversation.session &&
+      await isSessionHost(prisma, message.conversation.session, user.id)
+    );
+
+    if (!isSender && !isModerator) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Deleting twice is harmless
+    if (!message.deleted_at) {
+      await prisma.$transaction(async (tx: any) => {
+        await deleteMessage(tx, message, user.id);
+      });
+    }
+
+    return NextResponse.json({ message: 'Message deleted' });
+  } catch (error) {
+    console.error('Error deleting message:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete message' },
+      { status: 500 }
+    );
+  }
+}
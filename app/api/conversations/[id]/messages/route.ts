@@ -3,10 +3,55 @@ import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
 import { sendMessageNotificationEmail } from '@/lib/email';
 import { apiRateLimiter } from '@/lib/rate-limit';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { AllowedImageType, imageExtension } from '@/lib/uploads';
+import {
+  CHAT_ATTACHMENTS_BUCKET,
+  validateAttachments,
+  withAttachmentUrls,
+} from '@/lib/chat-attachments';
 
 export const dynamic = 'force-dynamic';
 
+/**
+ * Upload a new message's images to the chat attachments bucket
+ * Already uploaded files are removed again if one fails.
+ */
+async function uploadAttachments(conversationId: string, files: File[]) {
+  const storage = createAdminClient().storage.from(CHAT_ATTACHMENTS_BUCKET);
+  const uploaded: Array<{ storage_path: string; content_type: string; size_bytes: number }> = [];
+
+  for (const file of files) {
+    const storagePath = `${conversationId}/${crypto.randomUUID()}.${imageExtension(file.type as AllowedImageType)}`;
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    const { error } = await storage.upload(storagePath, buffer, {
+      contentType: file.type,
+      upsert: false,
+    });
+
+    if (error) {
+      await removeAttachments(uploaded.map((a) => a.storage_path));
+      throw new Error(`Attachment upload failed: ${error.message}`);
+    }
+
+    uploaded.push({ storage_path: storagePath, content_type: file.type, size_bytes: file.size });
+  }
+
+  return uploaded;
+}
+
+async function removeAttachments(paths: string[]) {
+  if (paths.length === 0) return;
+  await createAdminClient()
+    .storage.from(CHAT_ATTACHMENTS_BUCKET)
+    .remove(paths)
+    .catch((err) => console.error('Failed to clean up chat attachments:', err));
+}
+
 // GET /api/conversations/[id]/messages - Get messages for a conversation
+// Deleted messages come back as tombstones (empty content, `deleted_at` set).
+// Attachments are listed with URLs that check participation on every load.
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -67,6 +112,9 @@ export async function GET(
             username: true,
           },
         },
+        attachments: {
+          orderBy: { created_at: 'asc' },
+        },
       },
       orderBy: {
         created_at: 'desc',
@@ -74,7 +122,12 @@ export async function GET(
       take: limit,
     });
 
-    return NextResponse.json(messages.reverse());
+    // Tombstones don't list their attachments
+    return NextResponse.json(
+      messages.reverse().map((message: any) =>
+        withAttachmentUrls(message.deleted_at ? { ...message, attachments: [] } : message)
+      )
+    );
   } catch (error) {
     console.error('Error fetching messages:', error);
     return NextResponse.json(
@@ -85,6 +138,8 @@ export async function GET(
 }
 
 // POST /api/conversations/[id]/messages - Send a message
+// JSON `{ content }`, or multipart form data with `content` and up to
+// MAX_ATTACHMENTS_PER_MESSAGE `attachments` images (content then optional)
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -106,16 +161,30 @@ export async function POST(
     }
 
     const { id } = await params;
-    const body = await request.json();
-    const { content } = body;
 
-    if (!content || content.trim() === '') {
+    let content: string;
+    let files: File[] = [];
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      content = String(formData.get('content') ?? '');
+      files = formData.getAll('attachments').filter((value): value is File => typeof value !== 'string');
+    } else {
+      const body = await request.json();
+      content = typeof body.content === 'string' ? body.content : '';
+    }
+
+    if (content.trim() === '' && files.length === 0) {
       return NextResponse.json(
         { error: 'Message content is required' },
         { status: 400 }
       );
     }
 
+    const attachmentError = validateAttachments(files);
+    if (attachmentError) {
+      return NextResponse.json({ error: attachmentError }, { status: 400 });
+    }
+
     // Check if user is a participant
     const participant = await prisma.conversationParticipant.findFirst({
       where: {
@@ -128,32 +197,45 @@ export async function POST(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    // Upload first so the message never points at missing files
+    const attachments = files.length > 0 ? await uploadAttachments(id, files) : [];
+
     // Create message and update conversation
-    const [message] = await prisma.$transaction([
-      prisma.message.create({
-        data: {
-          conversation_id: id,
-          sender_id: user.id,
-          content: content.trim(),
-        },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              email: true,
-              username: true,
-              display_name: true,
+    let message: any;
+    try {
+      [message] = await prisma.$transaction([
+        prisma.message.create({
+          data: {
+            conversation_id: id,
+            sender_id: user.id,
+            content: content.trim(),
+            attachment_count: attachments.length,
+            ...(attachments.length > 0 && { attachments: { create: attachments } }),
+          },
+          include: {
+            sender: {
+              select: {
+                id: true,
+                email: true,
+                username: true,
+                display_name: true,
+              },
             },
+            attachments: true,
           },
-        },
-      }),
-      prisma.conversation.update({
-        where: { id },
-        data: {
-          last_message_at: new Date(),
-        },
-      }),
-    ]);
+        }),
+        prisma.conversation.update({
+          where: { id },
+          data: {
+            last_message_at: new Date(),
+          },
+        }),
+      ]);
+    } catch (dbError) {
+      // Don't leave orphaned files behind
+      await removeAttachments(attachments.map((a) => a.storage_path));
+      throw dbError;
+    }
 
     // Send email notifications to other participants (non-blocking)
     const otherParticipants = await prisma.conversationParticipant.findMany({
@@ -176,7 +258,10 @@ export async function POST(
 
     // Send notifications in background
     const senderName = message.sender.display_name || message.sender.username || message.sender.email.split('@')[0];
-    const messagePreview = content.length > 100 ? content.substring(0, 100) + '...' : content;
+    const text = content.trim();
+    const messagePreview = text === ''
+      ? 'Sent a photo'
+      : text.length > 100 ? text.substring(0, 100) + '...' : text;
 
     otherParticipants.forEach((participant: any) => {
       if (participant.user.notification_email) {
@@ -195,7 +280,7 @@ export async function POST(
       }
     });
 
-    return NextResponse.json(message, { status: 201 });
+    return NextResponse.json(withAttachmentUrls(message), { status: 201 });
   } catch (error) {
     console.error('Error sending message:', error);
     return NextResponse.json(
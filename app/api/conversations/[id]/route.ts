@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
+import { isSessionHost } from '@/lib/session-hosts';
 
 export const dynamic = 'force-dynamic';
 
@@ -38,6 +39,7 @@ export async function GET(
         session: {
           select: {
             id: true,
+            created_by: true,
             sport_type: true,
             date_time: true,
             sport_center: {
@@ -67,7 +69,12 @@ export async function GET(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    return NextResponse.json(conversation);
+    // Session hosts moderate their session chat
+    const canModerate = Boolean(
+      conversation.session && await isSessionHost(prisma, conversation.session, user.id)
+    );
+
+    return NextResponse.json({ ...conversation, can_moderate: canModerate });
   } catch (error) {
     console.error('Error fetching conversation:', error);
     return NextResponse.json(
@@ -0,0 +1,193 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionHostIds } from '@/lib/session-hosts';
+import {
+  applyAttendance,
+  ATTENDANCE_FINALIZE_HOURS,
+  ATTENDANCE_REMINDER_HOURS,
+  resolveUnmarkedAttendance,
+  sessionEndsAt,
+} from '@/lib/attendance';
+
+export const dynamic = 'force-dynamic';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Most sessions handled per run; the rest are picked up next time
+const MAX_SESSIONS_PER_RUN = 100;
+
+// Sessions that started longer ago than this are never touched, so older
+// sessions (e.g. from before finalization existed) keep their attendance as
+// is. The slack over ATTENDANCE_FINALIZE_HOURS covers long sessions and
+// missed runs.
+const MAX_LOOKBACK_HOURS = ATTENDANCE_FINALIZE_HOURS + 3 * 24;
+
+/**
+ * Cron job endpoint to chase and finalize unmarked attendance
+ * Should be called hourly (e.g., via Vercel Cron)
+ *
+ * Reminds the hosts of sessions that ended ATTENDANCE_REMINDER_HOURS ago
+ * without attendance, then finalizes attendance from the check-ins once
+ * ATTENDANCE_FINALIZE_HOURS have passed (see lib/attendance.ts), recording
+ * an AttendanceFinalization for admins to audit
+ *
+ * Usage:
+ * - Secure with CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const now = new Date();
+
+    // Started long enough ago that the reminder may be due; the end time
+    // (start + duration) is checked below. Reminded sessions can't be due
+    // for finalizing until they started ATTENDANCE_FINALIZE_HOURS ago.
+    const unmarkedSessions = await prisma.session.findMany({
+      where: {
+        status: 'PUBLISHED',
+        attendance_marked: false,
+        date_time: {
+          gte: new Date(now.getTime() - MAX_LOOKBACK_HOURS * HOUR_MS),
+          lte: new Date(now.getTime() - ATTENDANCE_REMINDER_HOURS * HOUR_MS),
+        },
+        OR: [
+          { attendance_reminder_sent_at: null },
+          { date_time: { lte: new Date(now.getTime() - ATTENDANCE_FINALIZE_HOURS * HOUR_MS) } },
+        ],
+      },
+      select: {
+        id: true,
+        created_by: true,
+        sport_type: true,
+        date_time: true,
+        duration_minutes: true,
+        attendance_reminder_sent_at: true,
+        user_sessions: {
+          select: { user_id: true, status: true },
+        },
+      },
+      orderBy: { date_time: 'asc' },
+      take: MAX_SESSIONS_PER_RUN,
+    });
+
+    console.log(`Found ${unmarkedSessions.length} sessions without attendance`);
+
+    let remindersSent = 0;
+    let finalized = 0;
+    let failures = 0;
+
+    for (const session of unmarkedSessions) {
+      const endsAt = sessionEndsAt(session.date_time, session.duration_minutes);
+      const hoursSinceEnd = (now.getTime() - endsAt.getTime()) / HOUR_MS;
+
+      if (hoursSinceEnd < ATTENDANCE_REMINDER_HOURS) {
+        continue;
+      }
+
+      try {
+        const hostIds = await getSessionHostIds(prisma, session);
+
+        if (hoursSinceEnd < ATTENDANCE_FINALIZE_HOURS) {
+          if (session.attendance_reminder_sent_at) {
+            continue;
+          }
+
+          const { count } = await prisma.session.updateMany({
+            where: { id: session.id, attendance_reminder_sent_at: null },
+            data: { attendance_reminder_sent_at: now },
+          });
+
+          if (count > 0) {
+            await prisma.notification.createMany({
+              data: hostIds.map((hostId) => ({
+                user_id: hostId,
+                type: 'attendance_reminder',
+                title: 'Mark Attendance',
+                message: `Your ${session.sport_type} session has ended. Please mark attendance within ${ATTENDANCE_FINALIZE_HOURS} hours, or it will be finalized from the check-ins.`,
+                link: `/sessions/${session.id}`,
+              })),
+            });
+            remindersSent++;
+          }
+          continue;
+        }
+
+        const resolution = resolveUnmarkedAttendance(session.user_sessions, new Set(hostIds));
+        const checkedIn = new Set(
+          session.user_sessions.filter((us: any) => us.status === 'ATTENDED').map((us: any) => us.user_id)
+        );
+
+        const didFinalize = await prisma.$transaction(async (tx: any) => {
+          // Guard against the host submitting attendance in the meantime
+          const { count } = await tx.session.updateMany({
+            where: { id: session.id, attendance_marked: false },
+            data: { attendance_marked: true, status: 'COMPLETED' },
+          });
+
+          if (count === 0) {
+            return false;
+          }
+
+          // Check-ins were already applied when they happened
+          for (const userId of resolution.attended.filter((id) => !checkedIn.has(id))) {
+            await applyAttendance(tx, session.id, userId, true, now);
+          }
+          for (const userId of resolution.no_show) {
+            await applyAttendance(tx, session.id, userId, false, now);
+          }
+
+          await tx.attendanceFinalization.create({
+            data: {
+              session_id: session.id,
+              attended_count: resolution.attended.length,
+              no_show_count: resolution.no_show.length,
+              unresolved_count: resolution.unresolved.length,
+            },
+          });
+
+          await tx.notification.createMany({
+            data: hostIds.map((hostId) => ({
+              user_id: hostId,
+              type: 'attendance_finalized',
+              title: 'Attendance Finalized',
+              message: `Attendance for your ${session.sport_type} session was finalized automatically from the check-ins.`,
+              link: `/sessions/${session.id}`,
+            })),
+          });
+
+          return true;
+        }, {
+          maxWait: 10000,
+          timeout: 10000,
+        });
+
+        if (didFinalize) {
+          finalized++;
+        }
+      } catch (error) {
+        console.error(`Failed to process attendance for session ${session.id}:`, error);
+        failures++;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${unmarkedSessions.length} sessions`,
+      remindersSent,
+      finalized,
+      failures,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in attendance finalization cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to process attendance finalization' },
+      { status: 500 }
+    );
+  }
+}
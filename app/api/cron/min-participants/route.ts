@@ -0,0 +1,171 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { sendSessionUpdateEmail } from '@/lib/email';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cron job endpoint to enforce minimum participant thresholds
+ * Should be called frequently (e.g., every 15 minutes via Vercel Cron)
+ *
+ * For sessions whose decide-by deadline has passed, confirms the ones that
+ * reached `min_participants` and cancels the rest, notifying everyone who
+ * signed up
+ *
+ * Usage:
+ * - Secure with CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const now = new Date();
+
+    // Find undecided sessions whose deadline has passed
+    const dueSessions = await prisma.session.findMany({
+      where: {
+        status: 'PUBLISHED',
+        min_participants: { not: null },
+        confirmed_at: null,
+        decide_by: { lte: now },
+        date_time: { gt: now },
+      },
+      include: {
+        sport_center: {
+          select: { name_en: true },
+        },
+        user_sessions: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                username: true,
+                display_name: true,
+                notification_email: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    console.log(`Found ${dueSessions.length} sessions past their decide-by deadline`);
+
+    let confirmed = 0;
+    let cancelled = 0;
+    let emailsSent = 0;
+    let failures = 0;
+
+    for (const session of dueSessions) {
+      const participantCount = session.user_sessions.length;
+
+      const reason = `Not enough players signed up (${participantCount} of the ${session.min_participants} needed).`;
+
+      try {
+        if (participantCount >= session.min_participants!) {
+          // Same guard as cancelling: skip sessions changed in the meantime
+          const { count } = await prisma.session.updateMany({
+            where: { id: session.id, status: 'PUBLISHED', confirmed_at: null },
+            data: { confirmed_at: now },
+          });
+          if (count > 0) {
+            confirmed++;
+          }
+          continue;
+        }
+
+        const didCancel = await prisma.$transaction(async (tx: any) => {
+          // Guard against the host cancelling or editing in the meantime
+          const { count } = await tx.session.updateMany({
+            where: { id: session.id, status: 'PUBLISHED', confirmed_at: null },
+            data: {
+              status: 'CANCELLED',
+              cancellation_reason: reason,
+              cancelled_at: now,
+            },
+          });
+
+          if (count === 0) {
+            return false;
+          }
+
+          // Nobody can be promoted into a cancelled session
+          await tx.waitlist.deleteMany({
+            where: { session_id: session.id },
+          });
+
+          if (participantCount > 0) {
+            await tx.notification.createMany({
+              data: session.user_sessions.map((participant: any) => ({
+                user_id: participant.user_id,
+                type: 'session_cancelled',
+                title: 'Session Cancelled',
+                message: `The ${session.sport_type} session at ${session.sport_center.name_en} was cancelled: ${reason}`,
+                link: `/sessions/${session.id}`,
+              })),
+            });
+          }
+
+          return true;
+        }, {
+          maxWait: 10000,
+          timeout: 10000,
+        });
+
+        if (!didCancel) {
+          continue;
+        }
+        cancelled++;
+      } catch (error) {
+        console.error(`Failed to decide session ${session.id}:`, error);
+        failures++;
+        continue;
+      }
+
+      for (const participant of session.user_sessions) {
+        if (!participant.user.notification_email) {
+          continue;
+        }
+
+        const userName = participant.user.display_name || participant.user.username || participant.user.email.split('@')[0];
+
+        try {
+          await sendSessionUpdateEmail(
+            participant.user.email,
+            userName,
+            {
+              sportType: session.sport_type.charAt(0).toUpperCase() + session.sport_type.slice(1),
+              updateType: 'cancelled',
+              sportCenter: session.sport_center.name_en,
+              reason,
+            }
+          );
+          emailsSent++;
+        } catch (error) {
+          console.error(`Failed to send cancellation email to ${participant.user.email}:`, error);
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${dueSessions.length} sessions`,
+      confirmed,
+      cancelled,
+      emailsSent,
+      failures,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in min participants cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to process minimum participant thresholds' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { NO_SHOW_DECAY_DAYS, recoverNoShow } from '@/lib/reliability';
+
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cron job endpoint to let old no-shows fade
+ * Should be called daily (e.g., via Vercel Cron)
+ *
+ * Gives back the part of each no-show penalty that has decayed since the
+ * last run (see lib/reliability.ts). Penalties are fully restored after
+ * NO_SHOW_DECAY_DAYS; the lookback is twice that so missed runs catch up.
+ *
+ * Usage:
+ * - Secure with CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const now = new Date();
+
+    const noShows = await prisma.reliabilityEvent.findMany({
+      where: {
+        type: 'NO_SHOW',
+        reversed_at: null,
+        delta: { lt: 0 },
+        created_at: { gte: new Date(now.getTime() - 2 * NO_SHOW_DECAY_DAYS * DAY_MS) },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    const pending = noShows.filter((event: any) => event.recovered_points < -event.delta);
+
+    console.log(`Found ${pending.length} no-shows still recovering`);
+
+    let recovered = 0;
+    let pointsRestored = 0;
+    let failures = 0;
+
+    for (const event of pending) {
+      try {
+        const points = await prisma.$transaction(async (tx: any) => {
+          // Re-read so a reversal in the meantime isn't double-counted
+          const current = await tx.reliabilityEvent.findUnique({ where: { id: event.id } });
+          return current ? recoverNoShow(tx, current, now) : 0;
+        }, {
+          isolationLevel: 'Serializable',
+          maxWait: 10000,
+          timeout: 10000,
+        });
+
+        if (points > 0) {
+          recovered++;
+          pointsRestored += points;
+        }
+      } catch (error) {
+        console.error(`Failed to recover no-show ${event.id}:`, error);
+        failures++;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${pending.length} no-shows`,
+      recovered,
+      pointsRestored,
+      failures,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in reliability recovery cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to process reliability recovery' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { sendSavedSearchDigestEmail } from '@/lib/email';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cron job endpoint to email the daily saved search digest
+ * Should be called once a day (e.g., every morning via Vercel Cron)
+ *
+ * Collects matches recorded by /api/cron/saved-searches that haven't been
+ * emailed yet, for searches with `email_digest` on, and sends each user one
+ * email. Matches for cancelled or past sessions are skipped.
+ *
+ * Usage:
+ * - Secure with CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const now = new Date();
+
+    const pendingMatches = await prisma.savedSearchMatch.findMany({
+      where: {
+        emailed_at: null,
+        saved_search: { email_digest: true },
+        session: { status: 'PUBLISHED', date_time: { gt: now } },
+      },
+      include: {
+        saved_search: {
+          select: {
+            name: true,
+            user: {
+              select: {
+                id: true,
+                email: true,
+                username: true,
+                display_name: true,
+                notification_email: true,
+              },
+            },
+          },
+        },
+        session: {
+          select: {
+            id: true,
+            sport_type: true,
+            date_time: true,
+            sport_center: { select: { name_en: true } },
+          },
+        },
+      },
+      orderBy: { session: { date_time: 'asc' } },
+    });
+
+    // Group by user
+    const matchesByUser = new Map<string, any[]>();
+    for (const match of pendingMatches) {
+      const userMatches = matchesByUser.get(match.saved_search.user.id) ?? [];
+      userMatches.push(match);
+      matchesByUser.set(match.saved_search.user.id, userMatches);
+    }
+
+    let emailsSent = 0;
+    let emailsFailed = 0;
+
+    for (const userMatches of matchesByUser.values()) {
+      const user = userMatches[0].saved_search.user;
+
+      if (user.notification_email) {
+        const userName = user.display_name || user.username || user.email.split('@')[0];
+
+        // The same session can match several searches
+        const seen = new Set<string>();
+        const digest = userMatches
+          .filter((match) => !seen.has(match.session.id) && seen.add(match.session.id))
+          .map((match) => ({
+            searchName: match.saved_search.name,
+            sportType: match.session.sport_type.charAt(0).toUpperCase() + match.session.sport_type.slice(1),
+            sportCenter: match.session.sport_center.name_en,
+            dateTime: new Date(match.session.date_time).toLocaleString('en-US', {
+              timeZone: 'Asia/Tokyo',
+              weekday: 'short',
+              month: 'short',
+              day: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+            }),
+            sessionId: match.session.id,
+          }));
+
+        try {
+          await sendSavedSearchDigestEmail(user.email, userName, digest);
+          emailsSent++;
+        } catch (error) {
+          console.error(`Failed to send saved search digest to ${user.email}:`, error);
+          emailsFailed++;
+          // Retry with tomorrow's digest
+          continue;
+        }
+      }
+
+      // Users with email notifications off don't get a backlog either
+      await prisma.savedSearchMatch.updateMany({
+        where: { id: { in: userMatches.map((match) => match.id) } },
+        data: { emailed_at: now },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${pendingMatches.length} matches for ${matchesByUser.size} users`,
+      emailsSent,
+      emailsFailed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in saved search digest cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to send saved search digests' },
+      { status: 500 }
+    );
+  }
+}
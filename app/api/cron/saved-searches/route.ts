@@ -0,0 +1,185 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { matchesSavedSearch, MAX_LOOKBACK_MS } from '@/lib/saved-searches';
+
+export const dynamic = 'force-dynamic';
+
+// Most changed sessions checked per run; the rest are picked up next time
+const MAX_SESSIONS_PER_RUN = 1000;
+
+/**
+ * Cron job endpoint to alert users about sessions matching their saved searches
+ * Should be called frequently (e.g., every 15 minutes via Vercel Cron)
+ *
+ * Checks public sessions published or edited since each search was last
+ * checked and sends one notification per user for the new matches. Email
+ * digests are sent separately by /api/cron/saved-search-digest.
+ *
+ * Usage:
+ * - Secure with CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const now = new Date();
+
+    const savedSearches = await prisma.savedSearch.findMany();
+    if (savedSearches.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'No saved searches',
+        matches: 0,
+        notificationsSent: 0,
+        timestamp: now.toISOString(),
+      });
+    }
+
+    const oldestCheck = savedSearches.reduce(
+      (oldest: Date, search: any) => (search.last_checked_at < oldest ? search.last_checked_at : oldest),
+      now
+    );
+    const since = new Date(Math.max(oldestCheck.getTime(), now.getTime() - MAX_LOOKBACK_MS));
+
+    const changedSessions = await prisma.session.findMany({
+      where: {
+        status: 'PUBLISHED',
+        visibility: 'PUBLIC',
+        date_time: { gt: now },
+        // Inclusive, so sessions sharing the last checked timestamp with a
+        // full page are picked up next run; reported ones are deduped below
+        updated_at: { gte: since, lte: now },
+      },
+      select: {
+        id: true,
+        sport_type: true,
+        skill_level: true,
+        vibe: true,
+        allow_english: true,
+        date_time: true,
+        description_en: true,
+        description_ja: true,
+        created_by: true,
+        updated_at: true,
+        sport_center: {
+          select: {
+            name_en: true,
+            name_ja: true,
+            station_en: true,
+            station_ja: true,
+            address_en: true,
+            address_ja: true,
+          },
+        },
+      },
+      orderBy: { updated_at: 'asc' },
+      take: MAX_SESSIONS_PER_RUN,
+    });
+
+    // Only advance the searches as far as the sessions actually checked
+    const checkedUntil = changedSessions.length === MAX_SESSIONS_PER_RUN
+      ? changedSessions[changedSessions.length - 1].updated_at
+      : now;
+
+    console.log(`Checking ${changedSessions.length} changed sessions against ${savedSearches.length} saved searches`);
+
+    // Candidate matches per search; hosts aren't alerted about their own sessions
+    const candidates: Array<{ search: any; session: any }> = [];
+    for (const search of savedSearches) {
+      for (const session of changedSessions) {
+        if (
+          session.updated_at >= search.last_checked_at &&
+          session.created_by !== search.user_id &&
+          matchesSavedSearch(search, session)
+        ) {
+          candidates.push({ search, session });
+        }
+      }
+    }
+
+    // Sessions edited after being reported aren't reported again
+    const alreadyMatched = candidates.length > 0
+      ? await prisma.savedSearchMatch.findMany({
+        where: {
+          saved_search_id: { in: Array.from(new Set(candidates.map((c) => c.search.id))) },
+          session_id: { in: Array.from(new Set(candidates.map((c) => c.session.id))) },
+        },
+        select: { saved_search_id: true, session_id: true },
+      })
+      : [];
+    const matchedKeys = new Set(alreadyMatched.map((m: any) => `${m.saved_search_id}:${m.session_id}`));
+    const newMatches = candidates.filter(
+      ({ search, session }) => !matchedKeys.has(`${search.id}:${session.id}`)
+    );
+
+    if (newMatches.length > 0) {
+      await prisma.savedSearchMatch.createMany({
+        data: newMatches.map(({ search, session }) => ({
+          saved_search_id: search.id,
+          session_id: session.id,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    // One notification per user, even if several searches matched
+    const matchesByUser = new Map<string, Array<{ search: any; session: any }>>();
+    for (const match of newMatches) {
+      const userMatches = matchesByUser.get(match.search.user_id) ?? [];
+      if (!userMatches.some((m) => m.session.id === match.session.id)) {
+        userMatches.push(match);
+      }
+      matchesByUser.set(match.search.user_id, userMatches);
+    }
+
+    const notifications = Array.from(matchesByUser.entries()).map(([userId, userMatches]) => {
+      if (userMatches.length === 1) {
+        const [{ search, session }] = userMatches;
+        return {
+          user_id: userId,
+          type: 'saved_search_match',
+          title: 'New Session Match',
+          message: `A new ${session.sport_type} session at ${session.sport_center.name_en} matches your saved search "${search.name}"`,
+          link: `/sessions/${session.id}`,
+        };
+      }
+      return {
+        user_id: userId,
+        type: 'saved_search_match',
+        title: 'New Session Matches',
+        message: `${userMatches.length} new sessions match your saved searches`,
+        link: '/sessions',
+      };
+    });
+
+    if (notifications.length > 0) {
+      await prisma.notification.createMany({ data: notifications });
+    }
+
+    await prisma.savedSearch.updateMany({
+      where: {
+        id: { in: savedSearches.map((search: any) => search.id) },
+        last_checked_at: { lt: checkedUntil },
+      },
+      data: { last_checked_at: checkedUntil },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Checked ${changedSessions.length} sessions against ${savedSearches.length} saved searches`,
+      matches: newMatches.length,
+      notificationsSent: notifications.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in saved searches cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to process saved search alerts' },
+      { status: 500 }
+    );
+  }
+}
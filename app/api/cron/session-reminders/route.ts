@@ -34,6 +34,7 @@ export async function GET(request: Request) {
           gte: twentyThreeHoursFromNow,
           lte: twentyFiveHoursFromNow,
         },
+        status: 'PUBLISHED',
       },
       include: {
         sport_center: true,
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { promoteFromWaitlist } from '@/lib/waitlist';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cron job endpoint to expire unclaimed waitlist holds
+ * Should be called frequently (e.g., every 15 minutes via Vercel Cron)
+ *
+ * Removes waitlist entries whose reserved spot was not accepted in time and
+ * offers the spot to the next person in line
+ *
+ * Usage:
+ * - Secure with CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const now = new Date();
+
+    // Find holds that have expired without being claimed
+    const expiredHolds = await prisma.waitlist.findMany({
+      where: {
+        notified: true,
+        hold_expires_at: { lte: now },
+      },
+      include: {
+        session: {
+          select: {
+            sport_type: true,
+          },
+        },
+      },
+    });
+
+    console.log(`Found ${expiredHolds.length} expired waitlist holds`);
+
+    let holdsExpired = 0;
+    let usersPromoted = 0;
+    let failures = 0;
+
+    for (const hold of expiredHolds) {
+      try {
+        const promoted = await prisma.$transaction(async (tx: any) => {
+          await tx.waitlist.delete({
+            where: { id: hold.id },
+          });
+
+          await tx.notification.create({
+            data: {
+              user_id: hold.user_id,
+              type: 'waitlist_hold_expired',
+              title: 'Reserved Spot Expired',
+              message: `Your reserved spot for ${hold.session.sport_type} was released because it wasn't claimed in time.`,
+              link: `/sessions/${hold.session_id}`,
+            },
+          });
+
+          return promoteFromWaitlist(tx, hold.session_id);
+        }, {
+          maxWait: 10000,
+          timeout: 10000,
+        });
+
+        holdsExpired++;
+        usersPromoted += promoted.held.length + promoted.joined.length;
+      } catch (error) {
+        console.error(`Failed to expire waitlist hold ${hold.id}:`, error);
+        failures++;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${expiredHolds.length} expired holds`,
+      holdsExpired,
+      usersPromoted,
+      failures,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error in waitlist holds cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to process waitlist holds' },
+      { status: 500 }
+    );
+  }
+}
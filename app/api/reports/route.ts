@@ -8,15 +8,16 @@ export const dynamic = 'force-dynamic';
 
 // Valid report reasons and entity types
 const VALID_REASONS = ['HARASSMENT', 'NO_SHOW', 'SPAM', 'CREEPY_BEHAVIOR', 'FAKE_PROFILE', 'OTHER'] as const;
-const VALID_ENTITY_TYPES = ['USER', 'SESSION'] as const;
+const VALID_ENTITY_TYPES = ['USER', 'SESSION', 'REVIEW'] as const;
 
 // Zod schema for report creation validation
 const CreateReportSchema = z.object({
   entity_type: z.enum(VALID_ENTITY_TYPES, {
-    message: 'Invalid entity type. Must be USER or SESSION',
+    message: 'Invalid entity type. Must be USER, SESSION or REVIEW',
   }),
   reported_user_id: z.string().uuid('Invalid user ID').optional(),
   session_id: z.string().uuid('Invalid session ID').optional(),
+  review_id: z.string().uuid('Invalid review ID').optional(),
   reason: z.enum(VALID_REASONS, {
     message: 'Invalid report reason',
   }),
@@ -30,10 +31,13 @@ const CreateReportSchema = z.object({
     if (data.entity_type === 'SESSION') {
       return !!data.session_id;
     }
+    if (data.entity_type === 'REVIEW') {
+      return !!data.review_id;
+    }
     return false;
   },
   {
-    message: 'You must provide reported_user_id for USER reports or session_id for SESSION reports',
+    message: 'You must provide reported_user_id for USER reports, session_id for SESSION reports or review_id for REVIEW reports',
   }
 );
 
@@ -67,7 +71,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const { entity_type, reported_user_id, session_id, reason, description } = validationResult.data;
+    const { entity_type, reported_user_id, session_id, review_id, reason, description } = validationResult.data;
 
     // Prevent self-reporting
     if (entity_type === 'USER' && reported_user_id === user.id) {
@@ -104,12 +108,36 @@ export async function POST(request: Request) {
       }
     }
 
+    if (entity_type === 'REVIEW' && review_id) {
+      const reportedReview = await prisma.review.findUnique({
+        where: { id: review_id },
+        select: { id: true, user_id: true, hidden_at: true },
+      });
+      if (!reportedReview || reportedReview.hidden_at) {
+        return NextResponse.json(
+          { error: 'Review not found' },
+          { status: 404 }
+        );
+      }
+      if (reportedReview.user_id === user.id) {
+        return NextResponse.json(
+          { error: 'You cannot report your own review' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const entityFilter =
+      entity_type === 'USER' ? { reported_user_id } :
+      entity_type === 'SESSION' ? { session_id } :
+      { review_id };
+
     // Check for duplicate reports (same reporter, same entity)
     const existingReport = await prisma.report.findFirst({
       where: {
         reporter_id: user.id,
         entity_type,
-        ...(entity_type === 'USER' ? { reported_user_id } : { session_id }),
+        ...entityFilter,
         status: 'PENDING', // Only check pending reports
       },
     });
@@ -128,6 +156,7 @@ export async function POST(request: Request) {
         entity_type,
         reported_user_id: entity_type === 'USER' ? reported_user_id : null,
         session_id: entity_type === 'SESSION' ? session_id : null,
+        review_id: entity_type === 'REVIEW' ? review_id : null,
         reason,
         description: description || null,
       },
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/series/[id] - Get a session series with its upcoming occurrences
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const { id } = await context.params;
+
+    const series = await prisma.sessionSeries.findUnique({
+      where: { id },
+      include: {
+        sport_center: true,
+        sessions: {
+          where: { date_time: { gte: new Date() }, status: 'PUBLISHED' },
+          orderBy: { date_time: 'asc' },
+          select: {
+            id: true,
+            date_time: true,
+            duration_minutes: true,
+            max_participants: true,
+            series_override: true,
+            _count: {
+              select: { user_sessions: true },
+            },
+          },
+        },
+        _count: {
+          select: { subscriptions: true },
+        },
+      },
+    });
+
+    if (!series) {
+      return NextResponse.json({ error: 'Series not found' }, { status: 404 });
+    }
+
+    // Check if current user is subscribed
+    let isSubscribed = false;
+    if (user) {
+      const subscription = await prisma.seriesSubscription.findUnique({
+        where: {
+          series_id_user_id: {
+            series_id: id,
+            user_id: user.id,
+          },
+        },
+      });
+      isSubscribed = !!subscription;
+    }
+
+    return NextResponse.json({
+      ...series,
+      sessions: series.sessions.map((session: typeof series.sessions[number]) => ({
+        ...session,
+        current_participants: session._count.user_sessions,
+        _count: undefined,
+      })),
+      subscriber_count: series._count.subscriptions,
+      is_subscribed: isSubscribed,
+      _count: undefined,
+    });
+  } catch (error) {
+    console.error('Error fetching series:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch series' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,272 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserExists } from '@/lib/ensure-user';
+import { createJoinRequest } from '@/lib/join-requests';
+import { findJoinConflicts, joinIneligibility } from '@/lib/join-eligibility';
+import { activeHoldWhere, promoteFromWaitlist } from '@/lib/waitlist';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/series/[id]/subscription - Subscribe to every upcoming occurrence
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: seriesId } = await context.params;
+
+    // Ensure user exists in database before creating attendance records
+    try {
+      await ensureUserExists(user);
+    } catch (error: any) {
+      console.error('[/api/series/subscription] Failed to ensure user exists:', error);
+      return NextResponse.json(
+        { error: error.message || 'Failed to sync user account. Please try logging out and back in.' },
+        { status: 500 }
+      );
+    }
+
+    const series = await prisma.sessionSeries.findUnique({
+      where: { id: seriesId },
+      select: { id: true, created_by: true, sport_type: true },
+    });
+
+    if (!series) {
+      return NextResponse.json({ error: 'Series not found' }, { status: 404 });
+    }
+
+    if (series.created_by === user.id) {
+      return NextResponse.json(
+        { error: 'You are already hosting every session in this series' },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx: any) => {
+      await tx.seriesSubscription.create({
+        data: {
+          series_id: seriesId,
+          user_id: user.id,
+        },
+      });
+
+      const upcoming = await tx.session.findMany({
+        where: {
+          series_id: seriesId,
+          date_time: { gte: new Date() },
+          status: 'PUBLISHED',
+          // Invite-only occurrences still need an invite link
+          visibility: { not: 'INVITE_ONLY' },
+        },
+        include: {
+          _count: {
+            select: {
+              user_sessions: true,
+              // Spots reserved for promoted waitlist users count as taken
+              waitlist: { where: activeHoldWhere() },
+            },
+          },
+          user_sessions: {
+            where: { user_id: user.id },
+            select: { id: true },
+          },
+        },
+      });
+
+      let joined = 0;
+      let requested = 0;
+      let skippedFull = 0;
+      let skippedIneligible = 0;
+      let skippedConflicts = 0;
+
+      for (const session of upcoming) {
+        // Already registered for this occurrence
+        if (session.user_sessions.length > 0) {
+          continue;
+        }
+
+        if (
+          session.max_participants &&
+          session._count.user_sessions + session._count.waitlist >= session.max_participants
+        ) {
+          skippedFull++;
+          continue;
+        }
+
+        // Same entry rules as joining each occurrence on its own
+        if (await joinIneligibility(tx, session, user.id)) {
+          skippedIneligible++;
+          continue;
+        }
+
+        // Occurrences clashing with the user's schedule are left to join by hand
+        if ((await findJoinConflicts(tx, session, user.id)).length > 0) {
+          skippedConflicts++;
+          continue;
+        }
+
+        // Occurrences requiring approval get a join request for the host.
+        // Ones the host already has a request for (or declined) are left alone.
+        if (session.requires_approval && session.created_by !== user.id) {
+          const pending = await tx.joinRequest.findUnique({
+            where: {
+              session_id_user_id: {
+                session_id: session.id,
+                user_id: user.id,
+              },
+            },
+            select: { status: true },
+          });
+          if (pending?.status === 'PENDING' || pending?.status === 'REJECTED') {
+            continue;
+          }
+
+          await createJoinRequest(tx, {
+            sessionId: session.id,
+            userId: user.id,
+            hostId: session.created_by,
+            sportType: session.sport_type,
+          });
+          requested++;
+          continue;
+        }
+
+        await tx.userSession.create({
+          data: {
+            user_id: user.id,
+            session_id: session.id,
+          },
+        });
+        joined++;
+      }
+
+      return { joined, requested, skippedFull, skippedIneligible, skippedConflicts };
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 20000,
+    });
+
+    await prisma.notification.create({
+      data: {
+        user_id: user.id,
+        type: 'series_subscribed',
+        title: 'Subscribed to Series',
+        message: `You're registered for ${result.joined} upcoming ${series.sport_type} sessions.` +
+          (result.requested > 0 ? ` Join requests were sent for ${result.requested} more that need host approval.` : ''),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      joined: result.joined,
+      requested: result.requested,
+      skipped_full: result.skippedFull,
+      skipped_ineligible: result.skippedIneligible,
+      skipped_conflicts: result.skippedConflicts,
+    }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error subscribing to series:', error);
+
+    // Handle Prisma unique constraint violation
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'You are already subscribed to this series' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to subscribe to series' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/series/[id]/subscription - Unsubscribe and leave upcoming occurrences
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: seriesId } = await context.params;
+
+    const subscription = await prisma.seriesSubscription.findUnique({
+      where: {
+        series_id_user_id: {
+          series_id: seriesId,
+          user_id: user.id,
+        },
+      },
+    });
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'You are not subscribed to this series' },
+        { status: 404 }
+      );
+    }
+
+    const removed = await prisma.$transaction(async (tx: any) => {
+      await tx.seriesSubscription.delete({
+        where: { id: subscription.id },
+      });
+
+      // Leave upcoming occurrences; past attendance history is kept
+      const upcoming = await tx.userSession.findMany({
+        where: {
+          user_id: user.id,
+          status: 'REGISTERED',
+          session: {
+            series_id: seriesId,
+            date_time: { gte: new Date() },
+          },
+        },
+        select: { id: true, session_id: true },
+      });
+
+      await tx.userSession.deleteMany({
+        where: { id: { in: upcoming.map((us: { id: string }) => us.id) } },
+      });
+
+      // Offer the freed spots to the next people on each waitlist
+      for (const { session_id } of upcoming) {
+        await promoteFromWaitlist(tx, session_id);
+      }
+
+      return upcoming.length;
+    }, {
+      maxWait: 10000,
+      timeout: 20000,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Unsubscribed from series',
+      removed,
+    });
+  } catch (error) {
+    console.error('Error unsubscribing from series:', error);
+    return NextResponse.json(
+      { error: 'Failed to unsubscribe from series' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
 import { z } from 'zod';
+import { isSessionHost } from '@/lib/session-hosts';
+import { applyAttendance } from '@/lib/attendance';
 
 export const dynamic = 'force-dynamic';
 
@@ -15,30 +17,6 @@ const MarkAttendanceSchema = z.object({
   ).min(1, 'At least one attendee must be provided'),
 });
 
-// Constants for reliability score calculation
-const NO_SHOW_PENALTY = 10; // Points deducted per no-show
-const MIN_RELIABILITY_SCORE = 0;
-const MAX_RELIABILITY_SCORE = 100;
-
-/**
- * Calculate new reliability score
- * Formula: Decreases by NO_SHOW_PENALTY for each no-show, minimum 0
- */
-function calculateReliabilityScore(
-  currentScore: number,
-  currentNoShowCount: number,
-  isNoShow: boolean
-): number {
-  if (!isNoShow) {
-    // Slightly increase score for attending (rewards good behavior)
-    // Max increase of 2 points per attendance, capped at 100
-    return Math.min(MAX_RELIABILITY_SCORE, currentScore + 2);
-  }
-
-  // Decrease score for no-show
-  return Math.max(MIN_RELIABILITY_SCORE, currentScore - NO_SHOW_PENALTY);
-}
-
 // GET /api/sessions/[id]/attendance - Get attendance status for a session
 export async function GET(
   request: Request,
@@ -80,13 +58,12 @@ export async function GET(
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
-    // Check if user is the host
-    const isHost = session.created_by === user.id;
+    // Only hosts can see full attendance details
+    const isHost = await isSessionHost(prisma, session, user.id);
 
-    // Only host can see full attendance details
     if (!isHost) {
       return NextResponse.json(
-        { error: 'Only the session host can view attendance details' },
+        { error: 'Only the session hosts can view attendance details' },
         { status: 403 }
       );
     }
@@ -154,14 +131,21 @@ export async function POST(
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
-    // Only host can mark attendance
-    if (session.created_by !== user.id) {
+    // Only hosts can mark attendance
+    if (!await isSessionHost(prisma, session, user.id)) {
       return NextResponse.json(
-        { error: 'Only the session host can mark attendance' },
+        { error: 'Only the session hosts can mark attendance' },
         { status: 403 }
       );
     }
 
+    if (session.status === 'CANCELLED') {
+      return NextResponse.json(
+        { error: 'Cannot mark attendance for cancelled sessions' },
+        { status: 400 }
+      );
+    }
+
     // Session must be in the past
     if (new Date(session.date_time) > new Date()) {
       return NextResponse.json(
@@ -190,81 +174,34 @@ export async function POST(
 
     // Use transaction to update all attendance records and user stats atomically
     const result = await prisma.$transaction(async (tx: any) => {
+      // Guard against a double submit or the finalization cron in the meantime
+      const { count } = await tx.session.updateMany({
+        where: { id, attendance_marked: false },
+        data: { attendance_marked: true, status: 'COMPLETED' },
+      });
+
+      if (count === 0) {
+        throw new Error('ALREADY_MARKED');
+      }
+
       const now = new Date();
       const updates = [];
 
+      // Participants who checked themselves in were already marked and rewarded
+      const checkedIn = new Set(
+        session.user_sessions.filter((us: any) => us.status === 'ATTENDED').map((us: any) => us.user_id)
+      );
+
       for (const attendee of attendees) {
-        const newStatus = attendee.attended ? 'ATTENDED' : 'NO_SHOW';
+        if (checkedIn.has(attendee.user_id)) {
+          updates.push({ user_id: attendee.user_id, status: 'ATTENDED' });
+          continue;
+        }
 
-        // Update UserSession status
-        const updatedUserSession = await tx.userSession.update({
-          where: {
-            user_id_session_id: {
-              user_id: attendee.user_id,
-              session_id: id,
-            },
-          },
-          data: {
-            status: newStatus,
-            attended_at: now,
-          },
-        });
+        const newStatus = attendee.attended ? 'ATTENDED' : 'NO_SHOW';
 
-        // If no-show, update user's reliability stats
-        if (!attendee.attended) {
-          const userRecord = await tx.user.findUnique({
-            where: { id: attendee.user_id },
-            select: { no_show_count: true, reliability_score: true },
-          });
-
-          if (userRecord) {
-            const newScore = calculateReliabilityScore(
-              userRecord.reliability_score,
-              userRecord.no_show_count,
-              true
-            );
-
-            await tx.user.update({
-              where: { id: attendee.user_id },
-              data: {
-                no_show_count: { increment: 1 },
-                reliability_score: newScore,
-              },
-            });
-
-            // Create notification for no-show
-            await tx.notification.create({
-              data: {
-                user_id: attendee.user_id,
-                type: 'no_show_warning',
-                title: 'Missed Session',
-                message: `You were marked as a no-show for a session. Your reliability score has been updated.`,
-                link: `/sessions/${id}`,
-              },
-            });
-          }
-        } else {
-          // Reward attendance with slight score increase
-          const userRecord = await tx.user.findUnique({
-            where: { id: attendee.user_id },
-            select: { reliability_score: true, no_show_count: true },
-          });
-
-          if (userRecord) {
-            const newScore = calculateReliabilityScore(
-              userRecord.reliability_score,
-              userRecord.no_show_count,
-              false
-            );
-
-            await tx.user.update({
-              where: { id: attendee.user_id },
-              data: {
-                reliability_score: newScore,
-              },
-            });
-          }
-        }
+        // Update status and reliability stats (no-shows are notified)
+        await applyAttendance(tx, id, attendee.user_id, attendee.attended, now);
 
         updates.push({
           user_id: attendee.user_id,
@@ -272,12 +209,6 @@ export async function POST(
         });
       }
 
-      // Mark session as having attendance recorded
-      await tx.session.update({
-        where: { id },
-        data: { attendance_marked: true },
-      });
-
       return updates;
     });
 
@@ -285,8 +216,16 @@ export async function POST(
       message: 'Attendance marked successfully',
       updates: result,
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error marking attendance:', error);
+
+    if (error.message === 'ALREADY_MARKED') {
+      return NextResponse.json(
+        { error: 'Attendance has already been marked for this session' },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to mark attendance' },
       { status: 500 }
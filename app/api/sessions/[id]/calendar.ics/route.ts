@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { canViewSession } from '@/lib/invites';
+import { buildCalendar } from '@/lib/ical';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/sessions/[id]/calendar.ics - Download a session as an iCalendar file
+// Visible to the same people as GET /api/sessions/[id]
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await prisma.session.findUnique({
+      where: { id },
+      include: {
+        sport_center: {
+          select: { name_en: true, address_en: true },
+        },
+      },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (session.status === 'DRAFT' || session.visibility === 'INVITE_ONLY') {
+      const supabase = await createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      const inviteToken = new URL(request.url).searchParams.get('invite');
+
+      if (!await canViewSession(prisma, session, user?.id, inviteToken)) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
+    }
+
+    const calendar = buildCalendar([session], {
+      baseUrl: new URL(request.url).origin,
+      name: 'SportsMatch Tokyo',
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="session-${id}.ics"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting session calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to export session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,198 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { isSessionHost } from '@/lib/session-hosts';
+import { recordAttendanceOutcome } from '@/lib/reliability';
+import {
+  checkInWindow,
+  createCheckInToken,
+  isCheckInOpen,
+  verifyCheckInToken,
+} from '@/lib/attendance';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for checking in
+const CheckInSchema = z.object({
+  token: z.string().min(1, 'Check-in code is required').max(200, 'Invalid check-in code'),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/sessions/[id]/check-in - Current check-in QR token (hosts only)
+// The token rotates; hosts refetch it when `expires_at` passes.
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        id: true,
+        created_by: true,
+        date_time: true,
+        status: true,
+        attendance_marked: true,
+      },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!await isSessionHost(prisma, session, user.id)) {
+      return NextResponse.json(
+        { error: 'Only the session hosts can show the check-in code' },
+        { status: 403 }
+      );
+    }
+
+    const isOpen = session.status === 'PUBLISHED' &&
+      !session.attendance_marked &&
+      isCheckInOpen(session.date_time);
+
+    return NextResponse.json({
+      ...checkInWindow(session.date_time),
+      is_open: isOpen,
+      ...(isOpen && createCheckInToken(session.id)),
+    });
+  } catch (error) {
+    console.error('Error creating check-in code:', error);
+    return NextResponse.json(
+      { error: 'Failed to create check-in code' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sessions/[id]/check-in - Check in with a scanned code (participants)
+export async function POST(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = CheckInSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { token } = validationResult.data;
+
+    const result = await prisma.$transaction(async (tx: any) => {
+      const session = await tx.session.findUnique({
+        where: { id: sessionId },
+        select: {
+          id: true,
+          date_time: true,
+          status: true,
+          attendance_marked: true,
+        },
+      });
+
+      if (!session) {
+        throw new Error('SESSION_NOT_FOUND');
+      }
+
+      if (session.status !== 'PUBLISHED' || session.attendance_marked || !isCheckInOpen(session.date_time)) {
+        throw new Error('CHECK_IN_CLOSED');
+      }
+
+      if (!verifyCheckInToken(session.id, token)) {
+        throw new Error('INVALID_CODE');
+      }
+
+      const userSession = await tx.userSession.findUnique({
+        where: {
+          user_id_session_id: {
+            user_id: user.id,
+            session_id: sessionId,
+          },
+        },
+      });
+
+      if (!userSession) {
+        throw new Error('NOT_PARTICIPANT');
+      }
+
+      // Only the scan that moves the participant out of REGISTERED counts, so
+      // scanning twice (even concurrently) is harmless
+      const now = new Date();
+      const { count } = await tx.userSession.updateMany({
+        where: { session_id: sessionId, user_id: user.id, status: 'REGISTERED' },
+        data: { status: 'ATTENDED', attended_at: now },
+      });
+
+      if (count === 0) {
+        const current = await tx.userSession.findUnique({
+          where: { id: userSession.id },
+          select: { status: true, attended_at: true },
+        });
+        return { status: current.status, attended_at: current.attended_at, already_checked_in: true };
+      }
+
+      // Same reliability reward as being marked present by the host
+      await recordAttendanceOutcome(tx, user.id, sessionId, true);
+
+      return { status: 'ATTENDED', attended_at: now, already_checked_in: false };
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error checking in:', error);
+
+    if (error.message === 'SESSION_NOT_FOUND') {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (error.message === 'CHECK_IN_CLOSED') {
+      return NextResponse.json(
+        { error: 'Check-in is not open for this session' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'INVALID_CODE') {
+      return NextResponse.json(
+        { error: 'This check-in code is invalid or has expired. Scan the current code.' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'NOT_PARTICIPANT') {
+      return NextResponse.json(
+        { error: 'Only participants of this session can check in' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to check in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; userId: string }>;
+}
+
+// DELETE /api/sessions/[id]/co-hosts/[userId] - Remove a co-host
+// The creator can remove anyone; co-hosts can step down themselves
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, userId: coHostId } = await context.params;
+
+    const coHost = await prisma.sessionCoHost.findUnique({
+      where: {
+        session_id_user_id: {
+          session_id: sessionId,
+          user_id: coHostId,
+        },
+      },
+      include: {
+        session: { select: { created_by: true, sport_type: true } },
+      },
+    });
+
+    if (!coHost) {
+      return NextResponse.json({ error: 'Co-host not found' }, { status: 404 });
+    }
+
+    const isCreator = coHost.session.created_by === user.id;
+    if (!isCreator && coHostId !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the session creator can manage co-hosts' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.sessionCoHost.delete({
+      where: { id: coHost.id },
+    });
+
+    if (isCreator) {
+      await prisma.notification.create({
+        data: {
+          user_id: coHostId,
+          type: 'co_host_removed',
+          title: 'Co-host Role Removed',
+          message: `You are no longer a co-host of the ${coHost.session.sport_type} session.`,
+          link: `/sessions/${sessionId}`,
+        },
+      });
+    }
+
+    return NextResponse.json({ message: 'Co-host removed' });
+  } catch (error) {
+    console.error('Error removing co-host:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove co-host' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { MAX_CO_HOSTS } from '@/lib/session-hosts';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for adding a co-host
+const AddCoHostSchema = z.object({
+  user_id: z.string().uuid('Invalid user ID'),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/sessions/[id]/co-hosts - Make a participant a co-host (creator only)
+export async function POST(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = AddCoHostSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { user_id: coHostId } = validationResult.data;
+
+    const coHost = await prisma.$transaction(async (tx: any) => {
+      const session = await tx.session.findUnique({
+        where: { id: sessionId },
+        select: {
+          id: true,
+          created_by: true,
+          sport_type: true,
+          status: true,
+          _count: { select: { co_hosts: true } },
+        },
+      });
+
+      if (!session) {
+        throw new Error('SESSION_NOT_FOUND');
+      }
+
+      if (session.created_by !== user.id) {
+        throw new Error('NOT_CREATOR');
+      }
+
+      if (session.status === 'CANCELLED' || session.status === 'COMPLETED') {
+        throw new Error('SESSION_CLOSED');
+      }
+
+      if (coHostId === session.created_by) {
+        throw new Error('ALREADY_HOST');
+      }
+
+      // Co-hosts are picked from the people taking part
+      const participant = await tx.userSession.findUnique({
+        where: {
+          user_id_session_id: {
+            user_id: coHostId,
+            session_id: sessionId,
+          },
+        },
+        select: { user_id: true },
+      });
+
+      if (!participant) {
+        throw new Error('NOT_PARTICIPANT');
+      }
+
+      const existing = await tx.sessionCoHost.findUnique({
+        where: {
+          session_id_user_id: {
+            session_id: sessionId,
+            user_id: coHostId,
+          },
+        },
+      });
+
+      if (existing) {
+        throw new Error('ALREADY_HOST');
+      }
+
+      if (session._count.co_hosts >= MAX_CO_HOSTS) {
+        throw new Error('TOO_MANY_CO_HOSTS');
+      }
+
+      const created = await tx.sessionCoHost.create({
+        data: {
+          session_id: sessionId,
+          user_id: coHostId,
+          added_by: user.id,
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              display_name: true,
+              avatar_url: true,
+            },
+          },
+        },
+      });
+
+      await tx.notification.create({
+        data: {
+          user_id: coHostId,
+          type: 'co_host_added',
+          title: 'You Are Now a Co-host',
+          message: `You can now help run the ${session.sport_type} session: edit details, mark attendance and moderate the chat.`,
+          link: `/sessions/${sessionId}`,
+        },
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(coHost.user, { status: 201 });
+  } catch (error: any) {
+    console.error('Error adding co-host:', error);
+
+    if (error.message === 'SESSION_NOT_FOUND') {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_CREATOR') {
+      return NextResponse.json(
+        { error: 'Only the session creator can manage co-hosts' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'SESSION_CLOSED') {
+      return NextResponse.json(
+        { error: 'Cannot add co-hosts to a cancelled or completed session' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'NOT_PARTICIPANT') {
+      return NextResponse.json(
+        { error: 'Co-hosts must be participants of the session' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'ALREADY_HOST') {
+      return NextResponse.json(
+        { error: 'This user already hosts the session' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'TOO_MANY_CO_HOSTS') {
+      return NextResponse.json(
+        { error: `A session can have at most ${MAX_CO_HOSTS} co-hosts` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to add co-host' },
+      { status: 500 }
+    );
+  }
+}
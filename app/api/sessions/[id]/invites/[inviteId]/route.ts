@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { isSessionHost } from '@/lib/session-hosts';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; inviteId: string }>;
+}
+
+// DELETE /api/sessions/[id]/invites/[inviteId] - Revoke an invite link (host only)
+// The row is kept so hosts can see how many people joined through it
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, inviteId } = await context.params;
+
+    const invite = await prisma.sessionInvite.findUnique({
+      where: { id: inviteId },
+      include: {
+        session: { select: { id: true, created_by: true } },
+      },
+    });
+
+    if (!invite || invite.session_id !== sessionId) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    if (!await isSessionHost(prisma, invite.session, user.id)) {
+      return NextResponse.json(
+        { error: 'Only the session hosts can manage invites' },
+        { status: 403 }
+      );
+    }
+
+    if (!invite.revoked_at) {
+      await prisma.sessionInvite.update({
+        where: { id: inviteId },
+        data: { revoked_at: new Date() },
+      });
+    }
+
+    return NextResponse.json({ message: 'Invite revoked' });
+  } catch (error) {
+    console.error('Error revoking invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { isSessionHost } from '@/lib/session-hosts';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { createInviteToken, isInviteUsable, MAX_INVITE_EXPIRY_DAYS } from '@/lib/invites';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for invite creation
+const CreateInviteSchema = z.object({
+  expires_in_days: z.number()
+    .int('Expiry must be a whole number of days')
+    .min(1, 'Expiry must be at least 1 day')
+    .max(MAX_INVITE_EXPIRY_DAYS, `Expiry cannot exceed ${MAX_INVITE_EXPIRY_DAYS} days`)
+    .optional(),
+  max_uses: z.number()
+    .int('Max uses must be an integer')
+    .min(1, 'Max uses must be at least 1')
+    .optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function formatInvite(invite: any) {
+  return {
+    id: invite.id,
+    token: createInviteToken(invite.session_id, invite.id),
+    expires_at: invite.expires_at,
+    max_uses: invite.max_uses,
+    use_count: invite.use_count,
+    revoked_at: invite.revoked_at,
+    created_at: invite.created_at,
+    active: isInviteUsable(invite),
+  };
+}
+
+// GET /api/sessions/[id]/invites - List invite links (host only)
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, created_by: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!await isSessionHost(prisma, session, user.id)) {
+      return NextResponse.json(
+        { error: 'Only the session hosts can manage invites' },
+        { status: 403 }
+      );
+    }
+
+    const invites = await prisma.sessionInvite.findMany({
+      where: { session_id: sessionId },
+      orderBy: { created_at: 'desc' },
+    });
+
+    return NextResponse.json({ invites: invites.map(formatInvite) });
+  } catch (error) {
+    console.error('Error fetching invites:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invites' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sessions/[id]/invites - Generate an invite link (host only)
+export async function POST(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = CreateInviteSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { expires_in_days, max_uses } = validationResult.data;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, created_by: true, status: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!await isSessionHost(prisma, session, user.id)) {
+      return NextResponse.json(
+        { error: 'Only the session hosts can manage invites' },
+        { status: 403 }
+      );
+    }
+
+    if (session.status === 'CANCELLED' || session.status === 'COMPLETED') {
+      return NextResponse.json(
+        { error: `Cannot invite people to a ${session.status.toLowerCase()} session` },
+        { status: 400 }
+      );
+    }
+
+    const invite = await prisma.sessionInvite.create({
+      data: {
+        session_id: sessionId,
+        created_by: user.id,
+        expires_at: expires_in_days
+          ? new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000)
+          : null,
+        max_uses: max_uses ?? null,
+      },
+    });
+
+    return NextResponse.json(formatInvite(invite), { status: 201 });
+  } catch (error) {
+    console.error('Error creating invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to create invite' },
+      { status: 500 }
+    );
+  }
+}
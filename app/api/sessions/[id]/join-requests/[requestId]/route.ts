@@ -0,0 +1,201 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { activeHoldWhere, promoteFromWaitlist } from '@/lib/waitlist';
+import { isSessionHost } from '@/lib/session-hosts';
+
+export const dynamic = 'force-dynamic';
+
+const JoinRequestActionSchema = z.object({
+  action: z.enum(['approve', 'reject'], {
+    message: 'Invalid action. Must be approve or reject',
+  }),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string; requestId: string }>;
+}
+
+// PATCH /api/sessions/[id]/join-requests/[requestId] - Approve or reject a request (host only)
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, requestId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = JoinRequestActionSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { action } = validationResult.data;
+
+    const result = await prisma.$transaction(async (tx: any) => {
+      const joinRequest = await tx.joinRequest.findUnique({
+        where: { id: requestId },
+      });
+
+      if (!joinRequest || joinRequest.session_id !== sessionId) {
+        throw new Error('REQUEST_NOT_FOUND');
+      }
+
+      const session = await tx.session.findUnique({
+        where: { id: sessionId },
+        include: {
+          _count: {
+            select: {
+              user_sessions: true,
+              // The requester's own hold doesn't block their approval
+              waitlist: {
+                where: { ...activeHoldWhere(), user_id: { not: joinRequest.user_id } },
+              },
+            },
+          },
+        },
+      });
+
+      if (!await isSessionHost(tx, session, user.id)) {
+        throw new Error('NOT_HOST');
+      }
+
+      if (joinRequest.status !== 'PENDING') {
+        throw new Error('REQUEST_NOT_PENDING');
+      }
+
+      if (action === 'reject') {
+        const rejected = await tx.joinRequest.update({
+          where: { id: requestId },
+          data: { status: 'REJECTED', decided_at: new Date() },
+        });
+
+        // Release any waitlist hold the requester was sitting on
+        const { count: releasedHolds } = await tx.waitlist.deleteMany({
+          where: { session_id: sessionId, user_id: joinRequest.user_id },
+        });
+        if (releasedHolds > 0) {
+          await promoteFromWaitlist(tx, sessionId);
+        }
+
+        await tx.notification.create({
+          data: {
+            user_id: joinRequest.user_id,
+            type: 'join_request_rejected',
+            title: 'Join Request Declined',
+            message: `The host declined your request to join the ${session.sport_type} session.`,
+            link: `/sessions/${sessionId}`,
+          },
+        });
+
+        return rejected;
+      }
+
+      if (session.status !== 'PUBLISHED') {
+        throw new Error('SESSION_NOT_OPEN');
+      }
+
+      if (new Date(session.date_time) < new Date()) {
+        throw new Error('SESSION_PAST');
+      }
+
+      // Only approved entries take up capacity
+      if (
+        session.max_participants &&
+        session._count.user_sessions + session._count.waitlist >= session.max_participants
+      ) {
+        throw new Error('SESSION_FULL');
+      }
+
+      await tx.userSession.create({
+        data: {
+          user_id: joinRequest.user_id,
+          session_id: sessionId,
+        },
+      });
+
+      // Approval claims any hold the requester had
+      await tx.waitlist.deleteMany({
+        where: { session_id: sessionId, user_id: joinRequest.user_id },
+      });
+
+      const approved = await tx.joinRequest.update({
+        where: { id: requestId },
+        data: { status: 'APPROVED', decided_at: new Date() },
+      });
+
+      await tx.notification.create({
+        data: {
+          user_id: joinRequest.user_id,
+          type: 'join_request_approved',
+          title: "You're In! 🎉",
+          message: `The host approved your request to join the ${session.sport_type} session.`,
+          link: `/sessions/${sessionId}`,
+        },
+      });
+
+      return approved;
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json({
+      message: action === 'approve' ? 'Join request approved' : 'Join request rejected',
+      joinRequest: result,
+    });
+  } catch (error: any) {
+    console.error('Error updating join request:', error);
+
+    if (error.message === 'REQUEST_NOT_FOUND') {
+      return NextResponse.json({ error: 'Join request not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_HOST') {
+      return NextResponse.json(
+        { error: 'Only the session hosts can review join requests' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'REQUEST_NOT_PENDING') {
+      return NextResponse.json(
+        { error: 'This join request has already been reviewed' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'SESSION_NOT_OPEN') {
+      return NextResponse.json(
+        { error: 'Session is not open for joining' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'SESSION_PAST') {
+      return NextResponse.json(
+        { error: 'Cannot approve requests for past sessions' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'SESSION_FULL') {
+      return NextResponse.json({ error: 'Session is full' }, { status: 400 });
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This user is already attending the session' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update join request' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { isSessionHost } from '@/lib/session-hosts';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/sessions/[id]/join-requests - Pending requests (host) and the
+// current user's own request
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, created_by: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const isHost = await isSessionHost(prisma, session, user.id);
+
+    const [requests, userRequest] = await Promise.all([
+      isHost
+        ? prisma.joinRequest.findMany({
+            where: { session_id: sessionId, status: 'PENDING' },
+            orderBy: { created_at: 'asc' },
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  username: true,
+                  display_name: true,
+                  avatar_url: true,
+                  reliability_score: true,
+                },
+              },
+            },
+          })
+        : Promise.resolve([]),
+      prisma.joinRequest.findUnique({
+        where: {
+          session_id_user_id: {
+            session_id: sessionId,
+            user_id: user.id,
+          },
+        },
+        select: { id: true, status: true, created_at: true, decided_at: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      requests: requests.map((r: any) => ({
+        id: r.id,
+        message: r.message,
+        created_at: r.created_at,
+        user: r.user,
+      })),
+      userRequest,
+    });
+  } catch (error) {
+    console.error('Error fetching join requests:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch join requests' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sessions/[id]/join-requests - Withdraw the current user's pending request
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+
+    const { count } = await prisma.joinRequest.deleteMany({
+      where: {
+        session_id: sessionId,
+        user_id: user.id,
+        status: 'PENDING',
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'No pending join request found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Join request withdrawn' });
+  } catch (error) {
+    console.error('Error withdrawing join request:', error);
+    return NextResponse.json(
+      { error: 'Failed to withdraw join request' },
+      { status: 500 }
+    );
+  }
+}
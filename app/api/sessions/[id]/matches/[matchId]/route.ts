@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { isSessionHost } from '@/lib/session-hosts';
+import { voidMatch } from '@/lib/ratings';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; matchId: string }>;
+}
+
+// DELETE /api/sessions/[id]/matches/[matchId] - Void a result and reverse its rating changes (hosts only)
+export async function DELETE(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, matchId } = await context.params;
+
+    await prisma.$transaction(async (tx: any) => {
+      const match = await tx.match.findUnique({
+        where: { id: matchId },
+        include: {
+          session: { select: { id: true, created_by: true } },
+          players: true,
+          tournament_match: { select: { id: true } },
+        },
+      });
+
+      if (!match || match.session_id !== sessionId) {
+        throw new Error('MATCH_NOT_FOUND');
+      }
+
+      if (!await isSessionHost(tx, match.session, user.id)) {
+        throw new Error('NOT_HOST');
+      }
+
+      if (match.voided_at) {
+        throw new Error('ALREADY_VOIDED');
+      }
+
+      // The bracket has to be corrected along with the rating
+      if (match.tournament_match) {
+        throw new Error('TOURNAMENT_MATCH');
+      }
+
+      await voidMatch(tx, match, user.id);
+    }, {
+      // Ratings are read and rewritten, so this must not interleave with new results
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error voiding match:', error);
+
+    if (error.message === 'MATCH_NOT_FOUND') {
+      return NextResponse.json({ error: 'Match not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_HOST') {
+      return NextResponse.json(
+        { error: 'Only the session hosts can void results' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'ALREADY_VOIDED') {
+      return NextResponse.json(
+        { error: 'This result has already been voided' },
+        { status: 409 }
+      );
+    }
+    if (error.message === 'TOURNAMENT_MATCH') {
+      return NextResponse.json(
+        { error: 'Tournament results are corrected from the tournament bracket' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to void match' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,225 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { canViewSession } from '@/lib/invites';
+import { isSessionHost } from '@/lib/session-hosts';
+import { hasRatedPairing, lineupError, recordMatch } from '@/lib/ratings';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for recording a match result
+const RecordMatchSchema = z.object({
+  format: z.enum(['SINGLES', 'DOUBLES', 'TEAM']),
+  score_a: z.number().int().min(0, 'Scores cannot be negative').max(999, 'Score too high'),
+  score_b: z.number().int().min(0, 'Scores cannot be negative').max(999, 'Score too high'),
+  side_a: z.array(z.string().uuid('Invalid user ID')).min(1, 'Each side needs a player'),
+  side_b: z.array(z.string().uuid('Invalid user ID')).min(1, 'Each side needs a player'),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const playerInclude = {
+  players: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          display_name: true,
+          avatar_url: true,
+        },
+      },
+    },
+  },
+};
+
+// GET /api/sessions/[id]/matches - List recorded match results
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const { id: sessionId } = await context.params;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, created_by: true, status: true, visibility: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    // Same visibility rules as the session itself
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const inviteToken = new URL(request.url).searchParams.get('invite');
+
+    if (!await canViewSession(prisma, session, user?.id, inviteToken)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const matches = await prisma.match.findMany({
+      where: { session_id: sessionId, voided_at: null },
+      include: {
+        ...playerInclude,
+        // Tournament results are corrected from the bracket
+        tournament_match: { select: { id: true } },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    return NextResponse.json({ data: matches });
+  } catch (error) {
+    console.error('Error fetching matches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch matches' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sessions/[id]/matches - Record a match result (hosts only)
+export async function POST(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = RecordMatchSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { format, score_a, score_b, side_a, side_b } = validationResult.data;
+
+    const invalidLineup = lineupError(format, side_a, side_b);
+    if (invalidLineup) {
+      return NextResponse.json({ error: invalidLineup }, { status: 400 });
+    }
+
+    const match = await prisma.$transaction(async (tx: any) => {
+      const session = await tx.session.findUnique({
+        where: { id: sessionId },
+        select: {
+          id: true,
+          created_by: true,
+          sport_type: true,
+          status: true,
+          date_time: true,
+        },
+      });
+
+      if (!session) {
+        throw new Error('SESSION_NOT_FOUND');
+      }
+
+      if (!await isSessionHost(tx, session, user.id)) {
+        throw new Error('NOT_HOST');
+      }
+
+      if (session.status === 'CANCELLED' || session.status === 'DRAFT') {
+        throw new Error('SESSION_NOT_PLAYED');
+      }
+
+      // Results can only be recorded once play has started
+      if (new Date(session.date_time) > new Date()) {
+        throw new Error('SESSION_NOT_STARTED');
+      }
+
+      // Everyone in the match must have taken part (no-shows didn't play)
+      const players = [...side_a, ...side_b];
+      const participantCount = await tx.userSession.count({
+        where: {
+          session_id: sessionId,
+          user_id: { in: players },
+          status: { not: 'NO_SHOW' },
+        },
+      });
+
+      if (participantCount !== players.length) {
+        throw new Error('NOT_PARTICIPANT');
+      }
+
+      if (await hasRatedPairing(tx, sessionId, side_a, side_b)) {
+        throw new Error('PAIRING_ALREADY_RATED');
+      }
+
+      return recordMatch(tx, {
+        sessionId,
+        sportType: session.sport_type,
+        format,
+        scoreA: score_a,
+        scoreB: score_b,
+        sideA: side_a,
+        sideB: side_b,
+        recordedBy: user.id,
+      });
+    }, {
+      // Ratings are read and rewritten, so concurrent results must not interleave
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json(match, { status: 201 });
+  } catch (error: any) {
+    console.error('Error recording match:', error);
+
+    if (error.message === 'SESSION_NOT_FOUND') {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_HOST') {
+      return NextResponse.json(
+        { error: 'Only the session hosts can record results' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'SESSION_NOT_PLAYED') {
+      return NextResponse.json(
+        { error: 'Results can only be recorded for sessions that took place' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'SESSION_NOT_STARTED') {
+      return NextResponse.json(
+        { error: 'Results can be recorded once the session has started' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'NOT_PARTICIPANT') {
+      return NextResponse.json(
+        { error: 'All players must be participants of the session' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'PAIRING_ALREADY_RATED') {
+      return NextResponse.json(
+        { error: 'These opponents already have a result in this session. Void it to record a different one.' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record match' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { getSessionHostIds } from '@/lib/session-hosts';
+import { isPeerReviewOpen, peerReviewWindow, sessionAttendees } from '@/lib/peer-reviews';
+
+export const dynamic = 'force-dynamic';
+
+const ratingField = (label: string) =>
+  z.number().int().min(1, `${label} must be between 1 and 5`).max(5, `${label} must be between 1 and 5`);
+
+// Zod schema for reviewing a fellow attendee
+const PeerReviewSchema = z.object({
+  reviewee_id: z.string().uuid('Invalid user ID'),
+  punctuality: ratingField('Punctuality'),
+  sportsmanship: ratingField('Sportsmanship'),
+  skill_accuracy: ratingField('Skill accuracy'),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function loadSession(sessionId: string) {
+  return prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      id: true,
+      created_by: true,
+      date_time: true,
+      duration_minutes: true,
+      status: true,
+      user_sessions: {
+        select: { user_id: true, status: true },
+      },
+    },
+  });
+}
+
+// GET /api/sessions/[id]/peer-reviews - The attendees the current user can
+// still rate. Never returns anyone's ratings.
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+
+    const session = await loadSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const hostIds = await getSessionHostIds(prisma, session);
+    const attendees = sessionAttendees(session.user_sessions, hostIds);
+    const window = peerReviewWindow(session.date_time, session.duration_minutes);
+
+    if (!attendees.has(user.id) || session.status === 'CANCELLED') {
+      return NextResponse.json({
+        data: { can_review: false, ...window, reviewees: [] },
+      });
+    }
+
+    const peerIds = [...attendees].filter((id) => id !== user.id);
+
+    const [peers, given] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: peerIds } },
+        select: {
+          id: true,
+          username: true,
+          display_name: true,
+          avatar_url: true,
+        },
+      }),
+      prisma.peerReview.findMany({
+        where: { session_id: sessionId, reviewer_id: user.id },
+        select: { reviewee_id: true },
+      }),
+    ]);
+
+    const reviewed = new Set(given.map((r: any) => r.reviewee_id));
+
+    return NextResponse.json({
+      data: {
+        can_review: isPeerReviewOpen(session.date_time, session.duration_minutes),
+        ...window,
+        reviewees: peers.map((peer: any) => ({
+          user: peer,
+          is_host: hostIds.includes(peer.id),
+          reviewed: reviewed.has(peer.id),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching peer reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch peer reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sessions/[id]/peer-reviews - Rate a fellow attendee
+export async function POST(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = PeerReviewSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { reviewee_id, punctuality, sportsmanship, skill_accuracy } = validationResult.data;
+
+    if (reviewee_id === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot review yourself' },
+        { status: 400 }
+      );
+    }
+
+    const session = await loadSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (session.status === 'CANCELLED' || !isPeerReviewOpen(session.date_time, session.duration_minutes)) {
+      return NextResponse.json(
+        { error: 'Peer reviews are not open for this session' },
+        { status: 400 }
+      );
+    }
+
+    const attendees = sessionAttendees(session.user_sessions, await getSessionHostIds(prisma, session));
+
+    if (!attendees.has(user.id)) {
+      return NextResponse.json(
+        { error: 'Only attendees of this session can leave peer reviews' },
+        { status: 403 }
+      );
+    }
+
+    if (!attendees.has(reviewee_id)) {
+      return NextResponse.json(
+        { error: 'You can only review people who attended this session' },
+        { status: 400 }
+      );
+    }
+
+    const review = await prisma.peerReview.create({
+      data: {
+        session_id: sessionId,
+        reviewer_id: user.id,
+        reviewee_id,
+        punctuality,
+        sportsmanship,
+        skill_accuracy,
+      },
+      select: {
+        id: true,
+        reviewee_id: true,
+        created_at: true,
+      },
+    });
+
+    return NextResponse.json({ data: review }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating peer review:', error);
+
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'You have already reviewed this person for this session' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to submit peer review' },
+      { status: 500 }
+    );
+  }
+}
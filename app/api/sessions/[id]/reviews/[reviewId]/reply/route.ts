@@ -0,0 +1,156 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { reviewReplySchema, validateRequestBody } from '@/lib/validations';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { isSessionHost } from '@/lib/session-hosts';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; reviewId: string }>;
+}
+
+/**
+ * Load a review of the session for one of its hosts
+ * Returns an error response if the review or permission is missing.
+ */
+async function loadReviewForHost(sessionId: string, reviewId: string, userId: string) {
+  const review = await prisma.review.findUnique({
+    where: { id: reviewId },
+    include: {
+      session: {
+        select: { id: true, created_by: true, sport_type: true },
+      },
+    },
+  });
+
+  if (!review || review.session_id !== sessionId) {
+    return { error: NextResponse.json({ error: 'Review not found' }, { status: 404 }) };
+  }
+
+  if (!await isSessionHost(prisma, review.session, userId)) {
+    return {
+      error: NextResponse.json(
+        { error: 'Only the session hosts can reply to reviews' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { review };
+}
+
+// PUT /api/sessions/[id]/reviews/[reviewId]/reply - Add or edit the host reply
+export async function PUT(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, reviewId } = await context.params;
+    const body = await request.json();
+
+    const validation = validateRequestBody(reviewReplySchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { review, error } = await loadReviewForHost(sessionId, reviewId, user.id);
+    if (error) {
+      return error;
+    }
+
+    const isNewReply = !review.host_reply;
+
+    const updated = await prisma.review.update({
+      where: { id: reviewId },
+      data: {
+        host_reply: validation.data.reply,
+        host_reply_by: user.id,
+        host_replied_at: new Date(),
+      },
+      select: {
+        id: true,
+        host_reply: true,
+        host_replied_at: true,
+        replier: {
+          select: {
+            id: true,
+            display_name: true,
+            username: true,
+          },
+        },
+      },
+    });
+
+    // Let the reviewer know the host responded (not on every edit)
+    if (isNewReply) {
+      await prisma.notification.create({
+        data: {
+          user_id: review.user_id,
+          type: 'review_reply',
+          title: 'Host Replied',
+          message: `The host replied to your review of the ${review.session.sport_type} session.`,
+          link: `/sessions/${sessionId}`,
+        },
+      });
+    }
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    console.error('Error replying to review:', error);
+    return NextResponse.json(
+      { error: 'Failed to save reply' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sessions/[id]/reviews/[reviewId]/reply - Remove the host reply
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, reviewId } = await context.params;
+
+    const { error } = await loadReviewForHost(sessionId, reviewId, user.id);
+    if (error) {
+      return error;
+    }
+
+    await prisma.review.update({
+      where: { id: reviewId },
+      data: {
+        host_reply: null,
+        host_reply_by: null,
+        host_replied_at: null,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting review reply:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete reply' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { updateReviewSchema, validateRequestBody } from '@/lib/validations';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { refreshReviewAggregatesForSession } from '@/lib/review-aggregates';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; reviewId: string }>;
+}
+
+// PATCH /api/sessions/[id]/reviews/[reviewId] - Edit your review
+export async function PATCH(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, reviewId } = await context.params;
+    const body = await request.json();
+
+    const validation = validateRequestBody(updateReviewSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { rating, comment } = validation.data;
+
+    const review = await prisma.$transaction(async (tx: any) => {
+      const existing = await tx.review.findUnique({ where: { id: reviewId } });
+
+      if (!existing || existing.session_id !== sessionId) {
+        throw new Error('REVIEW_NOT_FOUND');
+      }
+
+      if (existing.user_id !== user.id) {
+        throw new Error('NOT_AUTHOR');
+      }
+
+      const updated = await tx.review.update({
+        where: { id: reviewId },
+        data: {
+          ...(rating !== undefined && { rating }),
+          // An omitted comment is left alone; an empty one clears it
+          ...(body.comment !== undefined && { comment }),
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              display_name: true,
+              username: true,
+              avatar_url: true,
+            },
+          },
+        },
+      });
+
+      if (rating !== undefined && rating !== existing.rating) {
+        await refreshReviewAggregatesForSession(tx, sessionId);
+      }
+
+      return updated;
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json(review);
+  } catch (error: any) {
+    console.error('Error updating review:', error);
+
+    if (error.message === 'REVIEW_NOT_FOUND') {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_AUTHOR') {
+      return NextResponse.json(
+        { error: 'You can only edit your own review' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update review' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sessions/[id]/reviews/[reviewId] - Delete your review
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, reviewId } = await context.params;
+
+    await prisma.$transaction(async (tx: any) => {
+      const existing = await tx.review.findUnique({ where: { id: reviewId } });
+
+      if (!existing || existing.session_id !== sessionId) {
+        throw new Error('REVIEW_NOT_FOUND');
+      }
+
+      if (existing.user_id !== user.id) {
+        throw new Error('NOT_AUTHOR');
+      }
+
+      await tx.review.delete({ where: { id: reviewId } });
+      await refreshReviewAggregatesForSession(tx, sessionId);
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting review:', error);
+
+    if (error.message === 'REVIEW_NOT_FOUND') {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_AUTHOR') {
+      return NextResponse.json(
+        { error: 'You can only delete your own review' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete review' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,10 @@ import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
 import { createReviewSchema, validateRequestBody } from '@/lib/validations';
+import { refreshReviewAggregates } from '@/lib/review-aggregates';
 
 // GET /api/sessions/[id]/reviews - Get all reviews for a session
+// Reviews hidden by moderators are left out
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -12,8 +14,14 @@ export async function GET(
     const { id } = await params;
 
     const reviews = await prisma.review.findMany({
-      where: { session_id: id },
-      include: {
+      where: { session_id: id, hidden_at: null },
+      select: {
+        id: true,
+        rating: true,
+        comment: true,
+        host_reply: true,
+        host_replied_at: true,
+        created_at: true,
         user: {
           select: {
             id: true,
@@ -22,6 +30,13 @@ export async function GET(
             avatar_url: true,
           },
         },
+        replier: {
+          select: {
+            id: true,
+            display_name: true,
+            username: true,
+          },
+        },
       },
       orderBy: { created_at: 'desc' },
     });
@@ -131,24 +146,33 @@ export async function POST(
       );
     }
 
-    // Create review
-    const review = await prisma.review.create({
-      data: {
-        user_id: user.id,
-        session_id: id,
-        rating,
-        comment,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            display_name: true,
-            username: true,
-            avatar_url: true,
+    // Create review and update the host and sport center ratings
+    const review = await prisma.$transaction(async (tx: any) => {
+      const created = await tx.review.create({
+        data: {
+          user_id: user.id,
+          session_id: id,
+          rating,
+          comment,
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              display_name: true,
+              username: true,
+              avatar_url: true,
+            },
           },
         },
-      },
+      });
+
+      await refreshReviewAggregates(tx, {
+        hostId: session.created_by,
+        sportCenterId: session.sport_center_id,
+      });
+
+      return created;
     });
 
     return NextResponse.json(review, { status: 201 });
@@ -2,6 +2,13 @@ import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
 import { sendSessionUpdateEmail } from '@/lib/email';
+import { canViewSession, SESSION_VISIBILITIES } from '@/lib/invites';
+import { isSessionHost } from '@/lib/session-hosts';
+import { DEFAULT_DECIDE_BY_HOURS, MAX_DECIDE_BY_HOURS } from '@/lib/min-participants';
+import { languageMix } from '@/lib/language-exchange';
+import { MAX_MIN_RATING } from '@/lib/ratings';
+import { findJoinConflicts } from '@/lib/join-eligibility';
+import { refreshReviewAggregates } from '@/lib/review-aggregates';
 
 export const dynamic = 'force-dynamic';
 
@@ -17,6 +24,15 @@ export async function GET(
       where: { id },
       include: {
         sport_center: true,
+        series: {
+          select: {
+            id: true,
+            frequency: true,
+            starts_at: true,
+            ends_at: true,
+            occurrence_count: true,
+          },
+        },
         user_sessions: {
           include: {
             user: {
@@ -25,11 +41,33 @@ export async function GET(
                 username: true,
                 display_name: true,
                 avatar_url: true,
+                // Only used for the language mix below
+                native_language: true,
                 // Note: email intentionally excluded to prevent data exposure
               },
             },
           },
         },
+        co_hosts: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                username: true,
+                display_name: true,
+                avatar_url: true,
+              },
+            },
+          },
+          orderBy: { created_at: 'asc' },
+        },
+        tournament: {
+          select: {
+            id: true,
+            format: true,
+            status: true,
+          },
+        },
         _count: {
           select: { user_sessions: true },
         },
@@ -40,11 +78,27 @@ export async function GET(
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    // Drafts are only visible to their hosts. Invite-only sessions are also
+    // visible to participants, waitlisted users and holders of a valid invite.
+    if (session.status === 'DRAFT' || session.visibility === 'INVITE_ONLY') {
+      const supabase = await createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      const inviteToken = new URL(request.url).searchParams.get('invite');
+
+      if (!await canViewSession(prisma, session, user?.id, inviteToken)) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
+    }
+
     // Map to include current_participants and participants array
     const sessionWithCount = {
       ...session,
       current_participants: session._count.user_sessions,
-      participants: session.user_sessions.map((us: any) => us.user),
+      participants: session.user_sessions.map(({ user: { native_language: _, ...participant } }: any) => participant),
+      language_mix: languageMix(session.user_sessions.map((us: any) => us.user)),
+      co_hosts: session.co_hosts.map((c: any) => c.user),
       user_sessions: undefined,
       _count: undefined,
     };
@@ -58,7 +112,9 @@ export async function GET(
   }
 }
 
-// DELETE /api/sessions/[id] - Cancel/delete a session (creator only)
+// DELETE /api/sessions/[id] - Cancel a session (creator only)
+// Published sessions are kept with status CANCELLED so participants, reviews
+// and reports still have a record of them; unpublished drafts are deleted.
 export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -106,9 +162,59 @@ export async function DELETE(
       );
     }
 
-    // Delete the session
-    await prisma.session.delete({
-      where: { id },
+    if (existingSession.status === 'DRAFT') {
+      await prisma.session.delete({
+        where: { id },
+      });
+
+      return NextResponse.json({ message: 'Draft deleted successfully' });
+    }
+
+    if (existingSession.status !== 'PUBLISHED') {
+      return NextResponse.json(
+        { error: `Session is already ${existingSession.status.toLowerCase()}` },
+        { status: 400 }
+      );
+    }
+
+    // Optional cancellation reason shown to participants
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body.reason === 'string' && body.reason.trim()
+      ? body.reason.trim().slice(0, 500)
+      : null;
+
+    const participantIds = existingSession.user_sessions
+      .map((participant: any) => participant.user_id)
+      .filter((participantId: string) => participantId !== user.id);
+
+    await prisma.$transaction(async (tx: any) => {
+      await tx.session.update({
+        where: { id },
+        data: {
+          status: 'CANCELLED',
+          cancellation_reason: reason,
+          cancelled_at: new Date(),
+        },
+      });
+
+      // Nobody can be promoted into a cancelled session
+      await tx.waitlist.deleteMany({
+        where: { session_id: id },
+      });
+
+      if (participantIds.length > 0) {
+        await tx.notification.createMany({
+          data: participantIds.map((participantId: string) => ({
+            user_id: participantId,
+            type: 'session_cancelled',
+            title: 'Session Cancelled',
+            message: reason
+              ? `The ${existingSession.sport_type} session at ${existingSession.sport_center.name_en} was cancelled: ${reason}`
+              : `The ${existingSession.sport_type} session at ${existingSession.sport_center.name_en} was cancelled.`,
+            link: `/sessions/${id}`,
+          })),
+        });
+      }
     });
 
     // Send cancellation notifications to all participants (non-blocking)
@@ -123,6 +229,7 @@ export async function DELETE(
             sportType: existingSession.sport_type.charAt(0).toUpperCase() + existingSession.sport_type.slice(1),
             updateType: 'cancelled',
             sportCenter: existingSession.sport_center.name_en,
+            reason: reason ?? undefined,
           }
         ).catch((err) => {
           
@@ -182,13 +289,20 @@ export async function PATCH(
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
-    if (existingSession.created_by !== user.id) {
+    if (!await isSessionHost(prisma, existingSession, user.id)) {
       return NextResponse.json(
-        { error: 'Only the session creator can update this session' },
+        { error: 'Only the session hosts can update this session' },
         { status: 403 }
       );
     }
 
+    if (existingSession.status === 'CANCELLED' || existingSession.status === 'COMPLETED') {
+      return NextResponse.json(
+        { error: `Cannot edit a ${existingSession.status.toLowerCase()} session` },
+        { status: 400 }
+      );
+    }
+
     // Build update data
     const updateData: any = {};
     if (body.sport_center_id !== undefined) updateData.sport_center_id = body.sport_center_id;
@@ -199,23 +313,301 @@ export async function PATCH(
     if (body.max_participants !== undefined) updateData.max_participants = body.max_participants ? parseInt(body.max_participants) : null;
     if (body.description_en !== undefined) updateData.description_en = body.description_en || null;
     if (body.description_ja !== undefined) updateData.description_ja = body.description_ja || null;
+    if (body.visibility !== undefined) {
+      if (!SESSION_VISIBILITIES.includes(body.visibility)) {
+        return NextResponse.json({ error: 'Invalid visibility' }, { status: 400 });
+      }
+      updateData.visibility = body.visibility;
+    }
+    if (body.requires_approval !== undefined) updateData.requires_approval = Boolean(body.requires_approval);
+    if (body.min_rating !== undefined) {
+      const minRating = body.min_rating === null || body.min_rating === '' ? null : parseInt(body.min_rating);
+      if (minRating !== null && (isNaN(minRating) || minRating < 0 || minRating > MAX_MIN_RATING)) {
+        return NextResponse.json(
+          { error: `Minimum rating must be between 0 and ${MAX_MIN_RATING}` },
+          { status: 400 }
+        );
+      }
+      if (minRating !== null && existingSession.vibe !== 'COMPETITIVE') {
+        return NextResponse.json(
+          { error: 'Only competitive sessions can set a minimum rating' },
+          { status: 400 }
+        );
+      }
+      updateData.min_rating = minRating;
+    }
 
-    const updatedSession = await prisma.session.update({
-      where: { id },
-      data: updateData,
-      include: {
-        sport_center: true,
-      },
-    });
+    // Minimum participants: the decide-by deadline keeps its lead time before
+    // the start, so it moves with the session unless a new lead is given.
+    // Only a changed threshold or lead is validated and re-checked; moving a
+    // confirmed session keeps it confirmed.
+    const minParticipants = body.min_participants === undefined
+      ? existingSession.min_participants
+      : body.min_participants === null || body.min_participants === ''
+        ? null
+        : parseInt(body.min_participants);
+    const maxParticipants = updateData.max_participants !== undefined
+      ? updateData.max_participants
+      : existingSession.max_participants;
+
+    if (minParticipants !== null && (isNaN(minParticipants) || minParticipants < 2)) {
+      return NextResponse.json(
+        { error: 'Minimum must be at least 2 participants' },
+        { status: 400 }
+      );
+    }
+    if (minParticipants !== null && maxParticipants && minParticipants > maxParticipants) {
+      return NextResponse.json(
+        { error: 'Minimum participants cannot exceed maximum participants' },
+        { status: 400 }
+      );
+    }
+
+    const currentLeadMs = existingSession.decide_by
+      ? existingSession.date_time.getTime() - existingSession.decide_by.getTime()
+      : DEFAULT_DECIDE_BY_HOURS * 60 * 60 * 1000;
+    let decideByLeadMs = currentLeadMs;
+    if (body.decide_by_hours !== undefined && body.decide_by_hours !== null) {
+      const hours = parseInt(body.decide_by_hours);
+      if (isNaN(hours) || hours < 1 || hours > MAX_DECIDE_BY_HOURS) {
+        return NextResponse.json(
+          { error: `Decide-by must be between 1 and ${MAX_DECIDE_BY_HOURS} hours before the session` },
+          { status: 400 }
+        );
+      }
+      decideByLeadMs = hours * 60 * 60 * 1000;
+    }
+
+    const newStart: Date = updateData.date_time ?? existingSession.date_time;
+    const decideBy = minParticipants !== null
+      ? new Date(newStart.getTime() - decideByLeadMs)
+      : null;
+    const thresholdChanged = minParticipants !== existingSession.min_participants ||
+      (minParticipants !== null && decideByLeadMs !== currentLeadMs);
+
+    if (thresholdChanged) {
+      if (decideBy && decideBy <= new Date()) {
+        return NextResponse.json(
+          { error: 'The decide-by deadline must be in the future' },
+          { status: 400 }
+        );
+      }
+      updateData.min_participants = minParticipants;
+      updateData.decide_by = decideBy;
+      // A changed threshold is checked again at the new deadline
+      updateData.confirmed_at = null;
+    } else if (decideBy && decideBy.getTime() !== existingSession.decide_by?.getTime()) {
+      updateData.decide_by = decideBy;
+    }
+
+    // Drafts can be published; published sessions cannot go back to draft
+    if (body.status !== undefined) {
+      if (body.status !== 'PUBLISHED' || existingSession.status !== 'DRAFT') {
+        return NextResponse.json(
+          { error: 'Only draft sessions can be published' },
+          { status: 400 }
+        );
+      }
+      const publishAt = updateData.date_time ?? existingSession.date_time;
+      if (publishAt <= new Date()) {
+        return NextResponse.json(
+          { error: 'Session date must be in the future to publish' },
+          { status: 400 }
+        );
+      }
+      updateData.status = 'PUBLISHED';
+    }
+
+    // Same schedule check as creating a published session: publishing a
+    // draft or moving a published session must not clash with the host's
+    // other sessions until they confirm with `allow_conflicts`
+    const newDuration: number = updateData.duration_minutes ?? existingSession.duration_minutes;
+    const slotChanged = newStart.getTime() !== existingSession.date_time.getTime() ||
+      newDuration !== existingSession.duration_minutes;
+    const publishedAfter = (updateData.status ?? existingSession.status) === 'PUBLISHED';
+
+    if (publishedAfter && (updateData.status || slotChanged) && !body.allow_conflicts) {
+      const conflicts = await findJoinConflicts(
+        prisma,
+        { id, date_time: newStart, duration_minutes: newDuration },
+        user.id
+      );
+      if (conflicts.length > 0) {
+        return NextResponse.json(
+          { error: 'This session clashes with your schedule', conflicts },
+          { status: 409 }
+        );
+      }
+    }
+
+    // For series occurrences, `scope` chooses between editing just this
+    // occurrence or this and all following occurrences (and the series template)
+    const scope = body.scope === 'future' ? 'future' : 'this';
+    let updatedSession;
+    // Participants of other occurrences moved along with this one
+    const rescheduled: Array<{ participant: any; dateTime: Date }> = [];
+
+    // Co-hosts are added per occurrence, so only the creator can change the
+    // series template
+    if (existingSession.series_id && scope === 'future' && existingSession.created_by !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the session creator can edit following occurrences' },
+        { status: 403 }
+      );
+    }
+
+    if (existingSession.series_id && scope === 'future') {
+      const seriesId = existingSession.series_id;
+      // Status, visibility, approval mode and the participant and rating
+      // minimums are per occurrence, not part of the series template
+      const {
+        date_time: newDateTime,
+        decide_by: _decideBy,
+        status,
+        visibility,
+        requires_approval,
+        min_participants,
+        min_rating,
+        confirmed_at,
+        ...templateData
+      } = updateData;
+      const occurrenceData = Object.fromEntries(
+        Object.entries({ status, visibility, requires_approval, min_participants, min_rating, confirmed_at })
+          .filter(([, value]) => value !== undefined)
+      );
+      // Shift following occurrences by the same amount this one moved
+      const timeShift = newDateTime
+        ? newDateTime.getTime() - existingSession.date_time.getTime()
+        : 0;
+
+      updatedSession = await prisma.$transaction(async (tx: any) => {
+        await tx.sessionSeries.update({
+          where: { id: seriesId },
+          data: templateData,
+        });
+
+        const occurrences = await tx.session.findMany({
+          where: {
+            series_id: seriesId,
+            date_time: { gte: existingSession.date_time },
+            status: { in: ['DRAFT', 'PUBLISHED'] },
+          },
+          select: {
+            id: true,
+            date_time: true,
+            decide_by: true,
+            sport_center_id: true,
+            user_sessions: {
+              select: {
+                user_id: true,
+                user: {
+                  select: {
+                    email: true,
+                    username: true,
+                    display_name: true,
+                    notification_email: true,
+                  },
+                },
+              },
+            },
+          },
+        });
+
+        for (const occurrence of occurrences) {
+          const occurrenceStart = new Date(occurrence.date_time.getTime() + timeShift);
+          let decideBy: Date | null | undefined;
+          if (thresholdChanged) {
+            decideBy = min_participants !== null
+              ? new Date(occurrenceStart.getTime() - decideByLeadMs)
+              : null;
+          } else if (timeShift !== 0 && occurrence.decide_by) {
+            decideBy = new Date(occurrence.decide_by.getTime() + timeShift);
+          }
+
+          await tx.session.update({
+            where: { id: occurrence.id },
+            data: {
+              ...templateData,
+              ...occurrenceData,
+              ...(timeShift !== 0 && {
+                date_time: occurrenceStart,
+              }),
+              ...(decideBy !== undefined && { decide_by: decideBy }),
+              series_override: false,
+            },
+          });
+
+          if (timeShift !== 0 && occurrence.id !== id) {
+            for (const participant of occurrence.user_sessions) {
+              rescheduled.push({ participant, dateTime: occurrenceStart });
+            }
+          }
+        }
+
+        // Reviews of moved occurrences now count towards the new center
+        if (templateData.sport_center_id !== undefined) {
+          const oldCenterIds = occurrences
+            .map((occurrence: { sport_center_id: string }) => occurrence.sport_center_id)
+            .filter((centerId: string) => centerId !== templateData.sport_center_id);
+          if (oldCenterIds.length > 0) {
+            for (const sportCenterId of new Set([...oldCenterIds, templateData.sport_center_id])) {
+              await refreshReviewAggregates(tx, { hostId: existingSession.created_by, sportCenterId });
+            }
+          }
+        }
+
+        return tx.session.findUnique({
+          where: { id },
+          include: {
+            sport_center: true,
+          },
+        });
+      }, {
+        maxWait: 10000,
+        timeout: 20000,
+      });
+    } else {
+      if (existingSession.series_id) {
+        // Mark occurrence as individually edited
+        updateData.series_override = true;
+      }
+
+      updatedSession = await prisma.$transaction(async (tx: any) => {
+        const session = await tx.session.update({
+          where: { id },
+          data: updateData,
+          include: {
+            sport_center: true,
+          },
+        });
+
+        // Reviews of this session now count towards the new center
+        if (session.sport_center_id !== existingSession.sport_center_id) {
+          for (const sportCenterId of [existingSession.sport_center_id, session.sport_center_id]) {
+            await refreshReviewAggregates(tx, { hostId: session.created_by, sportCenterId });
+          }
+        }
+
+        return session;
+      });
+    }
 
     // Send update notifications to participants (non-blocking)
     const dateChanged = body.date_time && new Date(body.date_time).getTime() !== existingSession.date_time.getTime();
 
     if (dateChanged) {
-      existingSession.user_sessions.forEach((participant: any) => {
+      const changes = [
+        ...existingSession.user_sessions.map((participant: any) => ({
+          participant,
+          dateTime: new Date(body.date_time),
+        })),
+        ...rescheduled,
+      ];
+
+      changes.forEach(({ participant, dateTime }) => {
         if (participant.user.notification_email && participant.user_id !== user.id) {
           const userName = participant.user.display_name || participant.user.username || participant.user.email.split('@')[0];
-          const newDateTime = new Date(body.date_time).toLocaleString('en-US', {
+          const newDateTime = dateTime.toLocaleString('en-US', {
             weekday: 'long',
             year: 'numeric',
             month: 'long',
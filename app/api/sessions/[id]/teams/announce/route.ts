@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { isSessionHost } from '@/lib/session-hosts';
+import { formatTeamsMessage, MAX_TEAMS, MIN_TEAMS } from '@/lib/team-balancer';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for announcing teams
+const AnnounceTeamsSchema = z.object({
+  teams: z.array(z.array(z.string().uuid('Invalid user ID')).min(1, 'Teams cannot be empty'))
+    .min(MIN_TEAMS, `At least ${MIN_TEAMS} teams are needed`)
+    .max(MAX_TEAMS, `At most ${MAX_TEAMS} teams can be announced`),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/sessions/[id]/teams/announce - Post the final teams to the session chat (hosts only)
+export async function POST(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = AnnounceTeamsSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { teams } = validationResult.data;
+    const playerIds = teams.flat();
+    if (new Set(playerIds).size !== playerIds.length) {
+      return NextResponse.json(
+        { error: 'A player can only be on one team' },
+        { status: 400 }
+      );
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, created_by: true, status: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!await isSessionHost(prisma, session, user.id)) {
+      return NextResponse.json(
+        { error: 'Only the session hosts can announce teams' },
+        { status: 403 }
+      );
+    }
+
+    const participants = await prisma.userSession.findMany({
+      where: { session_id: sessionId },
+      select: {
+        user: {
+          select: { id: true, username: true, display_name: true },
+        },
+      },
+    });
+
+    const names = new Map<string, string>(
+      participants.map(({ user: participant }: any) => [
+        participant.id,
+        participant.display_name || participant.username || 'Player',
+      ])
+    );
+    if (playerIds.some((id) => !names.has(id))) {
+      return NextResponse.json(
+        { error: 'All players must be participants of the session' },
+        { status: 400 }
+      );
+    }
+
+    const message = await prisma.$transaction(async (tx: any) => {
+      // The session chat is created on first use
+      const conversation = await tx.conversation.upsert({
+        where: { session_id: sessionId },
+        create: {
+          type: 'session',
+          session_id: sessionId,
+          participants: {
+            create: participants.map(({ user: participant }: any) => ({
+              user_id: participant.id,
+            })),
+          },
+        },
+        update: {},
+        select: { id: true },
+      });
+
+      // Hosts need not be on the roster, but the sender must be in the chat
+      await tx.conversationParticipant.upsert({
+        where: {
+          conversation_id_user_id: {
+            conversation_id: conversation.id,
+            user_id: user.id,
+          },
+        },
+        create: {
+          conversation_id: conversation.id,
+          user_id: user.id,
+        },
+        update: {},
+      });
+
+      const created = await tx.message.create({
+        data: {
+          conversation_id: conversation.id,
+          sender_id: user.id,
+          content: formatTeamsMessage(teams.map((players) => ({ players })), names),
+        },
+      });
+
+      await tx.conversation.update({
+        where: { id: conversation.id },
+        data: { last_message_at: created.created_at },
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(message, { status: 201 });
+  } catch (error) {
+    console.error('Error announcing teams:', error);
+    return NextResponse.json(
+      { error: 'Failed to announce teams' },
+      { status: 500 }
+    );
+  }
+}
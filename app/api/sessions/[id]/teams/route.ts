@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { isSessionHost } from '@/lib/session-hosts';
+import { generateTeams, MAX_TEAMS, MIN_TEAMS, playerSkill } from '@/lib/team-balancer';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for generating teams
+const GenerateTeamsSchema = z.object({
+  team_count: z.number()
+    .int('Team count must be a whole number')
+    .min(MIN_TEAMS, `At least ${MIN_TEAMS} teams are needed`)
+    .max(MAX_TEAMS, `At most ${MAX_TEAMS} teams can be generated`),
+  keep_together: z.array(z.tuple([z.string().uuid('Invalid user ID'), z.string().uuid('Invalid user ID')]))
+    .max(50, 'Too many pairs')
+    .default([]),
+  // Player id -> team index the host pinned them to
+  locked: z.record(z.string().uuid('Invalid user ID'), z.number().int().min(0).max(MAX_TEAMS - 1)).default({}),
+  balance_languages: z.boolean().default(false),
+  seed: z.number().int().optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/sessions/[id]/teams - Generate balanced teams from the participants (hosts only)
+// Nothing is saved; the host can regenerate, lock players and then announce the teams.
+export async function POST(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = GenerateTeamsSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { team_count, keep_together, locked, balance_languages, seed } = validationResult.data;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        id: true,
+        created_by: true,
+        sport_type: true,
+        skill_level: true,
+        status: true,
+      },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!await isSessionHost(prisma, session, user.id)) {
+      return NextResponse.json(
+        { error: 'Only the session hosts can generate teams' },
+        { status: 403 }
+      );
+    }
+
+    if (session.status === 'CANCELLED') {
+      return NextResponse.json(
+        { error: 'Cannot generate teams for a cancelled session' },
+        { status: 400 }
+      );
+    }
+
+    // No-shows aren't there to play
+    const participants = await prisma.userSession.findMany({
+      where: { session_id: sessionId, status: { not: 'NO_SHOW' } },
+      select: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            display_name: true,
+            avatar_url: true,
+            native_language: true,
+            skill_levels: true,
+            sport_ratings: {
+              where: { sport_type: session.sport_type },
+              select: { rating: true },
+            },
+          },
+        },
+      },
+      orderBy: { marked_at: 'asc' },
+    });
+
+    if (participants.length < team_count) {
+      return NextResponse.json(
+        { error: 'Not enough participants for that many teams' },
+        { status: 400 }
+      );
+    }
+
+    const players = participants.map(({ user: participant }: any) => ({
+      id: participant.id,
+      username: participant.username,
+      display_name: participant.display_name,
+      avatar_url: participant.avatar_url,
+      native_language: participant.native_language,
+      skill: playerSkill(
+        participant.sport_ratings[0]?.rating,
+        participant.skill_levels,
+        session.sport_type,
+        session.skill_level
+      ),
+    }));
+    const byId = new Map(players.map((player: { id: string }) => [player.id, player]));
+
+    const teams = generateTeams(players, team_count, {
+      keepTogether: keep_together,
+      locked,
+      balanceLanguages: balance_languages,
+      seed,
+    });
+
+    return NextResponse.json({
+      teams: teams.map((team, index) => ({
+        index,
+        average_skill: team.average_skill,
+        players: team.players.map((id) => byId.get(id)),
+      })),
+    });
+  } catch (error) {
+    console.error('Error generating teams:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate teams' },
+      { status: 500 }
+    );
+  }
+}
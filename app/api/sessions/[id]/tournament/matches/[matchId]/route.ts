@@ -0,0 +1,277 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { isSessionHost } from '@/lib/session-hosts';
+import { hasRatedPairing, recordMatch, voidMatch } from '@/lib/ratings';
+import { clearTournamentResult, isResultLocked, recordTournamentResult } from '@/lib/tournaments';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for entering a tournament match score
+const MatchScoreSchema = z.object({
+  score_a: z.number().int().min(0, 'Scores cannot be negative').max(999, 'Score too high'),
+  score_b: z.number().int().min(0, 'Scores cannot be negative').max(999, 'Score too high'),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string; matchId: string }>;
+}
+
+// PATCH /api/sessions/[id]/tournament/matches/[matchId] - Enter a score and advance the bracket (hosts only)
+export async function PATCH(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, matchId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = MatchScoreSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { score_a, score_b } = validationResult.data;
+
+    await prisma.$transaction(async (tx: any) => {
+      const session = await tx.session.findUnique({
+        where: { id: sessionId },
+        select: {
+          id: true,
+          created_by: true,
+          sport_type: true,
+          date_time: true,
+        },
+      });
+
+      if (!session) {
+        throw new Error('SESSION_NOT_FOUND');
+      }
+
+      if (!await isSessionHost(tx, session, user.id)) {
+        throw new Error('NOT_HOST');
+      }
+
+      if (new Date(session.date_time) > new Date()) {
+        throw new Error('SESSION_NOT_STARTED');
+      }
+
+      const tournament = await tx.tournament.findUnique({
+        where: { session_id: sessionId },
+        include: { matches: true },
+      });
+
+      const match = tournament?.matches.find((m: { id: string }) => m.id === matchId);
+      if (!tournament || !match) {
+        throw new Error('MATCH_NOT_FOUND');
+      }
+
+      if (tournament.status === 'COMPLETED' || match.completed_at) {
+        throw new Error('ALREADY_PLAYED');
+      }
+
+      // Waiting for the previous round to decide who plays
+      if (!match.player_a_id || !match.player_b_id) {
+        throw new Error('PLAYERS_UNDECIDED');
+      }
+
+      if (tournament.format === 'SINGLE_ELIMINATION' && score_a === score_b) {
+        throw new Error('DRAW_NOT_ALLOWED');
+      }
+
+      await recordTournamentResult(tx, tournament, matchId, score_a, score_b);
+
+      // Tournament games count towards the players' ratings like any other
+      // match, and like any other match a pairing is only rated once per session
+      const sideA = [match.player_a_id];
+      const sideB = [match.player_b_id];
+      if (!await hasRatedPairing(tx, sessionId, sideA, sideB)) {
+        const rated = await recordMatch(tx, {
+          sessionId,
+          sportType: session.sport_type,
+          format: 'SINGLES',
+          scoreA: score_a,
+          scoreB: score_b,
+          sideA,
+          sideB,
+          recordedBy: user.id,
+        });
+        await tx.tournamentMatch.update({
+          where: { id: matchId },
+          data: { rating_match_id: rated.id },
+        });
+      }
+    }, {
+      // The bracket and ratings are read and rewritten, so results must not interleave
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error recording tournament result:', error);
+
+    if (error.message === 'SESSION_NOT_FOUND') {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_HOST') {
+      return NextResponse.json(
+        { error: 'Only the session hosts can enter scores' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'SESSION_NOT_STARTED') {
+      return NextResponse.json(
+        { error: 'Scores can be entered once the session has started' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'MATCH_NOT_FOUND') {
+      return NextResponse.json({ error: 'Match not found' }, { status: 404 });
+    }
+    if (error.message === 'ALREADY_PLAYED') {
+      return NextResponse.json(
+        { error: 'This match already has a result' },
+        { status: 409 }
+      );
+    }
+    if (error.message === 'PLAYERS_UNDECIDED') {
+      return NextResponse.json(
+        { error: 'Both players must be decided before entering a score' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'DRAW_NOT_ALLOWED') {
+      return NextResponse.json(
+        { error: 'Elimination matches need a winner' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record result' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sessions/[id]/tournament/matches/[matchId] - Clear a wrong result so it can be entered again (hosts only)
+// Reverses the bracket and the rating change the result made
+export async function DELETE(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId, matchId } = await context.params;
+
+    await prisma.$transaction(async (tx: any) => {
+      const session = await tx.session.findUnique({
+        where: { id: sessionId },
+        select: { id: true, created_by: true },
+      });
+
+      if (!session) {
+        throw new Error('SESSION_NOT_FOUND');
+      }
+
+      if (!await isSessionHost(tx, session, user.id)) {
+        throw new Error('NOT_HOST');
+      }
+
+      const tournament = await tx.tournament.findUnique({
+        where: { session_id: sessionId },
+        include: { matches: true },
+      });
+
+      const match = tournament?.matches.find((m: { id: string }) => m.id === matchId);
+      if (!tournament || !match) {
+        throw new Error('MATCH_NOT_FOUND');
+      }
+
+      // Byes have no result to correct
+      if (!match.completed_at || !match.player_a_id || !match.player_b_id) {
+        throw new Error('NO_RESULT');
+      }
+
+      if (isResultLocked(tournament, match)) {
+        throw new Error('RESULT_LOCKED');
+      }
+
+      await clearTournamentResult(tx, tournament, matchId);
+
+      if (match.rating_match_id) {
+        const rated = await tx.match.findUnique({
+          where: { id: match.rating_match_id },
+          include: { players: true },
+        });
+        if (rated && !rated.voided_at) {
+          await voidMatch(tx, rated, user.id);
+        }
+      }
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error clearing tournament result:', error);
+
+    if (error.message === 'SESSION_NOT_FOUND') {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_HOST') {
+      return NextResponse.json(
+        { error: 'Only the session hosts can correct scores' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'MATCH_NOT_FOUND') {
+      return NextResponse.json({ error: 'Match not found' }, { status: 404 });
+    }
+    if (error.message === 'NO_RESULT') {
+      return NextResponse.json(
+        { error: 'This match has no result to clear' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'RESULT_LOCKED') {
+      return NextResponse.json(
+        { error: 'Later matches already depend on this result' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to clear result' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,312 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { canViewSession } from '@/lib/invites';
+import { isSessionHost } from '@/lib/session-hosts';
+import { playerSkill } from '@/lib/team-balancer';
+import {
+  computeStandings,
+  createTournament,
+  MAX_TOURNAMENT_PLAYERS,
+  MIN_TOURNAMENT_PLAYERS,
+  TOURNAMENT_FORMATS,
+} from '@/lib/tournaments';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for starting a tournament
+const CreateTournamentSchema = z.object({
+  format: z.enum(TOURNAMENT_FORMATS, {
+    message: 'Invalid tournament format',
+  }),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/sessions/[id]/tournament - Bracket, players and standings
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const { id: sessionId } = await context.params;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, created_by: true, status: true, visibility: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    // Same visibility rules as the session itself
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const inviteToken = new URL(request.url).searchParams.get('invite');
+
+    if (!await canViewSession(prisma, session, user?.id, inviteToken)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const tournament = await prisma.tournament.findUnique({
+      where: { session_id: sessionId },
+      include: {
+        matches: {
+          orderBy: [{ round: 'asc' }, { position: 'asc' }],
+        },
+      },
+    });
+
+    if (!tournament) {
+      return NextResponse.json({ error: 'Tournament not found' }, { status: 404 });
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: tournament.player_ids } },
+      select: {
+        id: true,
+        username: true,
+        display_name: true,
+        avatar_url: true,
+      },
+    });
+    const byId = new Map(users.map((u: { id: string }) => [u.id, u]));
+
+    return NextResponse.json({
+      data: {
+        ...tournament,
+        // Seeded order, best first
+        players: tournament.player_ids.map((id: string) => byId.get(id)).filter(Boolean),
+        standings: computeStandings(tournament.player_ids, tournament.matches),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching tournament:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tournament' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sessions/[id]/tournament - Start a tournament from the participants (hosts only)
+export async function POST(request: Request, context: RouteContext) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = CreateTournamentSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { format } = validationResult.data;
+
+    const tournament = await prisma.$transaction(async (tx: any) => {
+      const session = await tx.session.findUnique({
+        where: { id: sessionId },
+        select: {
+          id: true,
+          created_by: true,
+          sport_type: true,
+          skill_level: true,
+          status: true,
+        },
+      });
+
+      if (!session) {
+        throw new Error('SESSION_NOT_FOUND');
+      }
+
+      if (!await isSessionHost(tx, session, user.id)) {
+        throw new Error('NOT_HOST');
+      }
+
+      if (session.status === 'CANCELLED' || session.status === 'DRAFT') {
+        throw new Error('SESSION_NOT_OPEN');
+      }
+
+      const existing = await tx.tournament.findUnique({
+        where: { session_id: sessionId },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new Error('TOURNAMENT_EXISTS');
+      }
+
+      // No-shows aren't there to play
+      const participants = await tx.userSession.findMany({
+        where: { session_id: sessionId, status: { not: 'NO_SHOW' } },
+        select: {
+          user: {
+            select: {
+              id: true,
+              skill_levels: true,
+              sport_ratings: {
+                where: { sport_type: session.sport_type },
+                select: { rating: true },
+              },
+            },
+          },
+        },
+        orderBy: { marked_at: 'asc' },
+      });
+
+      if (participants.length < MIN_TOURNAMENT_PLAYERS) {
+        throw new Error('NOT_ENOUGH_PLAYERS');
+      }
+
+      if (participants.length > MAX_TOURNAMENT_PLAYERS) {
+        throw new Error('TOO_MANY_PLAYERS');
+      }
+
+      // Seed by strength in the sport, best first (ties keep join order)
+      const seeded = participants
+        .map(({ user: participant }: any) => ({
+          id: participant.id as string,
+          skill: playerSkill(
+            participant.sport_ratings[0]?.rating,
+            participant.skill_levels,
+            session.sport_type,
+            session.skill_level
+          ),
+        }))
+        .sort((a: { skill: number }, b: { skill: number }) => b.skill - a.skill);
+
+      return createTournament(tx, sessionId, format, seeded.map((player: { id: string }) => player.id));
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    return NextResponse.json(tournament, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating tournament:', error);
+
+    if (error.message === 'SESSION_NOT_FOUND') {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (error.message === 'NOT_HOST') {
+      return NextResponse.json(
+        { error: 'Only the session hosts can run a tournament' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'SESSION_NOT_OPEN') {
+      return NextResponse.json(
+        { error: 'Tournaments can only be run for published sessions' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'TOURNAMENT_EXISTS') {
+      return NextResponse.json(
+        { error: 'This session already has a tournament' },
+        { status: 409 }
+      );
+    }
+    if (error.message === 'NOT_ENOUGH_PLAYERS') {
+      return NextResponse.json(
+        { error: `A tournament needs at least ${MIN_TOURNAMENT_PLAYERS} participants` },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'TOO_MANY_PLAYERS') {
+      return NextResponse.json(
+        { error: `A tournament can have at most ${MAX_TOURNAMENT_PLAYERS} players` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create tournament' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sessions/[id]/tournament - Cancel a tournament before any results (hosts only)
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, created_by: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (!await isSessionHost(prisma, session, user.id)) {
+      return NextResponse.json(
+        { error: 'Only the session hosts can cancel a tournament' },
+        { status: 403 }
+      );
+    }
+
+    const tournament = await prisma.tournament.findUnique({
+      where: { session_id: sessionId },
+      select: { id: true },
+    });
+
+    if (!tournament) {
+      return NextResponse.json({ error: 'Tournament not found' }, { status: 404 });
+    }
+
+    // Byes are complete from the start; any other result means play has begun
+    const played = await prisma.tournamentMatch.count({
+      where: {
+        tournament_id: tournament.id,
+        score_a: { not: null },
+      },
+    });
+
+    if (played > 0) {
+      return NextResponse.json(
+        { error: 'A tournament cannot be cancelled once results are in' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.tournament.delete({ where: { id: tournament.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling tournament:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel tournament' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,28 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { activeHoldWhere, promoteFromWaitlist } from '@/lib/waitlist';
+import { canViewSession, findValidInvite } from '@/lib/invites';
+import { createJoinRequest } from '@/lib/join-requests';
+import { checkJoinEligibility, findJoinConflicts } from '@/lib/join-eligibility';
 
 export const dynamic = 'force-dynamic';
 
+// Zod schemas for input validation
+const JoinWaitlistSchema = z.object({
+  auto_join: z.boolean().default(false),
+  invite_token: z.string().max(200).optional(),
+});
+
+const WaitlistActionSchema = z.object({
+  action: z.enum(['accept', 'decline'], {
+    message: 'Invalid action. Must be accept or decline',
+  }),
+  // Claim the spot even though the session clashes with the user's schedule
+  allow_conflicts: z.boolean().optional(),
+});
+
 interface RouteContext {
   params: Promise<{ id: string }>;
 }
@@ -22,6 +41,16 @@ export async function POST(request: Request, context: RouteContext) {
 
     const { id: sessionId } = await context.params;
 
+    // Body is optional for backwards compatibility
+    const body = await request.json().catch(() => ({}));
+    const validationResult = JoinWaitlistSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { auto_join, invite_token } = validationResult.data;
+
     // Fetch session with current participant count
     const session = await prisma.session.findUnique({
       where: { id: sessionId },
@@ -36,6 +65,13 @@ export async function POST(request: Request, context: RouteContext) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    if (session.status !== 'PUBLISHED') {
+      return NextResponse.json(
+        { error: 'Session is not open for joining' },
+        { status: 400 }
+      );
+    }
+
     // Check if session is in the past
     if (new Date(session.date_time) < new Date()) {
       return NextResponse.json(
@@ -44,6 +80,19 @@ export async function POST(request: Request, context: RouteContext) {
       );
     }
 
+    if (session.visibility === 'INVITE_ONLY' && session.created_by !== user.id) {
+      const invite = await findValidInvite(prisma, sessionId, invite_token);
+      if (!invite) {
+        return NextResponse.json(
+          { error: 'A valid invite is required to join this session' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // The waitlist leads onto the roster, so the same entry rules apply
+    await checkJoinEligibility(prisma, session, user.id);
+
     // Check if user is already attending
     const existingAttendance = await prisma.userSession.findUnique({
       where: {
@@ -79,7 +128,14 @@ export async function POST(request: Request, context: RouteContext) {
     }
 
     // Check if session is actually full (waitlist only makes sense for full sessions)
-    const isFull = session.max_participants && session._count.user_sessions >= session.max_participants;
+    // Spots reserved for promoted waitlist users count as taken
+    const activeHolds = await prisma.waitlist.count({
+      where: {
+        session_id: sessionId,
+        ...activeHoldWhere(),
+      },
+    });
+    const isFull = session.max_participants && session._count.user_sessions + activeHolds >= session.max_participants;
 
     if (!isFull) {
       return NextResponse.json(
@@ -97,6 +153,7 @@ export async function POST(request: Request, context: RouteContext) {
         session_id: sessionId,
         user_id: user.id,
         position: currentPosition,
+        auto_join,
       },
       include: {
         session: {
@@ -126,11 +183,20 @@ export async function POST(request: Request, context: RouteContext) {
       waitlist: {
         id: waitlistEntry.id,
         position: currentPosition,
+        auto_join: waitlistEntry.auto_join,
         created_at: waitlistEntry.created_at,
       },
     }, { status: 201 });
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error joining waitlist:', error);
+
+    if (error.message === 'RATING_TOO_LOW') {
+      return NextResponse.json(
+        { error: 'Your rating in this sport is below the minimum for this session' },
+        { status: 403 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to join waitlist' },
       { status: 500 }
@@ -148,6 +214,21 @@ export async function GET(request: Request, context: RouteContext) {
 
     const { id: sessionId } = await context.params;
 
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, created_by: true, status: true, visibility: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    // Same visibility rules as the session itself
+    const inviteToken = new URL(request.url).searchParams.get('invite');
+    if (!await canViewSession(prisma, session, user?.id, inviteToken)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
     // Fetch waitlist with user info
     const waitlist = await prisma.waitlist.findMany({
       where: { session_id: sessionId },
@@ -166,16 +247,25 @@ export async function GET(request: Request, context: RouteContext) {
 
     // Check if current user is on waitlist
     let userPosition: number | null = null;
+    let userHold: { expires_at: Date } | null = null;
+    let userAutoJoin = false;
     if (user) {
       const userEntry = waitlist.findIndex((w: typeof waitlist[number]) => w.user_id === user.id);
       if (userEntry !== -1) {
+        const entry = waitlist[userEntry];
         userPosition = userEntry + 1;
+        userAutoJoin = entry.auto_join;
+        if (entry.notified && entry.hold_expires_at && entry.hold_expires_at > new Date()) {
+          userHold = { expires_at: entry.hold_expires_at };
+        }
       }
     }
 
     return NextResponse.json({
       count: waitlist.length,
       userPosition,
+      userHold,
+      userAutoJoin,
       waitlist: waitlist.map((w: typeof waitlist[number], index: number) => ({
         position: index + 1,
         user: w.user,
@@ -191,6 +281,191 @@ export async function GET(request: Request, context: RouteContext) {
   }
 }
 
+// PATCH /api/sessions/[id]/waitlist - Accept or decline a reserved spot
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: sessionId } = await context.params;
+    const body = await request.json();
+
+    const validationResult = WaitlistActionSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { action, allow_conflicts } = validationResult.data;
+
+    const result = await prisma.$transaction(async (tx: any) => {
+      const waitlistEntry = await tx.waitlist.findUnique({
+        where: {
+          session_id_user_id: {
+            session_id: sessionId,
+            user_id: user.id,
+          },
+        },
+      });
+
+      if (!waitlistEntry) {
+        throw new Error('NOT_ON_WAITLIST');
+      }
+
+      const hasActiveHold = waitlistEntry.notified &&
+        waitlistEntry.hold_expires_at &&
+        new Date(waitlistEntry.hold_expires_at) > new Date();
+
+      if (!hasActiveHold) {
+        throw new Error('NO_ACTIVE_HOLD');
+      }
+
+      if (action === 'accept') {
+        const session = await tx.session.findUnique({
+          where: { id: sessionId },
+          select: {
+            id: true,
+            created_by: true,
+            sport_type: true,
+            min_rating: true,
+            requires_approval: true,
+            date_time: true,
+            duration_minutes: true,
+          },
+        });
+
+        if (!session) {
+          throw new Error('SESSION_NOT_FOUND');
+        }
+
+        // Ratings can drop while waiting, so check again before claiming
+        await checkJoinEligibility(tx, session, user.id);
+
+        // Warn about clashes with the user's other sessions until confirmed
+        if (!allow_conflicts) {
+          const conflicts = await findJoinConflicts(tx, session, user.id);
+          if (conflicts.length > 0) {
+            return { attendance: null, joinRequest: null, conflicts };
+          }
+        }
+
+        // Claiming a hold on an approval session sends a join request; the
+        // hold stays in place while the host decides
+        if (session.requires_approval) {
+          const joinRequest = await createJoinRequest(tx, {
+            sessionId,
+            userId: user.id,
+            hostId: session.created_by,
+            sportType: session.sport_type,
+          });
+          return { attendance: null, joinRequest, conflicts: [] };
+        }
+      }
+
+      // Either way the entry leaves the waitlist
+      await tx.waitlist.delete({
+        where: { id: waitlistEntry.id },
+      });
+
+      if (action === 'accept') {
+        const attendance = await tx.userSession.create({
+          data: {
+            user_id: user.id,
+            session_id: sessionId,
+          },
+        });
+        return { attendance, joinRequest: null, conflicts: [] };
+      }
+
+      // Declined: roll the spot to the next person
+      await promoteFromWaitlist(tx, sessionId);
+      return { attendance: null, joinRequest: null, conflicts: [] };
+    }, {
+      isolationLevel: 'Serializable',
+      maxWait: 10000,
+      timeout: 10000,
+    });
+
+    if (result.conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'This session clashes with your schedule',
+          conflicts: result.conflicts,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (result.joinRequest) {
+      return NextResponse.json({
+        success: true,
+        message: 'Join request sent to the host',
+        pending: true,
+        joinRequest: result.joinRequest,
+      }, { status: 202 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: action === 'accept' ? 'Spot claimed - see you there!' : 'Spot released to the next person',
+      attendance: result.attendance,
+    });
+  } catch (error: any) {
+    console.error('Error updating waitlist hold:', error);
+
+    if (error.message === 'NOT_ON_WAITLIST') {
+      return NextResponse.json(
+        { error: 'You are not on the waitlist' },
+        { status: 404 }
+      );
+    }
+    if (error.message === 'SESSION_NOT_FOUND') {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    if (error.message === 'RATING_TOO_LOW') {
+      return NextResponse.json(
+        { error: 'Your rating in this sport is below the minimum for this session' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'REQUEST_PENDING') {
+      return NextResponse.json(
+        { error: 'Your join request is waiting for the host' },
+        { status: 400 }
+      );
+    }
+    if (error.message === 'REQUEST_REJECTED') {
+      return NextResponse.json(
+        { error: 'The host declined your request to join this session' },
+        { status: 403 }
+      );
+    }
+    if (error.message === 'NO_ACTIVE_HOLD') {
+      return NextResponse.json(
+        { error: 'You do not have a reserved spot, or it has expired' },
+        { status: 400 }
+      );
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'You are already attending this session' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update waitlist' },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/sessions/[id]/waitlist - Leave the waitlist
 export async function DELETE(request: Request, context: RouteContext) {
   try {
@@ -222,9 +497,15 @@ export async function DELETE(request: Request, context: RouteContext) {
       );
     }
 
-    // Remove from waitlist
-    await prisma.waitlist.delete({
-      where: { id: waitlistEntry.id },
+    // Remove from waitlist, releasing any reserved spot to the next person
+    await prisma.$transaction(async (tx: any) => {
+      await tx.waitlist.delete({
+        where: { id: waitlistEntry.id },
+      });
+
+      if (waitlistEntry.notified) {
+        await promoteFromWaitlist(tx, sessionId);
+      }
     });
 
     return NextResponse.json({
@@ -0,0 +1,139 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { buildHistory, rankRecommendations } from '@/lib/recommendations';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 6;
+const MAX_LIMIT = 20;
+
+/** Upcoming sessions scored per request */
+const MAX_CANDIDATES = 300;
+
+/** Past sessions considered when learning the user's habits */
+const MAX_HISTORY = 100;
+
+// GET /api/sessions/recommendations - Upcoming sessions picked for the user,
+// each with the reasons it was suggested
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT));
+
+    const historySelect = {
+      sport_type: true,
+      sport_center_id: true,
+      created_by: true,
+    };
+
+    const [profile, attended, favorites] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: user.id },
+        select: {
+          sport_preferences: true,
+          skill_levels: true,
+          native_language: true,
+          target_language: true,
+          location: true,
+        },
+      }),
+      prisma.session.findMany({
+        where: {
+          user_sessions: { some: { user_id: user.id, status: { not: 'NO_SHOW' } } },
+          status: { not: 'CANCELLED' },
+        },
+        select: historySelect,
+        orderBy: { date_time: 'desc' },
+        take: MAX_HISTORY,
+      }),
+      prisma.session.findMany({
+        where: { favorites: { some: { user_id: user.id } } },
+        select: historySelect,
+        take: MAX_HISTORY,
+      }),
+    ]);
+
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Open public sessions the user isn't already part of
+    const candidates = await prisma.session.findMany({
+      where: {
+        date_time: { gte: new Date() },
+        status: 'PUBLISHED',
+        visibility: 'PUBLIC',
+        created_by: { not: user.id },
+        user_sessions: { none: { user_id: user.id } },
+      },
+      select: {
+        id: true,
+        sport_center_id: true,
+        sport_type: true,
+        skill_level: true,
+        date_time: true,
+        duration_minutes: true,
+        max_participants: true,
+        min_participants: true,
+        decide_by: true,
+        confirmed_at: true,
+        description_en: true,
+        description_ja: true,
+        primary_language: true,
+        allow_english: true,
+        vibe: true,
+        created_by: true,
+        sport_center: {
+          select: {
+            id: true,
+            name_en: true,
+            name_ja: true,
+            address_en: true,
+            address_ja: true,
+            station_en: true,
+            station_ja: true,
+            latitude: true,
+            longitude: true,
+          },
+        },
+        _count: {
+          select: { user_sessions: true },
+        },
+      },
+      orderBy: { date_time: 'asc' },
+      take: MAX_CANDIDATES,
+    });
+
+    const openSessions = candidates
+      .map(({ _count, ...session }) => ({
+        ...session,
+        current_participants: _count.user_sessions,
+      }))
+      .filter((session) => !session.max_participants || session.current_participants < session.max_participants);
+
+    const recommendations = rankRecommendations(
+      openSessions,
+      profile,
+      buildHistory(attended, favorites),
+      limit
+    );
+
+    return NextResponse.json({ data: recommendations });
+  } catch (error) {
+    console.error('Error fetching recommendations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recommendations' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,24 @@
 import { NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
 import { z } from 'zod';
 import { apiRateLimiter } from '@/lib/rate-limit';
+import { generateOccurrences, MAX_SERIES_OCCURRENCES, RECURRENCE_FREQUENCIES } from '@/lib/recurrence';
+import { SESSION_VISIBILITIES } from '@/lib/invites';
+import { DEFAULT_DECIDE_BY_HOURS, getDecideBy, MAX_DECIDE_BY_HOURS } from '@/lib/min-participants';
+import {
+  boundingBoxAround,
+  boundingBoxWhere,
+  DEFAULT_RADIUS_KM,
+  distanceKm,
+  MAX_RADIUS_KM,
+  parseBoundingBox,
+  parseLatLng,
+} from '@/lib/geo';
+import { buildSnippet, searchTerms, toSearchQuery } from '@/lib/search';
+import { DEFAULT_TRAVEL_BUFFER_MINUTES, findScheduleConflicts } from '@/lib/schedule-conflicts';
+import { DEFAULT_RATING, MAX_MIN_RATING } from '@/lib/ratings';
 
 export const dynamic = 'force-dynamic';
 
@@ -34,13 +50,68 @@ const CreateSessionSchema = z.object({
       return isNaN(num) ? null : num;
     })
     .pipe(z.number().min(2, 'Must allow at least 2 participants').nullable()),
+  // Optional minimum - the session is cancelled if it isn't reached by the
+  // decide-by deadline, `decide_by_hours` before the start
+  min_participants: z.union([z.number(), z.string(), z.null()])
+    .optional()
+    .transform((val) => {
+      if (val === null || val === undefined || val === '') return null;
+      const num = typeof val === 'string' ? parseInt(val, 10) : val;
+      return isNaN(num) ? null : num;
+    })
+    .pipe(z.number().int().min(2, 'Minimum must be at least 2 participants').nullable()),
+  decide_by_hours: z.number()
+    .int('Decide-by must be a whole number of hours')
+    .min(1, 'Decide-by must be at least 1 hour before the session')
+    .max(MAX_DECIDE_BY_HOURS, `Decide-by cannot be more than ${MAX_DECIDE_BY_HOURS} hours before the session`)
+    .default(DEFAULT_DECIDE_BY_HOURS),
   description_en: z.string().max(5000, 'Description too long').optional(),
   description_ja: z.string().max(5000, 'Description too long').optional(),
   // Language exchange & vibe fields
   primary_language: z.string().length(2, 'Language code must be 2 characters').default('ja'),
   allow_english: z.boolean().default(false),
   vibe: z.enum(VALID_VIBES).default('CASUAL'),
-});
+  // Lowest sport rating allowed to join (COMPETITIVE sessions only)
+  min_rating: z.number()
+    .int('Minimum rating must be a whole number')
+    .min(0, 'Minimum rating cannot be negative')
+    .max(MAX_MIN_RATING, `Minimum rating cannot exceed ${MAX_MIN_RATING}`)
+    .nullable()
+    .optional(),
+  // Drafts are only visible to the creator until published
+  status: z.enum(['DRAFT', 'PUBLISHED'] as const).default('PUBLISHED'),
+  // Unlisted and invite-only sessions are hidden from search
+  visibility: z.enum(SESSION_VISIBILITIES).default('PUBLIC'),
+  // Joining creates a request the host must approve
+  requires_approval: z.boolean().default(false),
+  // Optional recurrence rule - creates a SessionSeries with one session per occurrence
+  recurrence: z.object({
+    frequency: z.enum(RECURRENCE_FREQUENCIES),
+    ends_at: z.string()
+      .refine((val) => !isNaN(Date.parse(val)), 'Invalid series end date')
+      .optional(),
+    count: z.number()
+      .int('Occurrence count must be an integer')
+      .min(2, 'A series needs at least 2 occurrences')
+      .max(MAX_SERIES_OCCURRENCES, `A series cannot exceed ${MAX_SERIES_OCCURRENCES} occurrences`)
+      .optional(),
+  })
+    .refine(
+      (val) => val.ends_at !== undefined || val.count !== undefined,
+      'Recurring sessions need an end date or an occurrence count'
+    )
+    .optional(),
+  // Create even though the session clashes with the host's schedule
+  allow_conflicts: z.boolean().default(false),
+})
+  .refine(
+    (val) => !val.min_participants || !val.max_participants || val.min_participants <= val.max_participants,
+    'Minimum participants cannot exceed maximum participants'
+  )
+  .refine(
+    (val) => val.min_rating == null || val.vibe === 'COMPETITIVE',
+    'Only competitive sessions can set a minimum rating'
+  );
 
 /**
  * Helper function to get today's date range
@@ -92,6 +163,9 @@ function getWeekendRange(): { start: Date; end: Date } {
 const DEFAULT_PAGE_SIZE = 20;
 const MAX_PAGE_SIZE = 100;
 
+// Radius and text searches are sorted in memory, so cap the candidate rows
+const MAX_SORT_CANDIDATES = 500;
+
 // GET /api/sessions - List all sessions with filters and pagination
 export async function GET(request: Request) {
   try {
@@ -105,6 +179,37 @@ export async function GET(request: Request) {
     // Language exchange & vibe filters
     const vibe = searchParams.get('vibe'); // 'COMPETITIVE', 'CASUAL', 'ACADEMY', 'LANGUAGE_EXCHANGE'
     const allowEnglish = searchParams.get('allow_english'); // 'true' or 'false'
+    // Only sessions whose minimum rating the signed-in user meets
+    const eligibleOnly = searchParams.get('eligible') === 'true';
+    // Geographic filters
+    const near = searchParams.get('near'); // 'lat,lng'
+    const radiusParam = searchParams.get('radius_km');
+    const bboxParam = searchParams.get('bbox'); // 'west,south,east,north'
+    const sort = searchParams.get('sort'); // 'distance' (default with near), 'relevance' (default with search), 'date' or 'host_rating'
+
+    const nearPoint = parseLatLng(near);
+    if (near && !nearPoint) {
+      return NextResponse.json(
+        { error: 'Invalid "near" parameter. Use near=lat,lng' },
+        { status: 400 }
+      );
+    }
+
+    const radiusKm = radiusParam ? Number(radiusParam) : DEFAULT_RADIUS_KM;
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+      return NextResponse.json(
+        { error: `"radius_km" must be greater than 0 and at most ${MAX_RADIUS_KM}` },
+        { status: 400 }
+      );
+    }
+
+    const bbox = parseBoundingBox(bboxParam);
+    if (bboxParam && !bbox) {
+      return NextResponse.json(
+        { error: 'Invalid "bbox" parameter. Use bbox=west,south,east,north' },
+        { status: 400 }
+      );
+    }
 
     // Pagination parameters
     const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
@@ -148,6 +253,9 @@ export async function GET(request: Request) {
 
     const where: any = {
       date_time: dateRange,
+      // Drafts, cancelled and completed sessions are not listed
+      status: 'PUBLISHED',
+      visibility: 'PUBLIC',
     };
 
     if (sportType && sportType !== 'all') {
@@ -168,16 +276,82 @@ export async function GET(request: Request) {
       where.allow_english = true;
     }
 
-    if (search) {
-      where.OR = [
-        { sport_type: { contains: search, mode: 'insensitive' } },
-        { sport_center: { name_en: { contains: search, mode: 'insensitive' } } },
-        { sport_center: { name_ja: { contains: search, mode: 'insensitive' } } },
-      ];
+    // Rating gate: unrated sports count as the default rating
+    if (eligibleOnly) {
+      const supabase = await createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (user) {
+        const ratings = await prisma.sportRating.findMany({
+          where: { user_id: user.id },
+          select: { sport_type: true, rating: true },
+        });
+        where.OR = [
+          { min_rating: null },
+          {
+            min_rating: { lte: DEFAULT_RATING },
+            sport_type: { notIn: ratings.map((r: { sport_type: string }) => r.sport_type) },
+          },
+          ...ratings.map((r: { sport_type: string; rating: number }) => ({
+            sport_type: r.sport_type,
+            min_rating: { lte: r.rating },
+          })),
+        ];
+      }
     }
 
+    // Full-text search over the trigger-maintained search_vector. The ranked
+    // ids are fetched first and the remaining filters applied through Prisma.
+    const tsQuery = search ? toSearchQuery(search) : null;
+    let searchRanks: Map<string, number> | null = null;
+    if (tsQuery) {
+      const matches = await prisma.$queryRaw<Array<{ id: string; rank: number }>>`
+        SELECT s.id, ts_rank(s.search_vector, query) AS rank
+        FROM "Session" s, to_tsquery('simple', ${tsQuery}) query
+        WHERE s.search_vector @@ query
+          AND s.status = 'PUBLISHED'
+          AND s.visibility = 'PUBLIC'
+          AND s.date_time >= NOW()
+        ORDER BY rank DESC
+        LIMIT ${MAX_SORT_CANDIDATES}
+      `;
+      searchRanks = new Map(matches.map((match) => [match.id, Number(match.rank)]));
+      where.id = { in: Array.from(searchRanks.keys()) };
+    }
+
+    // Only sessions at sport centers inside the search area. A radius search
+    // is narrowed to its bounding box here and checked exactly below.
+    const geoFilters: any[] = [];
+    if (nearPoint) {
+      geoFilters.push({ sport_center: boundingBoxWhere(boundingBoxAround(nearPoint, radiusKm)) });
+    }
+    if (bbox) {
+      geoFilters.push({ sport_center: boundingBoxWhere(bbox) });
+    }
+    if (geoFilters.length > 0) {
+      where.AND = geoFilters;
+    }
+
+    // Radius searches sort by distance and text searches by relevance, so
+    // both are paginated in memory after fetching every candidate. Sorting
+    // by date or host rating keeps the database order.
+    const keepDatabaseOrder = sort === 'date' || sort === 'host_rating';
+    const rankByRelevance = searchRanks !== null && !nearPoint && !keepDatabaseOrder;
+    const paginateInMemory = Boolean(nearPoint) || rankByRelevance;
+
+    // Best-rated hosts first (unrated hosts last), then soonest
+    const orderBy: Prisma.SessionOrderByWithRelationInput | Prisma.SessionOrderByWithRelationInput[] = sort === 'host_rating'
+      ? [
+          { creator: { host_rating_avg: { sort: 'desc', nulls: 'last' } } },
+          { creator: { host_review_count: 'desc' } },
+          { date_time: 'asc' },
+        ]
+      : { date_time: 'asc' };
+
     // Execute count and data queries in parallel for efficiency
-    const [sessions, totalCount] = await Promise.all([
+    const [sessions, queryCount] = await Promise.all([
       prisma.session.findMany({
         where,
         select: {
@@ -188,11 +362,16 @@ export async function GET(request: Request) {
           date_time: true,
           duration_minutes: true,
           max_participants: true,
+          min_participants: true,
+          decide_by: true,
+          confirmed_at: true,
           description_en: true,
           description_ja: true,
           primary_language: true,
           allow_english: true,
           vibe: true,
+          min_rating: true,
+          series_id: true,
           created_by: true,
           created_at: true,
           updated_at: true,
@@ -207,28 +386,77 @@ export async function GET(request: Request) {
               station_ja: true,
               latitude: true,
               longitude: true,
+              rating_avg: true,
+              review_count: true,
+            },
+          },
+          creator: {
+            select: {
+              id: true,
+              display_name: true,
+              username: true,
+              avatar_url: true,
+              host_rating_avg: true,
+              host_review_count: true,
             },
           },
           _count: {
             select: { user_sessions: true },
           },
         },
-        orderBy: {
-          date_time: 'asc',
-        },
-        skip,
-        take: limit,
+        orderBy,
+        skip: paginateInMemory ? undefined : skip,
+        take: paginateInMemory ? MAX_SORT_CANDIDATES : limit,
       }),
-      prisma.session.count({ where }),
+      paginateInMemory ? Promise.resolve(0) : prisma.session.count({ where }),
     ]);
 
+    let totalCount = queryCount;
+
     // Map to include current_participants
-    const sessionsWithCounts = sessions.map((session: any) => ({
+    let sessionsWithCounts = sessions.map((session: any) => ({
       ...session,
       current_participants: session._count.user_sessions,
       _count: undefined,
     }));
 
+    if (searchRanks) {
+      const terms = searchTerms(search!);
+      sessionsWithCounts = sessionsWithCounts.map((session: any) => ({
+        ...session,
+        search_rank: searchRanks!.get(session.id) ?? 0,
+        search_snippet: buildSnippet(session, terms),
+      }));
+    }
+
+    if (rankByRelevance) {
+      // Most relevant first; equal ranks stay in date order
+      sessionsWithCounts.sort((a: any, b: any) => b.search_rank - a.search_rank);
+      totalCount = sessionsWithCounts.length;
+      sessionsWithCounts = sessionsWithCounts.slice(skip, skip + limit);
+    }
+
+    if (nearPoint) {
+      const withinRadius = sessionsWithCounts
+        .filter((session: any) => session.sport_center?.latitude != null && session.sport_center?.longitude != null)
+        .map((session: any) => ({
+          ...session,
+          distance_km: Math.round(distanceKm(nearPoint, {
+            lat: session.sport_center.latitude,
+            lng: session.sport_center.longitude,
+          }) * 100) / 100,
+        }))
+        .filter((session: any) => session.distance_km <= radiusKm);
+
+      // Closest first; ties (same sport center) stay in date order
+      if (!keepDatabaseOrder) {
+        withinRadius.sort((a: any, b: any) => a.distance_km - b.distance_km);
+      }
+
+      totalCount = withinRadius.length;
+      sessionsWithCounts = withinRadius.slice(skip, skip + limit);
+    }
+
     // Calculate pagination metadata
     const totalPages = Math.ceil(totalCount / limit);
     const hasNextPage = page < totalPages;
@@ -254,6 +482,32 @@ export async function GET(request: Request) {
   }
 }
 
+/**
+ * 409 response listing the host's sessions that clash with the new
+ * occurrences, or null when the schedule is clear
+ */
+async function scheduleConflictResponse(userId: string, dates: Date[], durationMinutes: number) {
+  const profile = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { travel_buffer_minutes: true },
+  });
+  const conflicts = await findScheduleConflicts(
+    prisma,
+    userId,
+    dates.map((date) => ({ date_time: date, duration_minutes: durationMinutes })),
+    { bufferMinutes: profile?.travel_buffer_minutes ?? DEFAULT_TRAVEL_BUFFER_MINUTES }
+  );
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { error: 'This session clashes with your schedule', conflicts },
+    { status: 409 }
+  );
+}
+
 // POST /api/sessions - Create a new session
 export async function POST(request: Request) {
   // Apply rate limiting to prevent session creation abuse
@@ -291,29 +545,155 @@ export async function POST(request: Request) {
       date_time,
       duration_minutes,
       max_participants,
+      min_participants,
+      decide_by_hours,
       description_en,
       description_ja,
       primary_language,
       allow_english,
       vibe,
+      min_rating,
+      status,
+      visibility,
+      requires_approval,
+      recurrence,
+      allow_conflicts,
     } = validationResult.data;
 
+    // Drafts don't take up the host's time until they're published
+    const checkConflicts = status === 'PUBLISHED' && !allow_conflicts;
+
+    if (min_participants && getDecideBy(new Date(date_time), decide_by_hours) <= new Date()) {
+      return NextResponse.json(
+        { error: 'The decide-by deadline must be in the future' },
+        { status: 400 }
+      );
+    }
+
+    const sessionTemplate = {
+      sport_center_id,
+      sport_type,
+      skill_level,
+      duration_minutes,
+      max_participants,
+      description_en,
+      description_ja,
+      // Language exchange & vibe fields
+      primary_language,
+      allow_english,
+      vibe,
+    };
+
+    // Recurring session: create the series and one session per occurrence
+    if (recurrence) {
+      const startsAt = new Date(date_time);
+      let endsAt: Date | null = null;
+      if (recurrence.ends_at) {
+        endsAt = new Date(recurrence.ends_at);
+        endsAt.setHours(23, 59, 59, 999);
+      }
+
+      const occurrences = generateOccurrences(startsAt, {
+        frequency: recurrence.frequency,
+        endsAt,
+        count: recurrence.count,
+      });
+
+      if (occurrences.length < 2) {
+        return NextResponse.json(
+          { error: 'Series end date must allow at least 2 occurrences' },
+          { status: 400 }
+        );
+      }
+
+      if (checkConflicts) {
+        const conflictResponse = await scheduleConflictResponse(user.id, occurrences, duration_minutes);
+        if (conflictResponse) {
+          return conflictResponse;
+        }
+      }
+
+      const { series, firstSession } = await prisma.$transaction(async (tx: any) => {
+        const series = await tx.sessionSeries.create({
+          data: {
+            ...sessionTemplate,
+            frequency: recurrence.frequency,
+            starts_at: startsAt,
+            ends_at: endsAt,
+            occurrence_count: recurrence.count ?? null,
+            created_by: user.id,
+          },
+        });
+
+        let firstSession: any = null;
+        for (const occurrence of occurrences) {
+          const session = await tx.session.create({
+            data: {
+              ...sessionTemplate,
+              date_time: occurrence,
+              status,
+              visibility,
+              requires_approval,
+              min_participants,
+              min_rating: min_rating ?? null,
+              decide_by: min_participants ? getDecideBy(occurrence, decide_by_hours) : null,
+              series_id: series.id,
+              created_by: user.id,
+            },
+          });
+
+          // Auto-join creator to every occurrence
+          await tx.userSession.create({
+            data: {
+              user_id: user.id,
+              session_id: session.id,
+            },
+          });
+
+          firstSession ??= session;
+        }
+
+        return { series, firstSession };
+      }, {
+        maxWait: 10000,
+        timeout: 20000, // Larger series create many rows
+      });
+
+      const sport_center = await prisma.sportCenter.findUnique({
+        where: { id: firstSession.sport_center_id },
+      });
+
+      return NextResponse.json({
+        ...firstSession,
+        sport_center,
+        current_participants: 1,
+        series: {
+          id: series.id,
+          frequency: series.frequency,
+          occurrences: occurrences.length,
+        },
+      }, { status: 201 });
+    }
+
+    if (checkConflicts) {
+      const conflictResponse = await scheduleConflictResponse(user.id, [new Date(date_time)], duration_minutes);
+      if (conflictResponse) {
+        return conflictResponse;
+      }
+    }
+
     // Use transaction to create session and auto-join creator
     const newSession = await prisma.$transaction(async (tx: any) => {
       const session = await tx.session.create({
         data: {
-          sport_center_id,
-          sport_type,
-          skill_level,
+          ...sessionTemplate,
           date_time: new Date(date_time),
-          duration_minutes,
-          max_participants,
-          description_en,
-          description_ja,
-          // Language exchange & vibe fields
-          primary_language,
-          allow_english,
-          vibe,
+          status,
+          visibility,
+          requires_approval,
+          min_participants,
+          min_rating: min_rating ?? null,
+          decide_by: min_participants ? getDecideBy(new Date(date_time), decide_by_hours) : null,
           created_by: user.id,
         },
       });
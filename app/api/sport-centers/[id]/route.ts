@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+
+// Upcoming sessions shown on the sport center page
+const UPCOMING_SESSIONS_LIMIT = 20;
+
+// GET /api/sport-centers/[id] - Sport center with its rating and upcoming public sessions
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const sportCenter = await prisma.sportCenter.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name_en: true,
+        name_ja: true,
+        address_en: true,
+        address_ja: true,
+        station_en: true,
+        station_ja: true,
+        latitude: true,
+        longitude: true,
+        image_url: true,
+        rating_avg: true,
+        review_count: true,
+        sessions: {
+          where: {
+            date_time: { gte: new Date() },
+            status: 'PUBLISHED',
+            visibility: 'PUBLIC',
+          },
+          select: {
+            id: true,
+            sport_center_id: true,
+            sport_type: true,
+            skill_level: true,
+            date_time: true,
+            duration_minutes: true,
+            max_participants: true,
+            min_participants: true,
+            decide_by: true,
+            confirmed_at: true,
+            primary_language: true,
+            allow_english: true,
+            vibe: true,
+            min_rating: true,
+            created_by: true,
+            created_at: true,
+            creator: {
+              select: {
+                id: true,
+                display_name: true,
+                username: true,
+                avatar_url: true,
+                host_rating_avg: true,
+                host_review_count: true,
+              },
+            },
+            _count: {
+              select: { user_sessions: true },
+            },
+          },
+          orderBy: { date_time: 'asc' },
+          take: UPCOMING_SESSIONS_LIMIT,
+        },
+      },
+    });
+
+    if (!sportCenter) {
+      return NextResponse.json({ error: 'Sport center not found' }, { status: 404 });
+    }
+
+    const { sessions, ...center } = sportCenter;
+
+    return NextResponse.json({
+      data: {
+        ...center,
+        upcoming_sessions: sessions.map(({ _count, ...session }: any) => ({
+          ...session,
+          sport_center: {
+            id: center.id,
+            name_en: center.name_en,
+            name_ja: center.name_ja,
+            address_en: center.address_en,
+            address_ja: center.address_ja,
+            station_en: center.station_en,
+            station_ja: center.station_ja,
+          },
+          current_participants: _count.user_sessions,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching sport center:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sport center' },
+      { status: 500 }
+    );
+  }
+}
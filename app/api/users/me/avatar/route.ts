@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { prisma } from '@/lib/prisma';
+import { AllowedImageType, imageExtension, validateImageFile } from '@/lib/uploads';
 
 export async function POST(request: Request) {
   try {
@@ -20,27 +21,14 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
 
-    // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
-    if (!allowedTypes.includes(file.type)) {
-      return NextResponse.json(
-        { error: 'Invalid file type. Please upload JPEG, PNG, WebP, or GIF.' },
-        { status: 400 }
-      );
-    }
-
-    // Validate file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024;
-    if (file.size > maxSize) {
-      return NextResponse.json(
-        { error: 'File too large. Maximum size is 5MB.' },
-        { status: 400 }
-      );
+    // Validate file type and size (max 5MB)
+    const validationError = validateImageFile(file);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
     }
 
     // Generate unique filename
-    const fileExt = file.name.split('.').pop() || 'jpg';
-    const fileName = `${user.id}-${Date.now()}.${fileExt}`;
+    const fileName = `${user.id}-${Date.now()}.${imageExtension(file.type as AllowedImageType)}`;
     const filePath = `avatars/${fileName}`;
 
     // Convert file to buffer
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { generateCalendarToken } from '@/lib/ical';
+
+export const dynamic = 'force-dynamic';
+
+function feedUrl(request: Request, token: string | null) {
+  if (!token) {
+    return null;
+  }
+  return `${new URL(request.url).origin}/api/users/me/calendar.ics?token=${encodeURIComponent(token)}`;
+}
+
+// GET /api/users/me/calendar-token - Get the user's calendar feed URL (null if disabled)
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const profile = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { calendar_token: true },
+    });
+
+    return NextResponse.json({ feed_url: feedUrl(request, profile?.calendar_token ?? null) });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/users/me/calendar-token - Create or rotate the calendar feed token
+// Rotating stops every copy of the previous feed URL from working
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = generateCalendarToken();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { calendar_token: token },
+    });
+
+    return NextResponse.json({ feed_url: feedUrl(request, token) });
+  } catch (error) {
+    console.error('Error rotating calendar token:', error);
+    return NextResponse.json(
+      { error: 'Failed to rotate calendar token' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/users/me/calendar-token - Turn off the calendar feed
+export async function DELETE() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { calendar_token: null },
+    });
+
+    return NextResponse.json({ feed_url: null });
+  } catch (error) {
+    console.error('Error disabling calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to disable calendar feed' },
+      { status: 500 }
+    );
+  }
+}
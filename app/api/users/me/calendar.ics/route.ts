@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { buildCalendar } from '@/lib/ical';
+
+export const dynamic = 'force-dynamic';
+
+// Past sessions kept in the feed, so recent games don't vanish from calendars
+const FEED_HISTORY_DAYS = 30;
+
+// Cap on events in one feed
+const MAX_FEED_SESSIONS = 500;
+
+// GET /api/users/me/calendar.ics?token= - Subscribable feed of joined and hosted sessions
+// Calendar apps can't log in, so the feed is authenticated by the user's
+// calendar token instead of the session cookie
+export async function GET(request: Request) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    if (!token) {
+      return NextResponse.json({ error: 'Missing calendar token' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { calendar_token: token },
+      select: { id: true, is_banned: true },
+    });
+
+    if (!user || user.is_banned) {
+      return NextResponse.json({ error: 'Invalid calendar token' }, { status: 401 });
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        status: { not: 'DRAFT' },
+        date_time: { gte: new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000) },
+        OR: [
+          { user_sessions: { some: { user_id: user.id } } },
+          { created_by: user.id },
+          { co_hosts: { some: { user_id: user.id } } },
+        ],
+      },
+      include: {
+        sport_center: {
+          select: { name_en: true, address_en: true },
+        },
+      },
+      orderBy: { date_time: 'asc' },
+      take: MAX_FEED_SESSIONS,
+    });
+
+    const calendar = buildCalendar(sessions, {
+      baseUrl: new URL(request.url).origin,
+      name: 'SportsMatch Tokyo',
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="sportsmatch.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { matchPartner, MAX_PARTNERS } from '@/lib/language-exchange';
+
+export const dynamic = 'force-dynamic';
+
+/** Candidates with complementary languages scored per request */
+const MAX_CANDIDATES = 300;
+
+// GET /api/users/me/language-partners - Users whose native and target
+// languages complement the current user's, those sharing sports first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const profile = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: {
+        native_language: true,
+        target_language: true,
+        language_level: true,
+        sport_preferences: true,
+      },
+    });
+
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Matching needs both languages; the page asks for them first
+    if (!profile.native_language || !profile.target_language) {
+      return NextResponse.json({ profile, data: [] });
+    }
+
+    const candidates = await prisma.user.findMany({
+      where: {
+        id: { not: user.id },
+        is_banned: false,
+        native_language: profile.target_language,
+        target_language: profile.native_language,
+      },
+      select: {
+        id: true,
+        username: true,
+        display_name: true,
+        avatar_url: true,
+        location: true,
+        sport_preferences: true,
+        native_language: true,
+        target_language: true,
+        language_level: true,
+        reliability_score: true,
+      },
+      orderBy: { updated_at: 'desc' },
+      take: MAX_CANDIDATES,
+    });
+
+    // With sports on the profile, only partners sharing one are suggested
+    const requireSharedSport = profile.sport_preferences.length > 0;
+    const partners = candidates
+      .map((candidate) => ({ ...candidate, match: matchPartner(profile, candidate) }))
+      .filter((candidate) => candidate.match && (!requireSharedSport || candidate.match.shared_sports.length > 0))
+      .sort((a, b) => b.match!.score - a.match!.score)
+      .slice(0, MAX_PARTNERS);
+
+    return NextResponse.json({ profile, data: partners });
+  } catch (error) {
+    console.error('Error fetching language partners:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch language partners' },
+      { status: 500 }
+    );
+  }
+}
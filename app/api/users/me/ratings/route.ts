@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/users/me/ratings - The user's rating in each sport they've played
+// rated matches in, highest first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const ratings = await prisma.sportRating.findMany({
+      where: { user_id: user.id },
+      select: {
+        sport_type: true,
+        rating: true,
+        matches_played: true,
+        wins: true,
+        losses: true,
+        draws: true,
+        updated_at: true,
+      },
+      orderBy: { rating: 'desc' },
+    });
+
+    return NextResponse.json({ data: ratings });
+  } catch (error) {
+    console.error('Error fetching ratings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch ratings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+import { apiRateLimiter } from '@/lib/rate-limit';
+import { APPEAL_WINDOW_DAYS, canAppeal } from '@/lib/reliability';
+
+export const dynamic = 'force-dynamic';
+
+// Zod schema for appealing a no-show
+const AppealSchema = z.object({
+  event_id: z.string().uuid('Invalid event ID'),
+  message: z.string()
+    .trim()
+    .min(10, 'Please explain what happened (at least 10 characters)')
+    .max(1000, 'Appeal must be 1000 characters or less'),
+});
+
+// POST /api/users/me/reliability/appeals - Appeal one of the user's no-shows
+export async function POST(request: Request) {
+  const rateLimitResponse = apiRateLimiter.limit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    const validationResult = AppealSchema.safeParse(body);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { event_id, message } = validationResult.data;
+
+    const event = await prisma.reliabilityEvent.findUnique({
+      where: { id: event_id },
+      include: { appeal: { select: { id: true } } },
+    });
+
+    if (!event || event.user_id !== user.id) {
+      return NextResponse.json({ error: 'No-show not found' }, { status: 404 });
+    }
+
+    if (event.appeal) {
+      return NextResponse.json(
+        { error: 'You have already appealed this no-show' },
+        { status: 409 }
+      );
+    }
+
+    if (!canAppeal(event)) {
+      return NextResponse.json(
+        { error: `Only no-shows from the last ${APPEAL_WINDOW_DAYS} days can be appealed` },
+        { status: 400 }
+      );
+    }
+
+    const appeal = await prisma.reliabilityAppeal.create({
+      data: {
+        event_id,
+        user_id: user.id,
+        message,
+      },
+    });
+
+    return NextResponse.json({ data: appeal }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating appeal:', error);
+
+    // Unique constraint on event_id (double submit)
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'You have already appealed this no-show' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to submit appeal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { canAppeal } from '@/lib/reliability';
+
+export const dynamic = 'force-dynamic';
+
+const HISTORY_LIMIT = 50;
+
+// GET /api/users/me/reliability - The user's reliability score and the
+// latest changes to it, newest first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [userRecord, events] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: user.id },
+        select: { reliability_score: true, no_show_count: true },
+      }),
+      prisma.reliabilityEvent.findMany({
+        where: { user_id: user.id },
+        include: {
+          session: {
+            select: {
+              id: true,
+              sport_type: true,
+              date_time: true,
+            },
+          },
+          appeal: {
+            select: {
+              id: true,
+              status: true,
+              admin_note: true,
+              created_at: true,
+              reviewed_at: true,
+            },
+          },
+        },
+        orderBy: { created_at: 'desc' },
+        take: HISTORY_LIMIT,
+      }),
+    ]);
+
+    if (!userRecord) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const now = new Date();
+
+    return NextResponse.json({
+      data: {
+        ...userRecord,
+        events: events.map((event: any) => ({
+          ...event,
+          can_appeal: !event.appeal && canAppeal(event, now),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching reliability history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reliability history' },
+      { status: 500 }
+    );
+  }
+}
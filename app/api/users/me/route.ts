@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
+import { MAX_TRAVEL_BUFFER_MINUTES } from '@/lib/schedule-conflicts';
+import { LANGUAGE_LEVELS } from '@/lib/language-exchange';
 
 export const dynamic = 'force-dynamic';
 
@@ -48,6 +50,10 @@ export async function GET() {
         notification_email: true,
         notification_push: true,
         language_preference: true,
+        travel_buffer_minutes: true,
+        native_language: true,
+        target_language: true,
+        language_level: true,
         email_verified: true,
         created_at: true,
         _count: {
@@ -118,8 +124,40 @@ export async function PATCH(request: Request) {
       notification_email,
       notification_push,
       language_preference,
+      travel_buffer_minutes,
+      native_language,
+      target_language,
+      language_level,
     } = body;
 
+    if (
+      travel_buffer_minutes !== undefined &&
+      (!Number.isInteger(travel_buffer_minutes) ||
+        travel_buffer_minutes < 0 ||
+        travel_buffer_minutes > MAX_TRAVEL_BUFFER_MINUTES)
+    ) {
+      return NextResponse.json(
+        { error: `Travel buffer must be between 0 and ${MAX_TRAVEL_BUFFER_MINUTES} minutes` },
+        { status: 400 }
+      );
+    }
+
+    // Language exchange fields take ISO 639-1 codes (null clears them)
+    for (const code of [native_language, target_language]) {
+      if (code !== undefined && code !== null && !(typeof code === 'string' && /^[a-z]{2}$/.test(code))) {
+        return NextResponse.json(
+          { error: 'Language must be a 2-letter language code' },
+          { status: 400 }
+        );
+      }
+    }
+    if (language_level !== undefined && language_level !== null && !LANGUAGE_LEVELS.includes(language_level)) {
+      return NextResponse.json(
+        { error: 'Invalid language level' },
+        { status: 400 }
+      );
+    }
+
     // Validate username uniqueness if provided
     if (username) {
       const existingUser = await prisma.user.findFirst({
@@ -152,6 +190,10 @@ export async function PATCH(request: Request) {
         ...(notification_email !== undefined && { notification_email }),
         ...(notification_push !== undefined && { notification_push }),
         ...(language_preference !== undefined && { language_preference }),
+        ...(travel_buffer_minutes !== undefined && { travel_buffer_minutes }),
+        ...(native_language !== undefined && { native_language }),
+        ...(target_language !== undefined && { target_language }),
+        ...(language_level !== undefined && { language_level }),
       },
       select: {
         id: true,
@@ -166,6 +208,10 @@ export async function PATCH(request: Request) {
         notification_email: true,
         notification_push: true,
         language_preference: true,
+        travel_buffer_minutes: true,
+        native_language: true,
+        target_language: true,
+        language_level: true,
         email_verified: true,
         created_at: true,
       },
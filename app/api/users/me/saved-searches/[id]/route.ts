@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { updateSavedSearchSchema, validateRequestBody } from '@/lib/validations';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/users/me/saved-searches/[id] - Rename, change filters or toggle the email digest
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const body = await request.json();
+    const validation = validateRequestBody(updateSavedSearchSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const existing = await prisma.savedSearch.findUnique({
+      where: { id },
+    });
+
+    if (!existing || existing.user_id !== user.id) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 });
+    }
+
+    const { start_date, end_date, ...filters } = validation.data;
+    const data: any = { ...filters };
+    if (start_date !== undefined) {
+      data.start_date = start_date ? new Date(start_date) : null;
+    }
+    if (end_date !== undefined) {
+      data.end_date = end_date ? new Date(end_date) : null;
+    }
+
+    const startDate = data.start_date !== undefined ? data.start_date : existing.start_date;
+    const endDate = data.end_date !== undefined ? data.end_date : existing.end_date;
+    if (startDate && endDate && startDate > endDate) {
+      return NextResponse.json(
+        { error: 'The start date must be before the end date' },
+        { status: 400 }
+      );
+    }
+
+    const savedSearch = await prisma.savedSearch.update({
+      where: { id },
+      data,
+    });
+
+    return NextResponse.json(savedSearch);
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+    return NextResponse.json(
+      { error: 'Failed to update saved search' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/users/me/saved-searches/[id] - Delete a saved search and stop its alerts
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const { count } = await prisma.savedSearch.deleteMany({
+      where: { id, user_id: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Saved search deleted' });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete saved search' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { createSavedSearchSchema, validateRequestBody } from '@/lib/validations';
+import { MAX_SAVED_SEARCHES } from '@/lib/saved-searches';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/users/me/saved-searches - List the user's saved searches
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: { user_id: user.id },
+      orderBy: { created_at: 'desc' },
+    });
+
+    return NextResponse.json(savedSearches);
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved searches' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/users/me/saved-searches - Save the current filters
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateRequestBody(createSavedSearchSchema, body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { start_date, end_date, ...filters } = validation.data;
+
+    const existingCount = await prisma.savedSearch.count({
+      where: { user_id: user.id },
+    });
+    if (existingCount >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_SAVED_SEARCHES} searches` },
+        { status: 400 }
+      );
+    }
+
+    // Only sessions published or edited from now on trigger alerts
+    const savedSearch = await prisma.savedSearch.create({
+      data: {
+        ...filters,
+        user_id: user.id,
+        start_date: start_date ? new Date(start_date) : null,
+        end_date: end_date ? new Date(end_date) : null,
+      },
+    });
+
+    return NextResponse.json(savedSearch, { status: 201 });
+  } catch (error) {
+    console.error('Error saving search:', error);
+    return NextResponse.json(
+      { error: 'Failed to save search' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { commitmentsWhere, DEFAULT_TRAVEL_BUFFER_MINUTES } from '@/lib/schedule-conflicts';
+
+export const dynamic = 'force-dynamic';
+
+/** Commitments that started up to this long ago may still be running */
+const RUNNING_SESSION_MS = 8 * 60 * 60 * 1000;
+
+const MAX_COMMITMENTS = 200;
+
+// GET /api/users/me/schedule - Upcoming sessions the user is committed to,
+// used to mark clashing sessions as busy while browsing
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [profile, commitments] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: user.id },
+        select: { travel_buffer_minutes: true },
+      }),
+      prisma.session.findMany({
+        where: {
+          ...commitmentsWhere(user.id),
+          date_time: { gte: new Date(Date.now() - RUNNING_SESSION_MS) },
+        },
+        select: {
+          id: true,
+          date_time: true,
+          duration_minutes: true,
+        },
+        orderBy: { date_time: 'asc' },
+        take: MAX_COMMITMENTS,
+      }),
+    ]);
+
+    return NextResponse.json({
+      travel_buffer_minutes: profile?.travel_buffer_minutes ?? DEFAULT_TRAVEL_BUFFER_MINUTES,
+      commitments,
+    });
+  } catch (error) {
+    console.error('Error fetching schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch schedule' },
+      { status: 500 }
+    );
+  }
+}
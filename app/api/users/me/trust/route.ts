@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { computeTrustMetrics, MIN_PEER_REVIEWERS } from '@/lib/peer-reviews';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/users/me/trust - The user's trust metrics from peer reviews
+// Averages only; hidden until enough people have rated them
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const ratings = await prisma.peerReview.findMany({
+      where: { reviewee_id: user.id },
+      select: {
+        reviewer_id: true,
+        punctuality: true,
+        sportsmanship: true,
+        skill_accuracy: true,
+        created_at: true,
+      },
+    });
+
+    return NextResponse.json({
+      data: {
+        ...computeTrustMetrics(ratings),
+        min_reviewers: MIN_PEER_REVIEWERS,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching trust metrics:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trust metrics' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,7 +8,19 @@ import { cn } from '@/lib/utils';
 import { csrfPost } from '@/lib/csrfClient';
 
 type ReportReason = 'HARASSMENT' | 'NO_SHOW' | 'SPAM' | 'CREEPY_BEHAVIOR' | 'FAKE_PROFILE' | 'OTHER';
-type EntityType = 'USER' | 'SESSION';
+type EntityType = 'USER' | 'SESSION' | 'REVIEW';
+
+const ENTITY_ID_FIELDS: Record<EntityType, string> = {
+  USER: 'reported_user_id',
+  SESSION: 'session_id',
+  REVIEW: 'review_id',
+};
+
+const ENTITY_LABELS: Record<EntityType, string> = {
+  USER: 'User',
+  SESSION: 'Session',
+  REVIEW: 'Review',
+};
 
 interface ReportModalProps {
   isOpen: boolean;
@@ -103,7 +115,7 @@ export default function ReportModal({
     try {
       await csrfPost('/api/reports', {
         entity_type: entityType,
-        ...(entityType === 'USER' ? { reported_user_id: entityId } : { session_id: entityId }),
+        [ENTITY_ID_FIELDS[entityType]]: entityId,
         reason: selectedReason,
         description: description.trim() || undefined,
       });
@@ -152,7 +164,7 @@ export default function ReportModal({
                     <Flag className="w-5 h-5 text-red-500" />
                   </div>
                   <div>
-                    <h2 className="text-lg font-semibold text-slate-900">Report {entityType === 'USER' ? 'User' : 'Session'}</h2>
+                    <h2 className="text-lg font-semibold text-slate-900">Report {ENTITY_LABELS[entityType]}</h2>
                     {entityName && (
                       <p className="text-sm text-slate-500 truncate max-w-[200px]">{entityName}</p>
                     )}
@@ -1,19 +1,22 @@
-import { memo } from 'react';
+import { memo, type ReactNode } from 'react';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
-import { Session, SportType, SkillLevel } from '@/types';
+import { Session, SportType, SkillLevel, SearchSnippet } from '@/types';
 import Badge from './ui/Badge';
 import Button from './ui/Button';
 import FavoriteButton from './sessions/FavoriteButton';
 import VibeBadge, { SessionVibe } from './ui/VibeBadge';
 import LanguageFlag from './ui/LanguageFlag';
 import { formatDate } from '@/lib/utils';
-import { Users, Clock, MapPin, ArrowRight, Bell } from 'lucide-react';
+import { participantsNeeded } from '@/lib/min-participants';
+import { Users, Clock, MapPin, ArrowRight, Bell, Star } from 'lucide-react';
 import { AvatarGroup } from './ui/Avatar';
 
 interface SessionCardProps {
   session: Session;
+  /** The session clashes with the viewer's schedule */
+  busy?: boolean;
 }
 
 const sportConfig: Record<SportType, { icon: string; gradient: string }> = {
@@ -36,7 +39,27 @@ const getSkillConfig = (level: SkillLevel, label: string): { color: 'success' |
   return { color: colorMap[level], label };
 };
 
-function SessionCard({ session }: SessionCardProps) {
+/**
+ * Render a search snippet with the matched terms highlighted
+ */
+function renderSnippet(snippet: SearchSnippet) {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start < cursor) return;
+    parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="bg-amber-100 text-slate-800 rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return parts;
+}
+
+function SessionCard({ session, busy = false }: SessionCardProps) {
   const params = useParams();
   const locale = params.locale as string;
   const t = useTranslations('sessions');
@@ -55,6 +78,13 @@ function SessionCard({ session }: SessionCardProps) {
     ? session.max_participants - session.current_participants
     : null;
 
+  // Players still needed before the minimum is reached
+  const needed = participantsNeeded(session);
+
+  const host = session.creator;
+  const hostName = host?.display_name || host?.username;
+  const centerRating = session.sport_center?.review_count ? session.sport_center.rating_avg : null;
+
   return (
     <div className="group relative h-full">
       {/* Card */}
@@ -93,6 +123,13 @@ function SessionCard({ session }: SessionCardProps) {
           </div>
         </div>
 
+        {/* Search match excerpt */}
+        {session.search_snippet && (
+          <p className="mb-3 text-xs text-slate-500 line-clamp-2">
+            {renderSnippet(session.search_snippet)}
+          </p>
+        )}
+
         {/* Session details */}
         <div className="space-y-2.5 mb-4 flex-grow">
           <div className="flex items-center gap-2.5 text-sm text-slate-600">
@@ -101,7 +138,25 @@ function SessionCard({ session }: SessionCardProps) {
             </div>
             <div className="flex items-center justify-between flex-1">
               <span className="line-clamp-1 font-medium text-sm">
-                {session.sport_center?.name_en || 'Sport Center'}
+                {session.sport_center ? (
+                  <Link
+                    href={`/${locale}/sport-centers/${session.sport_center.id}`}
+                    className="hover:text-primary-600 hover:underline"
+                  >
+                    {session.sport_center.name_en}
+                  </Link>
+                ) : 'Sport Center'}
+                {centerRating != null && (
+                  <span className="ml-1.5 inline-flex items-center gap-0.5 text-xs font-normal text-slate-500">
+                    <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                    {centerRating.toFixed(1)}
+                  </span>
+                )}
+                {session.distance_km !== undefined && (
+                  <span className="ml-1.5 text-xs font-normal text-slate-500">
+                    {t('distanceKm', { distance: session.distance_km.toFixed(1) })}
+                  </span>
+                )}
               </span>
               {/* Language indicators */}
               <div className="flex items-center gap-1">
@@ -122,8 +177,36 @@ function SessionCard({ session }: SessionCardProps) {
               <Clock className="w-3.5 h-3.5 text-slate-500" />
             </div>
             <span className="font-medium text-sm">{formatDate(session.date_time)}</span>
+            {busy && (
+              <Badge variant="warning" size="sm" className="ml-auto" title={t('busyHint')}>
+                {t('busy')}
+              </Badge>
+            )}
           </div>
 
+          {host && (
+            <div className="flex items-center gap-2.5 text-sm text-slate-600">
+              <div className="flex items-center justify-center w-7 h-7 rounded-lg bg-slate-100">
+                <Star className="w-3.5 h-3.5 text-slate-500" />
+              </div>
+              <span className="line-clamp-1 font-medium text-sm flex-1">
+                {hostName ? t('hostedBy', { name: hostName }) : t('host')}
+              </span>
+              {host.host_review_count > 0 && host.host_rating_avg != null ? (
+                <span
+                  className="flex items-center gap-0.5 text-xs text-slate-500"
+                  title={t('hostRatingHint', { count: host.host_review_count })}
+                >
+                  <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                  <span className="font-medium text-slate-700">{host.host_rating_avg.toFixed(1)}</span>
+                  ({host.host_review_count})
+                </span>
+              ) : (
+                <span className="text-xs text-slate-400">{t('newHost')}</span>
+              )}
+            </div>
+          )}
+
           <div className="flex items-center gap-2.5 text-sm text-slate-600">
             <div className="flex items-center justify-center w-7 h-7 rounded-lg bg-slate-100">
               <Users className="w-3.5 h-3.5 text-slate-500" />
@@ -154,6 +237,11 @@ function SessionCard({ session }: SessionCardProps) {
                   />
                 </div>
               )}
+              {needed > 0 && (
+                <span className="block mt-1 text-xs font-medium text-amber-700">
+                  {t('needsMore', { count: needed })}
+                </span>
+              )}
             </div>
           </div>
 
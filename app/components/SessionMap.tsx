@@ -7,16 +7,26 @@ import {
   AdvancedMarker,
   Pin,
   InfoWindow,
+  MapCameraChangedEvent,
 } from '@vis.gl/react-google-maps';
+import { useDebouncedCallback } from 'use-debounce';
 import { Session } from '@/types';
+import type { BoundingBox } from '@/lib/geo';
 import CompactSessionCard from './CompactSessionCard';
-import { MapPin, AlertCircle } from 'lucide-react';
+import { MapPin, AlertCircle, Loader2 } from 'lucide-react';
 
 interface SessionMapProps {
   sessions: Session[];
   height?: string; // e.g., "400px", "60vh"
   showLegend?: boolean; // Show sport legend
   className?: string;
+  /**
+   * Called with the visible area after the user pans or zooms, so the parent
+   * can load only the sessions in view. The map stays visible when the
+   * current area has no sessions.
+   */
+  onBoundsChange?: (bounds: BoundingBox) => void;
+  loading?: boolean; // Sessions for the current viewport are loading
 }
 
 // Tokyo center coordinates
@@ -56,11 +66,19 @@ export default function SessionMap({
   sessions,
   height = '60vh',
   showLegend = true,
-  className = ''
+  className = '',
+  onBoundsChange,
+  loading = false,
 }: SessionMapProps) {
   const [selectedMarker, setSelectedMarker] = useState<string | null>(null);
   const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
 
+  // Report the viewport once the camera settles (panning fires continuously)
+  const handleCameraChanged = useDebouncedCallback((event: MapCameraChangedEvent) => {
+    const { west, south, east, north } = event.detail.bounds;
+    onBoundsChange?.({ west, south, east, north });
+  }, 400);
+
   // Filter sessions with valid coordinates and memoize
   const markersData = useMemo((): MarkerData[] => {
     return sessions
@@ -80,7 +98,7 @@ export default function SessionMap({
 
   // Calculate map center and zoom based on markers
   const { center, zoom } = useMemo(() => {
-    if (markersData.length === 1) {
+    if (markersData.length === 1 && !onBoundsChange) {
       // Single marker: center on it with higher zoom
       return {
         center: markersData[0].position,
@@ -126,7 +144,8 @@ export default function SessionMap({
   }
 
   // Empty state: No sessions with coordinates
-  if (markersData.length === 0) {
+  // (viewport-loaded maps stay visible so the user can pan elsewhere)
+  if (markersData.length === 0 && !onBoundsChange) {
     return (
       <div className={`w-full rounded-3xl bg-slate-100 border-2 border-dashed border-slate-200 flex items-center justify-center ${className}`} style={{ height }}>
         <div className="text-center p-6">
@@ -156,6 +175,7 @@ export default function SessionMap({
           streetViewControl={false}
           fullscreenControl={true}
           className="w-full h-full"
+          onCameraChanged={onBoundsChange ? handleCameraChanged : undefined}
         >
           {markersData.map(({ session, position }) => {
             const pinColors = sportPinColors[session.sport_type] || sportPinColors.other;
@@ -204,6 +224,23 @@ export default function SessionMap({
         </Map>
       </APIProvider>
 
+      {/* Viewport loading / empty area indicator */}
+      {onBoundsChange && (loading || markersData.length === 0) && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-white/95 backdrop-blur-sm rounded-full shadow-lg px-4 py-2 border border-slate-200 flex items-center gap-2 text-sm text-slate-700">
+          {loading ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin text-primary-500" />
+              Loading sessions...
+            </>
+          ) : (
+            <>
+              <MapPin className="w-4 h-4 text-slate-400" />
+              No sessions in this area
+            </>
+          )}
+        </div>
+      )}
+
       {/* Legend - only show for multiple sessions */}
       {showLegend && markersData.length > 1 && (
         <div className="absolute bottom-4 left-4 bg-white/95 backdrop-blur-sm rounded-xl shadow-lg p-3 border border-slate-200">
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, ImagePlus, X } from 'lucide-react';
 import { useDebouncedCallback } from 'use-debounce';
 import Button from '../ui/Button';
 import MessageBubble from './MessageBubble';
@@ -9,21 +9,28 @@ import Loading from '../ui/Loading';
 import ErrorMessage from '../ui/ErrorMessage';
 import EmptyState from '../ui/EmptyState';
 import { useConversationMessages } from '@/lib/realtime/client';
-import { csrfPost, csrfPut } from '@/lib/csrfClient';
+import { csrfFetch, csrfPost, csrfPut, csrfPatch, csrfDelete } from '@/lib/csrfClient';
+import { canEditMessage } from '@/lib/messages';
+import { MAX_ATTACHMENTS_PER_MESSAGE, validateAttachments } from '@/lib/chat-attachments';
+import { ALLOWED_IMAGE_TYPES } from '@/lib/uploads';
 
 interface ChatBoxProps {
   conversationId: string;
   currentUserId: string;
+  /** Session hosts can delete anyone's messages */
+  canModerate?: boolean;
 }
 
-export default function ChatBox({ conversationId, currentUserId }: ChatBoxProps) {
+export default function ChatBox({ conversationId, currentUserId, canModerate = false }: ChatBoxProps) {
   const [newMessage, setNewMessage] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
   const [sending, setSending] = useState(false);
   const [messages, setMessages] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Fetch initial messages
   useEffect(() => {
@@ -44,6 +51,23 @@ export default function ChatBox({ conversationId, currentUserId }: ChatBoxProps)
     fetchMessages();
   }, [conversationId]);
 
+  // Edits and deletions (tombstones) replace the message in place. The
+  // realtime row has no sender, so the one already loaded is kept.
+  const handleMessageUpdate = useCallback((message: any) => {
+    setMessages((prev) => prev.map((m) => (m.id === message.id ? { ...m, ...message, sender: m.sender } : m)));
+  }, []);
+
+  // Realtime rows don't include attachments, so load the full message
+  const fetchAttachments = useCallback(async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/messages/${messageId}`);
+      if (!response.ok) throw new Error('Failed to fetch message');
+      handleMessageUpdate(await response.json());
+    } catch (err) {
+      console.error('Error fetching attachments:', err);
+    }
+  }, [conversationId, handleMessageUpdate]);
+
   // Subscribe to new messages with Supabase Realtime
   // Debounce rapid updates to prevent excessive re-renders
   const handleNewMessage = useCallback((message: any) => {
@@ -52,16 +76,20 @@ export default function ChatBox({ conversationId, currentUserId }: ChatBoxProps)
       return [...prev, message];
     });
 
+    if (message.attachment_count > 0 && !message.attachments) {
+      fetchAttachments(message.id);
+    }
+
     // Mark conversation as read when new message arrives
     if (message.sender_id !== currentUserId) {
       csrfPut(`/api/conversations/${conversationId}/read`, {}).catch(console.error);
     }
     scrollToBottom();
-  }, [conversationId, currentUserId]);
+  }, [conversationId, currentUserId, fetchAttachments]);
 
   const debouncedHandleNewMessage = useDebouncedCallback(handleNewMessage, 100);
 
-  useConversationMessages(conversationId, debouncedHandleNewMessage);
+  useConversationMessages(conversationId, debouncedHandleNewMessage, handleMessageUpdate);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -72,29 +100,97 @@ export default function ChatBox({ conversationId, currentUserId }: ChatBoxProps)
     scrollToBottom();
   }, [messages]);
 
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = [...files, ...Array.from(e.target.files || [])];
+    e.target.value = '';
+
+    const validationError = validateAttachments(selected);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError('');
+    setFiles(selected);
+  };
+
+  const removeFile = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || sending) return;
+    if ((!newMessage.trim() && files.length === 0) || sending) return;
 
     const messageContent = newMessage.trim();
+    const messageFiles = files;
     setNewMessage('');
+    setFiles([]);
     setSending(true);
 
     try {
       // Send message via API
-      await csrfPost(`/api/conversations/${conversationId}/messages`, {
-        content: messageContent,
-      });
+      if (messageFiles.length > 0) {
+        const formData = new FormData();
+        formData.append('content', messageContent);
+        messageFiles.forEach((file) => formData.append('attachments', file));
+
+        const response = await csrfFetch(`/api/conversations/${conversationId}/messages`, {
+          method: 'POST',
+          body: formData,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to send message');
+        }
+
+        // The realtime copy may already be shown without its attachments
+        setMessages((prev) => prev.some((m) => m.id === data.id)
+          ? prev.map((m) => (m.id === data.id ? data : m))
+          : [...prev, data]);
+      } else {
+        await csrfPost(`/api/conversations/${conversationId}/messages`, {
+          content: messageContent,
+        });
+      }
 
       inputRef.current?.focus();
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error sending message:', err);
       setNewMessage(messageContent); // Restore message on error
+      setFiles(messageFiles);
+      if (messageFiles.length > 0) {
+        setError(err.message || 'Failed to send message');
+      }
     } finally {
       setSending(false);
     }
   };
 
+  const handleDeleteMessage = async (messageId: string) => {
+    if (!confirm('Delete this message?')) return;
+
+    try {
+      await csrfDelete(`/api/conversations/${conversationId}/messages/${messageId}`);
+      handleMessageUpdate({ id: messageId, content: '', deleted_at: new Date().toISOString() });
+    } catch (err: any) {
+      console.error('Error deleting message:', err);
+      setError(err.message || 'Failed to delete message');
+    }
+  };
+
+  const handleEditMessage = async (messageId: string, content: string) => {
+    try {
+      setError('');
+      const updated = await csrfPatch(`/api/conversations/${conversationId}/messages/${messageId}`, { content });
+      handleMessageUpdate(updated);
+    } catch (err: any) {
+      console.error('Error editing message:', err);
+      setError(err.message || 'Failed to edit message');
+      throw err;
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -168,6 +264,19 @@ export default function ChatBox({ conversationId, currentUserId }: ChatBoxProps)
                 sender={message.sender || { id: message.sender_id, email: 'Unknown', username: null }}
                 created_at={message.created_at}
                 isOwn={message.sender_id === currentUserId}
+                edited_at={message.edited_at}
+                deleted_at={message.deleted_at}
+                attachments={message.attachments}
+                onDelete={
+                  canModerate || message.sender_id === currentUserId
+                    ? () => handleDeleteMessage(message.id)
+                    : undefined
+                }
+                onEdit={
+                  canEditMessage(message, currentUserId)
+                    ? (content) => handleEditMessage(message.id, content)
+                    : undefined
+                }
               />
             ))}
             <div ref={messagesEndRef} />
@@ -180,7 +289,46 @@ export default function ChatBox({ conversationId, currentUserId }: ChatBoxProps)
         {error && (
           <div className="text-sm text-red-600 mb-2">{error}</div>
         )}
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {files.map((file, index) => (
+              <span
+                key={`${file.name}-${index}`}
+                className="inline-flex items-center gap-1 max-w-[12rem] px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full"
+              >
+                <span className="truncate">{file.name}</span>
+                <button
+                  type="button"
+                  onClick={() => removeFile(index)}
+                  className="text-gray-400 hover:text-gray-700"
+                  aria-label={`Remove ${file.name}`}
+                  disabled={sending}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
         <form onSubmit={handleSendMessage} className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ALLOWED_IMAGE_TYPES.join(',')}
+            multiple
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={sending || files.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+            className="px-3"
+            aria-label="Attach images"
+          >
+            <ImagePlus className="w-5 h-5" />
+          </Button>
           <input
             ref={inputRef}
             type="text"
@@ -194,7 +342,7 @@ export default function ChatBox({ conversationId, currentUserId }: ChatBoxProps)
           <Button
             type="submit"
             variant="primary"
-            disabled={!newMessage.trim() || sending}
+            disabled={(!newMessage.trim() && files.length === 0) || sending}
             className="px-4"
           >
             {sending ? (
@@ -25,6 +25,8 @@ interface ConversationCardProps {
         username?: string | null;
       };
       created_at: string;
+      deleted_at?: string | null;
+      attachment_count?: number;
     }>;
     session?: {
       id: string;
@@ -95,7 +97,13 @@ export default function ConversationCard({
           <div className="ml-15">
             <p className={`text-sm truncate ${hasUnread ? 'font-medium text-gray-900' : 'text-gray-600'}`}>
               {lastMessage.sender.id === currentUserId ? 'You: ' : ''}
-              {lastMessage.content}
+              {lastMessage.deleted_at ? (
+                <span className="italic">Message deleted</span>
+              ) : !lastMessage.content && lastMessage.attachment_count ? (
+                '📷 Photo'
+              ) : (
+                lastMessage.content
+              )}
             </p>
             <p className="text-xs text-gray-500 mt-1">
               {formatTime(lastMessage.created_at)}
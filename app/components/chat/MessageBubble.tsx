@@ -1,4 +1,7 @@
+import { useState } from 'react';
+import { Trash2, Pencil } from 'lucide-react';
 import { formatTime } from '@/lib/utils';
+import type { AttachmentView } from '@/lib/chat-attachments';
 
 interface MessageBubbleProps {
   content: string;
@@ -9,6 +12,16 @@ interface MessageBubbleProps {
   };
   created_at: string;
   isOwn: boolean;
+  /** Set once the message has been edited */
+  edited_at?: string | null;
+  /** Set for deleted messages, which are shown as a tombstone */
+  deleted_at?: string | null;
+  /** Images shown as thumbnails linking to the full size */
+  attachments?: AttachmentView[];
+  /** Shown as a delete button for the sender and chat moderators */
+  onDelete?: () => void;
+  /** Shown as an edit button while the sender can still edit */
+  onEdit?: (content: string) => Promise<void>;
 }
 
 export default function MessageBubble({
@@ -16,7 +29,51 @@ export default function MessageBubble({
   sender,
   created_at,
   isOwn,
+  edited_at,
+  deleted_at,
+  attachments = [],
+  onDelete,
+  onEdit,
 }: MessageBubbleProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+  const [saving, setSaving] = useState(false);
+
+  const startEditing = () => {
+    setDraft(content);
+    setEditing(true);
+  };
+
+  const saveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onEdit || !draft.trim() || saving) return;
+
+    setSaving(true);
+    try {
+      await onEdit(draft.trim());
+      setEditing(false);
+    } catch {
+      // Keep the draft open; the chat shows the error
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (deleted_at) {
+    return (
+      <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'} mb-4`}>
+        <div className="flex flex-col max-w-[75%] sm:max-w-[60%]">
+          <div className="px-4 py-2.5 rounded-2xl border border-dashed border-gray-300 text-gray-500">
+            <p className="text-sm italic">This message was deleted</p>
+          </div>
+          <span className={`text-xs text-gray-500 mt-1 px-2 ${isOwn ? 'text-right' : ''}`}>
+            {formatTime(created_at)}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'} mb-4`}>
       <div className={`flex flex-col max-w-[75%] sm:max-w-[60%]`}>
@@ -25,20 +82,98 @@ export default function MessageBubble({
             {sender.username || sender.email.split('@')[0]}
           </span>
         )}
-        <div
-          className={`px-4 py-2.5 rounded-2xl ${
-            isOwn
-              ? 'bg-blue-600 text-white rounded-br-sm'
-              : 'bg-gray-200 text-gray-900 rounded-bl-sm'
-          }`}
-        >
-          <p className="text-sm sm:text-base break-words whitespace-pre-wrap">
-            {content}
-          </p>
+        {attachments.length > 0 && (
+          <div
+            className={`grid gap-1 mb-1 ${attachments.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}
+          >
+            {attachments.map((attachment) => (
+              <a
+                key={attachment.id}
+                href={attachment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block overflow-hidden rounded-lg bg-gray-100"
+              >
+                <img
+                  src={attachment.thumbnail_url}
+                  alt="Attachment"
+                  loading="lazy"
+                  className="w-full h-32 sm:h-40 object-cover"
+                />
+              </a>
+            ))}
+          </div>
+        )}
+        {editing ? (
+          <form onSubmit={saveEdit} className="flex flex-col gap-1">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setEditing(false);
+              }}
+              rows={2}
+              autoFocus
+              aria-label="Edit message"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={saving}
+            />
+            <div className="flex justify-end gap-2 text-xs">
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!draft.trim() || saving}
+                className="font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        ) : content && (
+          <div
+            className={`px-4 py-2.5 rounded-2xl ${
+              isOwn
+                ? 'bg-blue-600 text-white rounded-br-sm'
+                : 'bg-gray-200 text-gray-900 rounded-bl-sm'
+            }`}
+          >
+            <p className="text-sm sm:text-base break-words whitespace-pre-wrap">
+              {content}
+            </p>
+          </div>
+        )}
+        <div className={`flex items-center gap-2 mt-1 px-2 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+          <span className="text-xs text-gray-500">
+            {formatTime(created_at)}
+            {edited_at && ' · edited'}
+          </span>
+          {onEdit && !editing && (
+            <button
+              type="button"
+              onClick={startEditing}
+              className="text-gray-400 hover:text-blue-600"
+              aria-label="Edit message"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              type="button"
+              onClick={onDelete}
+              className="text-gray-400 hover:text-red-600"
+              aria-label="Delete message"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
         </div>
-        <span className={`text-xs text-gray-500 mt-1 px-2 ${isOwn ? 'text-right' : 'text-left'}`}>
-          {formatTime(created_at)}
-        </span>
       </div>
     </div>
   );
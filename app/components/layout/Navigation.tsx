@@ -6,7 +6,7 @@ import { useTranslations } from 'next-intl';
 import Button from '../ui/Button';
 import { useAuth } from '@/app/contexts/AuthContext';
 import { useParams, useRouter } from 'next/navigation';
-import { LogOut, Settings, UserCircle, Shield, ChevronDown, Heart, Menu, X, MessageSquare, Home, Search, Ticket, Loader2 } from 'lucide-react';
+import { LogOut, Settings, UserCircle, Shield, ChevronDown, Heart, Menu, X, MessageSquare, Home, Search, Ticket, Loader2, Languages } from 'lucide-react';
 import LanguageSwitcher from '../LanguageSwitcher';
 import NotificationBell from '../notifications/NotificationBell';
 
@@ -185,6 +185,14 @@ export default function Navigation() {
                             <Heart className="w-4 h-4 text-slate-400" suppressHydrationWarning />
                             {t('favorites')}
                           </Link>
+                          <Link
+                            href={`/${locale}/language-exchange`}
+                            className="flex items-center gap-3 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+                            onClick={() => setShowUserMenu(false)}
+                          >
+                            <Languages className="w-4 h-4 text-slate-400" suppressHydrationWarning />
+                            {t('languageExchange')}
+                          </Link>
                           <Link
                             href={`/${locale}/settings`}
                             className="flex items-center gap-3 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 transition-colors"
@@ -302,6 +310,14 @@ export default function Navigation() {
                         <Heart className="w-4 h-4 text-slate-400" suppressHydrationWarning />
                         {t('favorites')}
                       </Link>
+                      <Link
+                        href={`/${locale}/language-exchange`}
+                        className="flex items-center gap-3 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 transition-colors"
+                        onClick={() => setShowUserMenu(false)}
+                      >
+                        <Languages className="w-4 h-4 text-slate-400" suppressHydrationWarning />
+                        {t('languageExchange')}
+                      </Link>
                       <Link
                         href={`/${locale}/settings`}
                         className="flex items-center gap-3 px-4 py-2.5 text-sm text-slate-700 hover:bg-slate-50 transition-colors"
@@ -410,6 +426,10 @@ export default function Navigation() {
                     <Heart className="w-5 h-5 text-slate-400" />
                     {t('favorites')}
                   </Link>
+                  <Link href={`/${locale}/language-exchange`} onClick={() => setShowMobileMenu(false)} className="flex items-center gap-3 px-4 py-3 text-base font-medium text-slate-700 hover:bg-slate-50 rounded-xl transition-colors">
+                    <Languages className="w-5 h-5 text-slate-400" />
+                    {t('languageExchange')}
+                  </Link>
                   <Link href={`/${locale}/settings`} onClick={() => setShowMobileMenu(false)} className="flex items-center gap-3 px-4 py-3 text-base font-medium text-slate-700 hover:bg-slate-50 rounded-xl transition-colors">
                     <Settings className="w-5 h-5 text-slate-400" />
                     {t('settings')}
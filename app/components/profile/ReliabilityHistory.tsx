@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { History } from 'lucide-react';
+import Card from '../ui/Card';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import { useTranslations } from 'next-intl';
+import { csrfPost } from '@/lib/csrfClient';
+import { formatDate } from '@/lib/utils';
+import { sportIdToSessionKey } from '@/lib/utils/sportTranslation';
+import type { ReliabilityEvent, ReliabilityHistory as ReliabilityHistoryData } from '@/types';
+
+interface ReliabilityHistoryProps {
+  history: ReliabilityHistoryData;
+  onAppealed: () => void;
+}
+
+const APPEAL_BADGE_VARIANTS = {
+  PENDING: 'warning',
+  APPROVED: 'success',
+  REJECTED: 'danger',
+} as const;
+
+/**
+ * Changes to the user's reliability score, with an appeal form for recent
+ * no-shows
+ */
+export default function ReliabilityHistory({ history, onAppealed }: ReliabilityHistoryProps) {
+  const t = useTranslations('profile.reliability');
+  const tSessions = useTranslations('sessions');
+  const [appealingId, setAppealingId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleAppeal = async (event: ReliabilityEvent) => {
+    setSubmitting(true);
+    try {
+      await csrfPost('/api/users/me/reliability/appeals', {
+        event_id: event.id,
+        message: message.trim(),
+      });
+      setAppealingId(null);
+      setMessage('');
+      onAppealed();
+    } catch (err: any) {
+      alert(err.message || t('appealFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const describe = (event: ReliabilityEvent) => {
+    const sport = event.session ? tSessions(sportIdToSessionKey(event.session.sport_type)) : null;
+    const label = t(`types.${event.type}`);
+    return sport ? `${label} · ${sport}` : label;
+  };
+
+  return (
+    <Card padding="lg" className="mb-6">
+      <div className="flex items-center gap-3 mb-4">
+        <History className="w-6 h-6 text-primary-500" />
+        <h3 className="text-xl sm:text-2xl font-bold text-gray-900">{t('title')}</h3>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">{t('subtitle')}</p>
+
+      {history.events.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {history.events.map((event) => (
+            <li key={event.id} className="py-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className={`text-sm font-medium ${event.reversed_at ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                    {describe(event)}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {formatDate(event.session?.date_time ?? event.created_at)}
+                    {event.note && ` · ${event.note}`}
+                  </p>
+                  {event.type === 'NO_SHOW' && !event.reversed_at && event.recovered_points > 0 && (
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {t('recovered', { points: event.recovered_points, total: -event.delta })}
+                    </p>
+                  )}
+                  {event.appeal && (
+                    <div className="mt-1 flex flex-wrap items-center gap-2">
+                      <Badge variant={APPEAL_BADGE_VARIANTS[event.appeal.status]} size="sm">
+                        {t(`appealStatus.${event.appeal.status}`)}
+                      </Badge>
+                      {event.appeal.admin_note && (
+                        <span className="text-xs text-gray-500">{event.appeal.admin_note}</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className={`text-sm font-semibold ${event.delta > 0 ? 'text-green-600' : event.delta < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                    {event.delta > 0 ? `+${event.delta}` : event.delta}
+                  </p>
+                  <p className="text-xs text-gray-400">{t('scoreAfter', { score: event.score_after })}</p>
+                </div>
+              </div>
+
+              {event.can_appeal && appealingId !== event.id && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setAppealingId(event.id);
+                    setMessage('');
+                  }}
+                  className="mt-2 text-xs font-medium text-primary-600 hover:text-primary-700"
+                >
+                  {t('appeal')}
+                </button>
+              )}
+
+              {appealingId === event.id && (
+                <div className="mt-3 space-y-2">
+                  <textarea
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder={t('appealPlaceholder')}
+                    maxLength={1000}
+                    rows={3}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setAppealingId(null)}
+                      disabled={submitting}
+                    >
+                      {t('cancel')}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleAppeal(event)}
+                      disabled={submitting || message.trim().length < 10}
+                    >
+                      {submitting ? t('submitting') : t('submitAppeal')}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,45 @@
+import { Trophy } from 'lucide-react';
+import Card from '../ui/Card';
+import { useTranslations } from 'next-intl';
+import { sportIdToSessionKey } from '@/lib/utils/sportTranslation';
+import { PROVISIONAL_MATCHES } from '@/lib/ratings';
+import type { SportRating } from '@/types';
+
+interface SportRatingsProps {
+  ratings: SportRating[];
+}
+
+/**
+ * Per-sport Elo ratings from match results recorded by hosts
+ */
+export default function SportRatings({ ratings }: SportRatingsProps) {
+  const t = useTranslations('profile.ratings');
+  const tSessions = useTranslations('sessions');
+
+  return (
+    <Card padding="lg" className="mb-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Trophy className="w-6 h-6 text-amber-500" />
+        <h3 className="text-xl sm:text-2xl font-bold text-gray-900">{t('title')}</h3>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">{t('subtitle')}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {ratings.map((rating) => (
+          <div key={rating.sport_type} className="p-4 rounded-2xl border border-gray-200 bg-white">
+            <div className="flex items-baseline justify-between">
+              <p className="font-semibold text-gray-900">{tSessions(sportIdToSessionKey(rating.sport_type))}</p>
+              <p className="text-2xl font-bold text-primary-600">{rating.rating}</p>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {t('record', { wins: rating.wins, losses: rating.losses, draws: rating.draws })}
+            </p>
+            {rating.matches_played < PROVISIONAL_MATCHES && (
+              <p className="text-xs text-amber-600 mt-1">{t('provisional')}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+import { UserCheck } from 'lucide-react';
+import Card from '../ui/Card';
+import { useTranslations } from 'next-intl';
+import { PEER_REVIEW_CRITERIA } from '@/lib/peer-reviews';
+import type { TrustMetrics as TrustMetricsData } from '@/types';
+
+interface TrustMetricsProps {
+  metrics: TrustMetricsData;
+}
+
+/**
+ * Averages of the anonymous peer ratings the user received after sessions
+ */
+export default function TrustMetrics({ metrics }: TrustMetricsProps) {
+  const t = useTranslations('profile.trust');
+
+  return (
+    <Card padding="lg" className="mb-6">
+      <div className="flex items-center gap-3 mb-4">
+        <UserCheck className="w-6 h-6 text-primary-500" />
+        <h3 className="text-xl sm:text-2xl font-bold text-gray-900">{t('title')}</h3>
+      </div>
+
+      {metrics.visible ? (
+        <>
+          <p className="text-sm text-gray-500 mb-4">{t('subtitle', { count: metrics.review_count })}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {PEER_REVIEW_CRITERIA.map((criterion) => (
+              <div key={criterion} className="p-4 rounded-2xl border border-gray-200 bg-white">
+                <p className="text-sm text-gray-500">{t(`criteria.${criterion}`)}</p>
+                <p className="text-2xl font-bold text-primary-600">
+                  {metrics[criterion]?.toFixed(1)}
+                  <span className="text-sm font-normal text-gray-400"> / 5</span>
+                </p>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">{t('hidden', { count: metrics.min_reviewers })}</p>
+      )}
+    </Card>
+  );
+}
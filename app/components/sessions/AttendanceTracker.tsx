@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Check, X, Users, AlertTriangle, Loader2, CheckCircle, Shield } from 'lucide-react';
+import { Check, X, Users, AlertTriangle, Loader2, CheckCircle, Shield, QrCode } from 'lucide-react';
 import Button from '@/app/components/ui/Button';
 import Avatar from '@/app/components/ui/Avatar';
 import { csrfPost } from '@/lib/csrfClient';
@@ -96,12 +96,16 @@ export default function AttendanceTracker({
     return null;
   }
 
-  const handleToggleAttendance = (userId: string) => {
-    if (data?.attendance_marked) return; // Can't modify if already marked
+  // Participants who scanned the check-in QR code are already marked present
+  const isCheckedIn = (participant: Participant) =>
+    !data?.attendance_marked && participant.status === 'ATTENDED';
+
+  const handleToggleAttendance = (participant: Participant) => {
+    if (data?.attendance_marked || isCheckedIn(participant)) return; // Can't modify if already marked
 
     setAttendance((prev) => ({
       ...prev,
-      [userId]: !prev[userId],
+      [participant.user_id]: !prev[participant.user_id],
     }));
   };
 
@@ -172,7 +176,7 @@ export default function AttendanceTracker({
             <p className="text-sm text-white/80">
               {data.attendance_marked
                 ? 'Attendance has been recorded'
-                : 'Check who attended the session'}
+                : 'Participants who checked in are already marked. Check the rest.'}
             </p>
           </div>
         </div>
@@ -257,10 +261,15 @@ export default function AttendanceTracker({
                     </>
                   )}
                 </div>
+              ) : isCheckedIn(participant) ? (
+                <div className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-100 text-green-700">
+                  <QrCode className="w-4 h-4" />
+                  <span className="text-sm font-medium">Checked in</span>
+                </div>
               ) : (
                 // Interactive toggle if not yet marked
                 <button
-                  onClick={() => handleToggleAttendance(participant.user_id)}
+                  onClick={() => handleToggleAttendance(participant)}
                   className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all ${attendance[participant.user_id]
                       ? 'bg-green-500 text-white hover:bg-green-600'
                       : 'bg-red-500 text-white hover:bg-red-600'
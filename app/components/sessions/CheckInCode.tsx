@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import QRCode from 'qrcode';
+import { QrCode } from 'lucide-react';
+import Card from '@/app/components/ui/Card';
+import { formatTime } from '@/lib/utils';
+
+interface CheckInState {
+  opens_at: string;
+  closes_at: string;
+  is_open: boolean;
+  token?: string;
+  expires_at?: string;
+}
+
+interface CheckInCodeProps {
+  sessionId: string;
+  isHost: boolean;
+}
+
+/**
+ * Rotating QR code hosts show at the venue so participants can check
+ * themselves in. The code is refetched each time it expires.
+ */
+export default function CheckInCode({ sessionId, isHost }: CheckInCodeProps) {
+  const t = useTranslations('checkIn');
+  const [checkIn, setCheckIn] = useState<CheckInState | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isHost) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const fetchCode = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/check-in`);
+        if (!response.ok) throw new Error('Failed to fetch check-in code');
+        const data: CheckInState = await response.json();
+        if (cancelled) return;
+
+        setCheckIn(data);
+        if (data.is_open && data.token && data.expires_at) {
+          const url = `${window.location.origin}/sessions/${sessionId}/check-in?token=${encodeURIComponent(data.token)}`;
+          setQrDataUrl(await QRCode.toDataURL(url, { width: 320, margin: 1 }));
+          timer = setTimeout(fetchCode, Math.max(new Date(data.expires_at).getTime() - Date.now(), 1000));
+        } else {
+          setQrDataUrl(null);
+          // Wake up when check-in opens
+          const opensIn = new Date(data.opens_at).getTime() - Date.now();
+          if (opensIn > 0 && opensIn < 24 * 60 * 60 * 1000) {
+            timer = setTimeout(fetchCode, opensIn);
+          }
+        }
+      } catch (err) {
+        console.error('Error fetching check-in code:', err);
+      }
+    };
+
+    fetchCode();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sessionId, isHost]);
+
+  // Nothing to show once check-in has closed
+  if (!isHost || !checkIn || (!checkIn.is_open && new Date(checkIn.closes_at) < new Date())) {
+    return null;
+  }
+
+  return (
+    <Card padding="lg">
+      <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+        <QrCode className="w-5 h-5 text-primary-600" />
+        {t('title')}
+      </h2>
+      {checkIn.is_open && qrDataUrl ? (
+        <div className="flex flex-col items-center gap-3">
+          <p className="text-sm text-slate-500 self-start">{t('hostHint')}</p>
+          <img src={qrDataUrl} alt={t('qrAlt')} width={320} height={320} className="rounded-lg border border-slate-200" />
+          <p className="text-xs text-slate-400">
+            {t('closesAt', { time: formatTime(checkIn.closes_at) })}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">
+          {t('opensAt', { time: formatTime(checkIn.opens_at) })}
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { Link2, Copy, Check, Trash2, Loader2, Plus } from 'lucide-react';
+import Button from '@/app/components/ui/Button';
+import { SessionInvite } from '@/types';
+import { formatDate } from '@/lib/utils';
+import { csrfPost, csrfDelete } from '@/lib/csrfClient';
+
+interface InviteManagerProps {
+  sessionId: string;
+  isHost: boolean;
+}
+
+export default function InviteManager({ sessionId, isHost }: InviteManagerProps) {
+  const t = useTranslations('sessionDetail.invites');
+  const [invites, setInvites] = useState<SessionInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [maxUses, setMaxUses] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInvites = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/sessions/${sessionId}/invites`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch invites');
+        }
+        const data = await response.json();
+        setInvites(data.invites);
+      } catch (err) {
+        console.error('Error fetching invites:', err);
+        setError(t('failedToLoad'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (isHost) {
+      fetchInvites();
+    }
+  }, [sessionId, isHost]);
+
+  if (!isHost) {
+    return null;
+  }
+
+  const getInviteUrl = (invite: SessionInvite) =>
+    `${window.location.origin}${window.location.pathname}?invite=${encodeURIComponent(invite.token)}`;
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const invite = await csrfPost(`/api/sessions/${sessionId}/invites`, {
+        expires_in_days: expiresInDays ? parseInt(expiresInDays) : undefined,
+        max_uses: maxUses ? parseInt(maxUses) : undefined,
+      });
+      setInvites((prev) => [invite, ...prev]);
+    } catch (err: any) {
+      setError(err.message || t('failedToCreate'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    if (!confirm(t('confirmRevoke'))) {
+      return;
+    }
+
+    setRevokingId(inviteId);
+    setError(null);
+    try {
+      await csrfDelete(`/api/sessions/${sessionId}/invites/${inviteId}`);
+      setInvites((prev) =>
+        prev.map((invite) =>
+          invite.id === inviteId
+            ? { ...invite, revoked_at: new Date().toISOString(), active: false }
+            : invite
+        )
+      );
+    } catch (err: any) {
+      setError(err.message || t('failedToRevoke'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async (invite: SessionInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite));
+      setCopiedId(invite.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Error copying invite link:', err);
+    }
+  };
+
+  const getInviteStatus = (invite: SessionInvite) => {
+    if (invite.revoked_at) return t('revoked');
+    if (!invite.active) return t('expired');
+    return t('active');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Link2 className="w-5 h-5 text-gray-600" />
+        <h2 className="text-xl font-semibold">{t('title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t('description')}</p>
+
+      {/* New invite */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="font-medium text-gray-700">{t('expiresInDays')}</span>
+          <input
+            type="number"
+            min="1"
+            max="90"
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            placeholder={t('never')}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="font-medium text-gray-700">{t('maxUses')}</span>
+          <input
+            type="number"
+            min="1"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder={t('unlimited')}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </label>
+        <div className="flex items-end">
+          <Button
+            variant="primary"
+            fullWidth
+            onClick={handleCreate}
+            loading={creating}
+            disabled={creating}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {t('create')}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+      )}
+
+      {/* Existing invites */}
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary-500" />
+        </div>
+      ) : invites.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('none')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {invites.map((invite) => (
+            <li
+              key={invite.id}
+              className={`flex items-center justify-between gap-3 p-3 rounded-lg border ${invite.active ? 'border-slate-200 bg-slate-50' : 'border-slate-100 bg-white opacity-60'}`}
+            >
+              <div className="min-w-0 text-sm">
+                <p className="font-medium text-gray-800">
+                  {getInviteStatus(invite)}
+                  {' · '}
+                  {invite.max_uses
+                    ? t('usesOfMax', { count: invite.use_count, max: invite.max_uses })
+                    : t('uses', { count: invite.use_count })}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {invite.expires_at
+                    ? t('expiresOn', { date: formatDate(invite.expires_at) })
+                    : t('noExpiry')}
+                </p>
+              </div>
+              {invite.active && (
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCopy(invite)}
+                    aria-label={t('copy')}
+                  >
+                    {copiedId === invite.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(invite.id)}
+                    loading={revokingId === invite.id}
+                    disabled={revokingId !== null}
+                    className="text-red-600 hover:bg-red-50"
+                    aria-label={t('revoke')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
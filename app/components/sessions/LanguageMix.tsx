@@ -0,0 +1,55 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { getLanguageFlag, getLanguageName } from '@/app/components/ui/LanguageFlag';
+import type { LanguageMixEntry } from '@/types';
+
+// Bar colours, assigned in order of the most common language
+const SEGMENT_COLORS = ['bg-blue-500', 'bg-rose-500', 'bg-emerald-500', 'bg-amber-500', 'bg-violet-500'];
+
+interface LanguageMixProps {
+  mix: LanguageMixEntry[];
+}
+
+/**
+ * Native languages of a session's participants as a bar with a legend
+ */
+export default function LanguageMix({ mix }: LanguageMixProps) {
+  const t = useTranslations('sessionDetail');
+  const total = mix.reduce((sum, entry) => sum + entry.count, 0);
+
+  // Nothing to show until at least one participant has set a language
+  if (total === 0 || mix.every((entry) => entry.language === null)) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4">
+      <p className="text-sm font-medium text-slate-700 mb-2">{t('languageMix')}</p>
+      <div className="flex h-2 rounded-full overflow-hidden bg-slate-100" aria-hidden="true">
+        {mix.map((entry, index) => (
+          <div
+            key={entry.language ?? 'unknown'}
+            className={entry.language ? SEGMENT_COLORS[index % SEGMENT_COLORS.length] : 'bg-slate-300'}
+            style={{ width: `${(entry.count / total) * 100}%` }}
+          />
+        ))}
+      </div>
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-slate-600">
+        {mix.map((entry) => (
+          <li key={entry.language ?? 'unknown'} className="flex items-center gap-1">
+            {entry.language ? (
+              <>
+                <span>{getLanguageFlag(entry.language)}</span>
+                {getLanguageName(entry.language)}
+              </>
+            ) : (
+              t('languageUnknown')
+            )}
+            <span className="font-semibold text-slate-800">{entry.count}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
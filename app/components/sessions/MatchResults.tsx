@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { Trophy, Trash2 } from 'lucide-react';
+import Button from '@/app/components/ui/Button';
+import Card from '@/app/components/ui/Card';
+import Input from '@/app/components/ui/Input';
+import Select from '@/app/components/ui/Select';
+import { csrfDelete, csrfPost } from '@/lib/csrfClient';
+import { toArray } from '@/lib/utils/toArray';
+import type { Match, MatchFormat, MatchPlayer, Participant } from '@/types';
+
+const MATCH_FORMATS: MatchFormat[] = ['SINGLES', 'DOUBLES', 'TEAM'];
+
+interface MatchResultsProps {
+  sessionId: string;
+  participants: Participant[];
+  isHost: boolean;
+  /** Invite link token, needed to see results of invite-only sessions */
+  inviteToken?: string | null;
+  /** Results can be recorded and shown once play has started */
+  hasStarted: boolean;
+}
+
+const playerName = (player: Participant) => player.display_name || player.username || '?';
+
+/**
+ * Recorded match results of a session, with a form for hosts to add one.
+ * Each player's rating change is shown next to their name. Hosts can void a
+ * wrong result, which reverses its rating changes.
+ */
+export default function MatchResults({ sessionId, participants, isHost, inviteToken, hasStarted }: MatchResultsProps) {
+  const t = useTranslations('sessionDetail');
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [format, setFormat] = useState<MatchFormat>('SINGLES');
+  const [sides, setSides] = useState<Record<string, '' | 'A' | 'B'>>({});
+  const [scores, setScores] = useState({ a: '', b: '' });
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!hasStarted) return;
+
+    const fetchMatches = async () => {
+      try {
+        const query = inviteToken ? `?invite=${encodeURIComponent(inviteToken)}` : '';
+        const response = await fetch(`/api/sessions/${sessionId}/matches${query}`);
+        if (!response.ok) throw new Error('Failed to fetch matches');
+        setMatches(toArray<Match>(await response.json()));
+      } catch (err) {
+        console.error('Error fetching matches:', err);
+      }
+    };
+
+    fetchMatches();
+  }, [sessionId, inviteToken, hasStarted]);
+
+  if (!hasStarted || (!isHost && matches.length === 0)) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const sideA = participants.filter((p) => sides[p.id] === 'A').map((p) => p.id);
+    const sideB = participants.filter((p) => sides[p.id] === 'B').map((p) => p.id);
+    if (sideA.length === 0 || sideB.length === 0 || scores.a === '' || scores.b === '') {
+      alert(t('matchIncomplete'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const match = await csrfPost(`/api/sessions/${sessionId}/matches`, {
+        format,
+        score_a: parseInt(scores.a),
+        score_b: parseInt(scores.b),
+        side_a: sideA,
+        side_b: sideB,
+      });
+      setMatches((prev) => [...prev, match]);
+      setSides({});
+      setScores({ a: '', b: '' });
+    } catch (err: any) {
+      alert(err.message || t('matchSaveError'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVoid = async (matchId: string) => {
+    if (!confirm(t('voidMatchConfirm'))) return;
+
+    try {
+      await csrfDelete(`/api/sessions/${sessionId}/matches/${matchId}`);
+      setMatches((prev) => prev.filter((match) => match.id !== matchId));
+    } catch (err: any) {
+      alert(err.message || t('voidMatchError'));
+    }
+  };
+
+  const renderSide = (players: MatchPlayer[]) => (
+    <ul className="space-y-0.5">
+      {players.map((player) => {
+        const change = player.rating_after - player.rating_before;
+        return (
+          <li key={player.id} className="text-sm text-slate-800">
+            {playerName(player.user)}{' '}
+            <span className={`text-xs font-semibold ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {change >= 0 ? `+${change}` : change}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  const sideOptions = [
+    { value: '', label: t('matchSideNone') },
+    { value: 'A', label: t('matchSideA') },
+    { value: 'B', label: t('matchSideB') },
+  ];
+
+  return (
+    <Card padding="lg">
+      <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+        <Trophy className="w-5 h-5 text-amber-500" />
+        {t('matchResults')}
+      </h2>
+
+      {matches.length > 0 ? (
+        <ul className="divide-y divide-slate-100 mb-4">
+          {matches.map((match) => (
+            <li key={match.id} className="py-3 grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+              {renderSide(match.players.filter((p) => p.side === 'A'))}
+              <div className="text-center">
+                <p className="text-lg font-bold text-slate-900">
+                  {match.score_a} – {match.score_b}
+                </p>
+                <p className="text-xs text-slate-500">{t(`matchFormats.${match.format}`)}</p>
+                {isHost && !match.tournament_match && (
+                  <button
+                    type="button"
+                    onClick={() => handleVoid(match.id)}
+                    className="mt-1 text-slate-400 hover:text-red-600"
+                    aria-label={t('voidMatch')}
+                    title={t('voidMatch')}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              <div className="text-right">
+                {renderSide(match.players.filter((p) => p.side === 'B'))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500 mb-4">{t('noMatches')}</p>
+      )}
+
+      {isHost && (
+        <form onSubmit={handleSubmit} className="space-y-4 border-t border-slate-100 pt-4">
+          <p className="text-sm font-medium text-slate-700">{t('recordMatch')}</p>
+          <Select
+            label={t('matchFormat')}
+            value={format}
+            onChange={(e) => setFormat(e.target.value as MatchFormat)}
+            options={MATCH_FORMATS.map((value) => ({ value, label: t(`matchFormats.${value}`) }))}
+            fullWidth
+          />
+          <div className="space-y-2">
+            {participants.map((participant) => (
+              <div key={participant.id} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-slate-800 truncate">{playerName(participant)}</span>
+                <select
+                  value={sides[participant.id] ?? ''}
+                  onChange={(e) => setSides({ ...sides, [participant.id]: e.target.value as '' | 'A' | 'B' })}
+                  className="px-3 py-1.5 border border-slate-200 rounded-lg text-sm bg-white"
+                  aria-label={t('matchSideFor', { name: playerName(participant) })}
+                >
+                  {sideOptions.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label={t('matchScoreA')}
+              type="number"
+              min="0"
+              value={scores.a}
+              onChange={(e) => setScores({ ...scores, a: e.target.value })}
+              fullWidth
+            />
+            <Input
+              label={t('matchScoreB')}
+              type="number"
+              min="0"
+              value={scores.b}
+              onChange={(e) => setScores({ ...scores, b: e.target.value })}
+              fullWidth
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" variant="primary" size="sm" loading={submitting}>
+              {t('saveMatch')}
+            </Button>
+          </div>
+        </form>
+      )}
+    </Card>
+  );
+}
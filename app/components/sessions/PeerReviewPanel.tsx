@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { Check, UserCheck } from 'lucide-react';
+import Button from '@/app/components/ui/Button';
+import Card from '@/app/components/ui/Card';
+import Avatar from '@/app/components/ui/Avatar';
+import StarRating from './StarRating';
+import { csrfPost } from '@/lib/csrfClient';
+import { PEER_REVIEW_CRITERIA, type PeerReviewCriterion } from '@/lib/peer-reviews';
+import type { PeerReviewee, PeerReviewStatus } from '@/types';
+
+interface PeerReviewPanelProps {
+  sessionId: string;
+  /** Peer reviews only open once the session is over */
+  hasEnded: boolean;
+}
+
+type Ratings = Record<PeerReviewCriterion, number>;
+
+const EMPTY_RATINGS: Ratings = { punctuality: 0, sportsmanship: 0, skill_accuracy: 0 };
+
+/**
+ * Lets attendees rate the host and each other after a session. Ratings are
+ * anonymous and only ever shown as averages on the reviewee's profile.
+ */
+export default function PeerReviewPanel({ sessionId, hasEnded }: PeerReviewPanelProps) {
+  const t = useTranslations('sessionDetail.peerReviews');
+  const [status, setStatus] = useState<PeerReviewStatus | null>(null);
+  const [ratings, setRatings] = useState<Record<string, Ratings>>({});
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/peer-reviews`);
+        if (!response.ok) return;
+        const data = await response.json();
+        setStatus(data.data ?? null);
+      } catch (err) {
+        console.error('Error fetching peer reviews:', err);
+      }
+    };
+
+    if (hasEnded) {
+      fetchStatus();
+    }
+  }, [sessionId, hasEnded]);
+
+  if (!hasEnded || !status || !status.can_review || status.reviewees.length === 0) {
+    return null;
+  }
+
+  const getDisplayName = (reviewee: PeerReviewee) =>
+    reviewee.user.display_name || reviewee.user.username || t('anonymousPlayer');
+
+  const setRating = (userId: string, criterion: PeerReviewCriterion, value: number) => {
+    setRatings((prev) => ({
+      ...prev,
+      [userId]: { ...(prev[userId] ?? EMPTY_RATINGS), [criterion]: value },
+    }));
+  };
+
+  const handleSubmit = async (userId: string) => {
+    setSubmittingId(userId);
+    try {
+      await csrfPost(`/api/sessions/${sessionId}/peer-reviews`, {
+        reviewee_id: userId,
+        ...ratings[userId],
+      });
+      setStatus({
+        ...status,
+        reviewees: status.reviewees.map((r) => (r.user.id === userId ? { ...r, reviewed: true } : r)),
+      });
+    } catch (err: any) {
+      alert(err.message || t('submitError'));
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  return (
+    <Card padding="lg">
+      <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+        <UserCheck className="w-5 h-5 text-primary-600" />
+        {t('title')}
+      </h2>
+      <p className="text-sm text-slate-500 mb-4">{t('description')}</p>
+
+      <div className="space-y-4">
+        {status.reviewees.map((reviewee) => {
+          const current = ratings[reviewee.user.id] ?? EMPTY_RATINGS;
+          const complete = PEER_REVIEW_CRITERIA.every((criterion) => current[criterion] > 0);
+
+          return (
+            <div key={reviewee.user.id} className="p-4 rounded-xl border border-slate-200">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-3">
+                  <Avatar
+                    src={reviewee.user.avatar_url || undefined}
+                    alt={getDisplayName(reviewee)}
+                    size="sm"
+                  />
+                  <p className="font-medium text-slate-900">
+                    {getDisplayName(reviewee)}
+                    {reviewee.is_host && <span className="ml-2 text-xs text-primary-600">{t('host')}</span>}
+                  </p>
+                </div>
+                {reviewee.reviewed && (
+                  <span className="flex items-center gap-1 text-sm text-green-600">
+                    <Check className="w-4 h-4" />
+                    {t('reviewed')}
+                  </span>
+                )}
+              </div>
+
+              {!reviewee.reviewed && (
+                <>
+                  <div className="space-y-2">
+                    {PEER_REVIEW_CRITERIA.map((criterion) => (
+                      <div key={criterion} className="flex items-center justify-between gap-3">
+                        <span className="text-sm text-slate-600">{t(`criteria.${criterion}`)}</span>
+                        <StarRating
+                          rating={current[criterion]}
+                          size="sm"
+                          interactive
+                          onChange={(value) => setRating(reviewee.user.id, criterion, value)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-end mt-3">
+                    <Button
+                      size="sm"
+                      onClick={() => handleSubmit(reviewee.user.id)}
+                      disabled={!complete || submittingId === reviewee.user.id}
+                    >
+                      {submittingId === reviewee.user.id ? t('submitting') : t('submit')}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="mt-4 text-xs text-slate-400">{t('anonymityNote')}</p>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { Check, X, UserPlus, Loader2 } from 'lucide-react';
+import Button from '@/app/components/ui/Button';
+import Avatar from '@/app/components/ui/Avatar';
+import { JoinRequest } from '@/types';
+import { formatDate } from '@/lib/utils';
+import { csrfPatch } from '@/lib/csrfClient';
+
+interface PendingRequestsPanelProps {
+  sessionId: string;
+  isHost: boolean;
+  /** Called after a request is approved so the participant list can refresh */
+  onApproved?: () => void;
+}
+
+export default function PendingRequestsPanel({
+  sessionId,
+  isHost,
+  onApproved,
+}: PendingRequestsPanelProps) {
+  const t = useTranslations('sessionDetail.joinRequests');
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRequests = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/sessions/${sessionId}/join-requests`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch join requests');
+        }
+        const data = await response.json();
+        setRequests(data.requests);
+      } catch (err) {
+        console.error('Error fetching join requests:', err);
+        setError(t('failedToLoad'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (isHost) {
+      fetchRequests();
+    }
+  }, [sessionId, isHost]);
+
+  if (!isHost) {
+    return null;
+  }
+
+  const handleReview = async (requestId: string, action: 'approve' | 'reject') => {
+    setReviewingId(requestId);
+    setError(null);
+    try {
+      await csrfPatch(`/api/sessions/${sessionId}/join-requests/${requestId}`, { action });
+      setRequests((prev) => prev.filter((r) => r.id !== requestId));
+      if (action === 'approve') {
+        onApproved?.();
+      }
+    } catch (err: any) {
+      setError(err.message || t('failedToReview'));
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <UserPlus className="w-5 h-5 text-gray-600" />
+        <h2 className="text-xl font-semibold">{t('title', { count: requests.length })}</h2>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary-500" />
+        </div>
+      ) : requests.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('none')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {requests.map((request) => {
+            const name = request.user.display_name || request.user.username || 'Player';
+            return (
+              <li
+                key={request.id}
+                className="flex items-start justify-between gap-3 p-3 rounded-xl border border-slate-200 bg-slate-50"
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <Avatar src={request.user.avatar_url} alt={name} initials={name.charAt(0).toUpperCase()} size="sm" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{name}</p>
+                    <p className="text-xs text-gray-500">
+                      {t('requestedOn', { date: formatDate(request.created_at) })}
+                      {request.user.reliability_score !== undefined && (
+                        <> · {t('reliability', { score: request.user.reliability_score })}</>
+                      )}
+                    </p>
+                    {request.message && (
+                      <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{request.message}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    onClick={() => handleReview(request.id, 'approve')}
+                    loading={reviewingId === request.id}
+                    disabled={reviewingId !== null}
+                    aria-label={t('approve')}
+                  >
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleReview(request.id, 'reject')}
+                    disabled={reviewingId !== null}
+                    className="text-red-600 hover:bg-red-50"
+                    aria-label={t('reject')}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useTranslations } from 'next-intl';
+import { Sparkles } from 'lucide-react';
+import { Session, SessionRecommendation } from '@/types';
+import CompactSessionCard from '@/app/components/CompactSessionCard';
+import { getLanguageName } from '@/app/components/ui/LanguageFlag';
+import { toArray } from '@/lib/utils/toArray';
+
+// Most reasons shown under each suggestion
+const MAX_REASONS = 2;
+
+async function fetchRecommendations(): Promise<Session[]> {
+  const response = await fetch('/api/sessions/recommendations');
+  if (!response.ok) {
+    throw new Error('Failed to fetch recommendations');
+  }
+  return toArray<Session>(await response.json());
+}
+
+interface RecommendedSessionsProps {
+  enabled: boolean;
+}
+
+/**
+ * "For you" row on the home feed: sessions scored against the user's
+ * profile and history, each with a short explanation
+ */
+export default function RecommendedSessions({ enabled }: RecommendedSessionsProps) {
+  const t = useTranslations('home');
+  const tSessions = useTranslations('sessions');
+
+  const { data } = useQuery({
+    queryKey: ['recommendations'],
+    queryFn: fetchRecommendations,
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const sessions = enabled ? toArray<Session>(data) : [];
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  const explain = (recommendation?: SessionRecommendation) =>
+    (recommendation?.reasons ?? [])
+      .slice(0, MAX_REASONS)
+      .map(({ code, params = {} }) =>
+        t(`forYouReasons.${code}`, {
+          ...params,
+          sport: params.sport ? tSessions(String(params.sport)) : '',
+          level: params.level ? tSessions(String(params.level)) : '',
+          language: params.language ? getLanguageName(String(params.language)) : '',
+        })
+      )
+      .join(' · ');
+
+  return (
+    <section aria-labelledby="recommended-sessions-heading">
+      <div className="flex items-center gap-2 mb-4 px-1">
+        <div className="p-1.5 rounded-lg bg-primary-100 text-primary-600">
+          <Sparkles className="w-4 h-4" />
+        </div>
+        <h2 id="recommended-sessions-heading" className="text-lg font-bold text-slate-900">
+          {t('forYou')}
+        </h2>
+      </div>
+      <div className="flex gap-4 overflow-x-auto pb-4 pt-1 scrollbar-hide px-1 snap-x snap-mandatory -mx-1">
+        {sessions.map((session) => (
+          <div key={session.id} className="flex-shrink-0 w-[85vw] sm:w-80 snap-center flex flex-col gap-2">
+            <CompactSessionCard session={session} variant="horizontal" className="h-full" />
+            <p className="text-xs text-slate-500 px-1 line-clamp-2">
+              {explain(session.recommendation)}
+            </p>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
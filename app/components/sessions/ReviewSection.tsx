@@ -6,13 +6,15 @@ import Card from '../ui/Card';
 import Button from '../ui/Button';
 import StarRating from './StarRating';
 import { formatDate } from '@/lib/utils';
-import { MessageSquare } from 'lucide-react';
-import { csrfPost } from '@/lib/csrfClient';
+import { Flag, MessageSquare, Reply } from 'lucide-react';
+import { csrfDelete, csrfPost, csrfPut } from '@/lib/csrfClient';
 
 interface Review {
   id: string;
   rating: number;
   comment: string | null;
+  host_reply: string | null;
+  host_replied_at: string | null;
   created_at: string;
   user: {
     id: string;
@@ -20,18 +22,28 @@ interface Review {
     username: string | null;
     avatar_url: string | null;
   };
+  replier: {
+    id: string;
+    display_name: string | null;
+    username: string | null;
+  } | null;
 }
 
 interface ReviewSectionProps {
   sessionId: string;
   sessionDate: string;
   hasAttended: boolean;
+  /** Hosts can reply to reviews */
+  isHost?: boolean;
+  onReport?: (reviewId: string, authorName: string) => void;
 }
 
 export default function ReviewSection({
   sessionId,
   sessionDate,
   hasAttended,
+  isHost = false,
+  onReport,
 }: ReviewSectionProps) {
   const { user } = useAuth();
   const [reviews, setReviews] = useState<Review[]>([]);
@@ -45,6 +57,9 @@ export default function ReviewSection({
   const [newComment, setNewComment] = useState('');
   const [hasReviewed, setHasReviewed] = useState(false);
   const [isPastSession, setIsPastSession] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [savingReply, setSavingReply] = useState(false);
 
   const canReview = user && hasAttended && isPastSession && !hasReviewed;
 
@@ -107,10 +122,42 @@ export default function ReviewSection({
     }
   };
 
-  const getUserName = (reviewUser: Review['user']) => {
+  const getUserName = (reviewUser: Review['user'] | NonNullable<Review['replier']>) => {
     return reviewUser.display_name || reviewUser.username || 'Anonymous';
   };
 
+  const startReply = (review: Review) => {
+    setReplyingTo(review.id);
+    setReplyText(review.host_reply ?? '');
+  };
+
+  const handleSaveReply = async (reviewId: string) => {
+    setSavingReply(true);
+    try {
+      await csrfPut(`/api/sessions/${sessionId}/reviews/${reviewId}/reply`, {
+        reply: replyText,
+      });
+      await fetchReviews();
+      setReplyingTo(null);
+      setReplyText('');
+    } catch (err: any) {
+      alert(err.message || 'Failed to save reply');
+    } finally {
+      setSavingReply(false);
+    }
+  };
+
+  const handleDeleteReply = async (reviewId: string) => {
+    if (!confirm('Delete your reply?')) return;
+
+    try {
+      await csrfDelete(`/api/sessions/${sessionId}/reviews/${reviewId}/reply`);
+      await fetchReviews();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete reply');
+    }
+  };
+
   return (
     <Card padding="lg" className="mt-6">
       <div className="flex items-center justify-between mb-4">
@@ -232,6 +279,88 @@ export default function ReviewSection({
                   {review.comment && (
                     <p className="mt-2 text-gray-600 text-sm">{review.comment}</p>
                   )}
+
+                  {/* Host reply */}
+                  {review.host_reply && replyingTo !== review.id && (
+                    <div className="mt-3 ml-2 pl-3 border-l-2 border-blue-200">
+                      <p className="text-xs font-medium text-blue-700">
+                        Reply from {review.replier ? getUserName(review.replier) : 'the host'}
+                        {review.host_replied_at && (
+                          <span className="ml-2 font-normal text-gray-500">{formatDate(review.host_replied_at)}</span>
+                        )}
+                      </p>
+                      <p className="mt-1 text-gray-600 text-sm">{review.host_reply}</p>
+                    </div>
+                  )}
+
+                  {replyingTo === review.id && (
+                    <div className="mt-3 space-y-2">
+                      <textarea
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        placeholder="Reply publicly to this review..."
+                        rows={2}
+                        maxLength={1000}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setReplyingTo(null)}
+                          disabled={savingReply}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          onClick={() => handleSaveReply(review.id)}
+                          loading={savingReply}
+                          disabled={!replyText.trim()}
+                        >
+                          Save Reply
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Actions */}
+                  {replyingTo !== review.id && (
+                    <div className="mt-2 flex items-center gap-3">
+                      {isHost && (
+                        <button
+                          type="button"
+                          onClick={() => startReply(review)}
+                          className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+                        >
+                          <Reply className="w-3 h-3" />
+                          {review.host_reply ? 'Edit reply' : 'Reply'}
+                        </button>
+                      )}
+                      {isHost && review.host_reply && (
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteReply(review.id)}
+                          className="text-xs text-gray-500 hover:text-red-600"
+                        >
+                          Delete reply
+                        </button>
+                      )}
+                      {user && onReport && review.user.id !== user.id && (
+                        <button
+                          type="button"
+                          onClick={() => onReport(review.id, getUserName(review.user))}
+                          className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-500"
+                          aria-label="Report review"
+                        >
+                          <Flag className="w-3 h-3" />
+                          Report
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { Bookmark, BookmarkPlus, Mail, MailX, X, Loader2 } from 'lucide-react';
+import Button from '@/app/components/ui/Button';
+import { SavedSearch } from '@/types';
+import { csrfPost, csrfPatch, csrfDelete } from '@/lib/csrfClient';
+import { toDateParam } from '@/lib/saved-searches';
+
+/** Filters as the browse page holds them ('all' and '' mean no filter) */
+export interface BrowseFilters {
+  search: string;
+  sportType: string;
+  skillLevel: string;
+  vibe: string;
+  allowEnglish: boolean;
+  startDate: string;
+  endDate: string;
+}
+
+interface SavedSearchesProps {
+  filters: BrowseFilters;
+  onApply: (filters: BrowseFilters) => void;
+}
+
+function toBrowseFilters(savedSearch: SavedSearch): BrowseFilters {
+  return {
+    search: savedSearch.search || '',
+    sportType: savedSearch.sport_type || 'all',
+    skillLevel: savedSearch.skill_level || 'all',
+    vibe: savedSearch.vibe || 'all',
+    allowEnglish: savedSearch.allow_english,
+    startDate: toDateParam(savedSearch.start_date) || '',
+    endDate: toDateParam(savedSearch.end_date) || '',
+  };
+}
+
+export default function SavedSearches({ filters, onApply }: SavedSearchesProps) {
+  const t = useTranslations('browseSessions.savedSearches');
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSavedSearches = async () => {
+      try {
+        const response = await fetch('/api/users/me/saved-searches');
+        if (!response.ok) {
+          throw new Error('Failed to fetch saved searches');
+        }
+        setSavedSearches(await response.json());
+      } catch (err) {
+        console.error('Error fetching saved searches:', err);
+      }
+    };
+
+    fetchSavedSearches();
+  }, []);
+
+  const handleSave = async () => {
+    const name = prompt(t('namePrompt'));
+    if (!name?.trim()) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const savedSearch = await csrfPost('/api/users/me/saved-searches', {
+        name: name.trim(),
+        search: filters.search || null,
+        sport_type: filters.sportType !== 'all' ? filters.sportType : null,
+        skill_level: filters.skillLevel !== 'all' ? filters.skillLevel : null,
+        vibe: filters.vibe !== 'all' ? filters.vibe : null,
+        allow_english: filters.allowEnglish,
+        start_date: filters.startDate || null,
+        end_date: filters.endDate || null,
+      });
+      setSavedSearches((prev) => [savedSearch, ...prev]);
+    } catch (err: any) {
+      alert(err.message || t('failedToSave'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleEmail = async (savedSearch: SavedSearch) => {
+    setBusyId(savedSearch.id);
+    try {
+      const updated = await csrfPatch(`/api/users/me/saved-searches/${savedSearch.id}`, {
+        email_digest: !savedSearch.email_digest,
+      });
+      setSavedSearches((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (err: any) {
+      alert(err.message || t('failedToUpdate'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    if (!confirm(t('confirmDelete', { name: savedSearch.name }))) {
+      return;
+    }
+
+    setBusyId(savedSearch.id);
+    try {
+      await csrfDelete(`/api/users/me/saved-searches/${savedSearch.id}`);
+      setSavedSearches((prev) => prev.filter((s) => s.id !== savedSearch.id));
+    } catch (err: any) {
+      alert(err.message || t('failedToDelete'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h2 className="text-sm font-medium text-slate-700 flex items-center gap-2">
+          <Bookmark className="w-4 h-4" />
+          {t('title')}
+        </h2>
+        <Button type="button" variant="outline" size="sm" onClick={handleSave} disabled={saving} className="gap-1.5">
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <BookmarkPlus className="w-4 h-4" />}
+          {t('save')}
+        </Button>
+      </div>
+
+      {savedSearches.length === 0 ? (
+        <p className="text-xs text-slate-500">{t('empty')}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {savedSearches.map((savedSearch) => (
+            <div
+              key={savedSearch.id}
+              className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-slate-100 text-sm text-slate-700"
+            >
+              <button
+                type="button"
+                onClick={() => onApply(toBrowseFilters(savedSearch))}
+                className="font-medium hover:text-primary-600"
+                title={t('apply')}
+              >
+                {savedSearch.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleToggleEmail(savedSearch)}
+                disabled={busyId === savedSearch.id}
+                className="p-1 rounded-full hover:bg-slate-200"
+                title={savedSearch.email_digest ? t('emailOn') : t('emailOff')}
+                aria-label={savedSearch.email_digest ? t('emailOn') : t('emailOff')}
+              >
+                {savedSearch.email_digest
+                  ? <Mail className="w-3.5 h-3.5 text-primary-600" />
+                  : <MailX className="w-3.5 h-3.5 text-slate-400" />}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(savedSearch)}
+                disabled={busyId === savedSearch.id}
+                className="p-1 rounded-full hover:bg-slate-200"
+                aria-label={t('delete')}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="mt-2 text-xs text-slate-500">{t('alertsHint')}</p>
+    </div>
+  );
+}
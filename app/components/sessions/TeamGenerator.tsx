@@ -0,0 +1,238 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Shuffle, Lock, Unlock, Link2, X, MessageSquare, UsersRound } from 'lucide-react';
+import Button from '@/app/components/ui/Button';
+import Card from '@/app/components/ui/Card';
+import Select from '@/app/components/ui/Select';
+import { getLanguageFlag } from '@/app/components/ui/LanguageFlag';
+import { csrfPost } from '@/lib/csrfClient';
+import { MAX_TEAMS, MIN_TEAMS } from '@/lib/team-balancer';
+import type { Participant } from '@/types';
+
+interface TeamPlayer extends Participant {
+  native_language?: string | null;
+  skill: number;
+}
+
+interface Team {
+  index: number;
+  average_skill: number;
+  players: TeamPlayer[];
+}
+
+interface TeamGeneratorProps {
+  sessionId: string;
+  participants: Participant[];
+}
+
+const playerName = (player: Participant) => player.display_name || player.username || '?';
+
+/**
+ * Host tool that splits participants into balanced teams, with keep-together
+ * pairs, locked players, shuffling and posting the result to the session chat
+ */
+export default function TeamGenerator({ sessionId, participants }: TeamGeneratorProps) {
+  const t = useTranslations('sessionDetail');
+  const [teamCount, setTeamCount] = useState(String(MIN_TEAMS));
+  const [balanceLanguages, setBalanceLanguages] = useState(false);
+  const [pairs, setPairs] = useState<Array<[string, string]>>([]);
+  const [pairDraft, setPairDraft] = useState<[string, string]>(['', '']);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [locked, setLocked] = useState<Record<string, number>>({});
+  const [generating, setGenerating] = useState(false);
+  const [announcing, setAnnouncing] = useState(false);
+
+  const maxTeams = Math.min(MAX_TEAMS, participants.length);
+  const names = new Map(participants.map((p) => [p.id, playerName(p)]));
+
+  const generate = async (shuffle: boolean) => {
+    setGenerating(true);
+    try {
+      const data = await csrfPost(`/api/sessions/${sessionId}/teams`, {
+        team_count: parseInt(teamCount),
+        keep_together: pairs,
+        locked,
+        balance_languages: balanceLanguages,
+        ...(shuffle && { seed: Math.floor(Math.random() * 2 ** 31) }),
+      });
+      setTeams(data.teams);
+    } catch (err: any) {
+      alert(err.message || t('teamsError'));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const announce = async () => {
+    setAnnouncing(true);
+    try {
+      await csrfPost(`/api/sessions/${sessionId}/teams/announce`, {
+        teams: teams.map((team) => team.players.map((player) => player.id)),
+      });
+      alert(t('teamsPosted'));
+    } catch (err: any) {
+      alert(err.message || t('teamsError'));
+    } finally {
+      setAnnouncing(false);
+    }
+  };
+
+  const toggleLock = (playerId: string, teamIndex: number) => {
+    setLocked((prev) => {
+      const { [playerId]: current, ...rest } = prev;
+      return current === undefined ? { ...prev, [playerId]: teamIndex } : rest;
+    });
+  };
+
+  const addPair = () => {
+    const [a, b] = pairDraft;
+    if (!a || !b || a === b) return;
+    setPairs([...pairs, [a, b]]);
+    setPairDraft(['', '']);
+  };
+
+  // Changing the number of teams invalidates pins to teams that no longer exist
+  const changeTeamCount = (value: string) => {
+    setTeamCount(value);
+    setLocked((prev) => Object.fromEntries(Object.entries(prev).filter(([, index]) => index < parseInt(value))));
+  };
+
+  if (participants.length < MIN_TEAMS) {
+    return null;
+  }
+
+  const playerOptions = [
+    { value: '', label: t('teamsChoosePlayer') },
+    ...participants.map((p) => ({ value: p.id, label: playerName(p) })),
+  ];
+
+  return (
+    <Card padding="lg">
+      <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+        <UsersRound className="w-5 h-5 text-primary-600" />
+        {t('teamsTitle')}
+      </h2>
+      <p className="text-sm text-slate-500 mb-4">{t('teamsDescription')}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <Select
+          label={t('teamsCount')}
+          value={teamCount}
+          onChange={(e) => changeTeamCount(e.target.value)}
+          options={Array.from({ length: maxTeams - MIN_TEAMS + 1 }, (_, i) => {
+            const count = String(MIN_TEAMS + i);
+            return { value: count, label: count };
+          })}
+          fullWidth
+        />
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 sm:mt-7">
+          <input
+            type="checkbox"
+            checked={balanceLanguages}
+            onChange={(e) => setBalanceLanguages(e.target.checked)}
+            className="w-4 h-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+          />
+          {t('teamsBalanceLanguages')}
+        </label>
+      </div>
+
+      {/* Keep-together pairs */}
+      <div className="mb-4">
+        <p className="text-sm font-medium text-slate-700 mb-2">{t('teamsKeepTogether')}</p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select
+            value={pairDraft[0]}
+            onChange={(e) => setPairDraft([e.target.value, pairDraft[1]])}
+            options={playerOptions}
+            aria-label={t('teamsFirstPlayer')}
+            fullWidth
+          />
+          <Select
+            value={pairDraft[1]}
+            onChange={(e) => setPairDraft([pairDraft[0], e.target.value])}
+            options={playerOptions}
+            aria-label={t('teamsSecondPlayer')}
+            fullWidth
+          />
+          <Button variant="outline" size="sm" onClick={addPair} disabled={!pairDraft[0] || !pairDraft[1] || pairDraft[0] === pairDraft[1]}>
+            <Link2 className="w-4 h-4 mr-1" />
+            {t('teamsAddPair')}
+          </Button>
+        </div>
+        {pairs.length > 0 && (
+          <ul className="flex flex-wrap gap-2 mt-2">
+            {pairs.map(([a, b], index) => (
+              <li key={`${a}-${b}`} className="flex items-center gap-1 px-2 py-1 bg-slate-100 rounded-full text-xs text-slate-700">
+                {names.get(a)} + {names.get(b)}
+                <button
+                  type="button"
+                  onClick={() => setPairs(pairs.filter((_, i) => i !== index))}
+                  className="text-slate-400 hover:text-slate-700"
+                  aria-label={t('teamsRemovePair')}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Button variant="primary" size="sm" onClick={() => generate(false)} loading={generating} disabled={generating || announcing}>
+          {t('teamsGenerate')}
+        </Button>
+        {teams.length > 0 && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => generate(true)} disabled={generating || announcing}>
+              <Shuffle className="w-4 h-4 mr-1" />
+              {t('teamsShuffle')}
+            </Button>
+            <Button variant="outline" size="sm" onClick={announce} loading={announcing} disabled={generating || announcing}>
+              <MessageSquare className="w-4 h-4 mr-1" />
+              {t('teamsPostToChat')}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {teams.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {teams.map((team) => (
+            <div key={team.index} className="p-3 rounded-xl border border-slate-200">
+              <div className="flex items-baseline justify-between mb-2">
+                <p className="font-semibold text-slate-900">{t('teamsTeam', { number: team.index + 1 })}</p>
+                <p className="text-xs text-slate-500">{t('teamsAverage', { rating: team.average_skill })}</p>
+              </div>
+              <ul className="space-y-1">
+                {team.players.map((player) => {
+                  const isLocked = locked[player.id] !== undefined;
+                  return (
+                    <li key={player.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate text-slate-800">
+                        {player.native_language && <span className="mr-1">{getLanguageFlag(player.native_language)}</span>}
+                        {playerName(player)}
+                        <span className="ml-1 text-xs text-slate-400">{player.skill}</span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => toggleLock(player.id, team.index)}
+                        className={isLocked ? 'text-primary-600' : 'text-slate-300 hover:text-slate-500'}
+                        aria-label={isLocked ? t('teamsUnlock', { name: playerName(player) }) : t('teamsLock', { name: playerName(player) })}
+                        aria-pressed={isLocked}
+                      >
+                        {isLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Swords } from 'lucide-react';
+import Button from '@/app/components/ui/Button';
+import Card from '@/app/components/ui/Card';
+import Select from '@/app/components/ui/Select';
+import { csrfPost } from '@/lib/csrfClient';
+import { MIN_TOURNAMENT_PLAYERS, TOURNAMENT_FORMATS } from '@/lib/tournaments';
+import type { TournamentFormat, TournamentSummary } from '@/types';
+
+interface TournamentPanelProps {
+  sessionId: string;
+  tournament?: TournamentSummary | null;
+  participantCount: number;
+  isHost: boolean;
+  /** New tournaments can only be started while the session is open */
+  isOpen: boolean;
+  /** Invite link token, kept so invite-only sessions' brackets stay visible */
+  inviteToken?: string | null;
+}
+
+/**
+ * Link to a session's tournament bracket, or for hosts, a form to start one
+ * from the current participants
+ */
+export default function TournamentPanel({ sessionId, tournament, participantCount, isHost, isOpen, inviteToken }: TournamentPanelProps) {
+  const t = useTranslations('sessionDetail');
+  const router = useRouter();
+  const [format, setFormat] = useState<TournamentFormat>('SINGLE_ELIMINATION');
+  const [creating, setCreating] = useState(false);
+
+  const canCreate = isHost && isOpen && participantCount >= MIN_TOURNAMENT_PLAYERS;
+  if (!tournament && !canCreate) {
+    return null;
+  }
+
+  const bracketUrl = `/sessions/${sessionId}/tournament${inviteToken ? `?invite=${encodeURIComponent(inviteToken)}` : ''}`;
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      await csrfPost(`/api/sessions/${sessionId}/tournament`, { format });
+      router.push(bracketUrl);
+    } catch (err: any) {
+      alert(err.message || t('tournamentCreateError'));
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Card padding="lg">
+      <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+        <Swords className="w-5 h-5 text-primary-600" />
+        {t('tournamentTitle')}
+      </h2>
+
+      {tournament ? (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-slate-600">
+            {t(`tournamentFormats.${tournament.format}`)}
+            {' · '}
+            {tournament.status === 'COMPLETED' ? t('tournamentCompleted') : t('tournamentInProgress')}
+          </p>
+          <Button variant="outline" size="sm" onClick={() => router.push(bracketUrl)}>
+            {t('tournamentViewBracket')}
+          </Button>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-slate-500 mb-4">{t('tournamentDescription')}</p>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <Select
+              label={t('tournamentFormat')}
+              value={format}
+              onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+              options={TOURNAMENT_FORMATS.map((value) => ({
+                value,
+                label: t(`tournamentFormats.${value}`),
+              }))}
+              fullWidth
+            />
+            <Button variant="primary" size="sm" onClick={handleCreate} loading={creating} disabled={creating}>
+              {t('tournamentStart')}
+            </Button>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { CalendarDays, Copy, Check, RefreshCw } from 'lucide-react';
+import Button from '@/app/components/ui/Button';
+import Card from '@/app/components/ui/Card';
+import { csrfPost, csrfDelete } from '@/lib/csrfClient';
+
+export default function CalendarFeedSettings() {
+  const t = useTranslations('settings');
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchFeedUrl = async () => {
+      try {
+        const response = await fetch('/api/users/me/calendar-token');
+        if (!response.ok) throw new Error('Failed to fetch calendar feed');
+        const data = await response.json();
+        setFeedUrl(data.feed_url);
+      } catch (err) {
+        console.error('Error fetching calendar feed:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFeedUrl();
+  }, []);
+
+  const handleRotate = async () => {
+    // Existing subscriptions stop updating once the link changes
+    if (feedUrl && !confirm(t('calendar.confirmRotate'))) {
+      return;
+    }
+
+    setUpdating(true);
+    setError('');
+    try {
+      const data = await csrfPost('/api/users/me/calendar-token', {});
+      setFeedUrl(data.feed_url);
+      setCopied(false);
+    } catch (err: any) {
+      setError(err.message || t('calendar.updateError'));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm(t('calendar.confirmDisable'))) {
+      return;
+    }
+
+    setUpdating(true);
+    setError('');
+    try {
+      await csrfDelete('/api/users/me/calendar-token');
+      setFeedUrl(null);
+    } catch (err: any) {
+      setError(err.message || t('calendar.updateError'));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy calendar link:', err);
+    }
+  };
+
+  return (
+    <Card padding="lg">
+      <div className="flex items-start gap-4">
+        <div className="flex-shrink-0 w-10 h-10 rounded-full bg-emerald-100 flex items-center justify-center">
+          <CalendarDays className="w-5 h-5 text-emerald-600" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h2 className="text-lg font-semibold text-slate-900 mb-2">
+            {t('calendar.title')}
+          </h2>
+          <p className="text-sm text-slate-600 mb-4">{t('calendar.description')}</p>
+
+          {error && (
+            <p className="text-sm text-red-600 mb-3">{error}</p>
+          )}
+
+          {loading ? null : feedUrl ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feedUrl}
+                  aria-label={t('calendar.feedUrl')}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-2 text-sm border border-slate-300 rounded-lg bg-slate-50 text-slate-700"
+                />
+                <Button type="button" variant="outline" size="sm" onClick={handleCopy} aria-label={t('calendar.copy')}>
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <a
+                  href={feedUrl.replace(/^https?:/, 'webcal:')}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-lg bg-emerald-600 text-white hover:bg-emerald-700"
+                >
+                  {t('calendar.subscribe')}
+                </a>
+                <Button type="button" variant="outline" size="sm" onClick={handleRotate} disabled={updating} className="gap-1.5">
+                  <RefreshCw className="w-4 h-4" />
+                  {t('calendar.rotate')}
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={handleDisable} disabled={updating}>
+                  {t('calendar.disable')}
+                </Button>
+              </div>
+              <p className="text-xs text-slate-500">{t('calendar.privateHint')}</p>
+            </div>
+          ) : (
+            <Button type="button" variant="primary" size="sm" onClick={handleRotate} loading={updating}>
+              {t('calendar.enable')}
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Attendance & Self Check-in
+ *
+ * Hosts mark attendance after a session, which updates each participant's
+ * reliability score (see lib/reliability.ts). Participants can also check
+ * themselves in by scanning a QR code the host displays at the venue. The code holds a token that
+ * rotates every CHECK_IN_ROTATION_SECONDS: `<step>.<signature>`, where step is
+ * the rotation period and the signature an HMAC over the session ID and step.
+ * A photo of the code stops working shortly after, and tokens are only
+ * accepted within the check-in window around the session's start.
+ *
+ * Hosts who forget are reminded ATTENDANCE_REMINDER_HOURS after the session
+ * ends. If attendance still isn't in ATTENDANCE_FINALIZE_HOURS after the end,
+ * the attendance-finalization cron finalizes it from the check-ins: when
+ * anyone checked in, the session evidently took place with check-in in use,
+ * so the hosts count as attended and everyone else who didn't check in as a
+ * no-show. When nobody checked in there is no evidence either way and the
+ * remaining participants are left as registered. Each auto-finalized session
+ * gets an AttendanceFinalization record for admins to audit.
+ *
+ * Requires CHECK_IN_TOKEN_SECRET to be set.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { recordAttendanceOutcome } from './reliability';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface AttendanceParticipant {
+  user_id: string;
+  status: 'REGISTERED' | 'ATTENDED' | 'NO_SHOW' | string;
+}
+
+export interface AttendanceResolution {
+  attended: string[];
+  no_show: string[];
+  unresolved: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How often the check-in QR code changes */
+export const CHECK_IN_ROTATION_SECONDS = 30;
+
+/** Check-in opens this long before the session starts */
+export const CHECK_IN_OPENS_BEFORE_MINUTES = 30;
+
+/** ...and closes this long after it started */
+export const CHECK_IN_CLOSES_AFTER_MINUTES = 60;
+
+/** Hosts are reminded to mark attendance this long after the session ends */
+export const ATTENDANCE_REMINDER_HOURS = 2;
+
+/** Attendance is finalized automatically this long after the session ends */
+export const ATTENDANCE_FINALIZE_HOURS = 48;
+
+// ============================================================================
+// Marking
+// ============================================================================
+
+/**
+ * Mark a participant present or absent and update their reliability
+ * No-shows also get a notification. Must run inside a transaction.
+ */
+export async function applyAttendance(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  userId: string,
+  attended: boolean,
+  now: Date = new Date()
+) {
+  const userSession = await tx.userSession.update({
+    where: {
+      user_id_session_id: {
+        user_id: userId,
+        session_id: sessionId,
+      },
+    },
+    data: {
+      status: attended ? 'ATTENDED' : 'NO_SHOW',
+      attended_at: now,
+    },
+  });
+
+  const event = await recordAttendanceOutcome(tx, userId, sessionId, attended);
+
+  if (event && !attended) {
+    await tx.notification.create({
+      data: {
+        user_id: userId,
+        type: 'no_show_warning',
+        title: 'Missed Session',
+        message: `You were marked as a no-show for a session. Your reliability score has been updated. If this is a mistake, you can appeal from your profile.`,
+        link: `/sessions/${sessionId}`,
+      },
+    });
+  }
+
+  return userSession;
+}
+
+// ============================================================================
+// Automatic Finalization
+// ============================================================================
+
+export function sessionEndsAt(dateTime: Date | string, durationMinutes: number): Date {
+  return new Date(new Date(dateTime).getTime() + durationMinutes * 60 * 1000);
+}
+
+/**
+ * Decide what happens to each participant when attendance is finalized
+ * without the hosts (see the header comment)
+ */
+export function resolveUnmarkedAttendance(
+  participants: AttendanceParticipant[],
+  hostIds: Set<string>
+): AttendanceResolution {
+  const resolution: AttendanceResolution = { attended: [], no_show: [], unresolved: [] };
+  const anyCheckIns = participants.some((p) => p.status === 'ATTENDED' && !hostIds.has(p.user_id));
+
+  for (const participant of participants) {
+    if (participant.status === 'ATTENDED') {
+      resolution.attended.push(participant.user_id);
+    } else if (participant.status === 'NO_SHOW') {
+      resolution.no_show.push(participant.user_id);
+    } else if (!anyCheckIns) {
+      resolution.unresolved.push(participant.user_id);
+    } else if (hostIds.has(participant.user_id)) {
+      // Hosts show the code rather than scan it
+      resolution.attended.push(participant.user_id);
+    } else {
+      resolution.no_show.push(participant.user_id);
+    }
+  }
+
+  return resolution;
+}
+
+// ============================================================================
+// Check-in
+// ============================================================================
+
+function getSecret(): string {
+  const secret = process.env.CHECK_IN_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('CHECK_IN_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(sessionId: string, step: number): string {
+  return createHmac('sha256', getSecret())
+    .update(`${sessionId}:${step}`)
+    .digest('base64url');
+}
+
+function rotationStep(now: Date): number {
+  return Math.floor(now.getTime() / (CHECK_IN_ROTATION_SECONDS * 1000));
+}
+
+/**
+ * When self check-in is open for a session starting at `dateTime`
+ */
+export function checkInWindow(dateTime: Date | string): { opens_at: Date; closes_at: Date } {
+  const start = new Date(dateTime).getTime();
+  return {
+    opens_at: new Date(start - CHECK_IN_OPENS_BEFORE_MINUTES * 60 * 1000),
+    closes_at: new Date(start + CHECK_IN_CLOSES_AFTER_MINUTES * 60 * 1000),
+  };
+}
+
+export function isCheckInOpen(dateTime: Date | string, now: Date = new Date()): boolean {
+  const { opens_at, closes_at } = checkInWindow(dateTime);
+  return now >= opens_at && now <= closes_at;
+}
+
+/**
+ * The token for the current QR code and when it rotates
+ */
+export function createCheckInToken(sessionId: string, now: Date = new Date()): { token: string; expires_at: Date } {
+  const step = rotationStep(now);
+  return {
+    token: `${step}.${sign(sessionId, step)}`,
+    expires_at: new Date((step + 1) * CHECK_IN_ROTATION_SECONDS * 1000),
+  };
+}
+
+/**
+ * Check a scanned token for the given session
+ * The previous code is still accepted so a scan just before it rotates works.
+ */
+export function verifyCheckInToken(sessionId: string, token: string, now: Date = new Date()): boolean {
+  const [stepPart, signature, ...rest] = token.split('.');
+  const step = Number(stepPart);
+  if (!signature || rest.length > 0 || !Number.isInteger(step)) {
+    return false;
+  }
+
+  const current = rotationStep(now);
+  if (step !== current && step !== current - 1) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(sessionId, step));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
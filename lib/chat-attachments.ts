@@ -0,0 +1,106 @@
+/**
+ * Chat Attachments
+ *
+ * Messages can carry up to MAX_ATTACHMENTS_PER_MESSAGE images, validated
+ * like avatars (see lib/uploads.ts). Files live in the private
+ * CHAT_ATTACHMENTS_BUCKET under `<conversation id>/<uuid>.<ext>` and are
+ * uploaded and read with the service role only, so storage itself grants
+ * nobody access.
+ *
+ * Clients never see storage paths. Each attachment is served from
+ * /api/conversations/[id]/attachments/[attachmentId], which checks that the
+ * requester takes part in the conversation and redirects to a signed URL
+ * valid for ATTACHMENT_URL_TTL_SECONDS. `?variant=thumbnail` signs a resized
+ * image for the chat bubble. Attachments of deleted messages are only
+ * served to admins.
+ *
+ * Realtime INSERT events carry the bare Message row, so `attachment_count`
+ * tells clients to fetch the message when it has attachments.
+ */
+
+import { MAX_IMAGE_SIZE, validateImageFile } from './uploads';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StoredAttachment {
+  id: string;
+  storage_path: string;
+  content_type: string;
+  size_bytes: number;
+}
+
+export interface AttachmentView {
+  id: string;
+  content_type: string;
+  size_bytes: number;
+  url: string;
+  thumbnail_url: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CHAT_ATTACHMENTS_BUCKET = 'chat-attachments';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+export const MAX_ATTACHMENT_SIZE = MAX_IMAGE_SIZE;
+
+/** Signed storage URLs expire after this long */
+export const ATTACHMENT_URL_TTL_SECONDS = 60;
+
+/** Thumbnails are resized to fit a square of this many pixels */
+export const THUMBNAIL_SIZE = 320;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check the files attached to a new message
+ * Returns an error message, or null if they are acceptable.
+ */
+export function validateAttachments(files: Array<{ type: string; size: number }>): string | null {
+  if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} images per message.`;
+  }
+
+  for (const file of files) {
+    const error = validateImageFile(file, MAX_ATTACHMENT_SIZE);
+    if (error) {
+      return error;
+    }
+  }
+
+  return null;
+}
+
+export function attachmentUrl(
+  conversationId: string,
+  attachmentId: string,
+  variant?: 'thumbnail'
+): string {
+  const url = `/api/conversations/${conversationId}/attachments/${attachmentId}`;
+  return variant ? `${url}?variant=${variant}` : url;
+}
+
+/**
+ * Replace a message's stored attachments with URLs clients can load
+ */
+export function withAttachmentUrls<T extends { conversation_id: string; attachments?: StoredAttachment[] }>(
+  message: T
+): Omit<T, 'attachments'> & { attachments: AttachmentView[] } {
+  return {
+    ...message,
+    attachments: (message.attachments ?? []).map((attachment) => ({
+      id: attachment.id,
+      content_type: attachment.content_type,
+      size_bytes: attachment.size_bytes,
+      url: attachmentUrl(message.conversation_id, attachment.id),
+      thumbnail_url: attachmentUrl(message.conversation_id, attachment.id, 'thumbnail'),
+    })),
+  };
+}
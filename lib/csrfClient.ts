@@ -37,6 +37,18 @@ export function getCsrfHeaders(additionalHeaders: HeadersInit = {}): HeadersInit
     return headers;
 }
 
+/**
+ * Error thrown by the JSON helpers for non-2xx responses
+ * Keeps the status and response body for callers that need more than the
+ * message (e.g. the conflicts listed with a 409).
+ */
+export class RequestError extends Error {
+    constructor(message: string, public status: number, public data: any) {
+        super(message);
+        this.name = 'RequestError';
+    }
+}
+
 /**
  * Wrapper around fetch that automatically includes CSRF token
  * Use this for all mutation requests (POST, PUT, PATCH, DELETE)
@@ -73,7 +85,7 @@ export async function csrfPost<T = any>(
 
     if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Request failed' }));
-        throw new Error(error.error || `HTTP ${response.status}`);
+        throw new RequestError(error.error || `HTTP ${response.status}`, response.status, error);
     }
 
     return response.json();
@@ -99,7 +111,7 @@ export async function csrfPut<T = any>(
 
     if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Request failed' }));
-        throw new Error(error.error || `HTTP ${response.status}`);
+        throw new RequestError(error.error || `HTTP ${response.status}`, response.status, error);
     }
 
     return response.json();
@@ -125,7 +137,7 @@ export async function csrfPatch<T = any>(
 
     if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Request failed' }));
-        throw new Error(error.error || `HTTP ${response.status}`);
+        throw new RequestError(error.error || `HTTP ${response.status}`, response.status, error);
     }
 
     return response.json();
@@ -145,7 +157,7 @@ export async function csrfDelete<T = any>(
 
     if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Request failed' }));
-        throw new Error(error.error || `HTTP ${response.status}`);
+        throw new RequestError(error.error || `HTTP ${response.status}`, response.status, error);
     }
 
     return response.json();
@@ -278,6 +278,7 @@ export async function sendSessionUpdateEmail(
     updateType: 'cancelled' | 'modified';
     sportCenter?: string;
     newDateTime?: string;
+    reason?: string;
   }
 ) {
   const isCancelled = updateDetails.updateType === 'cancelled';
@@ -317,6 +318,10 @@ export async function sendSessionUpdateEmail(
               }</p>
             </div>
 
+            ${isCancelled && updateDetails.reason ? `
+              <p><strong>Reason:</strong> ${escapeHtml(updateDetails.reason)}</p>
+            ` : ''}
+
             ${!isCancelled && updateDetails.newDateTime ? `
               <p><strong>New Date & Time:</strong> ${escapeHtml(updateDetails.newDateTime)}</p>
               ${updateDetails.sportCenter ? `<p><strong>Location:</strong> ${escapeHtml(updateDetails.sportCenter)}</p>` : ''}
@@ -341,3 +346,76 @@ export async function sendSessionUpdateEmail(
 
   return sendEmail({ to, subject, html });
 }
+
+/**
+ * Send daily digest of new sessions matching the user's saved searches
+ */
+export async function sendSavedSearchDigestEmail(
+  to: string,
+  userName: string,
+  matches: Array<{
+    searchName: string;
+    sportType: string;
+    sportCenter: string;
+    dateTime: string;
+    sessionId: string;
+  }>
+) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://webresevation-gbvm9a1l4-heinaungtestings-projects.vercel.app';
+  const subject = matches.length === 1
+    ? 'A new session matches your saved search'
+    : `${matches.length} new sessions match your saved searches`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #3b82f6 0%, #2563eb 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+          .session-info { background: #f3f4f6; padding: 15px 20px; border-radius: 8px; margin: 12px 0; }
+          .session-info h3 { margin: 0 0 4px; color: #1f2937; }
+          .search-name { color: #6b7280; font-size: 13px; }
+          .button { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; color: #6b7280; padding: 20px; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>New Sessions For You</h1>
+          </div>
+          <div class="content">
+            <p>Hi ${escapeHtml(userName)},</p>
+
+            <p>These sessions were posted since your last digest and match your saved searches:</p>
+
+            ${matches.map((match) => `
+              <div class="session-info">
+                <h3><a href="${appUrl}/sessions/${encodeURIComponent(match.sessionId)}">${escapeHtml(match.sportType)} at ${escapeHtml(match.sportCenter)}</a></h3>
+                <div>${escapeHtml(match.dateTime)}</div>
+                <div class="search-name">Saved search: ${escapeHtml(match.searchName)}</div>
+              </div>
+            `).join('')}
+
+            <p style="text-align: center;">
+              <a href="${appUrl}/sessions" class="button">Browse Sessions</a>
+            </p>
+
+            <p><strong>The SportsMatch Tokyo Team</strong></p>
+          </div>
+          <div class="footer">
+            <p>SportsMatch Tokyo - Find Your Sports Partner in Tokyo</p>
+            <p>You can turn off email alerts for a saved search on the sessions page.</p>
+            <p>This email was sent to ${escapeHtml(Array.isArray(to) ? to[0] : to)}</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({ to, subject, html });
+}
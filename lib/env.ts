@@ -43,6 +43,12 @@ const serverEnvSchema = z.object({
   // Cron jobs
   CRON_SECRET: z.string().min(16, 'CRON_SECRET must be at least 16 characters'),
 
+  // Session invite links - required to use invite-only sessions
+  INVITE_TOKEN_SECRET: z.string().min(32, 'INVITE_TOKEN_SECRET must be at least 32 characters').optional(),
+
+  // Check-in QR codes - required for self check-in
+  CHECK_IN_TOKEN_SECRET: z.string().min(32, 'CHECK_IN_TOKEN_SECRET must be at least 32 characters').optional(),
+
   // App configuration
   APP_VERSION: z.string().default('1.0.0'),
 
@@ -0,0 +1,135 @@
+/**
+ * Geographic Search Helpers
+ *
+ * Used by GET /api/sessions for `near=lat,lng&radius_km=` and `bbox=`
+ * searches. Sport centers store plain latitude/longitude columns, so the
+ * database query narrows results with a bounding box and the exact
+ * great-circle distance is computed here.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/** Bounding box as west,south,east,north (the order used by `bbox=`) */
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EARTH_RADIUS_KM = 6371;
+
+export const DEFAULT_RADIUS_KM = 5;
+
+/** Largest radius a `near` search accepts */
+export const MAX_RADIUS_KM = 50;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function isLatitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -90 && value <= 90;
+}
+
+function isLongitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -180 && value <= 180;
+}
+
+/**
+ * Parse a `lat,lng` query value
+ * Returns null for malformed or out-of-range coordinates
+ */
+export function parseLatLng(value: string | null): LatLng | null {
+  if (!value) return null;
+
+  const parts = value.split(',');
+  if (parts.length !== 2 || parts.some((part) => part.trim() === '')) return null;
+
+  const [lat, lng] = parts.map(Number);
+  if (!isLatitude(lat) || !isLongitude(lng)) return null;
+
+  return { lat, lng };
+}
+
+/**
+ * Parse a `west,south,east,north` query value
+ * Returns null for malformed boxes. A box whose west edge is east of its
+ * east edge crosses the antimeridian and is allowed.
+ */
+export function parseBoundingBox(value: string | null): BoundingBox | null {
+  if (!value) return null;
+
+  const parts = value.split(',');
+  if (parts.length !== 4 || parts.some((part) => part.trim() === '')) return null;
+
+  const [west, south, east, north] = parts.map(Number);
+  if (!isLongitude(west) || !isLongitude(east) || !isLatitude(south) || !isLatitude(north)) {
+    return null;
+  }
+  if (south > north) return null;
+
+  return { west, south, east, north };
+}
+
+// ============================================================================
+// Distance
+// ============================================================================
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine)
+ */
+export function distanceKm(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Smallest bounding box containing every point within `radiusKm` of `center`
+ * Used to pre-filter rows before the exact distance check.
+ */
+export function boundingBoxAround(center: LatLng, radiusKm: number): BoundingBox {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(Math.cos(toRadians(center.lat)), 0.01);
+
+  return {
+    west: Math.max(-180, center.lng - lngDelta),
+    south: Math.max(-90, center.lat - latDelta),
+    east: Math.min(180, center.lng + lngDelta),
+    north: Math.min(90, center.lat + latDelta),
+  };
+}
+
+/**
+ * Prisma `where` filter for sport centers inside a bounding box
+ */
+export function boundingBoxWhere(box: BoundingBox) {
+  const longitude = box.west <= box.east
+    ? { longitude: { gte: box.west, lte: box.east } }
+    : { OR: [{ longitude: { gte: box.west } }, { longitude: { lte: box.east } }] };
+
+  return {
+    latitude: { gte: box.south, lte: box.north },
+    ...longitude,
+  };
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { slotsClash, type TimeSlot } from '@/lib/schedule-conflicts';
+
+interface Schedule {
+  travel_buffer_minutes: number;
+  commitments: Array<TimeSlot & { id: string }>;
+}
+
+async function fetchSchedule(): Promise<Schedule> {
+  const response = await fetch('/api/users/me/schedule');
+  if (!response.ok) {
+    throw new Error('Failed to fetch schedule');
+  }
+  return response.json();
+}
+
+/**
+ * Tells whether a session clashes with the signed-in user's schedule
+ *
+ * Usage:
+ * ```tsx
+ * const isBusy = useBusySessions(Boolean(user));
+ * <SessionCard session={session} busy={isBusy(session)} />
+ * ```
+ *
+ * Sessions the user is already part of never count as busy.
+ */
+export function useBusySessions(enabled: boolean) {
+  const { data } = useQuery({
+    queryKey: ['schedule'],
+    queryFn: fetchSchedule,
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  const commitments = useMemo(
+    () => (enabled && Array.isArray(data?.commitments) ? data.commitments : []),
+    [enabled, data]
+  );
+  const bufferMinutes = data?.travel_buffer_minutes;
+
+  return useCallback(
+    (session: TimeSlot & { id: string }) =>
+      commitments.some(
+        (commitment) => commitment.id !== session.id && slotsClash(session, commitment, bufferMinutes)
+      ),
+    [commitments, bufferMinutes]
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * iCalendar Export
+ *
+ * Builds RFC 5545 `.ics` files for a single session download and for the
+ * per-user calendar feed. The feed is fetched by calendar apps without a
+ * login, so it is authenticated by a random `calendar_token` stored on the
+ * user; rotating the token invalidates every copy of the old feed URL.
+ *
+ * Calendar apps re-fetch the feed periodically, so edits and cancellations
+ * show up without any push: cancelled sessions stay in the feed with
+ * STATUS:CANCELLED and LAST-MODIFIED/SEQUENCE follow the session's
+ * updated_at so clients replace their copy.
+ */
+
+import { randomBytes } from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CalendarSession {
+  id: string;
+  sport_type: string;
+  skill_level: string;
+  date_time: Date;
+  duration_minutes: number;
+  description_en?: string | null;
+  description_ja?: string | null;
+  status: string;
+  cancellation_reason?: string | null;
+  min_participants?: number | null;
+  confirmed_at?: Date | null;
+  updated_at: Date;
+  sport_center: {
+    name_en: string;
+    address_en: string;
+  };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PRODUCT_ID = '-//SportsMatch Tokyo//Sessions//EN';
+
+/** Content lines longer than this many octets must be folded (RFC 5545 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+/** SEQUENCE counts minutes since this date so it stays a small integer */
+const SEQUENCE_EPOCH = Date.UTC(2024, 0, 1);
+
+/** How often calendar apps should re-fetch the feed */
+export const FEED_REFRESH_INTERVAL = 'PT1H';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Random token for a user's calendar feed URL
+ */
+export function generateCalendarToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Escape a TEXT property value
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 characters
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a date as a UTC DATE-TIME (20261107T100000Z)
+ */
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function eventStatus(session: CalendarSession): 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED' {
+  if (session.status === 'CANCELLED') return 'CANCELLED';
+  // Still waiting to reach its minimum number of players
+  if (session.min_participants && !session.confirmed_at) return 'TENTATIVE';
+  return 'CONFIRMED';
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+/**
+ * VEVENT lines for one session
+ */
+export function buildSessionEvent(session: CalendarSession, baseUrl: string, now: Date = new Date()): string[] {
+  const start = new Date(session.date_time);
+  const end = new Date(start.getTime() + session.duration_minutes * 60 * 1000);
+  const updatedAt = new Date(session.updated_at);
+  const url = `${baseUrl}/sessions/${session.id}`;
+  const status = eventStatus(session);
+
+  const summary = `${capitalize(session.sport_type.replace(/-/g, ' '))} (${session.skill_level})`;
+  const description = [
+    status === 'CANCELLED'
+      ? `Cancelled${session.cancellation_reason ? `: ${session.cancellation_reason}` : ''}`
+      : null,
+    session.description_en,
+    session.description_ja,
+    url,
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:session-${session.id}@sportsmatch.tokyo`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(status === 'CANCELLED' ? `Cancelled: ${summary}` : summary)}`,
+    `LOCATION:${escapeText(`${session.sport_center.name_en}, ${session.sport_center.address_en}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${url}`,
+    `STATUS:${status}`,
+    `LAST-MODIFIED:${formatDateTime(updatedAt)}`,
+    `SEQUENCE:${Math.max(0, Math.floor((updatedAt.getTime() - SEQUENCE_EPOCH) / 60000))}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * A complete VCALENDAR for the given sessions
+ * `name` becomes the calendar's display name in subscribing apps.
+ */
+export function buildCalendar(
+  sessions: CalendarSession[],
+  options: { baseUrl: string; name: string; now?: Date }
+): string {
+  const now = options.now ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    'X-WR-TIMEZONE:Asia/Tokyo',
+    `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`,
+    ...sessions.flatMap((session) => buildSessionEvent(session, options.baseUrl, now)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,170 @@
+/**
+ * Session Invite Links
+ *
+ * Invite-only sessions are hidden from search and can only be viewed or joined
+ * through an invite link generated by the host. The link token is
+ * `<inviteId>.<signature>`, where the signature is an HMAC over the session and
+ * invite IDs. The signature stops forged or tampered links without a database
+ * lookup; the SessionInvite row carries revocation, expiry and usage limits.
+ *
+ * Requires INVITE_TOKEN_SECRET to be set.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { isSessionHost } from './session-hosts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SessionVisibility = 'PUBLIC' | 'UNLISTED' | 'INVITE_ONLY';
+
+interface InviteState {
+  expires_at: Date | null;
+  max_uses: number | null;
+  use_count: number;
+  revoked_at: Date | null;
+}
+
+interface ViewableSession {
+  id: string;
+  created_by: string;
+  status: string;
+  visibility: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SESSION_VISIBILITIES = ['PUBLIC', 'UNLISTED', 'INVITE_ONLY'] as const;
+
+/** Longest lifetime a host can give an invite link */
+export const MAX_INVITE_EXPIRY_DAYS = 90;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getSecret(): string {
+  const secret = process.env.INVITE_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('INVITE_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(sessionId: string, inviteId: string): string {
+  return createHmac('sha256', getSecret())
+    .update(`${sessionId}:${inviteId}`)
+    .digest('base64url');
+}
+
+/**
+ * Build the shareable token for an invite
+ */
+export function createInviteToken(sessionId: string, inviteId: string): string {
+  return `${inviteId}.${sign(sessionId, inviteId)}`;
+}
+
+/**
+ * Check a token's signature for the given session
+ * Returns the invite ID if the signature is valid, null otherwise
+ */
+export function verifyInviteToken(sessionId: string, token: string): string | null {
+  const [inviteId, signature, ...rest] = token.split('.');
+  if (!inviteId || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(sessionId, inviteId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return inviteId;
+}
+
+/**
+ * Whether an invite can still be used (not revoked, expired or used up)
+ */
+export function isInviteUsable(invite: InviteState, now: Date = new Date()): boolean {
+  if (invite.revoked_at) return false;
+  if (invite.expires_at && invite.expires_at <= now) return false;
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return false;
+  return true;
+}
+
+/**
+ * Look up the usable invite a token refers to
+ * Returns null for missing, forged, revoked, expired or used-up invites
+ */
+export async function findValidInvite(
+  db: Pick<Prisma.TransactionClient, 'sessionInvite'>,
+  sessionId: string,
+  token: string | null | undefined
+) {
+  if (!token) {
+    return null;
+  }
+
+  const inviteId = verifyInviteToken(sessionId, token);
+  if (!inviteId) {
+    return null;
+  }
+
+  const invite = await db.sessionInvite.findUnique({
+    where: { id: inviteId },
+  });
+
+  if (!invite || invite.session_id !== sessionId || !isInviteUsable(invite)) {
+    return null;
+  }
+
+  return invite;
+}
+
+/**
+ * Whether a user may see a session and anything published under it
+ * Drafts are only visible to their hosts. Invite-only sessions are also
+ * visible to participants, waitlisted users and holders of a valid invite.
+ */
+export async function canViewSession(
+  db: Pick<Prisma.TransactionClient, 'sessionCoHost' | 'userSession' | 'waitlist' | 'sessionInvite'>,
+  session: ViewableSession,
+  userId: string | null | undefined,
+  inviteToken?: string | null
+): Promise<boolean> {
+  if (session.status !== 'DRAFT' && session.visibility !== 'INVITE_ONLY') {
+    return true;
+  }
+
+  if (await isSessionHost(db, session, userId)) {
+    return true;
+  }
+  if (session.status === 'DRAFT') {
+    return false;
+  }
+
+  if (userId) {
+    const participant = await db.userSession.findUnique({
+      where: { user_id_session_id: { user_id: userId, session_id: session.id } },
+      select: { id: true },
+    });
+    if (participant) {
+      return true;
+    }
+
+    const waitlisted = await db.waitlist.findUnique({
+      where: { session_id_user_id: { session_id: session.id, user_id: userId } },
+      select: { id: true },
+    });
+    if (waitlisted) {
+      return true;
+    }
+  }
+
+  return (await findValidInvite(db, session.id, inviteToken)) !== null;
+}
@@ -0,0 +1,96 @@
+/**
+ * Join Eligibility
+ *
+ * Checks shared by every way onto a session's roster: joining directly,
+ * joining the waitlist and claiming a reserved waitlist spot. Keeping them in
+ * one place stops the waitlist from becoming a way around the entry rules.
+ *
+ * Failed checks throw an error code for the route to map:
+ * - RATING_TOO_LOW: the user's sport rating is below the session's min_rating
+ *
+ * Schedule clashes are not a hard rule: findJoinConflicts lists them so the
+ * route can answer 409 until the user confirms with `allow_conflicts`.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { getSportRating, meetsMinRating } from './ratings';
+import {
+  DEFAULT_TRAVEL_BUFFER_MINUTES,
+  findScheduleConflicts,
+  type ScheduleConflict,
+  type TimeSlot,
+} from './schedule-conflicts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JoinIneligibility = 'RATING_TOO_LOW';
+
+export interface JoinableSession {
+  id: string;
+  created_by: string;
+  sport_type: string;
+  min_rating: number | null;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Why `userId` may not join the session, or null if they may
+ * The host is always allowed in.
+ */
+export async function joinIneligibility(
+  db: Pick<Prisma.TransactionClient, 'sportRating'>,
+  session: JoinableSession,
+  userId: string
+): Promise<JoinIneligibility | null> {
+  if (session.created_by === userId) {
+    return null;
+  }
+
+  // Competitive sessions may require a minimum rating in their sport
+  if (session.min_rating !== null) {
+    const rating = await getSportRating(db, userId, session.sport_type);
+    if (!meetsMinRating(rating, session.min_rating)) {
+      return 'RATING_TOO_LOW';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Throw the reason `userId` may not join the session, if any
+ */
+export async function checkJoinEligibility(
+  db: Pick<Prisma.TransactionClient, 'sportRating'>,
+  session: JoinableSession,
+  userId: string
+): Promise<void> {
+  const reason = await joinIneligibility(db, session, userId);
+  if (reason) {
+    throw new Error(reason);
+  }
+}
+
+/**
+ * The user's commitments that clash with the session, using their travel buffer
+ */
+export async function findJoinConflicts(
+  db: Pick<Prisma.TransactionClient, 'user' | 'session'>,
+  session: TimeSlot & { id: string },
+  userId: string
+): Promise<ScheduleConflict[]> {
+  const profile = await db.user.findUnique({
+    where: { id: userId },
+    select: { travel_buffer_minutes: true },
+  });
+
+  return findScheduleConflicts(db, userId, [session], {
+    bufferMinutes: profile?.travel_buffer_minutes ?? DEFAULT_TRAVEL_BUFFER_MINUTES,
+    excludeSessionId: session.id,
+  });
+}
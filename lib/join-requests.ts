@@ -0,0 +1,86 @@
+/**
+ * Join Requests
+ *
+ * Sessions with `requires_approval` don't let people join directly. Joining
+ * (or claiming a waitlist hold) records a pending JoinRequest that the host
+ * approves or rejects. Pending requests don't count towards capacity; the
+ * UserSession is only created on approval.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Record a pending join request and notify the host
+ *
+ * Must run inside a transaction. Throws REQUEST_PENDING if the user already
+ * has a request waiting and REQUEST_REJECTED if the host declined them before.
+ * A user who was approved and later left can request again.
+ */
+export async function createJoinRequest(
+  tx: Prisma.TransactionClient,
+  params: {
+    sessionId: string;
+    userId: string;
+    hostId: string;
+    sportType: string;
+    message?: string | null;
+  }
+) {
+  const { sessionId, userId, hostId, sportType, message } = params;
+
+  const existingRequest = await tx.joinRequest.findUnique({
+    where: {
+      session_id_user_id: {
+        session_id: sessionId,
+        user_id: userId,
+      },
+    },
+  });
+
+  if (existingRequest?.status === 'PENDING') {
+    throw new Error('REQUEST_PENDING');
+  }
+  if (existingRequest?.status === 'REJECTED') {
+    throw new Error('REQUEST_REJECTED');
+  }
+
+  const joinRequest = await tx.joinRequest.upsert({
+    where: {
+      session_id_user_id: {
+        session_id: sessionId,
+        user_id: userId,
+      },
+    },
+    create: {
+      session_id: sessionId,
+      user_id: userId,
+      message: message || null,
+    },
+    update: {
+      status: 'PENDING',
+      message: message || null,
+      decided_at: null,
+    },
+  });
+
+  const requester = await tx.user.findUnique({
+    where: { id: userId },
+    select: { display_name: true, username: true },
+  });
+
+  await tx.notification.create({
+    data: {
+      user_id: hostId,
+      type: 'join_request',
+      title: 'New Join Request',
+      message: `${requester?.display_name || requester?.username || 'Someone'} asked to join your ${sportType} session.`,
+      link: `/sessions/${sessionId}`,
+    },
+  });
+
+  return joinRequest;
+}
@@ -0,0 +1,103 @@
+/**
+ * Language Exchange Matching
+ *
+ * Two users are exchange partners when each is a native speaker of the
+ * language the other is learning. Partners who play the same sports are
+ * ranked first since they can practise at the same sessions; among those,
+ * similar levels in the target language make for a more even exchange.
+ *
+ * Sessions also show their language mix: how many participants speak each
+ * native language, so learners can find sessions with speakers to practise
+ * with.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LanguageProfile {
+  native_language?: string | null;
+  target_language?: string | null;
+  language_level?: string | null;
+  sport_preferences?: string[] | null;
+}
+
+export interface PartnerMatch {
+  shared_sports: string[];
+  score: number;
+}
+
+export interface LanguageMixEntry {
+  /** ISO 639-1 code, or null for participants who haven't set one */
+  language: string | null;
+  count: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LANGUAGE_LEVELS = ['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'NATIVE'] as const;
+
+/** Most partner suggestions returned at once */
+export const MAX_PARTNERS = 30;
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Whether two users' native and target languages complement each other
+ */
+export function isComplementary(a: LanguageProfile, b: LanguageProfile): boolean {
+  if (!a.native_language || !a.target_language || a.native_language === a.target_language) {
+    return false;
+  }
+  return a.native_language === b.target_language && a.target_language === b.native_language;
+}
+
+/**
+ * Score a potential partner, or null if their languages don't complement
+ * the user's
+ * Each shared sport counts most; a level gap of one step costs a little.
+ */
+export function matchPartner(user: LanguageProfile, candidate: LanguageProfile): PartnerMatch | null {
+  if (!isComplementary(user, candidate)) {
+    return null;
+  }
+
+  const candidateSports = new Set(candidate.sport_preferences ?? []);
+  const sharedSports = (user.sport_preferences ?? []).filter((sport) => candidateSports.has(sport));
+
+  let score = sharedSports.length * 10;
+  const userLevel = LANGUAGE_LEVELS.indexOf(user.language_level as (typeof LANGUAGE_LEVELS)[number]);
+  const candidateLevel = LANGUAGE_LEVELS.indexOf(candidate.language_level as (typeof LANGUAGE_LEVELS)[number]);
+  if (userLevel >= 0 && candidateLevel >= 0) {
+    score -= Math.abs(userLevel - candidateLevel);
+  }
+
+  return { shared_sports: sharedSports, score };
+}
+
+// ============================================================================
+// Session Language Mix
+// ============================================================================
+
+/**
+ * Count participants per native language, most common first
+ * Participants without a native language are counted under null, last.
+ */
+export function languageMix(participants: Array<{ native_language?: string | null }>): LanguageMixEntry[] {
+  const counts = new Map<string | null, number>();
+  for (const participant of participants) {
+    const language = participant.native_language || null;
+    counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([language, count]) => ({ language, count }))
+    .sort((a, b) => {
+      if (a.language === null) return 1;
+      if (b.language === null) return -1;
+      return b.count - a.count || a.language.localeCompare(b.language);
+    });
+}
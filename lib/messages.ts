@@ -0,0 +1,117 @@
+/**
+ * Message Editing & Deletion
+ *
+ * Senders can edit a message for MESSAGE_EDIT_WINDOW_MINUTES after sending
+ * it. Senders can delete their messages at any time, and in session chats
+ * the session hosts can delete anyone's. A deleted message stays in the
+ * conversation as a "message deleted" tombstone: its content is emptied, so
+ * neither the API nor the realtime UPDATE broadcast carry the old text.
+ *
+ * Each edit or deletion first stores the text it replaces as a
+ * MessageRevision. Participants only ever see the current version; the
+ * history is for admins looking into abuse.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MessageRevisionAction = 'EDIT' | 'DELETE';
+
+interface EditableMessage {
+  id: string;
+  sender_id: string;
+  content: string;
+  deleted_at: Date | null;
+  created_at: Date;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Messages can be edited for this long after they were sent */
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+export const MAX_MESSAGE_LENGTH = 5000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Until when a message can still be edited
+ */
+export function editableUntil(createdAt: Date | string): Date {
+  return new Date(new Date(createdAt).getTime() + MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000);
+}
+
+/**
+ * Whether `userId` can edit the message now
+ */
+export function canEditMessage(
+  message: { sender_id: string; deleted_at?: Date | string | null; created_at: Date | string },
+  userId: string,
+  now: Date = new Date()
+): boolean {
+  return message.sender_id === userId &&
+    !message.deleted_at &&
+    now <= editableUntil(message.created_at);
+}
+
+// ============================================================================
+// Changes
+// ============================================================================
+
+/**
+ * Replace a message's text, keeping the previous version
+ * Must run inside a transaction.
+ */
+export async function editMessage(
+  tx: Prisma.TransactionClient,
+  message: EditableMessage,
+  content: string,
+  userId: string,
+  now: Date = new Date()
+) {
+  await tx.messageRevision.create({
+    data: {
+      message_id: message.id,
+      action: 'EDIT',
+      content: message.content,
+      actor_id: userId,
+    },
+  });
+
+  return tx.message.update({
+    where: { id: message.id },
+    data: { content, edited_at: now },
+  });
+}
+
+/**
+ * Turn a message into a tombstone, keeping its last text
+ * Must run inside a transaction.
+ */
+export async function deleteMessage(
+  tx: Prisma.TransactionClient,
+  message: EditableMessage,
+  userId: string,
+  now: Date = new Date()
+) {
+  await tx.messageRevision.create({
+    data: {
+      message_id: message.id,
+      action: 'DELETE',
+      content: message.content,
+      actor_id: userId,
+    },
+  });
+
+  return tx.message.update({
+    where: { id: message.id },
+    data: { content: '', deleted_at: now },
+  });
+}
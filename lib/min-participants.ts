@@ -0,0 +1,52 @@
+/**
+ * Minimum Participant Threshold
+ *
+ * Hosts can set `min_participants` so a session only goes ahead with enough
+ * people. The session has until its `decide_by` deadline to reach the
+ * minimum: the min-participants cron then either confirms it (sets
+ * `confirmed_at`) or cancels it and lets everyone know. A confirmed session
+ * is not re-checked if people drop out later.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ThresholdState {
+  min_participants?: number | null;
+  current_participants: number;
+  confirmed_at?: Date | string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default lead time between the decide-by deadline and the session start */
+export const DEFAULT_DECIDE_BY_HOURS = 24;
+
+/** Longest lead time a host can choose (one week) */
+export const MAX_DECIDE_BY_HOURS = 168;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Deadline for reaching the minimum, `hoursBefore` hours before the start
+ */
+export function getDecideBy(dateTime: Date, hoursBefore: number = DEFAULT_DECIDE_BY_HOURS): Date {
+  return new Date(dateTime.getTime() - hoursBefore * 60 * 60 * 1000);
+}
+
+/**
+ * How many more participants the session needs before it is confirmed
+ * Returns 0 when there is no minimum, it has been reached or the session
+ * was already confirmed.
+ */
+export function participantsNeeded(session: ThresholdState): number {
+  if (!session.min_participants || session.confirmed_at) {
+    return 0;
+  }
+  return Math.max(0, session.min_participants - session.current_participants);
+}
@@ -65,7 +65,11 @@ export const openApiSpec = {
           { name: 'date', in: 'query', schema: { type: 'string', enum: ['today', 'weekend'] } },
           { name: 'start_date', in: 'query', schema: { type: 'string', format: 'date' } },
           { name: 'end_date', in: 'query', schema: { type: 'string', format: 'date' } },
-          { name: 'search', in: 'query', schema: { type: 'string' } },
+          { name: 'search', in: 'query', description: 'Full-text search over descriptions and sport center names, stations and addresses', schema: { type: 'string' } },
+          { name: 'near', in: 'query', description: 'Center of a radius search as lat,lng', schema: { type: 'string' } },
+          { name: 'radius_km', in: 'query', schema: { type: 'number', default: 5, maximum: 50 } },
+          { name: 'bbox', in: 'query', description: 'Map viewport as west,south,east,north', schema: { type: 'string' } },
+          { name: 'sort', in: 'query', description: 'Defaults to distance with near, relevance with search, otherwise date', schema: { type: 'string', enum: ['distance', 'relevance', 'date'] } },
         ],
         responses: {
           '200': {
@@ -253,7 +257,7 @@ export const openApiSpec = {
       post: {
         tags: ['Conversations'],
         summary: 'Send message',
-        description: 'Send a message in a conversation',
+        description: 'Send a message in a conversation. Send multipart form data to attach up to 4 images (JPEG, PNG, WebP or GIF, 5MB each); the text is then optional.',
         security: [{ bearerAuth: [] }],
         parameters: [
           { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
@@ -270,15 +274,109 @@ export const openApiSpec = {
                 },
               },
             },
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                properties: {
+                  content: { type: 'string', maxLength: 5000 },
+                  attachments: { type: 'array', maxItems: 4, items: { type: 'string', format: 'binary' } },
+                },
+              },
+            },
           },
         },
         responses: {
           '201': { description: 'Message sent' },
+          '400': { description: 'Invalid content or attachments' },
           '401': { description: 'Unauthorized' },
           '429': { description: 'Rate limit exceeded' },
         },
       },
     },
+    '/conversations/{id}/messages/{messageId}': {
+      get: {
+        tags: ['Conversations'],
+        summary: 'Get message',
+        description: 'Get a single message with its attachments',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          { name: 'messageId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+        ],
+        responses: {
+          '200': { description: 'Message' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'Not a participant' },
+          '404': { description: 'Message not found' },
+        },
+      },
+      patch: {
+        tags: ['Conversations'],
+        summary: 'Edit message',
+        description: 'Edit your own message within 15 minutes of sending it. The previous text is kept for moderation.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          { name: 'messageId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['content'],
+                properties: {
+                  content: { type: 'string', maxLength: 5000 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': { description: 'Message edited' },
+          '400': { description: 'Invalid content or edit window closed' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'Not the sender' },
+          '404': { description: 'Message not found' },
+        },
+      },
+      delete: {
+        tags: ['Conversations'],
+        summary: 'Delete message',
+        description: 'Delete a message (sender, or session hosts in session chats). It stays in the conversation as a tombstone.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          { name: 'messageId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+        ],
+        responses: {
+          '200': { description: 'Message deleted' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'Forbidden' },
+          '404': { description: 'Message not found' },
+        },
+      },
+    },
+    '/conversations/{id}/attachments/{attachmentId}': {
+      get: {
+        tags: ['Conversations'],
+        summary: 'Get attachment',
+        description: 'Redirect to a short-lived signed URL for a message attachment. Only conversation participants have access.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          { name: 'attachmentId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          { name: 'variant', in: 'query', schema: { type: 'string', enum: ['thumbnail'] } },
+        ],
+        responses: {
+          '302': { description: 'Redirect to the signed URL' },
+          '401': { description: 'Unauthorized' },
+          '403': { description: 'Not a participant' },
+          '404': { description: 'Attachment not found' },
+        },
+      },
+    },
     '/users/me': {
       get: {
         tags: ['Users'],
@@ -0,0 +1,144 @@
+/**
+ * Peer Reviews & Trust Metrics
+ *
+ * After a session, everyone who attended (hosts included) can rate each
+ * other on punctuality, sportsmanship and skill accuracy - how well a
+ * player's stated skill level matched how they played. Reviews open when
+ * the session ends, stay open for PEER_REVIEW_WINDOW_DAYS and are final
+ * once submitted.
+ *
+ * Nobody ever sees an individual peer rating. A user's trust metrics are
+ * averages over their received ratings, and two thresholds keep single
+ * ratings from being reverse-engineered:
+ * - ratings are released in batches of PEER_REVIEW_BATCH_SIZE (oldest
+ *   first), so the averages never move because of one new rating
+ * - nothing is shown until the released ratings come from at least
+ *   MIN_PEER_REVIEWERS different people
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const PEER_REVIEW_CRITERIA = ['punctuality', 'sportsmanship', 'skill_accuracy'] as const;
+export type PeerReviewCriterion = (typeof PEER_REVIEW_CRITERIA)[number];
+
+export interface PeerRating {
+  reviewer_id: string;
+  punctuality: number;
+  sportsmanship: number;
+  skill_accuracy: number;
+  created_at: Date | string;
+}
+
+export interface TrustMetrics {
+  visible: boolean;
+  review_count: number;
+  punctuality: number | null;
+  sportsmanship: number | null;
+  skill_accuracy: number | null;
+}
+
+interface PeerParticipant {
+  user_id: string;
+  status: 'REGISTERED' | 'ATTENDED' | 'NO_SHOW' | string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Peer reviews can be left for this many days after the session ends */
+export const PEER_REVIEW_WINDOW_DAYS = 14;
+
+/** Ratings are released into the averages this many at a time */
+export const PEER_REVIEW_BATCH_SIZE = 3;
+
+/** Trust metrics are hidden until this many people have rated the user */
+export const MIN_PEER_REVIEWERS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Eligibility
+// ============================================================================
+
+/**
+ * When peer reviews can be left for a session
+ */
+export function peerReviewWindow(
+  dateTime: Date | string,
+  durationMinutes: number
+): { opens_at: Date; closes_at: Date } {
+  const endsAt = new Date(dateTime).getTime() + durationMinutes * 60 * 1000;
+  return {
+    opens_at: new Date(endsAt),
+    closes_at: new Date(endsAt + PEER_REVIEW_WINDOW_DAYS * DAY_MS),
+  };
+}
+
+export function isPeerReviewOpen(
+  dateTime: Date | string,
+  durationMinutes: number,
+  now: Date = new Date()
+): boolean {
+  const { opens_at, closes_at } = peerReviewWindow(dateTime, durationMinutes);
+  return now >= opens_at && now <= closes_at;
+}
+
+/**
+ * Who took part in a session and can review each other: the hosts and
+ * participants marked (or checked in) as attended
+ */
+export function sessionAttendees(participants: PeerParticipant[], hostIds: string[]): Set<string> {
+  const attendees = new Set(hostIds);
+  for (const participant of participants) {
+    if (participant.status === 'ATTENDED') {
+      attendees.add(participant.user_id);
+    }
+  }
+  return attendees;
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * The ratings that count towards the averages: the oldest whole batches
+ */
+export function releasedRatings<T extends PeerRating>(ratings: T[]): T[] {
+  const released = Math.floor(ratings.length / PEER_REVIEW_BATCH_SIZE) * PEER_REVIEW_BATCH_SIZE;
+  return [...ratings]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .slice(0, released);
+}
+
+/**
+ * Average a user's received peer ratings, respecting the anonymity thresholds
+ */
+export function computeTrustMetrics(ratings: PeerRating[]): TrustMetrics {
+  const released = releasedRatings(ratings);
+  const reviewers = new Set(released.map((r) => r.reviewer_id));
+
+  if (reviewers.size < MIN_PEER_REVIEWERS) {
+    return {
+      visible: false,
+      review_count: 0,
+      punctuality: null,
+      sportsmanship: null,
+      skill_accuracy: null,
+    };
+  }
+
+  const average = (criterion: PeerReviewCriterion) =>
+    Math.round((released.reduce((sum, r) => sum + r[criterion], 0) / released.length) * 10) / 10;
+
+  return {
+    visible: true,
+    review_count: released.length,
+    punctuality: average('punctuality'),
+    sportsmanship: average('sportsmanship'),
+    skill_accuracy: average('skill_accuracy'),
+  };
+}
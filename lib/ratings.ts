@@ -0,0 +1,341 @@
+/**
+ * Per-sport Skill Ratings
+ *
+ * Hosts record match results for their sessions (singles, doubles or team
+ * scores), and everyone who played gets an Elo rating update for that
+ * session's sport. A side's strength is the average rating of its players;
+ * each player then moves by the side's result against expectation, scaled by
+ * their own K-factor so newcomers settle on a fair rating quickly.
+ *
+ * COMPETITIVE sessions can set a minimum rating to join. Users without a
+ * rating in the sport count as DEFAULT_RATING.
+ *
+ * Two players are only rated once against each other per session, so a
+ * host can't farm rating by entering the same pairing again. Hosts can void
+ * a wrong result instead: each player's rating moves back by the change that
+ * match made and their counters are reduced. The match is kept, marked
+ * `voided_at`, for the record.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MatchFormat = 'SINGLES' | 'DOUBLES' | 'TEAM';
+export type MatchSide = 'A' | 'B';
+export type MatchResult = 'win' | 'loss' | 'draw';
+
+export interface RatedPlayer {
+  user_id: string;
+  side: MatchSide;
+  rating: number;
+  matches_played: number;
+}
+
+export interface RatingChange {
+  user_id: string;
+  side: MatchSide;
+  rating_before: number;
+  rating_after: number;
+  result: MatchResult;
+}
+
+interface PairingHistoryMatch {
+  players: Array<{ user_id: string; side: MatchSide }>;
+}
+
+interface VoidableMatch {
+  id: string;
+  sport_type: string;
+  score_a: number;
+  score_b: number;
+  players: Array<{ user_id: string; side: MatchSide; rating_before: number; rating_after: number }>;
+}
+
+export interface RecordMatchInput {
+  sessionId: string;
+  sportType: string;
+  format: MatchFormat;
+  scoreA: number;
+  scoreB: number;
+  sideA: string[];
+  sideB: string[];
+  recordedBy: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Rating everyone starts from in a sport */
+export const DEFAULT_RATING = 1500;
+
+/** Players with fewer matches than this move faster */
+export const PROVISIONAL_MATCHES = 10;
+
+const K_FACTOR_PROVISIONAL = 40;
+const K_FACTOR = 24;
+
+/** Players per side for the fixed-size formats */
+export const MATCH_SIDE_SIZES: Record<Exclude<MatchFormat, 'TEAM'>, number> = {
+  SINGLES: 1,
+  DOUBLES: 2,
+};
+
+/** Most players per side in a team match */
+export const MAX_TEAM_SIZE = 15;
+
+/** Highest minimum rating a COMPETITIVE session can ask for */
+export const MAX_MIN_RATING = 3000;
+
+// ============================================================================
+// Elo
+// ============================================================================
+
+/**
+ * Probability that a side rated `rating` beats a side rated `opponent`
+ */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+}
+
+export function kFactor(matchesPlayed: number): number {
+  return matchesPlayed < PROVISIONAL_MATCHES ? K_FACTOR_PROVISIONAL : K_FACTOR;
+}
+
+function resultFor(side: MatchSide, scoreA: number, scoreB: number): MatchResult {
+  if (scoreA === scoreB) return 'draw';
+  return (scoreA > scoreB) === (side === 'A') ? 'win' : 'loss';
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const RESULT_POINTS: Record<MatchResult, number> = { win: 1, draw: 0.5, loss: 0 };
+
+function averageRating(players: RatedPlayer[]): number {
+  return players.reduce((sum, player) => sum + player.rating, 0) / players.length;
+}
+
+/**
+ * New ratings for everyone in a match
+ */
+export function computeRatingChanges(players: RatedPlayer[], scoreA: number, scoreB: number): RatingChange[] {
+  const sideA = players.filter((player) => player.side === 'A');
+  const sideB = players.filter((player) => player.side === 'B');
+  if (sideA.length === 0 || sideB.length === 0) {
+    return [];
+  }
+
+  const ratingA = averageRating(sideA);
+  const ratingB = averageRating(sideB);
+
+  return players.map((player) => {
+    const result = resultFor(player.side, scoreA, scoreB);
+    const expected = player.side === 'A' ? expectedScore(ratingA, ratingB) : expectedScore(ratingB, ratingA);
+    const delta = kFactor(player.matches_played) * (RESULT_POINTS[result] - expected);
+
+    return {
+      user_id: player.user_id,
+      side: player.side,
+      rating_before: player.rating,
+      rating_after: Math.round(player.rating + delta),
+      result,
+    };
+  });
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Why a lineup doesn't fit the match format, or null if it does
+ */
+export function lineupError(format: MatchFormat, sideA: string[], sideB: string[]): string | null {
+  const players = [...sideA, ...sideB];
+  if (new Set(players).size !== players.length) {
+    return 'A player can only appear once in a match';
+  }
+
+  if (format === 'TEAM') {
+    if (sideA.length === 0 || sideB.length === 0) {
+      return 'Each team needs at least one player';
+    }
+    if (sideA.length > MAX_TEAM_SIZE || sideB.length > MAX_TEAM_SIZE) {
+      return `Teams can have at most ${MAX_TEAM_SIZE} players`;
+    }
+    return null;
+  }
+
+  const size = MATCH_SIDE_SIZES[format];
+  if (sideA.length !== size || sideB.length !== size) {
+    return `${format === 'SINGLES' ? 'Singles' : 'Doubles'} matches need ${size} player${size === 1 ? '' : 's'} per side`;
+  }
+  return null;
+}
+
+/**
+ * Whether any player on one side already faced a player on the other side
+ * in one of `matches` (teammates don't count)
+ */
+export function opponentsAlreadyMet(matches: PairingHistoryMatch[], sideA: string[], sideB: string[]): boolean {
+  const pairs = new Set(sideA.flatMap((a) => sideB.map((b) => pairKey(a, b))));
+
+  return matches.some((match) => {
+    const a = match.players.filter((p) => p.side === 'A').map((p) => p.user_id);
+    const b = match.players.filter((p) => p.side === 'B').map((p) => p.user_id);
+    return a.some((x) => b.some((y) => pairs.has(pairKey(x, y))));
+  });
+}
+
+/**
+ * Whether a rating is enough to join a session with `minRating`
+ */
+export function meetsMinRating(rating: number | null | undefined, minRating: number | null | undefined): boolean {
+  if (minRating == null) {
+    return true;
+  }
+  return (rating ?? DEFAULT_RATING) >= minRating;
+}
+
+// ============================================================================
+// Database
+// ============================================================================
+
+/**
+ * A user's rating in a sport, DEFAULT_RATING if they haven't played a rated match
+ */
+export async function getSportRating(
+  db: Pick<Prisma.TransactionClient, 'sportRating'>,
+  userId: string,
+  sportType: string
+): Promise<number> {
+  const rating = await db.sportRating.findUnique({
+    where: { user_id_sport_type: { user_id: userId, sport_type: sportType } },
+    select: { rating: true },
+  });
+  return rating?.rating ?? DEFAULT_RATING;
+}
+
+/**
+ * Whether the lineup contains a pairing already rated in this session
+ */
+export async function hasRatedPairing(
+  db: Pick<Prisma.TransactionClient, 'match'>,
+  sessionId: string,
+  sideA: string[],
+  sideB: string[]
+): Promise<boolean> {
+  const previous = await db.match.findMany({
+    where: {
+      session_id: sessionId,
+      voided_at: null,
+      players: { some: { user_id: { in: [...sideA, ...sideB] } } },
+    },
+    select: { players: { select: { user_id: true, side: true } } },
+  });
+  return opponentsAlreadyMet(previous, sideA, sideB);
+}
+
+/**
+ * Record a match and update the ratings of everyone who played
+ *
+ * Must run inside a transaction so concurrent results for the same players
+ * don't overwrite each other's rating updates.
+ */
+export async function recordMatch(tx: Prisma.TransactionClient, input: RecordMatchInput) {
+  const userIds = [...input.sideA, ...input.sideB];
+  const existing = await tx.sportRating.findMany({
+    where: { sport_type: input.sportType, user_id: { in: userIds } },
+  });
+  const byUser = new Map(existing.map((rating) => [rating.user_id, rating]));
+
+  const players: RatedPlayer[] = userIds.map((userId) => ({
+    user_id: userId,
+    side: input.sideA.includes(userId) ? 'A' : 'B',
+    rating: byUser.get(userId)?.rating ?? DEFAULT_RATING,
+    matches_played: byUser.get(userId)?.matches_played ?? 0,
+  }));
+  const changes = computeRatingChanges(players, input.scoreA, input.scoreB);
+
+  for (const change of changes) {
+    const counters = {
+      wins: change.result === 'win' ? 1 : 0,
+      losses: change.result === 'loss' ? 1 : 0,
+      draws: change.result === 'draw' ? 1 : 0,
+    };
+    await tx.sportRating.upsert({
+      where: { user_id_sport_type: { user_id: change.user_id, sport_type: input.sportType } },
+      create: {
+        user_id: change.user_id,
+        sport_type: input.sportType,
+        rating: change.rating_after,
+        matches_played: 1,
+        ...counters,
+      },
+      update: {
+        rating: change.rating_after,
+        matches_played: { increment: 1 },
+        wins: { increment: counters.wins },
+        losses: { increment: counters.losses },
+        draws: { increment: counters.draws },
+      },
+    });
+  }
+
+  return tx.match.create({
+    data: {
+      session_id: input.sessionId,
+      sport_type: input.sportType,
+      format: input.format,
+      score_a: input.scoreA,
+      score_b: input.scoreB,
+      recorded_by: input.recordedBy,
+      players: {
+        create: changes.map((change) => ({
+          user_id: change.user_id,
+          side: change.side,
+          rating_before: change.rating_before,
+          rating_after: change.rating_after,
+        })),
+      },
+    },
+    include: {
+      players: {
+        include: {
+          user: {
+            select: { id: true, username: true, display_name: true, avatar_url: true },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Void a match result and reverse the rating change it made for each player
+ *
+ * Must run inside a transaction.
+ */
+export async function voidMatch(tx: Prisma.TransactionClient, match: VoidableMatch, userId: string) {
+  for (const player of match.players) {
+    const result = resultFor(player.side, match.score_a, match.score_b);
+    await tx.sportRating.update({
+      where: { user_id_sport_type: { user_id: player.user_id, sport_type: match.sport_type } },
+      data: {
+        rating: { increment: player.rating_before - player.rating_after },
+        matches_played: { decrement: 1 },
+        wins: { decrement: result === 'win' ? 1 : 0 },
+        losses: { decrement: result === 'loss' ? 1 : 0 },
+        draws: { decrement: result === 'draw' ? 1 : 0 },
+      },
+    });
+  }
+
+  return tx.match.update({
+    where: { id: match.id },
+    data: { voided_at: new Date(), voided_by: userId },
+  });
+}
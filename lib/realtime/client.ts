@@ -13,10 +13,13 @@ import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/
 
 /**
  * React hook for subscribing to new messages in a conversation
+ * Edits and deletions arrive through `onMessageUpdate` with the updated row
+ * (a deleted message has empty content and `deleted_at` set).
  */
 export function useConversationMessages(
     conversationId: string,
-    onNewMessage: (message: any) => void
+    onNewMessage: (message: any) => void,
+    onMessageUpdate?: (message: any) => void
 ) {
     const channelRef = useRef<RealtimeChannel | null>(null);
     const supabase = createClient();
@@ -42,6 +45,19 @@ export function useConversationMessages(
                     onNewMessage(payload.new);
                 }
             )
+            .on(
+                'postgres_changes',
+                {
+                    event: 'UPDATE',
+                    schema: 'public',
+                    table: 'Message',
+                    filter: `conversation_id=eq.${conversationId}`,
+                },
+                (payload) => {
+                    console.log('✏️  Message updated:', payload.new);
+                    onMessageUpdate?.(payload.new);
+                }
+            )
             .subscribe((status) => {
                 if (status === 'SUBSCRIBED') {
                     console.log('✅ Subscribed to conversation messages');
@@ -55,7 +71,7 @@ export function useConversationMessages(
             console.log(`📡 Unsubscribing from conversation: ${conversationId}`);
             supabase.removeChannel(channel);
         };
-    }, [conversationId, onNewMessage, supabase]);
+    }, [conversationId, onNewMessage, onMessageUpdate, supabase]);
 
     return channelRef.current;
 }
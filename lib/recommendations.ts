@@ -0,0 +1,256 @@
+/**
+ * Session Recommendations
+ *
+ * Scores upcoming sessions against what we know about a user: the sports
+ * and skill levels on their profile, the language they're learning, their
+ * home area, and the sports, venues and hosts of sessions they've attended
+ * or favorited. Every signal that contributes to a score is kept as a
+ * reason so the "For you" section can explain each suggestion.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecommendationReasonCode =
+  | 'preferred_sport'
+  | 'skill_match'
+  | 'language_practice'
+  | 'english_friendly'
+  | 'near_you'
+  | 'played_before'
+  | 'familiar_venue'
+  | 'familiar_host'
+  | 'similar_to_favorites';
+
+export interface RecommendationReason {
+  code: RecommendationReasonCode;
+  /** Values for the explanation text (sport, language, venue...) */
+  params?: Record<string, string | number>;
+}
+
+export interface Recommendation {
+  score: number;
+  reasons: RecommendationReason[];
+}
+
+export interface RecommendationProfile {
+  sport_preferences?: string[] | null;
+  skill_levels?: unknown;
+  native_language?: string | null;
+  target_language?: string | null;
+  location?: string | null;
+}
+
+/** What the user's attendance and favorites say about their taste */
+export interface RecommendationHistory {
+  /** Sessions attended or joined per sport */
+  sportCounts: Record<string, number>;
+  /** Sport center ids the user has played at */
+  venueIds: Set<string>;
+  /** Hosts of sessions the user attended or favorited */
+  hostIds: Set<string>;
+  /** Sports of favorited sessions */
+  favoriteSports: Set<string>;
+}
+
+interface RecommendableSession {
+  sport_type: string;
+  skill_level: string;
+  date_time: Date | string;
+  primary_language?: string | null;
+  allow_english?: boolean;
+  vibe?: string | null;
+  created_by: string;
+  sport_center_id: string;
+  sport_center?: {
+    name_en?: string | null;
+    station_en?: string | null;
+    station_ja?: string | null;
+    address_en?: string | null;
+    address_ja?: string | null;
+  } | null;
+}
+
+interface HistorySession {
+  sport_type: string;
+  sport_center_id: string;
+  created_by: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How much each signal adds to a session's score */
+export const RECOMMENDATION_WEIGHTS: Record<RecommendationReasonCode, number> = {
+  preferred_sport: 3,
+  skill_match: 2,
+  language_practice: 2.5,
+  english_friendly: 1,
+  near_you: 1.5,
+  played_before: 0.5, // per session played, up to MAX_PLAYED_BEFORE
+  familiar_venue: 1,
+  familiar_host: 1.5,
+  similar_to_favorites: 1,
+};
+
+const MAX_PLAYED_BEFORE = 4;
+
+/** Sessions further out than this lose up to 1 point for distance in time */
+const SOON_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalize(value: string): string {
+  return value.normalize('NFKC').toLowerCase().trim();
+}
+
+function skillLevelFor(skillLevels: unknown, sport: string): string | null {
+  if (!skillLevels || typeof skillLevels !== 'object' || Array.isArray(skillLevels)) {
+    return null;
+  }
+  const level = (skillLevels as Record<string, unknown>)[sport];
+  return typeof level === 'string' ? level : null;
+}
+
+/**
+ * Whether the user's free-text home area names the session's station or
+ * address (or the other way round, e.g. "Shibuya" vs "Shibuya Station")
+ */
+function isNearLocation(location: string, session: RecommendableSession): boolean {
+  const home = normalize(location);
+  if (home.length < 2) return false;
+
+  const center = session.sport_center;
+  return [center?.station_en, center?.station_ja, center?.address_en, center?.address_ja]
+    .filter((value): value is string => Boolean(value))
+    .map(normalize)
+    .some((place) => place.includes(home) || home.includes(place));
+}
+
+/**
+ * Summarize attended and favorited sessions into recommendation history
+ */
+export function buildHistory(attended: HistorySession[], favorites: HistorySession[]): RecommendationHistory {
+  const history: RecommendationHistory = {
+    sportCounts: {},
+    venueIds: new Set(),
+    hostIds: new Set(),
+    favoriteSports: new Set(),
+  };
+
+  for (const session of attended) {
+    history.sportCounts[session.sport_type] = (history.sportCounts[session.sport_type] ?? 0) + 1;
+    history.venueIds.add(session.sport_center_id);
+    history.hostIds.add(session.created_by);
+  }
+  for (const session of favorites) {
+    history.favoriteSports.add(session.sport_type);
+    history.hostIds.add(session.created_by);
+  }
+
+  return history;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score one session for a user
+ * Sessions with no matching signal score 0 and aren't recommended.
+ */
+export function scoreSession(
+  session: RecommendableSession,
+  profile: RecommendationProfile,
+  history: RecommendationHistory,
+  now: Date = new Date()
+): Recommendation {
+  const reasons: RecommendationReason[] = [];
+  let score = 0;
+  const add = (reason: RecommendationReason, weight = RECOMMENDATION_WEIGHTS[reason.code]) => {
+    reasons.push(reason);
+    score += weight;
+  };
+
+  const sport = session.sport_type;
+
+  if (profile.sport_preferences?.includes(sport)) {
+    add({ code: 'preferred_sport', params: { sport } });
+  }
+
+  if (skillLevelFor(profile.skill_levels, sport) === session.skill_level) {
+    add({ code: 'skill_match', params: { sport, level: session.skill_level } });
+  }
+
+  if (profile.target_language && profile.target_language !== profile.native_language) {
+    if (session.primary_language === profile.target_language) {
+      add({ code: 'language_practice', params: { language: profile.target_language } });
+    }
+  }
+
+  // Non-Japanese speakers are better off where English is welcome
+  if (
+    profile.native_language &&
+    profile.native_language !== 'ja' &&
+    session.primary_language !== profile.native_language &&
+    session.allow_english
+  ) {
+    add({ code: 'english_friendly' });
+  }
+
+  if (profile.location && isNearLocation(profile.location, session)) {
+    add({ code: 'near_you', params: { area: profile.location } });
+  }
+
+  const played = history.sportCounts[sport] ?? 0;
+  if (played > 0) {
+    add(
+      { code: 'played_before', params: { sport, count: played } },
+      RECOMMENDATION_WEIGHTS.played_before * Math.min(played, MAX_PLAYED_BEFORE)
+    );
+  }
+
+  if (history.venueIds.has(session.sport_center_id)) {
+    add({ code: 'familiar_venue', params: { venue: session.sport_center?.name_en ?? '' } });
+  }
+
+  if (history.hostIds.has(session.created_by)) {
+    add({ code: 'familiar_host' });
+  }
+
+  if (history.favoriteSports.has(sport)) {
+    add({ code: 'similar_to_favorites', params: { sport } });
+  }
+
+  if (score > 0) {
+    // Prefer sooner sessions among equally good matches
+    const daysAway = (new Date(session.date_time).getTime() - now.getTime()) / DAY_MS;
+    score -= Math.min(Math.max(daysAway, 0), SOON_WINDOW_DAYS) / SOON_WINDOW_DAYS;
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * Highest scoring sessions first, keeping at most `limit`
+ * Sessions with nothing in common with the user are left out.
+ */
+export function rankRecommendations<T extends RecommendableSession>(
+  sessions: T[],
+  profile: RecommendationProfile,
+  history: RecommendationHistory,
+  limit: number,
+  now: Date = new Date()
+): Array<T & { recommendation: Recommendation }> {
+  return sessions
+    .map((session) => ({ ...session, recommendation: scoreSession(session, profile, history, now) }))
+    .filter((session) => session.recommendation.reasons.length > 0)
+    .sort((a, b) => b.recommendation.score - a.recommendation.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,82 @@
+/**
+ * Session Series Recurrence
+ *
+ * Expands a recurrence rule (weekly, biweekly or monthly) into the list of
+ * occurrence dates used to generate Session rows for a SessionSeries.
+ *
+ * All calendar arithmetic is done in Tokyo local time so that a session at
+ * 08:00 JST stays on the same local weekday/day-of-month even though it falls
+ * on the previous day in UTC.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecurrenceFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Last possible occurrence date (inclusive) */
+  endsAt?: Date | null;
+  /** Total number of occurrences, including the first one */
+  count?: number | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const RECURRENCE_FREQUENCIES = ['WEEKLY', 'BIWEEKLY', 'MONTHLY'] as const;
+
+/** Hard cap on generated occurrences to keep series creation bounded */
+export const MAX_SERIES_OCCURRENCES = 52;
+
+// Tokyo has no DST, so a fixed offset is sufficient
+const TOKYO_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Get the n-th occurrence date (0-based) of a rule starting at `start`
+ */
+export function getOccurrenceDate(start: Date, frequency: RecurrenceFrequency, index: number): Date {
+  if (frequency === 'WEEKLY') {
+    return new Date(start.getTime() + index * 7 * DAY_MS);
+  }
+  if (frequency === 'BIWEEKLY') {
+    return new Date(start.getTime() + index * 14 * DAY_MS);
+  }
+
+  // MONTHLY: same local day-of-month, clamped to the last day of shorter months
+  const local = new Date(start.getTime() + TOKYO_OFFSET_MS);
+  const day = local.getUTCDate();
+  const target = new Date(local.getTime());
+  target.setUTCDate(1);
+  target.setUTCMonth(local.getUTCMonth() + index);
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, daysInMonth));
+  return new Date(target.getTime() - TOKYO_OFFSET_MS);
+}
+
+/**
+ * Expand a recurrence rule into occurrence dates
+ * Stops at whichever comes first: count, endsAt or MAX_SERIES_OCCURRENCES
+ */
+export function generateOccurrences(start: Date, rule: RecurrenceRule): Date[] {
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const occurrences: Date[] = [];
+
+  for (let i = 0; i < limit; i++) {
+    const date = getOccurrenceDate(start, rule.frequency, i);
+    if (rule.endsAt && date > rule.endsAt) {
+      break;
+    }
+    occurrences.push(date);
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,238 @@
+/**
+ * Reliability Score
+ *
+ * Every user starts at 100. Attending a session adds ATTENDANCE_REWARD and a
+ * no-show deducts NO_SHOW_PENALTY, clamped to 0-100. Each change is recorded
+ * as a ReliabilityEvent with its session, so users can see why their score
+ * moved. Events store the change actually applied after clamping, which
+ * keeps recoveries and reversals exact.
+ *
+ * No-shows fade: over NO_SHOW_DECAY_DAYS the reliability-recovery cron gives
+ * the penalty back bit by bit (RECOVERY events), so one bad day doesn't
+ * follow someone forever. The no-show still counts in `no_show_count`.
+ *
+ * Users can appeal a no-show within APPEAL_WINDOW_DAYS. When an admin
+ * approves, the no-show is reversed: the penalty not yet recovered is given
+ * back (a REVERSAL event), `no_show_count` drops by one and the participant
+ * is marked as attended.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReliabilityEventType = 'ATTENDED' | 'NO_SHOW' | 'RECOVERY' | 'REVERSAL';
+
+interface NoShowEvent {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  type: ReliabilityEventType | string;
+  delta: number;
+  recovered_points: number;
+  reversed_at: Date | null;
+  created_at: Date;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Points deducted per no-show */
+export const NO_SHOW_PENALTY = 10;
+
+/** Points added per attended session */
+export const ATTENDANCE_REWARD = 2;
+
+export const MIN_RELIABILITY_SCORE = 0;
+export const MAX_RELIABILITY_SCORE = 100;
+
+/** A no-show's penalty is fully restored after this many days */
+export const NO_SHOW_DECAY_DAYS = 180;
+
+/** No-shows can be appealed for this many days */
+export const APPEAL_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * How much of a no-show penalty should have been restored by `now`
+ * Grows linearly to the whole penalty over NO_SHOW_DECAY_DAYS.
+ */
+export function recoveredByNow(penalty: number, createdAt: Date, now: Date = new Date()): number {
+  const ageDays = (now.getTime() - createdAt.getTime()) / DAY_MS;
+  if (ageDays <= 0) return 0;
+  return Math.floor(penalty * Math.min(1, ageDays / NO_SHOW_DECAY_DAYS));
+}
+
+/**
+ * Penalty of a no-show not yet given back by decay
+ */
+export function outstandingPenalty(event: Pick<NoShowEvent, 'delta' | 'recovered_points'>): number {
+  return Math.max(0, -event.delta - event.recovered_points);
+}
+
+/**
+ * Whether a no-show can still be appealed
+ */
+export function canAppeal(
+  event: Pick<NoShowEvent, 'type' | 'reversed_at' | 'created_at'>,
+  now: Date = new Date()
+): boolean {
+  return event.type === 'NO_SHOW' &&
+    !event.reversed_at &&
+    now.getTime() - event.created_at.getTime() <= APPEAL_WINDOW_DAYS * DAY_MS;
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+/**
+ * Move a user's score by `change` (clamped) and adjust their no-show count
+ * Returns the change actually applied, or null if the user doesn't exist.
+ */
+async function adjustScore(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  change: number,
+  noShowChange: number = 0
+): Promise<{ delta: number; score_after: number } | null> {
+  const userRecord = await tx.user.findUnique({
+    where: { id: userId },
+    select: { reliability_score: true, no_show_count: true },
+  });
+
+  if (!userRecord) {
+    return null;
+  }
+
+  const score = Math.min(
+    MAX_RELIABILITY_SCORE,
+    Math.max(MIN_RELIABILITY_SCORE, userRecord.reliability_score + change)
+  );
+
+  await tx.user.update({
+    where: { id: userId },
+    data: {
+      reliability_score: score,
+      ...(noShowChange !== 0 && { no_show_count: Math.max(0, userRecord.no_show_count + noShowChange) }),
+    },
+  });
+
+  return { delta: score - userRecord.reliability_score, score_after: score };
+}
+
+/**
+ * Apply the reward or penalty for a session and record it
+ * Must run inside a transaction.
+ */
+export async function recordAttendanceOutcome(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  sessionId: string,
+  attended: boolean
+) {
+  const change = attended ? ATTENDANCE_REWARD : -NO_SHOW_PENALTY;
+  const applied = await adjustScore(tx, userId, change, attended ? 0 : 1);
+  if (!applied) {
+    return null;
+  }
+
+  return tx.reliabilityEvent.create({
+    data: {
+      user_id: userId,
+      session_id: sessionId,
+      type: attended ? 'ATTENDED' : 'NO_SHOW',
+      ...applied,
+    },
+  });
+}
+
+/**
+ * Give back the part of a no-show penalty that has decayed since the last run
+ * Returns the points restored. Must run inside a transaction.
+ */
+export async function recoverNoShow(
+  tx: Prisma.TransactionClient,
+  event: NoShowEvent,
+  now: Date = new Date()
+): Promise<number> {
+  if (event.type !== 'NO_SHOW' || event.reversed_at) {
+    return 0;
+  }
+
+  const target = Math.min(recoveredByNow(-event.delta, event.created_at, now), -event.delta);
+  const step = target - event.recovered_points;
+  if (step <= 0) {
+    return 0;
+  }
+
+  await tx.reliabilityEvent.update({
+    where: { id: event.id },
+    data: { recovered_points: target },
+  });
+
+  const applied = await adjustScore(tx, event.user_id, step);
+  if (!applied) {
+    return 0;
+  }
+
+  await tx.reliabilityEvent.create({
+    data: {
+      user_id: event.user_id,
+      session_id: event.session_id,
+      type: 'RECOVERY',
+      related_event_id: event.id,
+      ...applied,
+    },
+  });
+
+  return applied.delta;
+}
+
+/**
+ * Reverse a no-show after an approved appeal
+ * Must run inside a transaction.
+ */
+export async function reverseNoShow(
+  tx: Prisma.TransactionClient,
+  event: NoShowEvent,
+  note: string | null,
+  now: Date = new Date()
+) {
+  await tx.reliabilityEvent.update({
+    where: { id: event.id },
+    data: { reversed_at: now },
+  });
+
+  const applied = await adjustScore(tx, event.user_id, outstandingPenalty(event), -1);
+  if (!applied) {
+    return null;
+  }
+
+  // They were there after all
+  if (event.session_id) {
+    await tx.userSession.updateMany({
+      where: { user_id: event.user_id, session_id: event.session_id, status: 'NO_SHOW' },
+      data: { status: 'ATTENDED' },
+    });
+  }
+
+  return tx.reliabilityEvent.create({
+    data: {
+      user_id: event.user_id,
+      session_id: event.session_id,
+      type: 'REVERSAL',
+      related_event_id: event.id,
+      note,
+      ...applied,
+    },
+  });
+}
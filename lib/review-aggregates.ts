@@ -0,0 +1,112 @@
+/**
+ * Review Aggregates
+ *
+ * Session reviews roll up into a reputation for the session's host
+ * (`Session.created_by`) and for the sport center it was held at. The
+ * averages and counts are denormalized onto User and SportCenter so session
+ * lists can show and sort by them without touching the reviews.
+ *
+ * Anything that changes which reviews count - creating, editing or deleting
+ * a review, a moderator hiding or restoring one, or a session changing host
+ * or sport center - must call refreshReviewAggregates in the same transaction
+ * (for both the old and the new host or center). Hidden reviews don't
+ * count. Aggregates are recomputed from scratch rather than adjusted, so a
+ * missed refresh is repaired by the next one.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RatingAggregate {
+  rating_avg: number | null;
+  review_count: number;
+}
+
+export interface ReviewTargets {
+  hostId: string;
+  sportCenterId: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Round an average to one decimal, or null when there are no reviews
+ */
+export function toRatingAggregate(average: number | null, count: number): RatingAggregate {
+  if (count === 0 || average === null) {
+    return { rating_avg: null, review_count: 0 };
+  }
+
+  return {
+    rating_avg: Math.round(average * 10) / 10,
+    review_count: count,
+  };
+}
+
+async function aggregateReviews(
+  tx: Prisma.TransactionClient,
+  sessionWhere: Prisma.SessionWhereInput
+): Promise<RatingAggregate> {
+  const result = await tx.review.aggregate({
+    where: { hidden_at: null, session: sessionWhere },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  return toRatingAggregate(result._avg.rating, result._count._all);
+}
+
+// ============================================================================
+// Refresh
+// ============================================================================
+
+/**
+ * Recompute the host's and sport center's ratings after a review changed
+ * Must run inside a transaction.
+ */
+export async function refreshReviewAggregates(tx: Prisma.TransactionClient, targets: ReviewTargets) {
+  const host = await aggregateReviews(tx, { created_by: targets.hostId });
+  await tx.user.update({
+    where: { id: targets.hostId },
+    data: {
+      host_rating_avg: host.rating_avg,
+      host_review_count: host.review_count,
+    },
+  });
+
+  const sportCenter = await aggregateReviews(tx, { sport_center_id: targets.sportCenterId });
+  await tx.sportCenter.update({
+    where: { id: targets.sportCenterId },
+    data: {
+      rating_avg: sportCenter.rating_avg,
+      review_count: sportCenter.review_count,
+    },
+  });
+
+  return { host, sport_center: sportCenter };
+}
+
+/**
+ * Refresh the aggregates a review's session feeds into
+ * Must run inside a transaction.
+ */
+export async function refreshReviewAggregatesForSession(tx: Prisma.TransactionClient, sessionId: string) {
+  const session = await tx.session.findUnique({
+    where: { id: sessionId },
+    select: { created_by: true, sport_center_id: true },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  return refreshReviewAggregates(tx, {
+    hostId: session.created_by,
+    sportCenterId: session.sport_center_id,
+  });
+}
@@ -0,0 +1,105 @@
+/**
+ * Review Moderation
+ *
+ * Admins act on reported reviews from the reports page. A review can be
+ * hidden (left out of the session's reviews but kept), restored, or deleted
+ * for good. Every action needs a reason and is written to
+ * ReviewModerationLog together with a snapshot of the review, so a deleted
+ * review can still be explained later. Hiding or deleting a review resolves
+ * its pending reports, and every action refreshes the host and sport center
+ * ratings (see lib/review-aggregates.ts).
+ */
+
+import type { Prisma } from '@prisma/client';
+import { refreshReviewAggregatesForSession } from './review-aggregates';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const REVIEW_MODERATION_ACTIONS = ['HIDE', 'RESTORE', 'DELETE'] as const;
+export type ReviewModerationAction = (typeof REVIEW_MODERATION_ACTIONS)[number];
+
+interface ModeratedReview {
+  id: string;
+  user_id: string;
+  session_id: string;
+  rating: number;
+  comment: string | null;
+  hidden_at: Date | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether an action makes sense for the review's current state
+ */
+export function canModerate(review: Pick<ModeratedReview, 'hidden_at'>, action: ReviewModerationAction): boolean {
+  switch (action) {
+    case 'HIDE':
+      return !review.hidden_at;
+    case 'RESTORE':
+      return !!review.hidden_at;
+    case 'DELETE':
+      return true;
+  }
+}
+
+/**
+ * Apply a moderation action and record it
+ * Must run inside a transaction.
+ */
+export async function moderateReview(
+  tx: Prisma.TransactionClient,
+  review: ModeratedReview,
+  action: ReviewModerationAction,
+  reason: string,
+  adminId: string,
+  reportId: string | null = null,
+  now: Date = new Date()
+) {
+  // Logged first so the row can still reference the review
+  await tx.reviewModerationLog.create({
+    data: {
+      review_id: review.id,
+      report_id: reportId,
+      admin_id: adminId,
+      action,
+      reason,
+      review_user_id: review.user_id,
+      review_rating: review.rating,
+      review_comment: review.comment,
+    },
+  });
+
+  if (action !== 'RESTORE') {
+    const label = action === 'HIDE' ? 'hidden' : 'deleted';
+    await tx.report.updateMany({
+      where: { review_id: review.id, status: { in: ['PENDING', 'REVIEWED'] } },
+      data: {
+        status: 'RESOLVED',
+        admin_notes: `Review ${label}. Reason: ${reason}`,
+        resolved_by: adminId,
+        resolved_at: now,
+      },
+    });
+  }
+
+  if (action === 'DELETE') {
+    await tx.review.delete({ where: { id: review.id } });
+    await refreshReviewAggregatesForSession(tx, review.session_id);
+    return null;
+  }
+
+  const updated = await tx.review.update({
+    where: { id: review.id },
+    data: action === 'HIDE'
+      ? { hidden_at: now, hidden_reason: reason }
+      : { hidden_at: null, hidden_reason: null },
+  });
+
+  await refreshReviewAggregatesForSession(tx, review.session_id);
+  return updated;
+}
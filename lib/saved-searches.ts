@@ -0,0 +1,124 @@
+/**
+ * Saved Searches
+ *
+ * A saved search stores the browse-page filters so they can be re-applied
+ * in one click. The saved-searches cron matches sessions published or
+ * edited since each search's `last_checked_at` against its filters and
+ * notifies the owner; matches are recorded in SavedSearchMatch so a session
+ * is only reported once. Searches with `email_digest` also get their new
+ * matches in a daily email.
+ */
+
+import { isCjk, searchTerms } from './search';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SavedSearchFilters {
+  search?: string | null;
+  sport_type?: string | null;
+  skill_level?: string | null;
+  vibe?: string | null;
+  allow_english?: boolean;
+  start_date?: Date | string | null;
+  end_date?: Date | string | null;
+}
+
+interface MatchableSession {
+  sport_type: string;
+  skill_level: string;
+  vibe: string;
+  allow_english: boolean;
+  date_time: Date | string;
+  description_en?: string | null;
+  description_ja?: string | null;
+  sport_center?: {
+    name_en?: string | null;
+    name_ja?: string | null;
+    station_en?: string | null;
+    station_ja?: string | null;
+    address_en?: string | null;
+    address_ja?: string | null;
+  } | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Most saved searches a user can keep */
+export const MAX_SAVED_SEARCHES = 10;
+
+/** How far back the cron looks for changed sessions (one week) */
+export const MAX_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Format a stored date filter as YYYY-MM-DD for the browse page and API
+ */
+export function toDateParam(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+function sessionText(session: MatchableSession): string {
+  const center = session.sport_center;
+  return [
+    session.sport_type,
+    session.description_en,
+    session.description_ja,
+    center?.name_en,
+    center?.name_ja,
+    center?.station_en,
+    center?.station_ja,
+    center?.address_en,
+    center?.address_ja,
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .normalize('NFKC')
+    .toLowerCase();
+}
+
+/**
+ * Whether every search term appears in the session's text
+ * Mirrors the full-text search: Latin terms match word prefixes and
+ * Japanese terms match anywhere.
+ */
+function matchesText(session: MatchableSession, query: string): boolean {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return true;
+
+  const text = sessionText(session);
+  return terms.every((term) => {
+    if (isCjk(term)) {
+      return text.includes(term);
+    }
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${term}`, 'u').test(text);
+  });
+}
+
+/**
+ * Whether a session satisfies every filter of a saved search
+ * Date filters are whole days: `end_date` includes sessions that day.
+ */
+export function matchesSavedSearch(filters: SavedSearchFilters, session: MatchableSession): boolean {
+  if (filters.sport_type && session.sport_type !== filters.sport_type) return false;
+  if (filters.skill_level && session.skill_level !== filters.skill_level) return false;
+  if (filters.vibe && session.vibe !== filters.vibe) return false;
+  if (filters.allow_english && !session.allow_english) return false;
+
+  const startsAt = new Date(session.date_time).getTime();
+  if (filters.start_date && startsAt < new Date(filters.start_date).getTime()) return false;
+  if (filters.end_date && startsAt >= new Date(filters.end_date).getTime() + DAY_MS) return false;
+
+  if (filters.search && !matchesText(session, filters.search)) return false;
+
+  return true;
+}
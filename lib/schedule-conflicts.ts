@@ -0,0 +1,154 @@
+/**
+ * Schedule Conflict Detection
+ *
+ * A user's commitments are the published sessions they have joined, created
+ * or co-host. Two sessions clash when their time slots (`date_time` plus
+ * `duration_minutes`) come closer than the user's travel buffer, so a 30
+ * minute buffer also flags a game starting 15 minutes after another ends
+ * across town.
+ *
+ * Joining, creating, publishing or moving a clashing session is refused with
+ * the conflicts listed until the user confirms with `allow_conflicts: true`.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { formatDate } from './utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TimeSlot {
+  date_time: Date | string;
+  duration_minutes: number;
+}
+
+export interface ScheduleConflict {
+  session_id: string;
+  sport_type: string;
+  date_time: Date;
+  duration_minutes: number;
+  sport_center_name: string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Travel buffer for users who haven't chosen one */
+export const DEFAULT_TRAVEL_BUFFER_MINUTES = 30;
+
+/** Largest travel buffer a user can choose */
+export const MAX_TRAVEL_BUFFER_MINUTES = 180;
+
+/** Longest session allowed, bounding how far back a clash can start */
+const MAX_SESSION_MINUTES = 480;
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function slotBounds(slot: TimeSlot): { start: number; end: number } {
+  const start = new Date(slot.date_time).getTime();
+  return { start, end: start + slot.duration_minutes * MINUTE_MS };
+}
+
+/**
+ * Whether two slots are closer than `bufferMinutes` (or overlap)
+ * Back-to-back sessions only clash when a buffer is set.
+ */
+export function slotsClash(a: TimeSlot, b: TimeSlot, bufferMinutes: number = DEFAULT_TRAVEL_BUFFER_MINUTES): boolean {
+  const buffer = bufferMinutes * MINUTE_MS;
+  const first = slotBounds(a);
+  const second = slotBounds(b);
+  return first.start < second.end + buffer && second.start < first.end + buffer;
+}
+
+/**
+ * Prisma `where` for sessions the user is committed to
+ */
+export function commitmentsWhere(userId: string) {
+  return {
+    status: 'PUBLISHED' as const,
+    OR: [
+      { user_sessions: { some: { user_id: userId } } },
+      { created_by: userId },
+      { co_hosts: { some: { user_id: userId } } },
+    ],
+  };
+}
+
+/**
+ * Find the user's commitments that clash with any of the given slots
+ * Pass `excludeSessionId` to ignore the session being joined or edited.
+ */
+export async function findScheduleConflicts(
+  db: Pick<Prisma.TransactionClient, 'session'>,
+  userId: string,
+  slots: TimeSlot[],
+  options: { bufferMinutes?: number; excludeSessionId?: string } = {}
+): Promise<ScheduleConflict[]> {
+  if (slots.length === 0) {
+    return [];
+  }
+
+  const bufferMinutes = options.bufferMinutes ?? DEFAULT_TRAVEL_BUFFER_MINUTES;
+  const bounds = slots.map(slotBounds);
+  const windowStart = Math.min(...bounds.map((b) => b.start)) - (bufferMinutes + MAX_SESSION_MINUTES) * MINUTE_MS;
+  const windowEnd = Math.max(...bounds.map((b) => b.end)) + bufferMinutes * MINUTE_MS;
+
+  const commitments = await db.session.findMany({
+    where: {
+      ...commitmentsWhere(userId),
+      date_time: { gt: new Date(windowStart), lt: new Date(windowEnd) },
+      ...(options.excludeSessionId && { id: { not: options.excludeSessionId } }),
+    },
+    select: {
+      id: true,
+      sport_type: true,
+      date_time: true,
+      duration_minutes: true,
+      sport_center: { select: { name_en: true } },
+    },
+    orderBy: { date_time: 'asc' },
+  });
+
+  return commitments
+    .filter((commitment) => slots.some((slot) => slotsClash(slot, commitment, bufferMinutes)))
+    .map((commitment) => ({
+      session_id: commitment.id,
+      sport_type: commitment.sport_type,
+      date_time: commitment.date_time,
+      duration_minutes: commitment.duration_minutes,
+      sport_center_name: commitment.sport_center?.name_en ?? null,
+    }));
+}
+
+// ============================================================================
+// Client Helpers
+// ============================================================================
+
+/**
+ * Conflicts listed by a request rejected with 409, or null for any other error
+ */
+export function conflictsFromError(error: unknown): ScheduleConflict[] | null {
+  const { status, data } = (error ?? {}) as { status?: number; data?: { conflicts?: unknown } };
+  if (status !== 409 || !Array.isArray(data?.conflicts)) {
+    return null;
+  }
+  return data.conflicts as ScheduleConflict[];
+}
+
+/**
+ * One line per conflict for confirmation prompts
+ */
+export function describeConflicts(conflicts: ScheduleConflict[]): string {
+  return conflicts
+    .map((conflict) => {
+      const place = conflict.sport_center_name ? ` @ ${conflict.sport_center_name}` : '';
+      return `• ${conflict.sport_type.replace(/-/g, ' ')} ${formatDate(conflict.date_time)}${place}`;
+    })
+    .join('\n');
+}
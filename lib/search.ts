@@ -0,0 +1,182 @@
+/**
+ * Full-Text Session Search
+ *
+ * Sessions carry a `search_vector` maintained by database triggers from the
+ * sport type, descriptions and the sport center's names, stations and
+ * addresses (see the add_session_search migration). Postgres has no Japanese
+ * word breaker, so runs of Japanese text are indexed as overlapping
+ * two-character bigrams; `toSearchQuery` splits the user's query the same
+ * way so both sides agree. Snippets are built here from the original text
+ * because `ts_headline` can't locate bigram matches.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Session fields a snippet can be taken from, in display priority order */
+export const SNIPPET_FIELDS = [
+  'description_en',
+  'description_ja',
+  'sport_center.name_en',
+  'sport_center.name_ja',
+  'sport_center.station_en',
+  'sport_center.station_ja',
+  'sport_center.address_en',
+  'sport_center.address_ja',
+] as const;
+
+export type SnippetField = (typeof SNIPPET_FIELDS)[number];
+
+export interface SearchSnippet {
+  field: SnippetField;
+  text: string;
+  /** [start, end) character offsets of matched terms within `text` */
+  highlights: Array<[number, number]>;
+}
+
+interface SnippetSource {
+  description_en?: string | null;
+  description_ja?: string | null;
+  sport_center?: {
+    name_en?: string | null;
+    name_ja?: string | null;
+    station_en?: string | null;
+    station_ja?: string | null;
+    address_en?: string | null;
+    address_ja?: string | null;
+  } | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Hiragana, katakana and CJK ideographs - must match search_bigrams() in SQL */
+const CJK_CHARS = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff';
+
+const TERM_PATTERN = new RegExp(`[${CJK_CHARS}]+|[\\p{L}\\p{N}]+`, 'gu');
+const CJK_RUN = new RegExp(`^[${CJK_CHARS}]+$`, 'u');
+
+/** Longest query the search accepts, in terms */
+const MAX_QUERY_TERMS = 8;
+
+/** Approximate snippet length in characters */
+const SNIPPET_LENGTH = 120;
+
+// ============================================================================
+// Query Building
+// ============================================================================
+
+/**
+ * Split a query into normalized search terms
+ * Full-width characters are folded (NFKC) and Latin text lower-cased so
+ * ＢＡＤＭＩＮＴＯＮ and badminton match the same sessions.
+ */
+export function searchTerms(input: string): string[] {
+  const normalized = input.normalize('NFKC').toLowerCase();
+  const terms = normalized.match(TERM_PATTERN) ?? [];
+  return Array.from(new Set(terms)).slice(0, MAX_QUERY_TERMS);
+}
+
+/**
+ * Whether a search term is Japanese text (matched as bigrams rather than
+ * as a word prefix)
+ */
+export function isCjk(term: string): boolean {
+  return CJK_RUN.test(term);
+}
+
+/**
+ * Build a `to_tsquery('simple', ...)` expression for a user query
+ * Every term must match. Latin terms match as prefixes; Japanese terms are
+ * split into bigrams that must appear next to each other. Returns null when
+ * the query contains nothing searchable.
+ */
+export function toSearchQuery(input: string): string | null {
+  const clauses = searchTerms(input).map((term) => {
+    if (!isCjk(term)) {
+      return `${term}:*`;
+    }
+    if (term.length === 1) {
+      // A single character can only match as the start of a bigram
+      return `${term}:*`;
+    }
+    const bigrams: string[] = [];
+    for (let i = 0; i < term.length - 1; i++) {
+      bigrams.push(term.slice(i, i + 2));
+    }
+    return `(${bigrams.join(' <-> ')})`;
+  });
+
+  return clauses.length > 0 ? clauses.join(' & ') : null;
+}
+
+// ============================================================================
+// Snippets
+// ============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function fieldValue(source: SnippetSource, field: SnippetField): string | null | undefined {
+  if (field.startsWith('sport_center.')) {
+    const key = field.slice('sport_center.'.length) as keyof NonNullable<SnippetSource['sport_center']>;
+    return source.sport_center?.[key];
+  }
+  return source[field as 'description_en' | 'description_ja'];
+}
+
+/**
+ * Excerpt of the first field that mentions a search term, with the matched
+ * terms marked for highlighting
+ * Latin prefixes are extended to the whole word ("badm" highlights
+ * "badminton"). Returns null if no field contains a term.
+ */
+export function buildSnippet(source: SnippetSource, terms: string[]): SearchSnippet | null {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const pattern = new RegExp(
+    terms
+      .map((term) => (isCjk(term) ? escapeRegExp(term) : `${escapeRegExp(term)}[\\p{L}\\p{N}]*`))
+      .join('|'),
+    'giu'
+  );
+
+  for (const field of SNIPPET_FIELDS) {
+    const value = fieldValue(source, field);
+    if (!value) continue;
+
+    const text = value.normalize('NFKC');
+    const matches = Array.from(text.matchAll(pattern));
+    if (matches.length === 0) continue;
+
+    // Center the excerpt on the first match
+    const first = matches[0].index!;
+    const start = text.length <= SNIPPET_LENGTH
+      ? 0
+      : Math.max(0, Math.min(first - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH));
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+
+    const highlights = matches
+      .map((match) => [match.index!, match.index! + match[0].length] as [number, number])
+      .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+      .map(([matchStart, matchEnd]) => [
+        matchStart - start + prefix.length,
+        matchEnd - start + prefix.length,
+      ] as [number, number]);
+
+    return {
+      field,
+      text: `${prefix}${text.slice(start, end)}${suffix}`,
+      highlights,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+/**
+ * Session Hosts
+ *
+ * A session is run by its creator plus any co-hosts the creator adds.
+ * Co-hosts share the day-to-day host permissions (editing details, marking
+ * attendance, reviewing join requests, managing invites and moderating the
+ * session chat). Cancelling the session and changing co-hosts stay with the
+ * creator. When the creator leaves, ownership passes to the longest-serving
+ * co-host so the session keeps a host.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { refreshReviewAggregates } from './review-aggregates';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface HostedSession {
+  id: string;
+  created_by: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Most co-hosts a session can have besides its creator */
+export const MAX_CO_HOSTS = 5;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a user can act as host of a session (creator or co-host)
+ */
+export async function isSessionHost(
+  db: Pick<Prisma.TransactionClient, 'sessionCoHost'>,
+  session: HostedSession,
+  userId: string | null | undefined
+): Promise<boolean> {
+  if (!userId) {
+    return false;
+  }
+  if (session.created_by === userId) {
+    return true;
+  }
+
+  const coHost = await db.sessionCoHost.findUnique({
+    where: {
+      session_id_user_id: {
+        session_id: session.id,
+        user_id: userId,
+      },
+    },
+    select: { id: true },
+  });
+
+  return coHost !== null;
+}
+
+/**
+ * IDs of everyone who hosts a session, creator first
+ */
+export async function getSessionHostIds(
+  db: Pick<Prisma.TransactionClient, 'sessionCoHost'>,
+  session: HostedSession
+): Promise<string[]> {
+  const coHosts = await db.sessionCoHost.findMany({
+    where: { session_id: session.id },
+    select: { user_id: true },
+    orderBy: { created_at: 'asc' },
+  });
+
+  return [session.created_by, ...coHosts.map((c: { user_id: string }) => c.user_id)];
+}
+
+/**
+ * Hand a session over to its longest-serving co-host
+ *
+ * Must run inside a transaction. Called when the creator leaves the session.
+ * The new owner stops being a co-host and is notified, and the session's
+ * reviews move to their host rating. Returns the new owner's ID, or null if
+ * the session has no co-hosts (the creator stays on).
+ */
+export async function transferOwnership(
+  tx: Prisma.TransactionClient,
+  session: HostedSession & { sport_type: string; sport_center_id: string }
+): Promise<string | null> {
+  const successor = await tx.sessionCoHost.findFirst({
+    where: { session_id: session.id },
+    orderBy: { created_at: 'asc' },
+  });
+
+  if (!successor) {
+    return null;
+  }
+
+  await tx.session.update({
+    where: { id: session.id },
+    data: { created_by: successor.user_id },
+  });
+
+  await tx.sessionCoHost.delete({
+    where: { id: successor.id },
+  });
+
+  for (const hostId of [session.created_by, successor.user_id]) {
+    await refreshReviewAggregates(tx, { hostId, sportCenterId: session.sport_center_id });
+  }
+
+  await tx.notification.create({
+    data: {
+      user_id: successor.user_id,
+      type: 'session_ownership_transferred',
+      title: 'You Are Now the Host',
+      message: `The host left your ${session.sport_type} session, so it's now yours to run.`,
+      link: `/sessions/${session.id}`,
+    },
+  });
+
+  return successor.user_id;
+}
@@ -0,0 +1,210 @@
+/**
+ * Balanced Team Generator
+ *
+ * Splits a session's players into N teams of even strength. A player's
+ * strength is their rating in the session's sport (see lib/ratings.ts) or,
+ * until they've played rated matches, the rating their self-declared skill
+ * level maps to.
+ *
+ * Players the host wants kept together are placed as one group, and locked
+ * players stay on the team the host put them on. The remaining groups are
+ * dealt strongest first to the currently weakest team that still has room.
+ * Optionally, teams also spread native languages so everyone has someone to
+ * practise with. A seed jitters the order slightly so "shuffle" gives a
+ * different but still balanced split.
+ */
+
+import { DEFAULT_RATING } from './ratings';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TeamPlayer {
+  id: string;
+  skill: number;
+  native_language?: string | null;
+}
+
+export interface TeamOptions {
+  /** Pairs of players who should play on the same team */
+  keepTogether?: Array<[string, string]>;
+  /** Player id -> team index the host pinned them to */
+  locked?: Record<string, number>;
+  /** Spread native languages across teams */
+  balanceLanguages?: boolean;
+  /** Varies the split between equally good options; omit for a stable result */
+  seed?: number;
+}
+
+export interface GeneratedTeam {
+  players: string[];
+  total_skill: number;
+  average_skill: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 8;
+
+/** Sports where hosts usually split players into teams */
+export const TEAM_SPORTS = ['basketball', 'futsal', 'soccer', 'volleyball'];
+
+/** Ratings assumed from self-declared skill levels */
+export const SKILL_LEVEL_RATINGS: Record<string, number> = {
+  beginner: DEFAULT_RATING - 200,
+  intermediate: DEFAULT_RATING,
+  advanced: DEFAULT_RATING + 200,
+};
+
+/** How much rating a repeated native language on a team is worth avoiding */
+const LANGUAGE_PENALTY = 60;
+
+/** Largest random change to a group's strength when shuffling */
+const SHUFFLE_JITTER = 80;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Strength of a player in a sport: their rating if they have one, else the
+ * rating for their self-declared level, else the session's level
+ */
+export function playerSkill(
+  sportRating: number | null | undefined,
+  skillLevels: unknown,
+  sport: string,
+  sessionLevel: string
+): number {
+  if (sportRating != null) {
+    return sportRating;
+  }
+  if (skillLevels && typeof skillLevels === 'object' && !Array.isArray(skillLevels)) {
+    const level = (skillLevels as Record<string, unknown>)[sport];
+    if (typeof level === 'string' && level in SKILL_LEVEL_RATINGS) {
+      return SKILL_LEVEL_RATINGS[level];
+    }
+  }
+  return SKILL_LEVEL_RATINGS[sessionLevel] ?? DEFAULT_RATING;
+}
+
+// Small deterministic PRNG (mulberry32) so a seed always gives the same split
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Merge keep-together pairs into groups (a-b and b-c make one group a-b-c)
+ */
+function groupPlayers(players: TeamPlayer[], pairs: Array<[string, string]>): TeamPlayer[][] {
+  const parent = new Map(players.map((player) => [player.id, player.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const [a, b] of pairs) {
+    if (parent.has(a) && parent.has(b)) {
+      parent.set(find(a), find(b));
+    }
+  }
+
+  const groups = new Map<string, TeamPlayer[]>();
+  for (const player of players) {
+    const root = find(player.id);
+    groups.set(root, [...(groups.get(root) ?? []), player]);
+  }
+  return Array.from(groups.values());
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+/**
+ * Split players into `teamCount` balanced teams
+ */
+export function generateTeams(players: TeamPlayer[], teamCount: number, options: TeamOptions = {}): GeneratedTeam[] {
+  const count = Math.min(Math.max(Math.floor(teamCount), MIN_TEAMS), MAX_TEAMS);
+  const teams = Array.from({ length: count }, () => ({ players: [] as TeamPlayer[], total: 0 }));
+  const capacity = Math.ceil(players.length / count);
+  const locked = options.locked ?? {};
+  const random = options.seed !== undefined ? seededRandom(options.seed) : null;
+
+  const place = (teamIndex: number, group: TeamPlayer[]) => {
+    teams[teamIndex].players.push(...group);
+    teams[teamIndex].total += group.reduce((sum, player) => sum + player.skill, 0);
+  };
+
+  const groups = groupPlayers(players, options.keepTogether ?? []);
+  const free: Array<{ group: TeamPlayer[]; strength: number }> = [];
+
+  // Groups with a locked player go to that player's team first
+  for (const group of groups) {
+    const lockedTo = group.map((player) => locked[player.id]).find((index) => index !== undefined);
+    if (lockedTo !== undefined && lockedTo >= 0 && lockedTo < count) {
+      place(lockedTo, group);
+    } else {
+      const strength = group.reduce((sum, player) => sum + player.skill, 0);
+      free.push({ group, strength: strength + (random ? (random() * 2 - 1) * SHUFFLE_JITTER : 0) });
+    }
+  }
+
+  // Largest and strongest groups first, so the last picks even things out
+  free.sort((a, b) => b.group.length - a.group.length || b.strength - a.strength);
+
+  for (const { group } of free) {
+    const withRoom = teams
+      .map((team, index) => ({ team, index }))
+      .filter(({ team }) => team.players.length + group.length <= capacity);
+    const candidates = withRoom.length > 0 ? withRoom : teams.map((team, index) => ({ team, index }));
+
+    const cost = (team: (typeof teams)[number]) => {
+      let value = team.total;
+      if (options.balanceLanguages) {
+        for (const player of group) {
+          if (!player.native_language) continue;
+          value += LANGUAGE_PENALTY *
+            team.players.filter((member) => member.native_language === player.native_language).length;
+        }
+      }
+      return value;
+    };
+
+    const best = candidates.reduce((a, b) => {
+      const diff = cost(a.team) - cost(b.team);
+      if (diff !== 0) return diff < 0 ? a : b;
+      return a.team.players.length <= b.team.players.length ? a : b;
+    });
+    place(best.index, group);
+  }
+
+  return teams.map((team) => ({
+    players: team.players.map((player) => player.id),
+    total_skill: team.total,
+    average_skill: team.players.length > 0 ? Math.round(team.total / team.players.length) : 0,
+  }));
+}
+
+/**
+ * Chat message announcing the teams
+ */
+export function formatTeamsMessage(teams: Array<{ players: string[] }>, names: Map<string, string>): string {
+  const lines = teams.map((team, index) =>
+    `Team ${index + 1}: ${team.players.map((id) => names.get(id) ?? 'Player').join(', ')}`
+  );
+  return ['Teams for today', ...lines].join('\n');
+}
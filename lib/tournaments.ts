@@ -0,0 +1,475 @@
+/**
+ * Session Tournaments
+ *
+ * A tournament is layered on a session: its players are the session's
+ * participants when the bracket is generated, seeded by their rating in the
+ * sport (best first). Three formats are supported:
+ *
+ * - Single elimination: a power-of-two bracket where top seeds get byes in
+ *   the first round. Winners advance to the next round's match at
+ *   floor(position / 2); draws aren't allowed.
+ * - Round robin: everyone plays everyone once, scheduled with the circle
+ *   method. The player with the most points wins.
+ * - Swiss: ceil(log2(players)) rounds. Each round is paired once the previous
+ *   one is complete, matching players on equal points and avoiding rematches.
+ *
+ * Wins score 1 point, draws half a point and byes count as a win.
+ *
+ * A wrong result can be cleared and entered again as long as nothing builds
+ * on it yet: the winner hasn't played their next elimination match and the
+ * next Swiss round hasn't been paired.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BracketMatch {
+  round: number;
+  position: number;
+  player_a_id: string | null;
+  player_b_id: string | null;
+  /** Set for byes, which are complete as soon as they're created */
+  winner_id?: string | null;
+  is_bye?: boolean;
+}
+
+export interface PlayedMatch {
+  round: number;
+  position: number;
+  player_a_id: string | null;
+  player_b_id: string | null;
+  score_a?: number | null;
+  score_b?: number | null;
+  winner_id: string | null;
+  completed_at: Date | string | null;
+}
+
+export interface Standing {
+  player_id: string;
+  points: number;
+  played: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface GeneratedBracket {
+  roundCount: number;
+  matches: BracketMatch[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const TOURNAMENT_FORMATS = ['SINGLE_ELIMINATION', 'ROUND_ROBIN', 'SWISS'] as const;
+
+export type TournamentFormat = (typeof TOURNAMENT_FORMATS)[number];
+
+export const MIN_TOURNAMENT_PLAYERS = 2;
+export const MAX_TOURNAMENT_PLAYERS = 64;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const isBye = (match: PlayedMatch | BracketMatch) => !match.player_a_id || !match.player_b_id;
+
+/**
+ * Seed numbers (1-based) in bracket order, so seed 1 and 2 can only meet in
+ * the final: [1, 4, 2, 3] for 4, [1, 8, 4, 5, 2, 7, 3, 6] for 8
+ */
+export function bracketSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, next - seed]);
+  }
+  return order;
+}
+
+/**
+ * Where the winner of a single-elimination match plays next
+ */
+export function nextMatchSlot(round: number, position: number): { round: number; position: number; side: 'A' | 'B' } {
+  return {
+    round: round + 1,
+    position: Math.floor(position / 2),
+    side: position % 2 === 0 ? 'A' : 'B',
+  };
+}
+
+/**
+ * The winner of a completed match, or null for a draw
+ */
+export function matchWinner(playerA: string, playerB: string, scoreA: number, scoreB: number): string | null {
+  if (scoreA === scoreB) return null;
+  return scoreA > scoreB ? playerA : playerB;
+}
+
+// ============================================================================
+// Bracket Generation
+// ============================================================================
+
+function singleElimination(playerIds: string[]): GeneratedBracket {
+  const size = Math.max(2, 2 ** Math.ceil(Math.log2(playerIds.length)));
+  const roundCount = Math.log2(size);
+  const order = bracketSeedOrder(size);
+  const matches: BracketMatch[] = [];
+
+  for (let position = 0; position < size / 2; position++) {
+    const playerA = playerIds[order[position * 2] - 1] ?? null;
+    const playerB = playerIds[order[position * 2 + 1] - 1] ?? null;
+    const bye = !playerA || !playerB;
+    matches.push({
+      round: 1,
+      position,
+      player_a_id: playerA,
+      player_b_id: playerB,
+      ...(bye && { winner_id: playerA ?? playerB, is_bye: true }),
+    });
+  }
+
+  for (let round = 2; round <= roundCount; round++) {
+    for (let position = 0; position < size / 2 ** round; position++) {
+      matches.push({ round, position, player_a_id: null, player_b_id: null });
+    }
+  }
+
+  // Top seeds with a first-round bye go straight into round two
+  for (const match of matches.filter((m) => m.round === 1 && m.is_bye && m.winner_id)) {
+    const slot = nextMatchSlot(match.round, match.position);
+    const next = matches.find((m) => m.round === slot.round && m.position === slot.position);
+    if (next) {
+      if (slot.side === 'A') next.player_a_id = match.winner_id!;
+      else next.player_b_id = match.winner_id!;
+    }
+  }
+
+  return { roundCount, matches };
+}
+
+function roundRobin(playerIds: string[]): GeneratedBracket {
+  // With an odd number of players, whoever meets the empty slot sits out
+  const slots: Array<string | null> = playerIds.length % 2 === 0 ? [...playerIds] : [...playerIds, null];
+  const roundCount = slots.length - 1;
+  const matches: BracketMatch[] = [];
+
+  for (let round = 1; round <= roundCount; round++) {
+    let position = 0;
+    for (let i = 0; i < slots.length / 2; i++) {
+      const playerA = slots[i];
+      const playerB = slots[slots.length - 1 - i];
+      if (playerA && playerB) {
+        matches.push({ round, position: position++, player_a_id: playerA, player_b_id: playerB });
+      }
+    }
+    // Circle method: keep the first slot fixed and rotate the rest
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  return { roundCount, matches };
+}
+
+export function swissRoundCount(playerCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(playerCount)));
+}
+
+/**
+ * Pairings for the next Swiss round from the results so far
+ * Players are ranked by standings; each plays the highest-ranked player they
+ * haven't met yet. With an odd count, the lowest-ranked player who hasn't had
+ * a bye gets one.
+ */
+export function swissPairings(round: number, playerIds: string[], matches: PlayedMatch[]): BracketMatch[] {
+  const ranked = computeStandings(playerIds, matches).map((standing) => standing.player_id);
+  const played = new Set(
+    matches.filter((m) => m.player_a_id && m.player_b_id).map((m) => pairKey(m.player_a_id!, m.player_b_id!))
+  );
+  const hadBye = new Set(matches.filter(isBye).map((m) => m.player_a_id ?? m.player_b_id));
+
+  const pairings: BracketMatch[] = [];
+  let byePlayer: string | null = null;
+  if (ranked.length % 2 === 1) {
+    byePlayer = [...ranked].reverse().find((id) => !hadBye.has(id)) ?? ranked[ranked.length - 1];
+  }
+
+  const unpaired = ranked.filter((id) => id !== byePlayer);
+  let position = 0;
+  while (unpaired.length > 0) {
+    const player = unpaired.shift()!;
+    const opponentIndex = unpaired.findIndex((id) => !played.has(pairKey(player, id)));
+    // Everyone left has been played already: a rematch is unavoidable
+    const [opponent] = unpaired.splice(opponentIndex === -1 ? 0 : opponentIndex, 1);
+    pairings.push({ round, position: position++, player_a_id: player, player_b_id: opponent });
+  }
+
+  if (byePlayer) {
+    pairings.push({
+      round,
+      position: position++,
+      player_a_id: byePlayer,
+      player_b_id: null,
+      winner_id: byePlayer,
+      is_bye: true,
+    });
+  }
+
+  return pairings;
+}
+
+/**
+ * Every match known when a tournament starts (all of them except later Swiss rounds)
+ */
+export function generateBracket(format: TournamentFormat, playerIds: string[]): GeneratedBracket {
+  switch (format) {
+    case 'SINGLE_ELIMINATION':
+      return singleElimination(playerIds);
+    case 'ROUND_ROBIN':
+      return roundRobin(playerIds);
+    case 'SWISS':
+      return { roundCount: swissRoundCount(playerIds.length), matches: swissPairings(1, playerIds, []) };
+  }
+}
+
+// ============================================================================
+// Standings
+// ============================================================================
+
+/**
+ * Points table, best first (points, then wins, then seed)
+ */
+export function computeStandings(playerIds: string[], matches: PlayedMatch[]): Standing[] {
+  const table = new Map<string, Standing>(
+    playerIds.map((id) => [id, { player_id: id, points: 0, played: 0, wins: 0, losses: 0, draws: 0 }])
+  );
+
+  for (const match of matches) {
+    if (!match.completed_at) continue;
+
+    if (isBye(match)) {
+      const standing = table.get((match.player_a_id ?? match.player_b_id)!);
+      if (standing) {
+        standing.points += 1;
+        standing.wins += 1;
+      }
+      continue;
+    }
+
+    for (const id of [match.player_a_id!, match.player_b_id!]) {
+      const standing = table.get(id);
+      if (!standing) continue;
+      standing.played += 1;
+      if (match.winner_id === null) {
+        standing.draws += 1;
+        standing.points += 0.5;
+      } else if (match.winner_id === id) {
+        standing.wins += 1;
+        standing.points += 1;
+      } else {
+        standing.losses += 1;
+      }
+    }
+  }
+
+  const seed = new Map(playerIds.map((id, index) => [id, index]));
+  return Array.from(table.values()).sort(
+    (a, b) => b.points - a.points || b.wins - a.wins || seed.get(a.player_id)! - seed.get(b.player_id)!
+  );
+}
+
+/**
+ * Whether later matches already depend on a result, so it can't be cleared
+ */
+export function isResultLocked(
+  tournament: { format: TournamentFormat; round_count: number; matches: PlayedMatch[] },
+  match: PlayedMatch
+): boolean {
+  if (tournament.format === 'SINGLE_ELIMINATION') {
+    if (match.round >= tournament.round_count) {
+      return false;
+    }
+    const slot = nextMatchSlot(match.round, match.position);
+    const next = tournament.matches.find((m) => m.round === slot.round && m.position === slot.position);
+    return Boolean(next?.completed_at);
+  }
+
+  if (tournament.format === 'SWISS') {
+    return tournament.matches.some((m) => m.round > match.round);
+  }
+
+  return false;
+}
+
+// ============================================================================
+// Database
+// ============================================================================
+
+interface TournamentState {
+  id: string;
+  format: TournamentFormat;
+  player_ids: string[];
+  round_count: number;
+  matches: Array<PlayedMatch & { id: string }>;
+}
+
+/**
+ * Create a tournament and its opening matches for a session
+ */
+export async function createTournament(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  format: TournamentFormat,
+  playerIds: string[]
+) {
+  const { roundCount, matches } = generateBracket(format, playerIds);
+  const now = new Date();
+
+  return tx.tournament.create({
+    data: {
+      session_id: sessionId,
+      format,
+      player_ids: playerIds,
+      round_count: roundCount,
+      matches: {
+        create: matches.map(({ is_bye, winner_id, ...match }) => ({
+          ...match,
+          winner_id: winner_id ?? null,
+          completed_at: is_bye ? now : null,
+        })),
+      },
+    },
+  });
+}
+
+/**
+ * Save a match result and move the tournament along: advance the winner in
+ * single elimination, pair the next Swiss round once the current one is
+ * done, and finish the tournament after its last match
+ *
+ * Must run inside a transaction.
+ */
+export async function recordTournamentResult(
+  tx: Prisma.TransactionClient,
+  tournament: TournamentState,
+  matchId: string,
+  scoreA: number,
+  scoreB: number
+): Promise<void> {
+  const match = tournament.matches.find((m) => m.id === matchId)!;
+  const now = new Date();
+  const winnerId = matchWinner(match.player_a_id!, match.player_b_id!, scoreA, scoreB);
+
+  await tx.tournamentMatch.update({
+    where: { id: matchId },
+    data: { score_a: scoreA, score_b: scoreB, winner_id: winnerId, completed_at: now },
+  });
+
+  const matches = tournament.matches.map((m) =>
+    m.id === matchId ? { ...m, score_a: scoreA, score_b: scoreB, winner_id: winnerId, completed_at: now } : m
+  );
+
+  if (tournament.format === 'SINGLE_ELIMINATION' && match.round < tournament.round_count) {
+    const slot = nextMatchSlot(match.round, match.position);
+    await tx.tournamentMatch.update({
+      where: {
+        tournament_id_round_position: {
+          tournament_id: tournament.id,
+          round: slot.round,
+          position: slot.position,
+        },
+      },
+      data: slot.side === 'A' ? { player_a_id: winnerId } : { player_b_id: winnerId },
+    });
+    await tx.tournament.update({
+      where: { id: tournament.id },
+      data: { current_round: Math.min(...matches.filter((m) => !m.completed_at).map((m) => m.round)) },
+    });
+    return;
+  }
+
+  const remaining = matches.filter((m) => !m.completed_at);
+
+  if (tournament.format === 'SWISS' && remaining.length === 0 && match.round < tournament.round_count) {
+    const nextRound = match.round + 1;
+    const pairings = swissPairings(nextRound, tournament.player_ids, matches);
+    await tx.tournamentMatch.createMany({
+      data: pairings.map(({ is_bye, winner_id, ...pairing }) => ({
+        ...pairing,
+        tournament_id: tournament.id,
+        winner_id: winner_id ?? null,
+        completed_at: is_bye ? now : null,
+      })),
+    });
+    await tx.tournament.update({
+      where: { id: tournament.id },
+      data: { current_round: nextRound },
+    });
+    return;
+  }
+
+  if (remaining.length === 0) {
+    const champion = tournament.format === 'SINGLE_ELIMINATION'
+      ? winnerId
+      : computeStandings(tournament.player_ids, matches)[0]?.player_id ?? null;
+    await tx.tournament.update({
+      where: { id: tournament.id },
+      data: { status: 'COMPLETED', winner_id: champion },
+    });
+    return;
+  }
+
+  await tx.tournament.update({
+    where: { id: tournament.id },
+    data: { current_round: Math.min(...remaining.map((m) => m.round)) },
+  });
+}
+
+/**
+ * Undo a match result so it can be entered again: take the winner back out
+ * of the next elimination match and reopen the tournament if it had finished.
+ * Check isResultLocked first. The rating change is reversed separately.
+ *
+ * Must run inside a transaction.
+ */
+export async function clearTournamentResult(
+  tx: Prisma.TransactionClient,
+  tournament: TournamentState,
+  matchId: string
+): Promise<void> {
+  const match = tournament.matches.find((m) => m.id === matchId)!;
+
+  await tx.tournamentMatch.update({
+    where: { id: matchId },
+    data: { score_a: null, score_b: null, winner_id: null, completed_at: null, rating_match_id: null },
+  });
+
+  if (tournament.format === 'SINGLE_ELIMINATION' && match.round < tournament.round_count) {
+    const slot = nextMatchSlot(match.round, match.position);
+    await tx.tournamentMatch.update({
+      where: {
+        tournament_id_round_position: {
+          tournament_id: tournament.id,
+          round: slot.round,
+          position: slot.position,
+        },
+      },
+      data: slot.side === 'A' ? { player_a_id: null } : { player_b_id: null },
+    });
+  }
+
+  const unplayed = tournament.matches.filter((m) => m.id === matchId || !m.completed_at);
+  await tx.tournament.update({
+    where: { id: tournament.id },
+    data: {
+      status: 'IN_PROGRESS',
+      winner_id: null,
+      current_round: Math.min(...unplayed.map((m) => m.round)),
+    },
+  });
+}
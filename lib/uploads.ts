@@ -0,0 +1,58 @@
+/**
+ * Image Upload Validation
+ *
+ * Shared checks for images uploaded to Supabase storage (avatars and chat
+ * attachments). Files are stored under a name derived from their MIME type,
+ * never from the client's file name.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'] as const;
+export type AllowedImageType = (typeof ALLOWED_IMAGE_TYPES)[number];
+
+/** Default upload limit */
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS: Record<AllowedImageType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isAllowedImageType(type: string): type is AllowedImageType {
+  return (ALLOWED_IMAGE_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Check an uploaded image's type and size
+ * Returns an error message, or null if the file is acceptable.
+ */
+export function validateImageFile(
+  file: { type: string; size: number },
+  maxSize: number = MAX_IMAGE_SIZE
+): string | null {
+  if (!isAllowedImageType(file.type)) {
+    return 'Invalid file type. Please upload JPEG, PNG, WebP, or GIF.';
+  }
+
+  if (file.size > maxSize) {
+    return `File too large. Maximum size is ${Math.floor(maxSize / (1024 * 1024))}MB.`;
+  }
+
+  return null;
+}
+
+/**
+ * File extension for an allowed image type
+ */
+export function imageExtension(type: AllowedImageType): string {
+  return IMAGE_EXTENSIONS[type];
+}
@@ -65,6 +65,14 @@ export const updateReviewSchema = z.object({
     .transform(val => val?.trim() || null),
 });
 
+// Reviews: Host reply validation
+export const reviewReplySchema = z.object({
+  reply: z.string()
+    .trim()
+    .min(1, 'Reply is required')
+    .max(1000, 'Reply must be less than 1000 characters'),
+});
+
 // Conversations: Create conversation validation
 export const createConversationSchema = z.object({
   type: z.enum(['direct', 'session']),
@@ -115,6 +123,39 @@ export const createReportSchema = z.object({
     .max(1000, 'Description is too long'),
 });
 
+// Saved searches: filter set validation
+const savedSearchDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must use the YYYY-MM-DD format')
+  .refine((val) => !isNaN(Date.parse(val)), 'Invalid date')
+  .nullable()
+  .optional();
+
+const savedSearchFiltersSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(60, 'Name must be less than 60 characters'),
+  search: z.string()
+    .max(100, 'Search text is too long')
+    .nullable()
+    .optional()
+    .transform(val => val?.trim() || null),
+  sport_type: z.enum(['badminton', 'basketball', 'volleyball', 'tennis', 'soccer', 'futsal', 'table-tennis']).nullable().optional(),
+  skill_level: z.enum(['beginner', 'intermediate', 'advanced']).nullable().optional(),
+  vibe: z.enum(['COMPETITIVE', 'CASUAL', 'ACADEMY', 'LANGUAGE_EXCHANGE']).nullable().optional(),
+  allow_english: z.boolean().optional(),
+  start_date: savedSearchDateSchema,
+  end_date: savedSearchDateSchema,
+  email_digest: z.boolean().optional(),
+});
+
+export const createSavedSearchSchema = savedSearchFiltersSchema.refine(
+  (val) => !val.start_date || !val.end_date || val.start_date <= val.end_date,
+  'The start date must be before the end date'
+);
+
+export const updateSavedSearchSchema = savedSearchFiltersSchema.partial();
+
 // Helper function to validate request body
 export function validateRequestBody<T>(schema: z.ZodSchema<T>, body: unknown): { success: true; data: T } | { success: false; error: string } {
   try {
@@ -0,0 +1,163 @@
+/**
+ * Waitlist Promotion
+ *
+ * When a spot opens in a full session, the next waitlisted user either gets a
+ * reserved hold for WAITLIST_HOLD_HOURS (which they accept or decline) or, if
+ * they opted into auto-join, is promoted straight into the session.
+ *
+ * Unclaimed holds are rolled to the next person by the waitlist-holds cron job.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { joinIneligibility } from './join-eligibility';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long a promoted user has to claim their reserved spot */
+export const WAITLIST_HOLD_HOURS = 2;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Filter matching waitlist entries that currently hold a reserved spot
+ */
+export function activeHoldWhere(now: Date = new Date()) {
+  return {
+    notified: true,
+    hold_expires_at: { gt: now },
+  };
+}
+
+/**
+ * Calculate when a hold offered now should expire
+ * Holds never outlast the session start time
+ */
+export function getHoldExpiry(sessionDateTime: Date, now: Date = new Date()): Date {
+  const expiry = new Date(now.getTime() + WAITLIST_HOLD_HOURS * 60 * 60 * 1000);
+  return expiry < sessionDateTime ? expiry : sessionDateTime;
+}
+
+/**
+ * Offer freed spots to the next people on the waitlist
+ *
+ * Must run inside a transaction. Returns the user IDs that were offered a hold
+ * and those that were auto-joined.
+ */
+export async function promoteFromWaitlist(
+  tx: Prisma.TransactionClient,
+  sessionId: string
+): Promise<{ held: string[]; joined: string[] }> {
+  const now = new Date();
+  const result = { held: [] as string[], joined: [] as string[] };
+
+  const session = await tx.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      id: true,
+      created_by: true,
+      sport_type: true,
+      min_rating: true,
+      date_time: true,
+      max_participants: true,
+      status: true,
+      requires_approval: true,
+      _count: {
+        select: {
+          user_sessions: true,
+          waitlist: { where: activeHoldWhere(now) },
+        },
+      },
+    },
+  });
+
+  // Waitlists only apply to open future sessions with a capacity
+  if (
+    !session ||
+    session.status !== 'PUBLISHED' ||
+    !session.max_participants ||
+    new Date(session.date_time) < now
+  ) {
+    return result;
+  }
+
+  let freeSpots = session.max_participants - session._count.user_sessions - session._count.waitlist;
+
+  while (freeSpots > 0) {
+    const nextInLine = await tx.waitlist.findFirst({
+      where: {
+        session_id: sessionId,
+        notified: false,
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    if (!nextInLine) {
+      break;
+    }
+
+    // Sessions requiring approval always hold the spot; claiming it sends a
+    // join request to the host instead of joining directly. Users who no
+    // longer meet the entry rules also get a hold, and are refused on claim.
+    if (
+      nextInLine.auto_join &&
+      !session.requires_approval &&
+      !(await joinIneligibility(tx, session, nextInLine.user_id))
+    ) {
+      // Promote directly into the session
+      await tx.userSession.create({
+        data: {
+          user_id: nextInLine.user_id,
+          session_id: sessionId,
+        },
+      });
+
+      await tx.waitlist.delete({
+        where: { id: nextInLine.id },
+      });
+
+      await tx.notification.create({
+        data: {
+          user_id: nextInLine.user_id,
+          type: 'waitlist_promoted',
+          title: "You're In! 🎉",
+          message: `A spot opened up and you've been added to the ${session.sport_type} session.`,
+          link: `/sessions/${sessionId}`,
+        },
+      });
+
+      result.joined.push(nextInLine.user_id);
+    } else {
+      // Reserve the spot for a limited time
+      const holdExpiresAt = getHoldExpiry(new Date(session.date_time), now);
+
+      await tx.waitlist.update({
+        where: { id: nextInLine.id },
+        data: {
+          notified: true,
+          notified_at: now,
+          hold_expires_at: holdExpiresAt,
+        },
+      });
+
+      await tx.notification.create({
+        data: {
+          user_id: nextInLine.user_id,
+          type: 'waitlist_spot_available',
+          title: 'Spot Reserved for You! 🎉',
+          message: `A spot opened up for ${session.sport_type}. It's held for you for ${WAITLIST_HOLD_HOURS} hours - accept it before it goes to the next person.`,
+          link: `/sessions/${sessionId}`,
+        },
+      });
+
+      result.held.push(nextInLine.user_id);
+    }
+
+    freeSpots--;
+  }
+
+  return result;
+}
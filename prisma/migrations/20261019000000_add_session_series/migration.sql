@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('WEEKLY', 'BIWEEKLY', 'MONTHLY');
+
+-- CreateTable
+CREATE TABLE "SessionSeries" (
+    "id" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3),
+    "occurrence_count" INTEGER,
+    "sport_center_id" TEXT NOT NULL,
+    "sport_type" TEXT NOT NULL,
+    "skill_level" TEXT NOT NULL,
+    "duration_minutes" INTEGER NOT NULL,
+    "max_participants" INTEGER,
+    "description_en" TEXT,
+    "description_ja" TEXT,
+    "primary_language" TEXT NOT NULL DEFAULT 'ja',
+    "allow_english" BOOLEAN NOT NULL DEFAULT false,
+    "vibe" "SessionVibe" NOT NULL DEFAULT 'CASUAL',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SessionSeries_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "SessionSeries_bounded" CHECK ("ends_at" IS NOT NULL OR "occurrence_count" IS NOT NULL)
+);
+
+-- CreateTable
+CREATE TABLE "SeriesSubscription" (
+    "id" TEXT NOT NULL,
+    "series_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SeriesSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "series_id" TEXT;
+ALTER TABLE "Session" ADD COLUMN "series_override" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "SessionSeries_created_by_idx" ON "SessionSeries"("created_by");
+
+-- CreateIndex
+CREATE INDEX "SessionSeries_sport_center_id_idx" ON "SessionSeries"("sport_center_id");
+
+-- CreateIndex
+CREATE INDEX "SeriesSubscription_series_id_idx" ON "SeriesSubscription"("series_id");
+
+-- CreateIndex
+CREATE INDEX "SeriesSubscription_user_id_idx" ON "SeriesSubscription"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeriesSubscription_series_id_user_id_key" ON "SeriesSubscription"("series_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "Session_series_id_idx" ON "Session"("series_id");
+
+-- AddForeignKey
+ALTER TABLE "SessionSeries" ADD CONSTRAINT "SessionSeries_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionSeries" ADD CONSTRAINT "SessionSeries_sport_center_id_fkey" FOREIGN KEY ("sport_center_id") REFERENCES "SportCenter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeriesSubscription" ADD CONSTRAINT "SeriesSubscription_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "SessionSeries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeriesSubscription" ADD CONSTRAINT "SeriesSubscription_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "SessionSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "SessionSeries" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "SeriesSubscription" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Waitlist" ADD COLUMN "hold_expires_at" TIMESTAMP(3);
+ALTER TABLE "Waitlist" ADD COLUMN "auto_join" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Waitlist_hold_expires_at_idx" ON "Waitlist"("hold_expires_at");
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "SessionStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'CANCELLED', 'COMPLETED');
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "status" "SessionStatus" NOT NULL DEFAULT 'PUBLISHED';
+ALTER TABLE "Session" ADD COLUMN "cancellation_reason" TEXT;
+ALTER TABLE "Session" ADD COLUMN "cancelled_at" TIMESTAMP(3);
+
+-- Backfill: sessions with recorded attendance are completed
+UPDATE "Session" SET "status" = 'COMPLETED' WHERE "attendance_marked" = true;
+
+-- CreateIndex
+CREATE INDEX "Session_status_idx" ON "Session"("status");
+
+-- CreateIndex
+CREATE INDEX "Session_status_date_time_idx" ON "Session"("status", "date_time");
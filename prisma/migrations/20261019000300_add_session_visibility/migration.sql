@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "SessionVisibility" AS ENUM ('PUBLIC', 'UNLISTED', 'INVITE_ONLY');
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "visibility" "SessionVisibility" NOT NULL DEFAULT 'PUBLIC';
+
+-- CreateTable
+CREATE TABLE "SessionInvite" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3),
+    "max_uses" INTEGER,
+    "use_count" INTEGER NOT NULL DEFAULT 0,
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SessionInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Session_visibility_idx" ON "Session"("visibility");
+
+-- CreateIndex
+CREATE INDEX "SessionInvite_session_id_idx" ON "SessionInvite"("session_id");
+
+-- CreateIndex
+CREATE INDEX "SessionInvite_created_by_idx" ON "SessionInvite"("created_by");
+
+-- AddForeignKey
+ALTER TABLE "SessionInvite" ADD CONSTRAINT "SessionInvite_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionInvite" ADD CONSTRAINT "SessionInvite_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "SessionInvite" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "SessionCoHost" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "added_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SessionCoHost_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SessionCoHost_user_id_idx" ON "SessionCoHost"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionCoHost_session_id_user_id_key" ON "SessionCoHost"("session_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "SessionCoHost" ADD CONSTRAINT "SessionCoHost_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionCoHost" ADD CONSTRAINT "SessionCoHost_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionCoHost" ADD CONSTRAINT "SessionCoHost_added_by_fkey" FOREIGN KEY ("added_by") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "SessionCoHost" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "min_participants" INTEGER,
+ADD COLUMN "decide_by" TIMESTAMP(3),
+ADD COLUMN "confirmed_at" TIMESTAMP(3);
+
+-- A minimum always comes with a deadline and can't exceed the capacity
+ALTER TABLE "Session" ADD CONSTRAINT "Session_min_participants_check" CHECK (
+    "min_participants" IS NULL OR (
+        "min_participants" >= 2
+        AND "decide_by" IS NOT NULL
+        AND ("max_participants" IS NULL OR "min_participants" <= "max_participants")
+    )
+);
+
+-- CreateIndex
+CREATE INDEX "Session_status_decide_by_idx" ON "Session"("status", "decide_by");
@@ -0,0 +1,94 @@
+-- Full-text search for sessions
+-- Postgres has no Japanese word breaker, so runs of hiragana, katakana and
+-- kanji are indexed as overlapping bigrams (東京体育館 -> 東京 京体 体育 育館).
+-- lib/search.ts splits search queries the same way.
+
+-- Fold full-width characters, then expand Japanese runs into bigrams
+CREATE OR REPLACE FUNCTION search_bigrams(input TEXT) RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE PARALLEL SAFE AS $$
+DECLARE
+    run TEXT;
+    result TEXT := '';
+BEGIN
+    IF input IS NULL THEN
+        RETURN '';
+    END IF;
+
+    FOR run IN
+        SELECT m[1] FROM regexp_matches(
+            normalize(input, NFKC),
+            '([぀-ヿ㐀-䶿一-鿿豈-﫿]+|[^぀-ヿ㐀-䶿一-鿿豈-﫿]+)',
+            'g'
+        ) AS m
+    LOOP
+        IF run ~ '^[぀-ヿ㐀-䶿一-鿿豈-﫿]' AND length(run) > 1 THEN
+            FOR i IN 1..length(run) - 1 LOOP
+                result := result || ' ' || substr(run, i, 2);
+            END LOOP;
+        ELSE
+            result := result || ' ' || run;
+        END IF;
+    END LOOP;
+
+    RETURN result;
+END;
+$$;
+
+-- Weighted document for one session: sport and center names rank highest,
+-- then descriptions, then stations and addresses
+CREATE OR REPLACE FUNCTION session_search_vector(
+    p_sport_type TEXT,
+    p_description_en TEXT,
+    p_description_ja TEXT,
+    p_sport_center_id TEXT
+) RETURNS tsvector
+LANGUAGE sql STABLE AS $$
+    SELECT
+        setweight(to_tsvector('simple', search_bigrams(concat_ws(' ', p_sport_type, sc.name_en, sc.name_ja))), 'A') ||
+        setweight(to_tsvector('simple', search_bigrams(concat_ws(' ', p_description_en, p_description_ja))), 'B') ||
+        setweight(to_tsvector('simple', search_bigrams(concat_ws(' ', sc.station_en, sc.station_ja, sc.address_en, sc.address_ja))), 'C')
+    FROM "SportCenter" sc
+    WHERE sc.id = p_sport_center_id;
+$$;
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "search_vector" tsvector;
+
+-- Keep the vector current when a session's text or venue changes
+CREATE OR REPLACE FUNCTION session_search_vector_trigger() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+    NEW.search_vector := session_search_vector(
+        NEW.sport_type, NEW.description_en, NEW.description_ja, NEW.sport_center_id
+    );
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER "Session_search_vector_update"
+    BEFORE INSERT OR UPDATE OF sport_type, description_en, description_ja, sport_center_id
+    ON "Session"
+    FOR EACH ROW EXECUTE FUNCTION session_search_vector_trigger();
+
+-- ...and when an admin edits the sport center itself
+CREATE OR REPLACE FUNCTION sport_center_search_vector_trigger() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+    UPDATE "Session"
+    SET search_vector = session_search_vector(sport_type, description_en, description_ja, sport_center_id)
+    WHERE sport_center_id = NEW.id;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER "SportCenter_search_vector_update"
+    AFTER UPDATE OF name_en, name_ja, address_en, address_ja, station_en, station_ja
+    ON "SportCenter"
+    FOR EACH ROW EXECUTE FUNCTION sport_center_search_vector_trigger();
+
+-- Backfill existing sessions
+UPDATE "Session"
+SET search_vector = session_search_vector(sport_type, description_en, description_ja, sport_center_id);
+
+-- CreateIndex
+CREATE INDEX "Session_search_vector_idx" ON "Session" USING GIN ("search_vector");
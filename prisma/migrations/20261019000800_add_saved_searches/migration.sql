@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "SavedSearch" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "search" TEXT,
+    "sport_type" TEXT,
+    "skill_level" TEXT,
+    "vibe" "SessionVibe",
+    "allow_english" BOOLEAN NOT NULL DEFAULT false,
+    "start_date" DATE,
+    "end_date" DATE,
+    "email_digest" BOOLEAN NOT NULL DEFAULT false,
+    "last_checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SavedSearchMatch" (
+    "id" TEXT NOT NULL,
+    "saved_search_id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "emailed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SavedSearchMatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_user_id_idx" ON "SavedSearch"("user_id");
+
+-- CreateIndex
+CREATE INDEX "SavedSearchMatch_session_id_idx" ON "SavedSearchMatch"("session_id");
+
+-- CreateIndex
+CREATE INDEX "SavedSearchMatch_emailed_at_idx" ON "SavedSearchMatch"("emailed_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedSearchMatch_saved_search_id_session_id_key" ON "SavedSearchMatch"("saved_search_id", "session_id");
+
+-- Sessions are matched by their last change
+CREATE INDEX "Session_updated_at_idx" ON "Session"("updated_at");
+
+-- AddForeignKey
+ALTER TABLE "SavedSearch" ADD CONSTRAINT "SavedSearch_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedSearchMatch" ADD CONSTRAINT "SavedSearchMatch_saved_search_id_fkey" FOREIGN KEY ("saved_search_id") REFERENCES "SavedSearch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedSearchMatch" ADD CONSTRAINT "SavedSearchMatch_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "SavedSearch" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "SavedSearchMatch" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "calendar_token" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_calendar_token_key" ON "User"("calendar_token");
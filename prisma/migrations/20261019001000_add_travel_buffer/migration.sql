@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "travel_buffer_minutes" INTEGER NOT NULL DEFAULT 30;
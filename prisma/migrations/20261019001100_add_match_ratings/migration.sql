@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "MatchFormat" AS ENUM ('SINGLES', 'DOUBLES', 'TEAM');
+
+-- CreateEnum
+CREATE TYPE "MatchSide" AS ENUM ('A', 'B');
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "min_rating" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Match" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "sport_type" TEXT NOT NULL,
+    "format" "MatchFormat" NOT NULL,
+    "score_a" INTEGER NOT NULL,
+    "score_b" INTEGER NOT NULL,
+    "recorded_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Match_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MatchPlayer" (
+    "id" TEXT NOT NULL,
+    "match_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "side" "MatchSide" NOT NULL,
+    "rating_before" INTEGER NOT NULL,
+    "rating_after" INTEGER NOT NULL,
+
+    CONSTRAINT "MatchPlayer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SportRating" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "sport_type" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL DEFAULT 1500,
+    "matches_played" INTEGER NOT NULL DEFAULT 0,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "losses" INTEGER NOT NULL DEFAULT 0,
+    "draws" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SportRating_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Match_session_id_idx" ON "Match"("session_id");
+
+-- CreateIndex
+CREATE INDEX "MatchPlayer_user_id_idx" ON "MatchPlayer"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MatchPlayer_match_id_user_id_key" ON "MatchPlayer"("match_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "SportRating_sport_type_rating_idx" ON "SportRating"("sport_type", "rating");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SportRating_user_id_sport_type_key" ON "SportRating"("user_id", "sport_type");
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_recorded_by_fkey" FOREIGN KEY ("recorded_by") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchPlayer" ADD CONSTRAINT "MatchPlayer_match_id_fkey" FOREIGN KEY ("match_id") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchPlayer" ADD CONSTRAINT "MatchPlayer_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SportRating" ADD CONSTRAINT "SportRating_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "Match" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "MatchPlayer" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "SportRating" ENABLE ROW LEVEL SECURITY;
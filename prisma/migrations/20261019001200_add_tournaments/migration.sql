@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "TournamentFormat" AS ENUM ('SINGLE_ELIMINATION', 'ROUND_ROBIN', 'SWISS');
+
+-- CreateEnum
+CREATE TYPE "TournamentStatus" AS ENUM ('IN_PROGRESS', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "Tournament" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "format" "TournamentFormat" NOT NULL,
+    "status" "TournamentStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "player_ids" TEXT[],
+    "round_count" INTEGER NOT NULL,
+    "current_round" INTEGER NOT NULL DEFAULT 1,
+    "winner_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tournament_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TournamentMatch" (
+    "id" TEXT NOT NULL,
+    "tournament_id" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "player_a_id" TEXT,
+    "player_b_id" TEXT,
+    "score_a" INTEGER,
+    "score_b" INTEGER,
+    "winner_id" TEXT,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TournamentMatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tournament_session_id_key" ON "Tournament"("session_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentMatch_tournament_id_round_position_key" ON "TournamentMatch"("tournament_id", "round", "position");
+
+-- AddForeignKey
+ALTER TABLE "Tournament" ADD CONSTRAINT "Tournament_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Tournament" ADD CONSTRAINT "Tournament_winner_id_fkey" FOREIGN KEY ("winner_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentMatch" ADD CONSTRAINT "TournamentMatch_tournament_id_fkey" FOREIGN KEY ("tournament_id") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "Tournament" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "TournamentMatch" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "attendance_reminder_sent_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "AttendanceFinalization" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "attended_count" INTEGER NOT NULL,
+    "no_show_count" INTEGER NOT NULL,
+    "unresolved_count" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AttendanceFinalization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AttendanceFinalization_session_id_key" ON "AttendanceFinalization"("session_id");
+
+-- CreateIndex
+CREATE INDEX "AttendanceFinalization_created_at_idx" ON "AttendanceFinalization"("created_at");
+
+-- CreateIndex
+CREATE INDEX "Session_attendance_marked_date_time_idx" ON "Session"("attendance_marked", "date_time");
+
+-- AddForeignKey
+ALTER TABLE "AttendanceFinalization" ADD CONSTRAINT "AttendanceFinalization_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "AttendanceFinalization" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "ReliabilityEventType" AS ENUM ('ATTENDED', 'NO_SHOW', 'RECOVERY', 'REVERSAL');
+
+-- CreateEnum
+CREATE TYPE "AppealStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "ReliabilityEvent" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "session_id" TEXT,
+    "type" "ReliabilityEventType" NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "score_after" INTEGER NOT NULL,
+    "recovered_points" INTEGER NOT NULL DEFAULT 0,
+    "note" TEXT,
+    "related_event_id" TEXT,
+    "reversed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReliabilityEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReliabilityAppeal" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "status" "AppealStatus" NOT NULL DEFAULT 'PENDING',
+    "admin_note" TEXT,
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReliabilityAppeal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReliabilityEvent_user_id_created_at_idx" ON "ReliabilityEvent"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "ReliabilityEvent_type_reversed_at_created_at_idx" ON "ReliabilityEvent"("type", "reversed_at", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReliabilityAppeal_event_id_key" ON "ReliabilityAppeal"("event_id");
+
+-- CreateIndex
+CREATE INDEX "ReliabilityAppeal_status_created_at_idx" ON "ReliabilityAppeal"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "ReliabilityAppeal_user_id_idx" ON "ReliabilityAppeal"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "ReliabilityEvent" ADD CONSTRAINT "ReliabilityEvent_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReliabilityEvent" ADD CONSTRAINT "ReliabilityEvent_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "Session"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReliabilityAppeal" ADD CONSTRAINT "ReliabilityAppeal_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "ReliabilityEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReliabilityAppeal" ADD CONSTRAINT "ReliabilityAppeal_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReliabilityAppeal" ADD CONSTRAINT "ReliabilityAppeal_reviewed_by_fkey" FOREIGN KEY ("reviewed_by") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "ReliabilityEvent" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "ReliabilityAppeal" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "PeerReview" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "reviewer_id" TEXT NOT NULL,
+    "reviewee_id" TEXT NOT NULL,
+    "punctuality" INTEGER NOT NULL,
+    "sportsmanship" INTEGER NOT NULL,
+    "skill_accuracy" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PeerReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PeerReview_session_id_reviewer_id_reviewee_id_key" ON "PeerReview"("session_id", "reviewer_id", "reviewee_id");
+
+-- CreateIndex
+CREATE INDEX "PeerReview_reviewee_id_created_at_idx" ON "PeerReview"("reviewee_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "PeerReview_reviewer_id_idx" ON "PeerReview"("reviewer_id");
+
+-- AddForeignKey
+ALTER TABLE "PeerReview" ADD CONSTRAINT "PeerReview_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PeerReview" ADD CONSTRAINT "PeerReview_reviewer_id_fkey" FOREIGN KEY ("reviewer_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PeerReview" ADD CONSTRAINT "PeerReview_reviewee_id_fkey" FOREIGN KEY ("reviewee_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "PeerReview" ENABLE ROW LEVEL SECURITY;
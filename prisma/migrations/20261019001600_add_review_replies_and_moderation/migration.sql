@@ -0,0 +1,58 @@
+-- AlterEnum
+ALTER TYPE "ReportEntityType" ADD VALUE 'REVIEW';
+
+-- CreateEnum
+CREATE TYPE "ReviewModerationAction" AS ENUM ('HIDE', 'RESTORE', 'DELETE');
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "host_reply" TEXT,
+ADD COLUMN "host_reply_by" TEXT,
+ADD COLUMN "host_replied_at" TIMESTAMP(3),
+ADD COLUMN "hidden_at" TIMESTAMP(3),
+ADD COLUMN "hidden_reason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "review_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReviewModerationLog" (
+    "id" TEXT NOT NULL,
+    "review_id" TEXT,
+    "report_id" TEXT,
+    "admin_id" TEXT,
+    "action" "ReviewModerationAction" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "review_user_id" TEXT NOT NULL,
+    "review_rating" INTEGER NOT NULL,
+    "review_comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewModerationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Report_review_id_idx" ON "Report"("review_id");
+
+-- CreateIndex
+CREATE INDEX "ReviewModerationLog_review_id_idx" ON "ReviewModerationLog"("review_id");
+
+-- CreateIndex
+CREATE INDEX "ReviewModerationLog_created_at_idx" ON "ReviewModerationLog"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_host_reply_by_fkey" FOREIGN KEY ("host_reply_by") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_review_id_fkey" FOREIGN KEY ("review_id") REFERENCES "Review"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewModerationLog" ADD CONSTRAINT "ReviewModerationLog_review_id_fkey" FOREIGN KEY ("review_id") REFERENCES "Review"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewModerationLog" ADD CONSTRAINT "ReviewModerationLog_report_id_fkey" FOREIGN KEY ("report_id") REFERENCES "Report"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewModerationLog" ADD CONSTRAINT "ReviewModerationLog_admin_id_fkey" FOREIGN KEY ("admin_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "ReviewModerationLog" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "host_rating_avg" DOUBLE PRECISION,
+ADD COLUMN "host_review_count" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "SportCenter" ADD COLUMN "rating_avg" DOUBLE PRECISION,
+ADD COLUMN "review_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "User_host_rating_avg_idx" ON "User"("host_rating_avg");
+
+-- Backfill from the existing visible reviews
+UPDATE "User" u
+SET "host_rating_avg" = agg.avg_rating,
+    "host_review_count" = agg.review_count
+FROM (
+    SELECT s."created_by" AS id,
+           ROUND(AVG(r."rating")::numeric, 1)::double precision AS avg_rating,
+           COUNT(*)::integer AS review_count
+    FROM "Review" r
+    JOIN "Session" s ON s."id" = r."session_id"
+    WHERE r."hidden_at" IS NULL
+    GROUP BY s."created_by"
+) agg
+WHERE u."id" = agg.id;
+
+UPDATE "SportCenter" c
+SET "rating_avg" = agg.avg_rating,
+    "review_count" = agg.review_count
+FROM (
+    SELECT s."sport_center_id" AS id,
+           ROUND(AVG(r."rating")::numeric, 1)::double precision AS avg_rating,
+           COUNT(*)::integer AS review_count
+    FROM "Review" r
+    JOIN "Session" s ON s."id" = r."session_id"
+    WHERE r."hidden_at" IS NULL
+    GROUP BY s."sport_center_id"
+) agg
+WHERE c."id" = agg.id;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "MessageRevisionAction" AS ENUM ('EDIT', 'DELETE');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "edited_at" TIMESTAMP(3),
+ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "MessageRevision" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "action" "MessageRevisionAction" NOT NULL,
+    "content" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MessageRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MessageRevision_message_id_created_at_idx" ON "MessageRevision"("message_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "MessageRevision" ADD CONSTRAINT "MessageRevision_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MessageRevision" ADD CONSTRAINT "MessageRevision_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "MessageRevision" ENABLE ROW LEVEL SECURITY;
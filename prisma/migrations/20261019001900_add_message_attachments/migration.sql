@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "attachment_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "MessageAttachment" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "storage_path" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MessageAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MessageAttachment_message_id_idx" ON "MessageAttachment"("message_id");
+
+-- AddForeignKey
+ALTER TABLE "MessageAttachment" ADD CONSTRAINT "MessageAttachment_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (tables are only accessed through Prisma)
+ALTER TABLE "MessageAttachment" ENABLE ROW LEVEL SECURITY;
+
+-- Private bucket for chat images. No storage policies: files are only read
+-- and written by the API with the service role.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('chat-attachments', 'chat-attachments', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO NOTHING;
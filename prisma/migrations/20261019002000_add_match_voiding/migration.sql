@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN "voided_at" TIMESTAMP(3),
+ADD COLUMN "voided_by" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_voided_by_fkey" FOREIGN KEY ("voided_by") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
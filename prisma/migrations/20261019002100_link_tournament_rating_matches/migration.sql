@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "TournamentMatch" ADD COLUMN "rating_match_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentMatch_rating_match_id_key" ON "TournamentMatch"("rating_match_id");
+
+-- AddForeignKey
+ALTER TABLE "TournamentMatch" ADD CONSTRAINT "TournamentMatch_rating_match_id_fkey" FOREIGN KEY ("rating_match_id") REFERENCES "Match"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -17,7 +17,14 @@ vi.mock('@/lib/prisma', () => ({
     sportCenter: {
       findUnique: vi.fn(),
     },
+    user: {
+      findUnique: vi.fn(),
+    },
+    sportRating: {
+      findMany: vi.fn(),
+    },
     $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
   },
 }));
 
@@ -130,6 +137,20 @@ describe('Sessions API Routes', () => {
       );
     });
 
+    it('should only list published public sessions', async () => {
+      const request = new Request('http://localhost:3000/api/sessions');
+      await GET(request);
+
+      expect(mockPrisma.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: 'PUBLISHED',
+            visibility: 'PUBLIC'
+          })
+        })
+      );
+    });
+
     it('should filter by skill level', async () => {
       const request = new Request('http://localhost:3000/api/sessions?skill_level=intermediate');
       await GET(request);
@@ -169,23 +190,121 @@ describe('Sessions API Routes', () => {
       );
     });
 
-    it('should handle search across multiple fields', async () => {
-      const request = new Request('http://localhost:3000/api/sessions?search=basketball');
+    it('should only list sessions the user is rated for when eligible=true', async () => {
+      mockAuth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+      mockPrisma.sportRating.findMany.mockResolvedValue([{ sport_type: 'tennis', rating: 1620 }]);
+
+      const request = new Request('http://localhost:3000/api/sessions?eligible=true');
       await GET(request);
 
+      expect(mockPrisma.sportRating.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { user_id: 'user-123' } })
+      );
       expect(mockPrisma.session.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: expect.objectContaining({
             OR: [
-              { sport_type: { contains: 'basketball', mode: 'insensitive' } },
-              { sport_center: { name_en: { contains: 'basketball', mode: 'insensitive' } } },
-              { sport_center: { name_ja: { contains: 'basketball', mode: 'insensitive' } } }
-            ]
+              { min_rating: null },
+              { min_rating: { lte: 1500 }, sport_type: { notIn: ['tennis'] } },
+              { sport_type: 'tennis', min_rating: { lte: 1620 } },
+            ],
           })
         })
       );
     });
 
+    it('should ignore eligible=true for signed-out users', async () => {
+      mockAuth.getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+      const request = new Request('http://localhost:3000/api/sessions?eligible=true');
+      await GET(request);
+
+      expect(mockPrisma.sportRating.findMany).not.toHaveBeenCalled();
+      const { where } = mockPrisma.session.findMany.mock.calls[0][0];
+      expect(where.OR).toBeUndefined();
+    });
+
+    it('should full-text search and rank sessions by relevance', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        { id: 'session-2', rank: 0.6 },
+        { id: 'session-1', rank: 0.2 },
+      ]);
+      mockPrisma.session.findMany.mockResolvedValue([
+        { ...mockSessionsData[0], description_en: 'Friendly doubles games, all welcome' },
+        mockSessionsData[1],
+      ]);
+
+      const request = new Request('http://localhost:3000/api/sessions?search=doubles');
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.$queryRaw.mock.calls[0]).toContain('doubles:*');
+      expect(mockPrisma.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: { in: ['session-2', 'session-1'] },
+          }),
+        })
+      );
+      expect(data.data.map((s: any) => s.id)).toEqual(['session-2', 'session-1']);
+      expect(data.data[1].search_snippet).toEqual({
+        field: 'description_en',
+        text: 'Friendly doubles games, all welcome',
+        highlights: [[9, 16]],
+      });
+      expect(data.pagination.totalCount).toBe(2);
+    });
+
+    it('should keep date order for text searches sorted by date', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ id: 'session-1', rank: 0.1 }]);
+
+      const request = new Request('http://localhost:3000/api/sessions?search=バドミントン&sort=date');
+      await GET(request);
+
+      expect(mockPrisma.$queryRaw.mock.calls[0]).toContain(
+        '(バド <-> ドミ <-> ミン <-> ント <-> トン)'
+      );
+      expect(mockPrisma.session.count).toHaveBeenCalled();
+      expect(mockPrisma.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ skip: 0, take: 20 })
+      );
+    });
+
+    it('should sort by host rating with unrated hosts last', async () => {
+      const request = new Request('http://localhost:3000/api/sessions?sort=host_rating');
+      await GET(request);
+
+      expect(mockPrisma.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [
+            { creator: { host_rating_avg: { sort: 'desc', nulls: 'last' } } },
+            { creator: { host_review_count: 'desc' } },
+            { date_time: 'asc' },
+          ],
+          skip: 0,
+          take: 20,
+        })
+      );
+    });
+
+    it('should include host and sport center ratings', async () => {
+      const request = new Request('http://localhost:3000/api/sessions');
+      await GET(request);
+
+      const { select } = mockPrisma.session.findMany.mock.calls[0][0];
+      expect(select.creator.select).toMatchObject({ host_rating_avg: true, host_review_count: true });
+      expect(select.sport_center.select).toMatchObject({ rating_avg: true, review_count: true });
+    });
+
+    it('should ignore searches without searchable text', async () => {
+      const request = new Request('http://localhost:3000/api/sessions?search=%21%21');
+      await GET(request);
+
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+      expect(mockPrisma.session.findMany.mock.calls[0][0].where.id).toBeUndefined();
+    });
+
     it('should handle today filter', async () => {
       const request = new Request('http://localhost:3000/api/sessions?date=today');
       await GET(request);
@@ -273,6 +392,66 @@ describe('Sessions API Routes', () => {
       expect(data.data).toEqual([]);
       expect(data.pagination.totalCount).toBe(0);
     });
+
+    it('should return sessions within the radius sorted by distance', async () => {
+      // Shinjuku (~0.5 km away), Yokohama (~27 km away), Shibuya (~3 km away)
+      mockPrisma.session.findMany.mockResolvedValue([
+        { ...mockSessionsData[0], id: 'shinjuku', sport_center: { id: 'c1', latitude: 35.6938, longitude: 139.7034 } },
+        { ...mockSessionsData[0], id: 'yokohama', sport_center: { id: 'c2', latitude: 35.4437, longitude: 139.6380 } },
+        { ...mockSessionsData[1], id: 'shibuya', sport_center: { id: 'c3', latitude: 35.6595, longitude: 139.7005 } },
+      ]);
+
+      const request = new Request('http://localhost:3000/api/sessions?near=35.6900,139.7000&radius_km=10');
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.map((s: any) => s.id)).toEqual(['shinjuku', 'shibuya']);
+      expect(data.data[0].distance_km).toBeLessThan(data.data[1].distance_km);
+      expect(data.pagination.totalCount).toBe(2);
+      expect(mockPrisma.session.count).not.toHaveBeenCalled();
+      expect(mockPrisma.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: [
+              {
+                sport_center: expect.objectContaining({
+                  latitude: { gte: expect.any(Number), lte: expect.any(Number) },
+                }),
+              },
+            ],
+          }),
+        })
+      );
+    });
+
+    it('should filter by bounding box', async () => {
+      const request = new Request('http://localhost:3000/api/sessions?bbox=139.6,35.6,139.8,35.7');
+      await GET(request);
+
+      expect(mockPrisma.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: [
+              {
+                sport_center: {
+                  latitude: { gte: 35.6, lte: 35.7 },
+                  longitude: { gte: 139.6, lte: 139.8 },
+                },
+              },
+            ],
+          }),
+        })
+      );
+    });
+
+    it('should reject malformed geographic parameters', async () => {
+      for (const query of ['near=abc', 'near=35.6,139.7&radius_km=500', 'bbox=1,2,3']) {
+        const response = await GET(new Request(`http://localhost:3000/api/sessions?${query}`));
+        expect(response.status).toBe(400);
+      }
+      expect(mockPrisma.session.findMany).not.toHaveBeenCalled();
+    });
   });
 
   describe('POST /api/sessions', () => {
@@ -338,6 +517,9 @@ describe('Sessions API Routes', () => {
           }
         });
       });
+      // No clashing sessions in the creator's schedule
+      mockPrisma.session.findMany.mockResolvedValue([]);
+      mockPrisma.user.findUnique.mockResolvedValue({ travel_buffer_minutes: 30 });
       // Mock the sportCenter.findUnique call that happens after the transaction
       mockPrisma.sportCenter.findUnique.mockResolvedValue({
         id: '123e4567-e89b-12d3-a456-426614174000',
@@ -588,6 +770,44 @@ describe('Sessions API Routes', () => {
       expect(response.status).toBe(400);
     });
 
+    it('should only allow a minimum rating on competitive sessions', async () => {
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validSessionData, vibe: 'CASUAL', min_rating: 1600 })
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Only competitive sessions can set a minimum rating');
+    });
+
+    it('should save the minimum rating of a competitive session', async () => {
+      let createArgs: any;
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => callback({
+        session: {
+          create: vi.fn().mockImplementation(async (args: any) => {
+            createArgs = args;
+            return { id: 'session-123', sport_center_id: validSessionData.sport_center_id, ...args.data };
+          }),
+        },
+        userSession: { create: vi.fn().mockResolvedValue({}) },
+      }));
+
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validSessionData, vibe: 'COMPETITIVE', min_rating: 1600 })
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      expect(createArgs.data).toEqual(expect.objectContaining({ vibe: 'COMPETITIVE', min_rating: 1600 }));
+    });
+
     it('should use default values when optional fields omitted', async () => {
       const minimalData = {
         sport_center_id: '123e4567-e89b-12d3-a456-426614174000',
@@ -676,5 +896,211 @@ describe('Sessions API Routes', () => {
         }
       });
     });
+    it('should save a session as a draft', async () => {
+      let sessionCreateMock: any;
+
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => {
+        sessionCreateMock = vi.fn().mockResolvedValue({ id: 'draft-session', status: 'DRAFT' });
+
+        return callback({
+          session: { create: sessionCreateMock },
+          userSession: { create: vi.fn().mockResolvedValue({}) },
+        });
+      });
+
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validSessionData, status: 'DRAFT' })
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      expect(sessionCreateMock).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'DRAFT' })
+      });
+    });
+
+    it('should create a session series with one session per occurrence', async () => {
+      let sessionCreateMock: any;
+      let seriesCreateMock: any;
+      let userSessionCreateMock: any;
+
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => {
+        let counter = 0;
+        seriesCreateMock = vi.fn().mockResolvedValue({ id: 'series-1', frequency: 'WEEKLY' });
+        sessionCreateMock = vi.fn().mockImplementation(async ({ data }: any) => ({
+          id: `session-${++counter}`,
+          ...data,
+        }));
+        userSessionCreateMock = vi.fn().mockResolvedValue({});
+
+        return callback({
+          sessionSeries: { create: seriesCreateMock },
+          session: { create: sessionCreateMock },
+          userSession: { create: userSessionCreateMock },
+        });
+      });
+
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...validSessionData,
+          recurrence: { frequency: 'WEEKLY', count: 4 },
+        })
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.id).toBe('session-1');
+      expect(data.series).toMatchObject({ id: 'series-1', occurrences: 4 });
+      expect(seriesCreateMock).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          frequency: 'WEEKLY',
+          occurrence_count: 4,
+          created_by: mockUser.id,
+        })
+      });
+      expect(sessionCreateMock).toHaveBeenCalledTimes(4);
+      expect(sessionCreateMock).toHaveBeenCalledWith({
+        data: expect.objectContaining({ series_id: 'series-1' })
+      });
+      // Creator auto-joins every occurrence
+      expect(userSessionCreateMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('should reject a recurrence without an end date or count', async () => {
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...validSessionData,
+          recurrence: { frequency: 'WEEKLY' },
+        })
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Recurring sessions need an end date or an occurrence count');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should set the decide-by deadline for a minimum participant threshold', async () => {
+      let sessionCreateMock: any;
+
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => {
+        sessionCreateMock = vi.fn().mockResolvedValue({ id: 'session-123' });
+
+        return callback({
+          session: { create: sessionCreateMock },
+          userSession: { create: vi.fn().mockResolvedValue({}) },
+        });
+      });
+
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validSessionData, min_participants: 4, decide_by_hours: 12 })
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      const { data } = sessionCreateMock.mock.calls[0][0];
+      expect(data.min_participants).toBe(4);
+      expect(new Date(validSessionData.date_time).getTime() - data.decide_by.getTime()).toBe(12 * 60 * 60 * 1000);
+    });
+
+    it('should reject a minimum above the maximum', async () => {
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validSessionData, min_participants: 12, decide_by_hours: 12 })
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Minimum participants cannot exceed maximum participants');
+    });
+
+    it('should reject a decide-by deadline that has already passed', async () => {
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validSessionData, min_participants: 4, decide_by_hours: 48 })
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('The decide-by deadline must be in the future');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a session that clashes with the creator\'s schedule', async () => {
+      const startsAt = new Date(validSessionData.date_time);
+      mockPrisma.session.findMany.mockResolvedValue([{
+        id: 'other-session',
+        sport_type: 'tennis',
+        date_time: new Date(startsAt.getTime() + 60 * 60 * 1000),
+        duration_minutes: 60,
+        sport_center: { name_en: 'Shibuya Courts' },
+      }]);
+
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validSessionData)
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.conflicts).toEqual([
+        expect.objectContaining({ session_id: 'other-session', sport_center_name: 'Shibuya Courts' }),
+      ]);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should create a clashing session once conflicts are allowed', async () => {
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validSessionData, allow_conflicts: true })
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.session.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should not check drafts for conflicts', async () => {
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => callback({
+        session: { create: vi.fn().mockResolvedValue({ id: 'draft-session', status: 'DRAFT' }) },
+        userSession: { create: vi.fn().mockResolvedValue({}) },
+      }));
+
+      const request = new Request('http://localhost:3000/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...validSessionData, status: 'DRAFT' })
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.session.findMany).not.toHaveBeenCalled();
+    });
   });
 });
\ No newline at end of file
@@ -1,20 +1,21 @@
 import React from 'react';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, act } from '@testing-library/react';
 import { vi } from 'vitest';
 import ChatBox from '@/app/components/chat/ChatBox';
 
 // Mock useConversationMessages hook
 vi.mock('@/lib/realtime/client', () => ({
-  useConversationMessages: vi.fn((id, callback) => {
-    // Expose the callback to the test so we can trigger real-time messages manually
+  useConversationMessages: vi.fn((id, callback, updateCallback) => {
+    // Expose the callbacks to the test so we can trigger real-time messages manually
     (global as any).triggerRealtimeMessage = callback;
+    (global as any).triggerRealtimeUpdate = updateCallback;
   }),
 }));
 
 // Mock csrfPost and csrfPut
 vi.mock('@/lib/csrfClient', () => ({
   csrfPost: vi.fn(),
-  csrfPut: vi.fn(),
+  csrfPut: vi.fn(() => Promise.resolve({})),
 }));
 
 describe('ChatBox Component', () => {
@@ -24,6 +25,7 @@ describe('ChatBox Component', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     (global as any).triggerRealtimeMessage = null;
+    (global as any).triggerRealtimeUpdate = null;
   });
 
   it('handles array format response from the API correctly', async () => {
@@ -116,4 +118,90 @@ describe('ChatBox Component', () => {
     const renderedMessages = screen.getAllByText(/Unique message/);
     expect(renderedMessages.length).toBe(1);
   });
+
+  it('applies real-time edits and deletions in place', async () => {
+    const sender = { id: 'user-2', email: 'user2@example.com', username: 'user2' };
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        { id: 'msg-1', content: 'Original text', sender_id: 'user-2', sender, created_at: new Date().toISOString() },
+        { id: 'msg-2', content: 'Regrettable text', sender_id: 'user-2', sender, created_at: new Date().toISOString() },
+      ],
+    });
+
+    render(<ChatBox conversationId="conv-1" currentUserId="user-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Original text')).toBeInTheDocument();
+    });
+
+    // Realtime rows carry no sender; the loaded one must be kept
+    act(() => {
+      (global as any).triggerRealtimeUpdate({
+        id: 'msg-1',
+        content: 'Edited text',
+        sender_id: 'user-2',
+        edited_at: new Date().toISOString(),
+      });
+      (global as any).triggerRealtimeUpdate({
+        id: 'msg-2',
+        content: '',
+        sender_id: 'user-2',
+        deleted_at: new Date().toISOString(),
+      });
+    });
+
+    expect(screen.getByText('Edited text')).toBeInTheDocument();
+    expect(screen.getByText(/edited/)).toBeInTheDocument();
+    expect(screen.getAllByText('user2')).toHaveLength(1);
+    expect(screen.queryByText('Regrettable text')).not.toBeInTheDocument();
+    expect(screen.getByText('This message was deleted')).toBeInTheDocument();
+  });
+
+  it('loads attachments announced by a real-time insert and shows thumbnails', async () => {
+    const sender = { id: 'user-2', email: 'user2@example.com', username: 'user2' };
+    const attachment = {
+      id: 'att-1',
+      content_type: 'image/png',
+      size_bytes: 1024,
+      url: '/api/conversations/conv-1/attachments/att-1',
+      thumbnail_url: '/api/conversations/conv-1/attachments/att-1?variant=thumbnail',
+    };
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => [] })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: 'msg-3',
+          content: '',
+          sender_id: 'user-2',
+          sender,
+          created_at: new Date().toISOString(),
+          attachment_count: 1,
+          attachments: [attachment],
+        }),
+      });
+
+    render(<ChatBox conversationId="conv-1" currentUserId="user-1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No messages yet')).toBeInTheDocument();
+    });
+
+    // Realtime rows only carry the attachment count
+    act(() => {
+      (global as any).triggerRealtimeMessage({
+        id: 'msg-3',
+        content: '',
+        sender_id: 'user-2',
+        created_at: new Date().toISOString(),
+        attachment_count: 1,
+      });
+    });
+
+    const thumbnail = await screen.findByAltText('Attachment');
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/conversations/conv-1/messages/msg-3');
+    expect(thumbnail).toHaveAttribute('src', attachment.thumbnail_url);
+    expect(thumbnail.closest('a')).toHaveAttribute('href', attachment.url);
+  });
 });
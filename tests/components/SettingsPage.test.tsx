@@ -85,6 +85,7 @@ describe('SettingsPage Component', () => {
       language_preference: 'ja',
       notification_email: true,
       notification_push: true,
+      travel_buffer_minutes: 30,
     });
 
     // Assert: button should be in saving state and the Save icon is hidden, while loader is present
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  checkInWindow,
+  CHECK_IN_ROTATION_SECONDS,
+  createCheckInToken,
+  isCheckInOpen,
+  resolveUnmarkedAttendance,
+  sessionEndsAt,
+  verifyCheckInToken,
+} from '@/lib/attendance';
+
+const SESSION_ID = '11111111-1111-4111-8111-111111111111';
+
+describe('Attendance', () => {
+  beforeAll(() => {
+    process.env.CHECK_IN_TOKEN_SECRET = 'test-check-in-secret-must-be-long-enough';
+  });
+
+  describe('check-in window', () => {
+    const start = new Date('2026-10-19T10:00:00Z');
+
+    it('should open 30 minutes before the start and close an hour after', () => {
+      expect(checkInWindow(start)).toEqual({
+        opens_at: new Date('2026-10-19T09:30:00Z'),
+        closes_at: new Date('2026-10-19T11:00:00Z'),
+      });
+    });
+
+    it('should only be open inside the window', () => {
+      expect(isCheckInOpen(start, new Date('2026-10-19T09:29:00Z'))).toBe(false);
+      expect(isCheckInOpen(start, new Date('2026-10-19T09:45:00Z'))).toBe(true);
+      expect(isCheckInOpen(start, new Date('2026-10-19T10:59:00Z'))).toBe(true);
+      expect(isCheckInOpen(start, new Date('2026-10-19T11:01:00Z'))).toBe(false);
+    });
+  });
+
+  describe('check-in tokens', () => {
+    const now = new Date('2026-10-19T10:00:05Z');
+    const later = (seconds: number) => new Date(now.getTime() + seconds * 1000);
+
+    it('should accept the current code', () => {
+      const { token, expires_at } = createCheckInToken(SESSION_ID, now);
+
+      expect(verifyCheckInToken(SESSION_ID, token, now)).toBe(true);
+      expect(expires_at.getTime()).toBeGreaterThan(now.getTime());
+      expect(expires_at.getTime() - now.getTime()).toBeLessThanOrEqual(CHECK_IN_ROTATION_SECONDS * 1000);
+    });
+
+    it('should accept the previous code but not older ones', () => {
+      const { token } = createCheckInToken(SESSION_ID, now);
+
+      expect(verifyCheckInToken(SESSION_ID, token, later(CHECK_IN_ROTATION_SECONDS))).toBe(true);
+      expect(verifyCheckInToken(SESSION_ID, token, later(CHECK_IN_ROTATION_SECONDS * 2))).toBe(false);
+    });
+
+    it('should reject codes for another session or tampered codes', () => {
+      const { token } = createCheckInToken(SESSION_ID, now);
+      const [step, signature] = token.split('.');
+
+      expect(verifyCheckInToken('22222222-2222-4222-8222-222222222222', token, now)).toBe(false);
+      expect(verifyCheckInToken(SESSION_ID, `${Number(step) + 1}.${signature}`, later(CHECK_IN_ROTATION_SECONDS))).toBe(false);
+      expect(verifyCheckInToken(SESSION_ID, 'garbage', now)).toBe(false);
+    });
+  });
+
+  describe('resolveUnmarkedAttendance', () => {
+    const hosts = new Set(['host']);
+
+    it('should mark everyone who did not check in as a no-show when others did', () => {
+      const resolution = resolveUnmarkedAttendance([
+        { user_id: 'host', status: 'REGISTERED' },
+        { user_id: 'a', status: 'ATTENDED' },
+        { user_id: 'b', status: 'REGISTERED' },
+      ], hosts);
+
+      expect(resolution).toEqual({ attended: ['host', 'a'], no_show: ['b'], unresolved: [] });
+    });
+
+    it('should leave everyone unresolved when nobody checked in', () => {
+      const resolution = resolveUnmarkedAttendance([
+        { user_id: 'host', status: 'REGISTERED' },
+        { user_id: 'a', status: 'REGISTERED' },
+      ], hosts);
+
+      expect(resolution).toEqual({ attended: [], no_show: [], unresolved: ['host', 'a'] });
+    });
+
+    it('should not count a host checking in as evidence', () => {
+      const resolution = resolveUnmarkedAttendance([
+        { user_id: 'host', status: 'ATTENDED' },
+        { user_id: 'a', status: 'REGISTERED' },
+      ], hosts);
+
+      expect(resolution).toEqual({ attended: ['host'], no_show: [], unresolved: ['a'] });
+    });
+  });
+
+  describe('sessionEndsAt', () => {
+    it('should add the duration to the start', () => {
+      expect(sessionEndsAt('2026-10-19T10:00:00Z', 90)).toEqual(new Date('2026-10-19T11:30:00Z'));
+    });
+  });
+});
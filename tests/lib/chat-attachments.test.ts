@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attachmentUrl,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  validateAttachments,
+  withAttachmentUrls,
+} from '@/lib/chat-attachments';
+import { imageExtension, MAX_IMAGE_SIZE, validateImageFile } from '@/lib/uploads';
+
+const png = { type: 'image/png', size: 1024 };
+
+describe('Image uploads', () => {
+  it('should accept supported images within the size limit', () => {
+    expect(validateImageFile(png)).toBeNull();
+    expect(validateImageFile({ type: 'image/gif', size: MAX_IMAGE_SIZE })).toBeNull();
+  });
+
+  it('should reject other file types and oversized files', () => {
+    expect(validateImageFile({ type: 'application/pdf', size: 1024 })).toMatch(/Invalid file type/);
+    expect(validateImageFile({ type: 'image/svg+xml', size: 1024 })).toMatch(/Invalid file type/);
+    expect(validateImageFile({ type: 'image/png', size: MAX_IMAGE_SIZE + 1 })).toBe(
+      'File too large. Maximum size is 5MB.'
+    );
+    expect(validateImageFile({ type: 'image/png', size: 3 * 1024 * 1024 }, 2 * 1024 * 1024)).toBe(
+      'File too large. Maximum size is 2MB.'
+    );
+  });
+
+  it('should name files after their type', () => {
+    expect(imageExtension('image/jpeg')).toBe('jpg');
+    expect(imageExtension('image/webp')).toBe('webp');
+  });
+});
+
+describe('Chat attachments', () => {
+  describe('validateAttachments', () => {
+    it('should accept up to the per-message limit', () => {
+      expect(validateAttachments([])).toBeNull();
+      expect(validateAttachments(Array(MAX_ATTACHMENTS_PER_MESSAGE).fill(png))).toBeNull();
+    });
+
+    it('should reject too many files', () => {
+      expect(validateAttachments(Array(MAX_ATTACHMENTS_PER_MESSAGE + 1).fill(png))).toBe(
+        `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} images per message.`
+      );
+    });
+
+    it('should reject the batch if any file is invalid', () => {
+      expect(validateAttachments([png, { type: 'text/html', size: 10 }])).toMatch(/Invalid file type/);
+      expect(validateAttachments([png, { type: 'image/jpeg', size: MAX_IMAGE_SIZE + 1 }])).toMatch(/File too large/);
+    });
+  });
+
+  describe('withAttachmentUrls', () => {
+    it('should replace storage paths with participant-checked URLs', () => {
+      const message = withAttachmentUrls({
+        id: 'message-1',
+        conversation_id: 'conv-1',
+        content: '',
+        attachments: [
+          { id: 'att-1', storage_path: 'conv-1/abc.png', content_type: 'image/png', size_bytes: 1024 },
+        ],
+      });
+
+      expect(message.attachments).toEqual([
+        {
+          id: 'att-1',
+          content_type: 'image/png',
+          size_bytes: 1024,
+          url: '/api/conversations/conv-1/attachments/att-1',
+          thumbnail_url: '/api/conversations/conv-1/attachments/att-1?variant=thumbnail',
+        },
+      ]);
+      expect(JSON.stringify(message)).not.toContain('storage_path');
+    });
+
+    it('should default to no attachments', () => {
+      expect(withAttachmentUrls({ id: 'message-1', conversation_id: 'conv-1' }).attachments).toEqual([]);
+    });
+  });
+
+  it('should build attachment URLs', () => {
+    expect(attachmentUrl('conv-1', 'att-1')).toBe('/api/conversations/conv-1/attachments/att-1');
+    expect(attachmentUrl('conv-1', 'att-1', 'thumbnail')).toBe(
+      '/api/conversations/conv-1/attachments/att-1?variant=thumbnail'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  boundingBoxAround,
+  boundingBoxWhere,
+  distanceKm,
+  parseBoundingBox,
+  parseLatLng,
+} from '@/lib/geo';
+
+describe('Geographic search helpers', () => {
+  describe('parseLatLng', () => {
+    it('should parse a lat,lng pair', () => {
+      expect(parseLatLng('35.6895,139.6917')).toEqual({ lat: 35.6895, lng: 139.6917 });
+    });
+
+    it('should reject malformed or out-of-range values', () => {
+      expect(parseLatLng(null)).toBeNull();
+      expect(parseLatLng('35.6895')).toBeNull();
+      expect(parseLatLng('35.6895,')).toBeNull();
+      expect(parseLatLng('abc,139')).toBeNull();
+      expect(parseLatLng('95,139')).toBeNull();
+      expect(parseLatLng('35,190')).toBeNull();
+    });
+  });
+
+  describe('parseBoundingBox', () => {
+    it('should parse west,south,east,north', () => {
+      expect(parseBoundingBox('139.6,35.6,139.8,35.7')).toEqual({
+        west: 139.6,
+        south: 35.6,
+        east: 139.8,
+        north: 35.7,
+      });
+    });
+
+    it('should reject boxes with south above north', () => {
+      expect(parseBoundingBox('139.6,35.7,139.8,35.6')).toBeNull();
+    });
+
+    it('should reject the wrong number of values', () => {
+      expect(parseBoundingBox('139.6,35.6,139.8')).toBeNull();
+    });
+  });
+
+  describe('distanceKm', () => {
+    it('should be zero for the same point', () => {
+      const tokyo = { lat: 35.6895, lng: 139.6917 };
+      expect(distanceKm(tokyo, tokyo)).toBe(0);
+    });
+
+    it('should match the known Tokyo-Osaka distance', () => {
+      const tokyo = { lat: 35.6812, lng: 139.7671 };
+      const osaka = { lat: 34.7025, lng: 135.4959 };
+      expect(distanceKm(tokyo, osaka)).toBeCloseTo(403, -1);
+    });
+  });
+
+  describe('boundingBoxAround', () => {
+    it('should contain points on the radius', () => {
+      const center = { lat: 35.6895, lng: 139.6917 };
+      const box = boundingBoxAround(center, 5);
+
+      // ~5 km north and east of the center
+      expect(box.north).toBeGreaterThan(center.lat + 0.044);
+      expect(box.east).toBeGreaterThan(center.lng + 0.054);
+      expect(box.south).toBeLessThan(center.lat);
+      expect(box.west).toBeLessThan(center.lng);
+    });
+  });
+
+  describe('boundingBoxWhere', () => {
+    it('should split boxes that cross the antimeridian', () => {
+      expect(boundingBoxWhere({ west: 170, south: -10, east: -170, north: 10 })).toEqual({
+        latitude: { gte: -10, lte: 10 },
+        OR: [{ longitude: { gte: 170 } }, { longitude: { lte: -170 } }],
+      });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCalendar,
+  buildSessionEvent,
+  escapeText,
+  foldLine,
+  formatDateTime,
+  generateCalendarToken,
+} from '@/lib/ical';
+
+describe('iCalendar export', () => {
+  const session = {
+    id: 'session-1',
+    sport_type: 'table-tennis',
+    skill_level: 'beginner',
+    date_time: new Date('2026-11-07T10:00:00Z'),
+    duration_minutes: 90,
+    description_en: 'Bring shoes; rackets provided',
+    description_ja: null,
+    status: 'PUBLISHED',
+    cancellation_reason: null,
+    min_participants: null,
+    confirmed_at: null,
+    updated_at: new Date('2026-10-19T12:00:00Z'),
+    sport_center: {
+      name_en: 'Tokyo Gym',
+      address_en: '1-17-1 Sendagaya, Shibuya',
+    },
+  };
+  const now = new Date('2026-10-20T00:00:00Z');
+
+  describe('escapeText', () => {
+    it('should escape separators and newlines', () => {
+      expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should leave short lines alone', () => {
+      expect(foldLine('SUMMARY:Badminton')).toBe('SUMMARY:Badminton');
+    });
+
+    it('should fold at 75 octets without splitting multi-byte characters', () => {
+      const folded = foldLine(`DESCRIPTION:${'東京体育館'.repeat(10)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach((line) => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+      expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(
+        `DESCRIPTION:${'東京体育館'.repeat(10)}`
+      );
+    });
+  });
+
+  describe('formatDateTime', () => {
+    it('should format UTC date-times', () => {
+      expect(formatDateTime(new Date('2026-11-07T10:00:00.000Z'))).toBe('20261107T100000Z');
+    });
+  });
+
+  describe('buildSessionEvent', () => {
+    it('should describe the session with its location and end time', () => {
+      const lines = buildSessionEvent(session, 'https://example.com', now);
+
+      expect(lines).toContain('UID:session-session-1@sportsmatch.tokyo');
+      expect(lines).toContain('DTSTART:20261107T100000Z');
+      expect(lines).toContain('DTEND:20261107T113000Z');
+      expect(lines).toContain('SUMMARY:Table tennis (beginner)');
+      expect(lines).toContain('LOCATION:Tokyo Gym\\, 1-17-1 Sendagaya\\, Shibuya');
+      expect(lines).toContain('URL:https://example.com/sessions/session-1');
+      expect(lines).toContain('STATUS:CONFIRMED');
+    });
+
+    it('should mark cancelled sessions with the reason', () => {
+      const lines = buildSessionEvent(
+        { ...session, status: 'CANCELLED', cancellation_reason: 'Gym closed' },
+        'https://example.com',
+        now
+      );
+
+      expect(lines).toContain('STATUS:CANCELLED');
+      expect(lines).toContain('SUMMARY:Cancelled: Table tennis (beginner)');
+      expect(lines.find((line) => line.startsWith('DESCRIPTION:'))).toContain('Cancelled: Gym closed');
+    });
+
+    it('should mark sessions still short of their minimum as tentative', () => {
+      const lines = buildSessionEvent({ ...session, min_participants: 4 }, 'https://example.com', now);
+
+      expect(lines).toContain('STATUS:TENTATIVE');
+    });
+
+    it('should raise SEQUENCE when the session is edited', () => {
+      const sequence = (lines: string[]) =>
+        Number(lines.find((line) => line.startsWith('SEQUENCE:'))!.split(':')[1]);
+
+      const before = buildSessionEvent(session, 'https://example.com', now);
+      const after = buildSessionEvent(
+        { ...session, updated_at: new Date('2026-10-19T13:00:00Z') },
+        'https://example.com',
+        now
+      );
+
+      expect(sequence(after)).toBeGreaterThan(sequence(before));
+    });
+  });
+
+  describe('buildCalendar', () => {
+    it('should wrap events in a CRLF-delimited calendar', () => {
+      const calendar = buildCalendar([session], { baseUrl: 'https://example.com', name: 'SportsMatch Tokyo', now });
+
+      expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(calendar).toContain('X-WR-CALNAME:SportsMatch Tokyo');
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    });
+  });
+
+  describe('generateCalendarToken', () => {
+    it('should generate distinct URL-safe tokens', () => {
+      const token = generateCalendarToken();
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+      expect(generateCalendarToken()).not.toBe(token);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { createInviteToken, verifyInviteToken, isInviteUsable, findValidInvite, canViewSession } from '@/lib/invites';
+
+describe('Session invites', () => {
+  beforeAll(() => {
+    process.env.INVITE_TOKEN_SECRET = 'test-invite-secret-must-be-long-enough';
+  });
+
+  const usableInvite = {
+    id: 'invite-1',
+    session_id: 'session-1',
+    expires_at: null,
+    max_uses: null,
+    use_count: 0,
+    revoked_at: null,
+  };
+
+  describe('verifyInviteToken', () => {
+    it('should accept a token created for the same session', () => {
+      const token = createInviteToken('session-1', 'invite-1');
+      expect(verifyInviteToken('session-1', token)).toBe('invite-1');
+    });
+
+    it('should reject a token created for another session', () => {
+      const token = createInviteToken('session-2', 'invite-1');
+      expect(verifyInviteToken('session-1', token)).toBeNull();
+    });
+
+    it('should reject a tampered invite ID', () => {
+      const [, signature] = createInviteToken('session-1', 'invite-1').split('.');
+      expect(verifyInviteToken('session-1', `invite-2.${signature}`)).toBeNull();
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(verifyInviteToken('session-1', 'garbage')).toBeNull();
+      expect(verifyInviteToken('session-1', 'a.b.c')).toBeNull();
+    });
+  });
+
+  describe('isInviteUsable', () => {
+    const now = new Date('2026-03-01T10:00:00Z');
+
+    it('should accept an active invite', () => {
+      expect(isInviteUsable(usableInvite, now)).toBe(true);
+    });
+
+    it('should reject revoked invites', () => {
+      expect(isInviteUsable({ ...usableInvite, revoked_at: now }, now)).toBe(false);
+    });
+
+    it('should reject expired invites', () => {
+      expect(isInviteUsable({ ...usableInvite, expires_at: new Date('2026-03-01T09:00:00Z') }, now)).toBe(false);
+    });
+
+    it('should reject invites that reached their usage limit', () => {
+      expect(isInviteUsable({ ...usableInvite, max_uses: 3, use_count: 3 }, now)).toBe(false);
+    });
+  });
+
+  describe('findValidInvite', () => {
+    it('should return the invite for a valid token', async () => {
+      const db: any = { sessionInvite: { findUnique: vi.fn().mockResolvedValue(usableInvite) } };
+      const token = createInviteToken('session-1', 'invite-1');
+
+      await expect(findValidInvite(db, 'session-1', token)).resolves.toEqual(usableInvite);
+      expect(db.sessionInvite.findUnique).toHaveBeenCalledWith({ where: { id: 'invite-1' } });
+    });
+
+    it('should not query the database for forged tokens', async () => {
+      const db: any = { sessionInvite: { findUnique: vi.fn() } };
+
+      await expect(findValidInvite(db, 'session-1', 'invite-1.forged')).resolves.toBeNull();
+      expect(db.sessionInvite.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked invites', async () => {
+      const db: any = {
+        sessionInvite: { findUnique: vi.fn().mockResolvedValue({ ...usableInvite, revoked_at: new Date() }) },
+      };
+      const token = createInviteToken('session-1', 'invite-1');
+
+      await expect(findValidInvite(db, 'session-1', token)).resolves.toBeNull();
+    });
+  });
+
+  describe('canViewSession', () => {
+    const session = { id: 'session-1', created_by: 'host-1', status: 'PUBLISHED', visibility: 'INVITE_ONLY' };
+
+    const makeDb = (rows: { coHost?: any; participant?: any; waitlisted?: any; invite?: any } = {}): any => ({
+      sessionCoHost: { findUnique: vi.fn().mockResolvedValue(rows.coHost ?? null) },
+      userSession: { findUnique: vi.fn().mockResolvedValue(rows.participant ?? null) },
+      waitlist: { findUnique: vi.fn().mockResolvedValue(rows.waitlisted ?? null) },
+      sessionInvite: { findUnique: vi.fn().mockResolvedValue(rows.invite ?? null) },
+    });
+
+    it('should show published sessions to anyone without a lookup', async () => {
+      const db = makeDb();
+
+      await expect(canViewSession(db, { ...session, visibility: 'PUBLIC' }, null)).resolves.toBe(true);
+      expect(db.sessionCoHost.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should hide drafts from everyone but their hosts', async () => {
+      const draft = { ...session, status: 'DRAFT', visibility: 'PUBLIC' };
+
+      await expect(canViewSession(makeDb(), draft, 'host-1')).resolves.toBe(true);
+      await expect(canViewSession(makeDb({ coHost: { id: 'c-1' } }), draft, 'user-2')).resolves.toBe(true);
+      await expect(canViewSession(makeDb({ participant: { id: 'us-1' } }), draft, 'user-2')).resolves.toBe(false);
+    });
+
+    it('should show invite-only sessions to participants and waitlisted users', async () => {
+      await expect(canViewSession(makeDb({ participant: { id: 'us-1' } }), session, 'user-2')).resolves.toBe(true);
+      await expect(canViewSession(makeDb({ waitlisted: { id: 'w-1' } }), session, 'user-2')).resolves.toBe(true);
+    });
+
+    it('should show invite-only sessions to holders of a valid invite', async () => {
+      const token = createInviteToken('session-1', 'invite-1');
+
+      await expect(canViewSession(makeDb({ invite: usableInvite }), session, null, token)).resolves.toBe(true);
+      await expect(canViewSession(makeDb({ invite: usableInvite }), session, 'user-2')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkJoinEligibility, findJoinConflicts, joinIneligibility } from '@/lib/join-eligibility';
+
+const session = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session-1',
+  created_by: 'host-1',
+  sport_type: 'tennis',
+  min_rating: 1600,
+  ...overrides,
+});
+
+describe('Join eligibility', () => {
+  let db: any;
+
+  beforeEach(() => {
+    db = {
+      sportRating: { findUnique: vi.fn().mockResolvedValue({ rating: 1650 }) },
+    };
+  });
+
+  it('should let players at or above the minimum rating join', async () => {
+    expect(await joinIneligibility(db, session(), 'user-1')).toBeNull();
+    expect(db.sportRating.findUnique).toHaveBeenCalledWith({
+      where: { user_id_sport_type: { user_id: 'user-1', sport_type: 'tennis' } },
+      select: { rating: true },
+    });
+  });
+
+  it('should refuse players below the minimum rating', async () => {
+    db.sportRating.findUnique.mockResolvedValue({ rating: 1550 });
+
+    expect(await joinIneligibility(db, session(), 'user-1')).toBe('RATING_TOO_LOW');
+    await expect(checkJoinEligibility(db, session(), 'user-1')).rejects.toThrow('RATING_TOO_LOW');
+  });
+
+  it('should treat unrated players as the default rating', async () => {
+    db.sportRating.findUnique.mockResolvedValue(null);
+
+    expect(await joinIneligibility(db, session(), 'user-1')).toBe('RATING_TOO_LOW');
+    expect(await joinIneligibility(db, session({ min_rating: 1500 }), 'user-1')).toBeNull();
+  });
+
+  it('should skip the rating check for the host and open sessions', async () => {
+    expect(await joinIneligibility(db, session(), 'host-1')).toBeNull();
+    expect(await joinIneligibility(db, session({ min_rating: null }), 'user-1')).toBeNull();
+    expect(db.sportRating.findUnique).not.toHaveBeenCalled();
+  });
+
+  describe('findJoinConflicts', () => {
+    const slot = {
+      id: 'session-1',
+      date_time: new Date('2026-03-02T10:00:00Z'),
+      duration_minutes: 60,
+    };
+
+    beforeEach(() => {
+      db.user = { findUnique: vi.fn().mockResolvedValue({ travel_buffer_minutes: 0 }) };
+      db.session = {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            id: 'other',
+            sport_type: 'futsal',
+            date_time: new Date('2026-03-02T11:15:00Z'),
+            duration_minutes: 60,
+            sport_center: null,
+          },
+        ]),
+      };
+    });
+
+    it("should use the user's travel buffer", async () => {
+      expect(await findJoinConflicts(db, slot, 'user-1')).toEqual([]);
+
+      db.user.findUnique.mockResolvedValue({ travel_buffer_minutes: 30 });
+      const conflicts = await findJoinConflicts(db, slot, 'user-1');
+      expect(conflicts.map((conflict) => conflict.session_id)).toEqual(['other']);
+    });
+
+    it('should ignore the session being joined', async () => {
+      await findJoinConflicts(db, slot, 'user-1');
+
+      expect(db.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { not: 'session-1' } }),
+        })
+      );
+    });
+  });
+});
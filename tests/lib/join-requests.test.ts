@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createJoinRequest } from '@/lib/join-requests';
+
+describe('Join requests', () => {
+  let tx: any;
+  const params = {
+    sessionId: 'session-1',
+    userId: 'user-1',
+    hostId: 'host-1',
+    sportType: 'badminton',
+    message: 'I play every week',
+  };
+
+  beforeEach(() => {
+    tx = {
+      joinRequest: {
+        findUnique: vi.fn().mockResolvedValue(null),
+        upsert: vi.fn().mockResolvedValue({ id: 'request-1', status: 'PENDING' }),
+      },
+      user: {
+        findUnique: vi.fn().mockResolvedValue({ display_name: 'Aki', username: 'aki' }),
+      },
+      notification: { create: vi.fn().mockResolvedValue({}) },
+    };
+  });
+
+  it('should create a pending request and notify the host', async () => {
+    const result = await createJoinRequest(tx, params);
+
+    expect(result).toEqual({ id: 'request-1', status: 'PENDING' });
+    expect(tx.joinRequest.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { session_id: 'session-1', user_id: 'user-1', message: 'I play every week' },
+    }));
+    expect(tx.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        user_id: 'host-1',
+        type: 'join_request',
+        message: expect.stringContaining('Aki'),
+      }),
+    });
+  });
+
+  it('should reject a duplicate pending request', async () => {
+    tx.joinRequest.findUnique.mockResolvedValue({ id: 'request-1', status: 'PENDING' });
+
+    await expect(createJoinRequest(tx, params)).rejects.toThrow('REQUEST_PENDING');
+    expect(tx.joinRequest.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should not let rejected users request again', async () => {
+    tx.joinRequest.findUnique.mockResolvedValue({ id: 'request-1', status: 'REJECTED' });
+
+    await expect(createJoinRequest(tx, params)).rejects.toThrow('REQUEST_REJECTED');
+    expect(tx.notification.create).not.toHaveBeenCalled();
+  });
+
+  it('should reopen the request of a previously approved user who left', async () => {
+    tx.joinRequest.findUnique.mockResolvedValue({ id: 'request-1', status: 'APPROVED' });
+
+    await createJoinRequest(tx, params);
+
+    expect(tx.joinRequest.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ status: 'PENDING', decided_at: null }),
+    }));
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { isComplementary, languageMix, matchPartner } from '@/lib/language-exchange';
+
+const learner = {
+  native_language: 'en',
+  target_language: 'ja',
+  language_level: 'INTERMEDIATE',
+  sport_preferences: ['badminton', 'futsal'],
+};
+
+describe('Language exchange', () => {
+  describe('isComplementary', () => {
+    it('should pair users learning each other\'s language', () => {
+      expect(isComplementary(learner, { native_language: 'ja', target_language: 'en' })).toBe(true);
+    });
+
+    it('should reject one-sided matches', () => {
+      expect(isComplementary(learner, { native_language: 'ja', target_language: 'ko' })).toBe(false);
+      expect(isComplementary(learner, { native_language: 'en', target_language: 'ja' })).toBe(false);
+    });
+
+    it('should reject incomplete profiles', () => {
+      expect(isComplementary({ native_language: 'en' }, { native_language: 'ja', target_language: 'en' })).toBe(false);
+      expect(isComplementary({ native_language: 'en', target_language: 'en' }, { native_language: 'en', target_language: 'en' })).toBe(false);
+    });
+  });
+
+  describe('matchPartner', () => {
+    it('should list shared sports', () => {
+      const match = matchPartner(learner, {
+        native_language: 'ja',
+        target_language: 'en',
+        language_level: 'INTERMEDIATE',
+        sport_preferences: ['futsal', 'tennis'],
+      });
+
+      expect(match).toEqual({ shared_sports: ['futsal'], score: 10 });
+    });
+
+    it('should rank closer levels higher', () => {
+      const partner = { native_language: 'ja', target_language: 'en', sport_preferences: ['badminton'] };
+      const close = matchPartner(learner, { ...partner, language_level: 'ADVANCED' })!;
+      const far = matchPartner(learner, { ...partner, language_level: 'NATIVE' })!;
+
+      expect(close.score).toBeGreaterThan(far.score);
+    });
+
+    it('should return null for non-complementary users', () => {
+      expect(matchPartner(learner, { native_language: 'fr', target_language: 'en' })).toBeNull();
+    });
+  });
+
+  describe('languageMix', () => {
+    it('should count native languages, most common first and unknown last', () => {
+      expect(languageMix([
+        { native_language: 'ja' },
+        { native_language: null },
+        { native_language: 'en' },
+        { native_language: 'ja' },
+        { native_language: 'ko' },
+      ])).toEqual([
+        { language: 'ja', count: 2 },
+        { language: 'en', count: 1 },
+        { language: 'ko', count: 1 },
+        { language: null, count: 1 },
+      ]);
+    });
+
+    it('should be empty without participants', () => {
+      expect(languageMix([])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  canEditMessage,
+  deleteMessage,
+  editableUntil,
+  editMessage,
+  MESSAGE_EDIT_WINDOW_MINUTES,
+} from '@/lib/messages';
+
+const SENT_AT = new Date('2026-10-19T12:00:00Z');
+const minutesAfter = (minutes: number) => new Date(SENT_AT.getTime() + minutes * 60 * 1000);
+
+function mockMessage(overrides: Record<string, any> = {}) {
+  return {
+    id: 'message-1',
+    sender_id: 'user-1',
+    content: 'See you at 7',
+    deleted_at: null,
+    created_at: SENT_AT,
+    ...overrides,
+  };
+}
+
+describe('Message editing', () => {
+  describe('canEditMessage', () => {
+    it('should let the sender edit within the window', () => {
+      expect(editableUntil(SENT_AT)).toEqual(minutesAfter(MESSAGE_EDIT_WINDOW_MINUTES));
+      expect(canEditMessage(mockMessage(), 'user-1', minutesAfter(1))).toBe(true);
+      expect(canEditMessage(mockMessage(), 'user-1', minutesAfter(MESSAGE_EDIT_WINDOW_MINUTES))).toBe(true);
+    });
+
+    it('should refuse after the window closes', () => {
+      expect(canEditMessage(mockMessage(), 'user-1', minutesAfter(MESSAGE_EDIT_WINDOW_MINUTES + 1))).toBe(false);
+    });
+
+    it('should refuse other users and deleted messages', () => {
+      expect(canEditMessage(mockMessage(), 'user-2', minutesAfter(1))).toBe(false);
+      expect(canEditMessage(mockMessage({ deleted_at: SENT_AT }), 'user-1', minutesAfter(1))).toBe(false);
+    });
+
+    it('should accept serialized dates', () => {
+      const message = mockMessage({ created_at: SENT_AT.toISOString() });
+      expect(canEditMessage(message, 'user-1', minutesAfter(1))).toBe(true);
+    });
+  });
+
+  describe('changes', () => {
+    let tx: any;
+
+    beforeEach(() => {
+      tx = {
+        messageRevision: { create: vi.fn().mockResolvedValue({}) },
+        message: {
+          update: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'message-1', ...data })),
+        },
+      };
+    });
+
+    it('should keep the previous text when editing', async () => {
+      const now = minutesAfter(2);
+      const message = await editMessage(tx, mockMessage(), 'See you at 8', 'user-1', now);
+
+      expect(tx.messageRevision.create).toHaveBeenCalledWith({
+        data: { message_id: 'message-1', action: 'EDIT', content: 'See you at 7', actor_id: 'user-1' },
+      });
+      expect(message).toMatchObject({ content: 'See you at 8', edited_at: now });
+    });
+
+    it('should empty a deleted message and keep its last text', async () => {
+      const now = minutesAfter(30);
+      const message = await deleteMessage(tx, mockMessage(), 'host-1', now);
+
+      expect(tx.messageRevision.create).toHaveBeenCalledWith({
+        data: { message_id: 'message-1', action: 'DELETE', content: 'See you at 7', actor_id: 'host-1' },
+      });
+      expect(message).toMatchObject({ content: '', deleted_at: now });
+      expect(tx.messageRevision.create.mock.invocationCallOrder[0])
+        .toBeLessThan(tx.message.update.mock.invocationCallOrder[0]);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getDecideBy, participantsNeeded, DEFAULT_DECIDE_BY_HOURS } from '@/lib/min-participants';
+
+describe('Minimum participant threshold', () => {
+  describe('getDecideBy', () => {
+    it('should default to DEFAULT_DECIDE_BY_HOURS before the start', () => {
+      const start = new Date('2026-03-02T10:00:00Z');
+
+      expect(start.getTime() - getDecideBy(start).getTime()).toBe(DEFAULT_DECIDE_BY_HOURS * 60 * 60 * 1000);
+    });
+
+    it('should use the given lead time', () => {
+      const start = new Date('2026-03-02T10:00:00Z');
+
+      expect(getDecideBy(start, 6)).toEqual(new Date('2026-03-02T04:00:00Z'));
+    });
+  });
+
+  describe('participantsNeeded', () => {
+    it('should count the players still missing', () => {
+      expect(participantsNeeded({ min_participants: 6, current_participants: 4 })).toBe(2);
+    });
+
+    it('should be zero once the minimum is reached', () => {
+      expect(participantsNeeded({ min_participants: 4, current_participants: 5 })).toBe(0);
+    });
+
+    it('should be zero without a minimum', () => {
+      expect(participantsNeeded({ min_participants: null, current_participants: 1 })).toBe(0);
+    });
+
+    it('should be zero for confirmed sessions even if people left', () => {
+      expect(participantsNeeded({
+        min_participants: 6,
+        current_participants: 3,
+        confirmed_at: '2026-03-01T10:00:00Z',
+      })).toBe(0);
+    });
+  });
+});
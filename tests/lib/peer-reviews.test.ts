@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeTrustMetrics,
+  isPeerReviewOpen,
+  peerReviewWindow,
+  releasedRatings,
+  sessionAttendees,
+  type PeerRating,
+} from '@/lib/peer-reviews';
+
+function rating(reviewerId: string, score: number, createdAt: string): PeerRating {
+  return {
+    reviewer_id: reviewerId,
+    punctuality: score,
+    sportsmanship: score,
+    skill_accuracy: score,
+    created_at: createdAt,
+  };
+}
+
+describe('Peer reviews', () => {
+  describe('review window', () => {
+    const start = new Date('2026-10-19T10:00:00Z');
+
+    it('should open when the session ends and close two weeks later', () => {
+      expect(peerReviewWindow(start, 90)).toEqual({
+        opens_at: new Date('2026-10-19T11:30:00Z'),
+        closes_at: new Date('2026-11-02T11:30:00Z'),
+      });
+    });
+
+    it('should only accept reviews inside the window', () => {
+      expect(isPeerReviewOpen(start, 90, new Date('2026-10-19T11:00:00Z'))).toBe(false);
+      expect(isPeerReviewOpen(start, 90, new Date('2026-10-20T09:00:00Z'))).toBe(true);
+      expect(isPeerReviewOpen(start, 90, new Date('2026-11-03T09:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('sessionAttendees', () => {
+    it('should include hosts and attended participants only', () => {
+      const attendees = sessionAttendees(
+        [
+          { user_id: 'a', status: 'ATTENDED' },
+          { user_id: 'b', status: 'NO_SHOW' },
+          { user_id: 'c', status: 'REGISTERED' },
+        ],
+        ['host']
+      );
+
+      expect([...attendees].sort()).toEqual(['a', 'host']);
+    });
+  });
+
+  describe('releasedRatings', () => {
+    it('should release the oldest ratings in whole batches', () => {
+      const ratings = [
+        rating('d', 1, '2026-10-04T00:00:00Z'),
+        rating('a', 5, '2026-10-01T00:00:00Z'),
+        rating('c', 3, '2026-10-03T00:00:00Z'),
+        rating('b', 4, '2026-10-02T00:00:00Z'),
+      ];
+
+      expect(releasedRatings(ratings).map((r) => r.reviewer_id)).toEqual(['a', 'b', 'c']);
+      expect(releasedRatings(ratings.slice(0, 2))).toEqual([]);
+    });
+  });
+
+  describe('computeTrustMetrics', () => {
+    it('should stay hidden until enough different people rated the user', () => {
+      const sameReviewer = [
+        rating('a', 5, '2026-10-01T00:00:00Z'),
+        rating('a', 5, '2026-10-02T00:00:00Z'),
+        rating('a', 5, '2026-10-03T00:00:00Z'),
+      ];
+
+      expect(computeTrustMetrics(sameReviewer)).toEqual({
+        visible: false,
+        review_count: 0,
+        punctuality: null,
+        sportsmanship: null,
+        skill_accuracy: null,
+      });
+    });
+
+    it('should average the released ratings only', () => {
+      const metrics = computeTrustMetrics([
+        rating('a', 5, '2026-10-01T00:00:00Z'),
+        rating('b', 4, '2026-10-02T00:00:00Z'),
+        rating('c', 4, '2026-10-03T00:00:00Z'),
+        // Not released yet, so it can't be singled out by comparing averages
+        rating('d', 1, '2026-10-04T00:00:00Z'),
+      ]);
+
+      expect(metrics).toEqual({
+        visible: true,
+        review_count: 3,
+        punctuality: 4.3,
+        sportsmanship: 4.3,
+        skill_accuracy: 4.3,
+      });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  computeRatingChanges,
+  DEFAULT_RATING,
+  expectedScore,
+  kFactor,
+  lineupError,
+  meetsMinRating,
+  opponentsAlreadyMet,
+  PROVISIONAL_MATCHES,
+  voidMatch,
+} from '@/lib/ratings';
+
+const player = (user_id: string, side: 'A' | 'B', rating = DEFAULT_RATING, matches_played = 20) => ({
+  user_id,
+  side,
+  rating,
+  matches_played,
+});
+
+describe('Sport ratings', () => {
+  describe('expectedScore', () => {
+    it('should give evenly rated sides an even chance', () => {
+      expect(expectedScore(1500, 1500)).toBe(0.5);
+    });
+
+    it('should favor the higher rated side', () => {
+      expect(expectedScore(1900, 1500)).toBeCloseTo(0.909, 3);
+      expect(expectedScore(1500, 1900)).toBeCloseTo(0.091, 3);
+    });
+  });
+
+  describe('kFactor', () => {
+    it('should move provisional players faster', () => {
+      expect(kFactor(0)).toBeGreaterThan(kFactor(PROVISIONAL_MATCHES));
+    });
+  });
+
+  describe('computeRatingChanges', () => {
+    it('should move evenly rated singles players by half the K-factor', () => {
+      const changes = computeRatingChanges([player('a', 'A'), player('b', 'B')], 21, 15);
+
+      expect(changes).toEqual([
+        { user_id: 'a', side: 'A', rating_before: 1500, rating_after: 1512, result: 'win' },
+        { user_id: 'b', side: 'B', rating_before: 1500, rating_after: 1488, result: 'loss' },
+      ]);
+    });
+
+    it('should leave evenly rated players unchanged on a draw', () => {
+      const changes = computeRatingChanges([player('a', 'A'), player('b', 'B')], 2, 2);
+
+      expect(changes.map((c) => c.rating_after)).toEqual([1500, 1500]);
+      expect(changes.map((c) => c.result)).toEqual(['draw', 'draw']);
+    });
+
+    it('should reward an upset more than an expected win', () => {
+      const upset = computeRatingChanges([player('a', 'A', 1400), player('b', 'B', 1700)], 3, 1);
+      const expected = computeRatingChanges([player('a', 'A', 1700), player('b', 'B', 1400)], 3, 1);
+
+      const gain = (changes: typeof upset) => changes[0].rating_after - changes[0].rating_before;
+      expect(gain(upset)).toBeGreaterThan(gain(expected));
+    });
+
+    it('should rate doubles sides by their average', () => {
+      const changes = computeRatingChanges(
+        [player('a1', 'A', 1600), player('a2', 'A', 1400), player('b1', 'B'), player('b2', 'B')],
+        0,
+        2
+      );
+
+      // Both sides average 1500, so every player moves by K/2
+      expect(changes.map((c) => c.rating_after - c.rating_before)).toEqual([-12, -12, 12, 12]);
+    });
+
+    it('should scale each player by their own K-factor', () => {
+      const changes = computeRatingChanges(
+        [player('new', 'A', 1500, 0), player('veteran', 'A'), player('b', 'B')],
+        5,
+        3
+      );
+
+      expect(changes[0].rating_after - 1500).toBe(20);
+      expect(changes[1].rating_after - 1500).toBe(12);
+    });
+
+    it('should skip matches without two sides', () => {
+      expect(computeRatingChanges([player('a', 'A')], 1, 0)).toEqual([]);
+    });
+  });
+
+  describe('lineupError', () => {
+    it('should accept lineups that fit the format', () => {
+      expect(lineupError('SINGLES', ['a'], ['b'])).toBeNull();
+      expect(lineupError('DOUBLES', ['a', 'b'], ['c', 'd'])).toBeNull();
+      expect(lineupError('TEAM', ['a', 'b', 'c'], ['d'])).toBeNull();
+    });
+
+    it('should reject the wrong number of players', () => {
+      expect(lineupError('SINGLES', ['a', 'b'], ['c'])).toBe('Singles matches need 1 player per side');
+      expect(lineupError('DOUBLES', ['a'], ['b', 'c'])).toBe('Doubles matches need 2 players per side');
+      expect(lineupError('TEAM', [], ['a'])).toBe('Each team needs at least one player');
+    });
+
+    it('should reject a player on both sides', () => {
+      expect(lineupError('TEAM', ['a', 'b'], ['b'])).toBe('A player can only appear once in a match');
+    });
+  });
+
+  describe('meetsMinRating', () => {
+    it('should let anyone join without a minimum', () => {
+      expect(meetsMinRating(1000, null)).toBe(true);
+    });
+
+    it('should compare unrated players at the default rating', () => {
+      expect(meetsMinRating(null, DEFAULT_RATING)).toBe(true);
+      expect(meetsMinRating(null, DEFAULT_RATING + 1)).toBe(false);
+      expect(meetsMinRating(1620, 1600)).toBe(true);
+    });
+  });
+
+  describe('opponentsAlreadyMet', () => {
+    const played = [
+      {
+        players: [
+          { user_id: 'a', side: 'A' as const },
+          { user_id: 'b', side: 'A' as const },
+          { user_id: 'c', side: 'B' as const },
+          { user_id: 'd', side: 'B' as const },
+        ],
+      },
+    ];
+
+    it('should flag opponents who already played each other, on either side', () => {
+      expect(opponentsAlreadyMet(played, ['a'], ['c'])).toBe(true);
+      expect(opponentsAlreadyMet(played, ['d'], ['b'])).toBe(true);
+      expect(opponentsAlreadyMet(played, ['a', 'e'], ['f', 'd'])).toBe(true);
+    });
+
+    it('should allow former teammates and new opponents', () => {
+      expect(opponentsAlreadyMet(played, ['a'], ['b'])).toBe(false);
+      expect(opponentsAlreadyMet(played, ['a'], ['e'])).toBe(false);
+      expect(opponentsAlreadyMet([], ['a'], ['c'])).toBe(false);
+    });
+  });
+
+  describe('voidMatch', () => {
+    it("should reverse each player's rating change and counters", async () => {
+      const tx: any = {
+        sportRating: { update: vi.fn().mockResolvedValue({}) },
+        match: { update: vi.fn().mockResolvedValue({}) },
+      };
+
+      await voidMatch(tx, {
+        id: 'match-1',
+        sport_type: 'tennis',
+        score_a: 6,
+        score_b: 3,
+        players: [
+          { user_id: 'a', side: 'A', rating_before: 1500, rating_after: 1512 },
+          { user_id: 'b', side: 'B', rating_before: 1500, rating_after: 1488 },
+        ],
+      }, 'host-1');
+
+      expect(tx.sportRating.update).toHaveBeenCalledWith({
+        where: { user_id_sport_type: { user_id: 'a', sport_type: 'tennis' } },
+        data: {
+          rating: { increment: -12 },
+          matches_played: { decrement: 1 },
+          wins: { decrement: 1 },
+          losses: { decrement: 0 },
+          draws: { decrement: 0 },
+        },
+      });
+      expect(tx.sportRating.update).toHaveBeenCalledWith({
+        where: { user_id_sport_type: { user_id: 'b', sport_type: 'tennis' } },
+        data: expect.objectContaining({
+          rating: { increment: 12 },
+          losses: { decrement: 1 },
+        }),
+      });
+      expect(tx.match.update).toHaveBeenCalledWith({
+        where: { id: 'match-1' },
+        data: { voided_at: expect.any(Date), voided_by: 'host-1' },
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { buildHistory, rankRecommendations, scoreSession } from '@/lib/recommendations';
+
+const now = new Date('2026-03-01T00:00:00Z');
+
+const session = (overrides: Record<string, any> = {}) => ({
+  id: 'session-1',
+  sport_type: 'badminton',
+  skill_level: 'intermediate',
+  date_time: new Date('2026-03-02T10:00:00Z'),
+  primary_language: 'ja',
+  allow_english: false,
+  vibe: 'CASUAL',
+  created_by: 'host-1',
+  sport_center_id: 'center-1',
+  sport_center: {
+    name_en: 'Shibuya Sports Center',
+    station_en: 'Shibuya Station',
+    address_en: '1-1 Jinnan, Shibuya-ku, Tokyo',
+  },
+  ...overrides,
+});
+
+const emptyHistory = buildHistory([], []);
+
+const codes = (result: { reasons: Array<{ code: string }> }) => result.reasons.map((reason) => reason.code);
+
+describe('Session recommendations', () => {
+  describe('scoreSession', () => {
+    it('should explain profile matches', () => {
+      const result = scoreSession(session(), {
+        sport_preferences: ['badminton'],
+        skill_levels: { badminton: 'intermediate' },
+        native_language: 'en',
+        target_language: 'ja',
+        location: 'shibuya',
+      }, emptyHistory, now);
+
+      expect(codes(result)).toEqual(['preferred_sport', 'skill_match', 'language_practice', 'near_you']);
+      expect(result.reasons[2]).toEqual({ code: 'language_practice', params: { language: 'ja' } });
+    });
+
+    it('should flag English-friendly sessions for non-Japanese speakers', () => {
+      const result = scoreSession(session({ allow_english: true }), { native_language: 'en' }, emptyHistory, now);
+
+      expect(codes(result)).toEqual(['english_friendly']);
+    });
+
+    it('should ignore malformed skill levels', () => {
+      const result = scoreSession(session(), { skill_levels: ['intermediate'] }, emptyHistory, now);
+
+      expect(result.reasons).toEqual([]);
+      expect(result.score).toBe(0);
+    });
+
+    it('should use attendance and favorites', () => {
+      const history = buildHistory(
+        [
+          { sport_type: 'badminton', sport_center_id: 'center-1', created_by: 'host-2' },
+          { sport_type: 'badminton', sport_center_id: 'center-2', created_by: 'host-2' },
+        ],
+        [{ sport_type: 'badminton', sport_center_id: 'center-3', created_by: 'host-1' }]
+      );
+
+      const result = scoreSession(session(), {}, history, now);
+
+      expect(codes(result)).toEqual(['played_before', 'familiar_venue', 'familiar_host', 'similar_to_favorites']);
+      expect(result.reasons[0].params).toEqual({ sport: 'badminton', count: 2 });
+    });
+
+    it('should score sooner sessions higher', () => {
+      const profile = { sport_preferences: ['badminton'] };
+      const soon = scoreSession(session(), profile, emptyHistory, now);
+      const later = scoreSession(session({ date_time: new Date('2026-03-12T10:00:00Z') }), profile, emptyHistory, now);
+
+      expect(soon.score).toBeGreaterThan(later.score);
+    });
+  });
+
+  describe('rankRecommendations', () => {
+    it('should order by score and drop sessions without reasons', () => {
+      const ranked = rankRecommendations(
+        [
+          session({ id: 'tennis', sport_type: 'tennis' }),
+          session({ id: 'liked', sport_type: 'basketball' }),
+          session({ id: 'best' }),
+        ],
+        { sport_preferences: ['badminton', 'basketball'], skill_levels: { badminton: 'intermediate' } },
+        emptyHistory,
+        10,
+        now
+      );
+
+      expect(ranked.map((item) => item.id)).toEqual(['best', 'liked']);
+      expect(ranked[0].recommendation.reasons.length).toBe(2);
+    });
+
+    it('should keep at most the limit', () => {
+      const ranked = rankRecommendations(
+        [session({ id: 'a' }), session({ id: 'b' }), session({ id: 'c' })],
+        { sport_preferences: ['badminton'] },
+        emptyHistory,
+        2,
+        now
+      );
+
+      expect(ranked).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { generateOccurrences, getOccurrenceDate, MAX_SERIES_OCCURRENCES } from '@/lib/recurrence';
+
+describe('Recurrence', () => {
+  // Tuesday 19:00 JST
+  const start = new Date('2026-01-06T10:00:00Z');
+
+  describe('getOccurrenceDate', () => {
+    it('should return the start date for index 0', () => {
+      expect(getOccurrenceDate(start, 'WEEKLY', 0)).toEqual(start);
+    });
+
+    it('should add 7 days per weekly occurrence', () => {
+      expect(getOccurrenceDate(start, 'WEEKLY', 2).toISOString()).toBe('2026-01-20T10:00:00.000Z');
+    });
+
+    it('should add 14 days per biweekly occurrence', () => {
+      expect(getOccurrenceDate(start, 'BIWEEKLY', 1).toISOString()).toBe('2026-01-20T10:00:00.000Z');
+    });
+
+    it('should keep the same day of month for monthly occurrences', () => {
+      expect(getOccurrenceDate(start, 'MONTHLY', 3).toISOString()).toBe('2026-04-06T10:00:00.000Z');
+    });
+
+    it('should clamp monthly occurrences to the end of shorter months', () => {
+      const endOfMonth = new Date('2026-01-31T10:00:00Z');
+      expect(getOccurrenceDate(endOfMonth, 'MONTHLY', 1).toISOString()).toBe('2026-02-28T10:00:00.000Z');
+      expect(getOccurrenceDate(endOfMonth, 'MONTHLY', 2).toISOString()).toBe('2026-03-31T10:00:00.000Z');
+    });
+
+    it('should use the Tokyo day of month for early morning sessions', () => {
+      // 08:00 JST on the 1st is 23:00 UTC on the previous day
+      const earlyMorning = new Date('2026-01-31T23:00:00Z');
+      expect(getOccurrenceDate(earlyMorning, 'MONTHLY', 1).toISOString()).toBe('2026-02-28T23:00:00.000Z');
+    });
+  });
+
+  describe('generateOccurrences', () => {
+    it('should generate the requested number of occurrences', () => {
+      const dates = generateOccurrences(start, { frequency: 'WEEKLY', count: 4 });
+      expect(dates).toHaveLength(4);
+      expect(dates[3].toISOString()).toBe('2026-01-27T10:00:00.000Z');
+    });
+
+    it('should stop at the end date (inclusive)', () => {
+      const dates = generateOccurrences(start, {
+        frequency: 'WEEKLY',
+        endsAt: new Date('2026-01-20T10:00:00Z'),
+      });
+      expect(dates).toHaveLength(3);
+    });
+
+    it('should stop at whichever bound comes first', () => {
+      const dates = generateOccurrences(start, {
+        frequency: 'BIWEEKLY',
+        count: 10,
+        endsAt: new Date('2026-02-01T00:00:00Z'),
+      });
+      expect(dates).toHaveLength(2);
+    });
+
+    it('should never exceed the maximum number of occurrences', () => {
+      const dates = generateOccurrences(start, {
+        frequency: 'WEEKLY',
+        endsAt: new Date('2030-01-01T00:00:00Z'),
+      });
+      expect(dates).toHaveLength(MAX_SERIES_OCCURRENCES);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  canAppeal,
+  outstandingPenalty,
+  recordAttendanceOutcome,
+  recoveredByNow,
+  recoverNoShow,
+  reverseNoShow,
+} from '@/lib/reliability';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * DAY_MS);
+}
+
+function noShowEvent(overrides: Record<string, any> = {}) {
+  return {
+    id: 'event-1',
+    user_id: 'user-1',
+    session_id: 'session-1',
+    type: 'NO_SHOW',
+    delta: -10,
+    recovered_points: 0,
+    reversed_at: null,
+    created_at: daysAgo(10),
+    ...overrides,
+  };
+}
+
+describe('Reliability', () => {
+  describe('recoveredByNow', () => {
+    it('should restore the penalty linearly over the decay period', () => {
+      expect(recoveredByNow(10, NOW, NOW)).toBe(0);
+      expect(recoveredByNow(10, daysAgo(17), NOW)).toBe(0);
+      expect(recoveredByNow(10, daysAgo(18), NOW)).toBe(1);
+      expect(recoveredByNow(10, daysAgo(90), NOW)).toBe(5);
+      expect(recoveredByNow(10, daysAgo(180), NOW)).toBe(10);
+      expect(recoveredByNow(10, daysAgo(400), NOW)).toBe(10);
+    });
+  });
+
+  describe('outstandingPenalty', () => {
+    it('should subtract what has already been recovered', () => {
+      expect(outstandingPenalty({ delta: -10, recovered_points: 3 })).toBe(7);
+      expect(outstandingPenalty({ delta: -4, recovered_points: 4 })).toBe(0);
+    });
+  });
+
+  describe('canAppeal', () => {
+    it('should allow recent, unreversed no-shows only', () => {
+      expect(canAppeal(noShowEvent(), NOW)).toBe(true);
+      expect(canAppeal(noShowEvent({ created_at: daysAgo(31) }), NOW)).toBe(false);
+      expect(canAppeal(noShowEvent({ reversed_at: daysAgo(1) }), NOW)).toBe(false);
+      expect(canAppeal(noShowEvent({ type: 'ATTENDED' }), NOW)).toBe(false);
+    });
+  });
+
+  describe('ledger', () => {
+    let tx: any;
+
+    beforeEach(() => {
+      tx = {
+        user: {
+          findUnique: vi.fn().mockResolvedValue({ reliability_score: 95, no_show_count: 2 }),
+          update: vi.fn().mockResolvedValue({}),
+        },
+        reliabilityEvent: {
+          create: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'new-event', ...data })),
+          update: vi.fn().mockResolvedValue({}),
+        },
+        userSession: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+      };
+    });
+
+    it('should record a no-show with its session and count it', async () => {
+      const event = await recordAttendanceOutcome(tx, 'user-1', 'session-1', false);
+
+      expect(tx.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { reliability_score: 85, no_show_count: 3 },
+      });
+      expect(event).toMatchObject({ type: 'NO_SHOW', session_id: 'session-1', delta: -10, score_after: 85 });
+    });
+
+    it('should store the clamped change for attendance near the top', async () => {
+      tx.user.findUnique.mockResolvedValue({ reliability_score: 99, no_show_count: 0 });
+
+      const event = await recordAttendanceOutcome(tx, 'user-1', 'session-1', true);
+
+      expect(tx.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { reliability_score: 100 },
+      });
+      expect(event).toMatchObject({ type: 'ATTENDED', delta: 1, score_after: 100 });
+    });
+
+    it('should store the clamped change for a no-show near the bottom', async () => {
+      tx.user.findUnique.mockResolvedValue({ reliability_score: 4, no_show_count: 5 });
+
+      const event = await recordAttendanceOutcome(tx, 'user-1', 'session-1', false);
+
+      expect(tx.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { reliability_score: 0, no_show_count: 6 },
+      });
+      expect(event).toMatchObject({ type: 'NO_SHOW', delta: -4, score_after: 0 });
+    });
+
+    it('should recover only the points decayed since the last run', async () => {
+      tx.user.findUnique.mockResolvedValue({ reliability_score: 80, no_show_count: 1 });
+
+      const restored = await recoverNoShow(tx, noShowEvent({ created_at: daysAgo(90), recovered_points: 3 }), NOW);
+
+      expect(restored).toBe(2);
+      expect(tx.reliabilityEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { recovered_points: 5 },
+      });
+      expect(tx.reliabilityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'RECOVERY', related_event_id: 'event-1', delta: 2, score_after: 82 }),
+      });
+    });
+
+    it('should not recover reversed or up-to-date no-shows', async () => {
+      expect(await recoverNoShow(tx, noShowEvent({ reversed_at: daysAgo(1) }), NOW)).toBe(0);
+      expect(await recoverNoShow(tx, noShowEvent({ created_at: daysAgo(20), recovered_points: 1 }), NOW)).toBe(0);
+      expect(tx.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should give back the outstanding penalty when reversing', async () => {
+      tx.user.findUnique.mockResolvedValue({ reliability_score: 80, no_show_count: 2 });
+
+      const reversal = await reverseNoShow(tx, noShowEvent({ recovered_points: 4 }), 'Host confirmed', NOW);
+
+      expect(tx.reliabilityEvent.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { reversed_at: NOW },
+      });
+      expect(tx.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { reliability_score: 86, no_show_count: 1 },
+      });
+      expect(tx.userSession.updateMany).toHaveBeenCalledWith({
+        where: { user_id: 'user-1', session_id: 'session-1', status: 'NO_SHOW' },
+        data: { status: 'ATTENDED' },
+      });
+      expect(reversal).toMatchObject({ type: 'REVERSAL', delta: 6, note: 'Host confirmed' });
+    });
+  });
+});
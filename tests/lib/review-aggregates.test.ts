@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  refreshReviewAggregates,
+  refreshReviewAggregatesForSession,
+  toRatingAggregate,
+} from '@/lib/review-aggregates';
+
+describe('Review aggregates', () => {
+  describe('toRatingAggregate', () => {
+    it('should round the average to one decimal', () => {
+      expect(toRatingAggregate(4.666666, 3)).toEqual({ rating_avg: 4.7, review_count: 3 });
+    });
+
+    it('should have no average without reviews', () => {
+      expect(toRatingAggregate(null, 0)).toEqual({ rating_avg: null, review_count: 0 });
+      expect(toRatingAggregate(3, 0)).toEqual({ rating_avg: null, review_count: 0 });
+    });
+  });
+
+  describe('refreshReviewAggregates', () => {
+    let tx: any;
+
+    beforeEach(() => {
+      tx = {
+        review: {
+          aggregate: vi.fn()
+            .mockResolvedValueOnce({ _avg: { rating: 4.25 }, _count: { _all: 4 } })
+            .mockResolvedValueOnce({ _avg: { rating: null }, _count: { _all: 0 } }),
+        },
+        session: {
+          findUnique: vi.fn().mockResolvedValue({ created_by: 'host-1', sport_center_id: 'center-1' }),
+        },
+        user: { update: vi.fn().mockResolvedValue({}) },
+        sportCenter: { update: vi.fn().mockResolvedValue({}) },
+      };
+    });
+
+    it('should only count visible reviews of the host and sport center sessions', async () => {
+      await refreshReviewAggregates(tx, { hostId: 'host-1', sportCenterId: 'center-1' });
+
+      expect(tx.review.aggregate).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        where: { hidden_at: null, session: { created_by: 'host-1' } },
+      }));
+      expect(tx.review.aggregate).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        where: { hidden_at: null, session: { sport_center_id: 'center-1' } },
+      }));
+    });
+
+    it('should write the recomputed ratings', async () => {
+      const result = await refreshReviewAggregates(tx, { hostId: 'host-1', sportCenterId: 'center-1' });
+
+      expect(tx.user.update).toHaveBeenCalledWith({
+        where: { id: 'host-1' },
+        data: { host_rating_avg: 4.3, host_review_count: 4 },
+      });
+      // The last review was removed, so the center is unrated again
+      expect(tx.sportCenter.update).toHaveBeenCalledWith({
+        where: { id: 'center-1' },
+        data: { rating_avg: null, review_count: 0 },
+      });
+      expect(result).toEqual({
+        host: { rating_avg: 4.3, review_count: 4 },
+        sport_center: { rating_avg: null, review_count: 0 },
+      });
+    });
+
+    it('should look up the host and sport center from the session', async () => {
+      await refreshReviewAggregatesForSession(tx, 'session-1');
+
+      expect(tx.session.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'session-1' },
+      }));
+      expect(tx.user.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'host-1' } }));
+    });
+
+    it('should do nothing when the session is gone', async () => {
+      tx.session.findUnique.mockResolvedValue(null);
+
+      expect(await refreshReviewAggregatesForSession(tx, 'missing')).toBeNull();
+      expect(tx.review.aggregate).not.toHaveBeenCalled();
+    });
+  });
+});
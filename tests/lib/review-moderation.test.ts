@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { canModerate, moderateReview } from '@/lib/review-moderation';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function mockReview(overrides: Record<string, any> = {}) {
+  return {
+    id: 'review-1',
+    user_id: 'author-1',
+    session_id: 'session-1',
+    rating: 1,
+    comment: 'Terrible host',
+    hidden_at: null,
+    ...overrides,
+  };
+}
+
+describe('Review moderation', () => {
+  describe('canModerate', () => {
+    it('should only hide visible reviews and restore hidden ones', () => {
+      expect(canModerate({ hidden_at: null }, 'HIDE')).toBe(true);
+      expect(canModerate({ hidden_at: NOW }, 'HIDE')).toBe(false);
+      expect(canModerate({ hidden_at: null }, 'RESTORE')).toBe(false);
+      expect(canModerate({ hidden_at: NOW }, 'RESTORE')).toBe(true);
+      expect(canModerate({ hidden_at: null }, 'DELETE')).toBe(true);
+    });
+  });
+
+  describe('moderateReview', () => {
+    let tx: any;
+
+    beforeEach(() => {
+      tx = {
+        reviewModerationLog: { create: vi.fn().mockResolvedValue({}) },
+        report: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+        review: {
+          update: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'review-1', ...data })),
+          delete: vi.fn().mockResolvedValue({}),
+          aggregate: vi.fn().mockResolvedValue({ _avg: { rating: 4 }, _count: { _all: 2 } }),
+        },
+        session: {
+          findUnique: vi.fn().mockResolvedValue({ created_by: 'host-1', sport_center_id: 'center-1' }),
+        },
+        user: { update: vi.fn().mockResolvedValue({}) },
+        sportCenter: { update: vi.fn().mockResolvedValue({}) },
+      };
+    });
+
+    it('should hide the review, log a snapshot and resolve its reports', async () => {
+      const review = await moderateReview(tx, mockReview(), 'HIDE', 'Abusive language', 'admin-1', 'report-1', NOW);
+
+      expect(tx.reviewModerationLog.create).toHaveBeenCalledWith({
+        data: {
+          review_id: 'review-1',
+          report_id: 'report-1',
+          admin_id: 'admin-1',
+          action: 'HIDE',
+          reason: 'Abusive language',
+          review_user_id: 'author-1',
+          review_rating: 1,
+          review_comment: 'Terrible host',
+        },
+      });
+      expect(tx.report.updateMany).toHaveBeenCalledWith({
+        where: { review_id: 'review-1', status: { in: ['PENDING', 'REVIEWED'] } },
+        data: {
+          status: 'RESOLVED',
+          admin_notes: 'Review hidden. Reason: Abusive language',
+          resolved_by: 'admin-1',
+          resolved_at: NOW,
+        },
+      });
+      expect(review).toMatchObject({ hidden_at: NOW, hidden_reason: 'Abusive language' });
+    });
+
+    it('should restore without touching reports', async () => {
+      const review = await moderateReview(tx, mockReview({ hidden_at: NOW }), 'RESTORE', 'Appeal accepted', 'admin-1');
+
+      expect(tx.report.updateMany).not.toHaveBeenCalled();
+      expect(review).toMatchObject({ hidden_at: null, hidden_reason: null });
+    });
+
+    it('should log before deleting the review', async () => {
+      const review = await moderateReview(tx, mockReview(), 'DELETE', 'Spam', 'admin-1');
+
+      expect(review).toBeNull();
+      expect(tx.review.delete).toHaveBeenCalledWith({ where: { id: 'review-1' } });
+      expect(tx.reviewModerationLog.create.mock.invocationCallOrder[0])
+        .toBeLessThan(tx.review.delete.mock.invocationCallOrder[0]);
+    });
+
+    it('should refresh the host and sport center ratings after the change', async () => {
+      await moderateReview(tx, mockReview(), 'HIDE', 'Abusive language', 'admin-1');
+
+      expect(tx.review.aggregate.mock.invocationCallOrder[0])
+        .toBeGreaterThan(tx.review.update.mock.invocationCallOrder[0]);
+      expect(tx.user.update).toHaveBeenCalledWith({
+        where: { id: 'host-1' },
+        data: { host_rating_avg: 4, host_review_count: 2 },
+      });
+      expect(tx.sportCenter.update).toHaveBeenCalledWith({
+        where: { id: 'center-1' },
+        data: { rating_avg: 4, review_count: 2 },
+      });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { matchesSavedSearch, toDateParam } from '@/lib/saved-searches';
+
+describe('Saved searches', () => {
+  const session = {
+    sport_type: 'badminton',
+    skill_level: 'intermediate',
+    vibe: 'CASUAL',
+    allow_english: true,
+    date_time: new Date('2026-11-07T10:00:00Z'),
+    description_en: 'Friendly doubles games',
+    description_ja: 'ダブルスの試合',
+    sport_center: {
+      name_en: 'Tokyo Metropolitan Gymnasium',
+      name_ja: '東京体育館',
+      station_en: 'Sendagaya Station',
+      station_ja: '千駄ヶ谷駅',
+    },
+  };
+
+  describe('matchesSavedSearch', () => {
+    it('should match when no filters are set', () => {
+      expect(matchesSavedSearch({}, session)).toBe(true);
+    });
+
+    it('should compare sport, skill level and vibe exactly', () => {
+      expect(matchesSavedSearch({ sport_type: 'badminton', skill_level: 'intermediate', vibe: 'CASUAL' }, session)).toBe(true);
+      expect(matchesSavedSearch({ sport_type: 'tennis' }, session)).toBe(false);
+      expect(matchesSavedSearch({ skill_level: 'beginner' }, session)).toBe(false);
+      expect(matchesSavedSearch({ vibe: 'COMPETITIVE' }, session)).toBe(false);
+    });
+
+    it('should only require English-friendly sessions when asked', () => {
+      const japaneseOnly = { ...session, allow_english: false };
+
+      expect(matchesSavedSearch({ allow_english: true }, japaneseOnly)).toBe(false);
+      expect(matchesSavedSearch({ allow_english: false }, japaneseOnly)).toBe(true);
+    });
+
+    it('should treat the date range as whole days', () => {
+      expect(matchesSavedSearch({ start_date: '2026-11-07', end_date: '2026-11-07' }, session)).toBe(true);
+      expect(matchesSavedSearch({ start_date: new Date('2026-11-08') }, session)).toBe(false);
+      expect(matchesSavedSearch({ end_date: new Date('2026-11-06') }, session)).toBe(false);
+    });
+
+    it('should match Latin search terms as word prefixes', () => {
+      expect(matchesSavedSearch({ search: 'doub sendagaya' }, session)).toBe(true);
+      expect(matchesSavedSearch({ search: 'ubles' }, session)).toBe(false);
+    });
+
+    it('should match Japanese search terms anywhere in the text', () => {
+      expect(matchesSavedSearch({ search: '体育館' }, session)).toBe(true);
+      expect(matchesSavedSearch({ search: '代々木' }, session)).toBe(false);
+    });
+  });
+
+  describe('toDateParam', () => {
+    it('should format stored dates for the browse page', () => {
+      expect(toDateParam(new Date('2026-11-07T00:00:00Z'))).toBe('2026-11-07');
+      expect(toDateParam(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  conflictsFromError,
+  describeConflicts,
+  findScheduleConflicts,
+  slotsClash,
+} from '@/lib/schedule-conflicts';
+
+const slot = (dateTime: string, durationMinutes = 60) => ({
+  date_time: new Date(dateTime),
+  duration_minutes: durationMinutes,
+});
+
+describe('Schedule conflicts', () => {
+  describe('slotsClash', () => {
+    it('should flag overlapping sessions', () => {
+      expect(slotsClash(slot('2026-03-02T10:00:00Z', 90), slot('2026-03-02T11:00:00Z'), 0)).toBe(true);
+    });
+
+    it('should allow back-to-back sessions without a buffer', () => {
+      expect(slotsClash(slot('2026-03-02T10:00:00Z'), slot('2026-03-02T11:00:00Z'), 0)).toBe(false);
+    });
+
+    it('should flag sessions closer than the travel buffer in either order', () => {
+      const first = slot('2026-03-02T10:00:00Z');
+      const second = slot('2026-03-02T11:15:00Z');
+
+      expect(slotsClash(first, second, 30)).toBe(true);
+      expect(slotsClash(second, first, 30)).toBe(true);
+      expect(slotsClash(first, second, 15)).toBe(false);
+    });
+  });
+
+  describe('findScheduleConflicts', () => {
+    let db: any;
+
+    beforeEach(() => {
+      db = {
+        session: {
+          findMany: vi.fn().mockResolvedValue([
+            {
+              id: 'morning',
+              sport_type: 'tennis',
+              date_time: new Date('2026-03-02T09:00:00Z'),
+              duration_minutes: 60,
+              sport_center: { name_en: 'Shibuya Courts' },
+            },
+            {
+              id: 'evening',
+              sport_type: 'futsal',
+              date_time: new Date('2026-03-02T18:00:00Z'),
+              duration_minutes: 120,
+              sport_center: null,
+            },
+          ]),
+        },
+      };
+    });
+
+    it('should return commitments that clash with any slot', async () => {
+      const conflicts = await findScheduleConflicts(db, 'user-1', [slot('2026-03-02T10:15:00Z')], {
+        bufferMinutes: 30,
+      });
+
+      expect(conflicts).toEqual([{
+        session_id: 'morning',
+        sport_type: 'tennis',
+        date_time: new Date('2026-03-02T09:00:00Z'),
+        duration_minutes: 60,
+        sport_center_name: 'Shibuya Courts',
+      }]);
+    });
+
+    it('should check every occurrence of a series', async () => {
+      const conflicts = await findScheduleConflicts(db, 'user-1', [
+        slot('2026-03-02T10:15:00Z'),
+        slot('2026-03-02T19:00:00Z'),
+      ], { bufferMinutes: 30 });
+
+      expect(conflicts.map((conflict) => conflict.session_id)).toEqual(['morning', 'evening']);
+    });
+
+    it('should only query published commitments around the slots', async () => {
+      await findScheduleConflicts(db, 'user-1', [slot('2026-03-02T10:00:00Z')], {
+        bufferMinutes: 30,
+        excludeSessionId: 'session-1',
+      });
+
+      expect(db.session.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          status: 'PUBLISHED',
+          id: { not: 'session-1' },
+          date_time: {
+            gt: new Date('2026-03-02T01:30:00Z'),
+            lt: new Date('2026-03-02T11:30:00Z'),
+          },
+        }),
+      }));
+    });
+
+    it('should skip the query without slots', async () => {
+      expect(await findScheduleConflicts(db, 'user-1', [])).toEqual([]);
+      expect(db.session.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('conflictsFromError', () => {
+    it('should read the conflicts from a 409 error', () => {
+      const conflicts = [{ session_id: 'morning' }];
+
+      expect(conflictsFromError({ status: 409, data: { conflicts } })).toBe(conflicts);
+    });
+
+    it('should ignore other errors', () => {
+      expect(conflictsFromError(new Error('Session is full'))).toBeNull();
+      expect(conflictsFromError({ status: 400, data: { conflicts: [] } })).toBeNull();
+      expect(conflictsFromError(null)).toBeNull();
+    });
+  });
+
+  it('should describe each conflict on its own line', () => {
+    const text = describeConflicts([
+      {
+        session_id: 'morning',
+        sport_type: 'table-tennis',
+        date_time: new Date('2026-03-02T09:00:00Z'),
+        duration_minutes: 60,
+        sport_center_name: 'Shibuya Courts',
+      },
+      {
+        session_id: 'evening',
+        sport_type: 'futsal',
+        date_time: new Date('2026-03-02T18:00:00Z'),
+        duration_minutes: 60,
+        sport_center_name: null,
+      },
+    ]);
+
+    const lines = text.split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^• table tennis .* @ Shibuya Courts$/);
+    expect(lines[1]).toMatch(/^• futsal /);
+  });
+});
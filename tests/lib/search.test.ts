@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildSnippet, searchTerms, toSearchQuery } from '@/lib/search';
+
+describe('Full-text search helpers', () => {
+  describe('searchTerms', () => {
+    it('should fold full-width text and lower-case it', () => {
+      expect(searchTerms('ＢＡＤＭＩＮＴＯＮ Shinjuku')).toEqual(['badminton', 'shinjuku']);
+    });
+
+    it('should split Japanese from Latin text and drop punctuation', () => {
+      expect(searchTerms('渋谷でfutsal!')).toEqual(['渋谷で', 'futsal']);
+    });
+
+    it('should drop duplicate terms', () => {
+      expect(searchTerms('tennis Tennis')).toEqual(['tennis']);
+    });
+  });
+
+  describe('toSearchQuery', () => {
+    it('should match Latin terms as prefixes', () => {
+      expect(toSearchQuery('badm shin')).toBe('badm:* & shin:*');
+    });
+
+    it('should split Japanese terms into adjacent bigrams', () => {
+      expect(toSearchQuery('東京体育館')).toBe('(東京 <-> 京体 <-> 体育 <-> 育館)');
+    });
+
+    it('should match a single Japanese character as a bigram prefix', () => {
+      expect(toSearchQuery('駅')).toBe('駅:*');
+    });
+
+    it('should return null when nothing is searchable', () => {
+      expect(toSearchQuery('  !? ')).toBeNull();
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('should highlight whole words for prefix matches', () => {
+      const snippet = buildSnippet({ description_en: 'Casual badminton night' }, ['badm']);
+
+      expect(snippet).toEqual({
+        field: 'description_en',
+        text: 'Casual badminton night',
+        highlights: [[7, 16]],
+      });
+    });
+
+    it('should fall back to sport center fields', () => {
+      const snippet = buildSnippet(
+        {
+          description_en: 'Casual games',
+          sport_center: { name_en: 'Tokyo Gym', station_ja: '千駄ヶ谷駅' },
+        },
+        ['千駄ヶ谷']
+      );
+
+      expect(snippet).toEqual({
+        field: 'sport_center.station_ja',
+        text: '千駄ヶ谷駅',
+        highlights: [[0, 4]],
+      });
+    });
+
+    it('should excerpt long text around the first match', () => {
+      const description = `${'warm up '.repeat(20)}then doubles matches${' and drills'.repeat(10)}`;
+      const snippet = buildSnippet({ description_en: description }, ['doubles'])!;
+
+      expect(snippet.text.startsWith('…')).toBe(true);
+      expect(snippet.text.endsWith('…')).toBe(true);
+      const [[start, end]] = snippet.highlights;
+      expect(snippet.text.slice(start, end)).toBe('doubles');
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(buildSnippet({ description_en: 'Casual games' }, ['tennis'])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { isSessionHost, getSessionHostIds, transferOwnership } from '@/lib/session-hosts';
+
+describe('Session hosts', () => {
+  let tx: any;
+  const session = { id: 'session-1', created_by: 'creator-1', sport_type: 'badminton', sport_center_id: 'center-1' };
+
+  beforeEach(() => {
+    tx = {
+      session: { update: vi.fn().mockResolvedValue({}) },
+      sessionCoHost: {
+        findUnique: vi.fn(),
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+        delete: vi.fn().mockResolvedValue({}),
+      },
+      notification: { create: vi.fn().mockResolvedValue({}) },
+      review: { aggregate: vi.fn().mockResolvedValue({ _avg: { rating: null }, _count: { _all: 0 } }) },
+      user: { update: vi.fn().mockResolvedValue({}) },
+      sportCenter: { update: vi.fn().mockResolvedValue({}) },
+    };
+  });
+
+  describe('isSessionHost', () => {
+    it('should treat the creator as host without a lookup', async () => {
+      expect(await isSessionHost(tx, session, 'creator-1')).toBe(true);
+      expect(tx.sessionCoHost.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should treat co-hosts as hosts', async () => {
+      tx.sessionCoHost.findUnique.mockResolvedValue({ id: 'cohost-1' });
+
+      expect(await isSessionHost(tx, session, 'user-2')).toBe(true);
+    });
+
+    it('should reject other users and anonymous visitors', async () => {
+      tx.sessionCoHost.findUnique.mockResolvedValue(null);
+
+      expect(await isSessionHost(tx, session, 'user-3')).toBe(false);
+      expect(await isSessionHost(tx, session, null)).toBe(false);
+    });
+  });
+
+  describe('getSessionHostIds', () => {
+    it('should list the creator first', async () => {
+      tx.sessionCoHost.findMany.mockResolvedValue([{ user_id: 'user-2' }, { user_id: 'user-3' }]);
+
+      expect(await getSessionHostIds(tx, session)).toEqual(['creator-1', 'user-2', 'user-3']);
+    });
+  });
+
+  describe('transferOwnership', () => {
+    it('should hand the session to the longest-serving co-host', async () => {
+      tx.sessionCoHost.findFirst.mockResolvedValue({ id: 'cohost-1', user_id: 'user-2' });
+
+      const newHostId = await transferOwnership(tx, session);
+
+      expect(newHostId).toBe('user-2');
+      expect(tx.sessionCoHost.findFirst).toHaveBeenCalledWith({
+        where: { session_id: 'session-1' },
+        orderBy: { created_at: 'asc' },
+      });
+      expect(tx.session.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { created_by: 'user-2' },
+      });
+      expect(tx.sessionCoHost.delete).toHaveBeenCalledWith({ where: { id: 'cohost-1' } });
+      expect(tx.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          user_id: 'user-2',
+          type: 'session_ownership_transferred',
+        }),
+      });
+    });
+
+    it('should refresh the host ratings of the old and new owner', async () => {
+      tx.sessionCoHost.findFirst.mockResolvedValue({ id: 'cohost-1', user_id: 'user-2' });
+
+      await transferOwnership(tx, session);
+
+      expect(tx.review.aggregate).toHaveBeenCalledWith(expect.objectContaining({
+        where: { hidden_at: null, session: { created_by: 'creator-1' } },
+      }));
+      expect(tx.review.aggregate).toHaveBeenCalledWith(expect.objectContaining({
+        where: { hidden_at: null, session: { created_by: 'user-2' } },
+      }));
+      expect(tx.user.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'creator-1' } }));
+      expect(tx.user.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'user-2' } }));
+    });
+
+    it('should keep the creator when there are no co-hosts', async () => {
+      tx.sessionCoHost.findFirst.mockResolvedValue(null);
+
+      expect(await transferOwnership(tx, session)).toBeNull();
+      expect(tx.session.update).not.toHaveBeenCalled();
+    });
+  });
+});
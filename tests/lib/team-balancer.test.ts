@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { formatTeamsMessage, generateTeams, playerSkill } from '@/lib/team-balancer';
+
+const players = (skills: number[], languages: string[] = []) =>
+  skills.map((skill, i) => ({ id: `p${i + 1}`, skill, native_language: languages[i] ?? null }));
+
+const teamOf = (teams: Array<{ players: string[] }>, id: string) =>
+  teams.findIndex((team) => team.players.includes(id));
+
+describe('Team balancer', () => {
+  describe('playerSkill', () => {
+    it('should prefer the sport rating', () => {
+      expect(playerSkill(1640, { basketball: 'beginner' }, 'basketball', 'advanced')).toBe(1640);
+    });
+
+    it('should fall back to the self-declared level, then the session level', () => {
+      expect(playerSkill(null, { basketball: 'advanced' }, 'basketball', 'beginner')).toBe(1700);
+      expect(playerSkill(null, { tennis: 'advanced' }, 'basketball', 'beginner')).toBe(1300);
+      expect(playerSkill(undefined, ['advanced'], 'basketball', 'intermediate')).toBe(1500);
+    });
+  });
+
+  describe('generateTeams', () => {
+    it('should split players into even teams of equal size', () => {
+      const teams = generateTeams(players([1800, 1700, 1600, 1500, 1400, 1300]), 2);
+
+      expect(teams.map((team) => team.players.length)).toEqual([3, 3]);
+      expect(Math.abs(teams[0].total_skill - teams[1].total_skill)).toBeLessThanOrEqual(200);
+    });
+
+    it('should keep pairs together, including chained pairs', () => {
+      const teams = generateTeams(players([1800, 1700, 1600, 1500, 1400, 1300]), 2, {
+        keepTogether: [['p1', 'p2'], ['p2', 'p6']],
+      });
+
+      expect(teamOf(teams, 'p1')).toBe(teamOf(teams, 'p2'));
+      expect(teamOf(teams, 'p2')).toBe(teamOf(teams, 'p6'));
+    });
+
+    it('should keep locked players on their team', () => {
+      const teams = generateTeams(players([1800, 1700, 1600, 1500]), 2, {
+        locked: { p1: 1, p2: 1 },
+      });
+
+      expect(teams[1].players).toEqual(expect.arrayContaining(['p1', 'p2']));
+      expect(teams[0].players).toEqual(expect.arrayContaining(['p3', 'p4']));
+    });
+
+    it('should spread native languages when asked', () => {
+      const teams = generateTeams(players([1500, 1500, 1500, 1500], ['ja', 'ja', 'en', 'en']), 2, {
+        balanceLanguages: true,
+      });
+
+      expect(teamOf(teams, 'p1')).not.toBe(teamOf(teams, 'p2'));
+      expect(teamOf(teams, 'p3')).not.toBe(teamOf(teams, 'p4'));
+    });
+
+    it('should give the same split for the same seed', () => {
+      const roster = players([1600, 1580, 1560, 1540, 1520, 1500, 1480, 1460]);
+
+      expect(generateTeams(roster, 2, { seed: 42 })).toEqual(generateTeams(roster, 2, { seed: 42 }));
+    });
+
+    it('should clamp the number of teams', () => {
+      expect(generateTeams(players([1500, 1500, 1500]), 1)).toHaveLength(2);
+    });
+  });
+
+  describe('formatTeamsMessage', () => {
+    it('should list each team with player names', () => {
+      const names = new Map([['p1', 'Aki'], ['p2', 'Ben']]);
+
+      expect(formatTeamsMessage([{ players: ['p1'] }, { players: ['p2'] }], names)).toBe(
+        'Teams for today\nTeam 1: Aki\nTeam 2: Ben'
+      );
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  bracketSeedOrder,
+  clearTournamentResult,
+  computeStandings,
+  generateBracket,
+  isResultLocked,
+  matchWinner,
+  nextMatchSlot,
+  swissPairings,
+  swissRoundCount,
+  type PlayedMatch,
+} from '@/lib/tournaments';
+
+const ids = (count: number) => Array.from({ length: count }, (_, i) => `p${i + 1}`);
+
+const played = (round: number, position: number, a: string, b: string | null, winner: string | null): PlayedMatch => ({
+  round,
+  position,
+  player_a_id: a,
+  player_b_id: b,
+  winner_id: winner,
+  completed_at: new Date(),
+});
+
+describe('Tournaments', () => {
+  describe('single elimination', () => {
+    it('should seed so the top two can only meet in the final', () => {
+      expect(bracketSeedOrder(4)).toEqual([1, 4, 2, 3]);
+      expect(bracketSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    });
+
+    it('should create every round of a power-of-two bracket', () => {
+      const { roundCount, matches } = generateBracket('SINGLE_ELIMINATION', ids(8));
+
+      expect(roundCount).toBe(3);
+      expect(matches.filter((m) => m.round === 1)).toHaveLength(4);
+      expect(matches.filter((m) => m.round === 2)).toHaveLength(2);
+      expect(matches.filter((m) => m.round === 3)).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ player_a_id: 'p1', player_b_id: 'p8' });
+      expect(matches.some((m) => m.is_bye)).toBe(false);
+    });
+
+    it('should give top seeds byes and advance them to round two', () => {
+      const { roundCount, matches } = generateBracket('SINGLE_ELIMINATION', ids(6));
+
+      expect(roundCount).toBe(3);
+      const byes = matches.filter((m) => m.is_bye);
+      expect(byes.map((m) => m.winner_id).sort()).toEqual(['p1', 'p2']);
+
+      const roundTwo = matches.filter((m) => m.round === 2);
+      expect(roundTwo[0].player_a_id).toBe('p1');
+      expect(roundTwo[1].player_a_id).toBe('p2');
+      expect(roundTwo.every((m) => m.player_b_id === null)).toBe(true);
+    });
+
+    it('should send winners to the right slot of the next round', () => {
+      expect(nextMatchSlot(1, 0)).toEqual({ round: 2, position: 0, side: 'A' });
+      expect(nextMatchSlot(1, 3)).toEqual({ round: 2, position: 1, side: 'B' });
+    });
+  });
+
+  describe('round robin', () => {
+    it('should pair everyone with everyone exactly once', () => {
+      const { roundCount, matches } = generateBracket('ROUND_ROBIN', ids(4));
+
+      expect(roundCount).toBe(3);
+      expect(matches).toHaveLength(6);
+      const pairs = new Set(matches.map((m) => [m.player_a_id, m.player_b_id].sort().join('-')));
+      expect(pairs.size).toBe(6);
+      for (let round = 1; round <= 3; round++) {
+        const inRound = matches.filter((m) => m.round === round).flatMap((m) => [m.player_a_id, m.player_b_id]);
+        expect(new Set(inRound).size).toBe(4);
+      }
+    });
+
+    it('should let one player sit out each round with an odd count', () => {
+      const { roundCount, matches } = generateBracket('ROUND_ROBIN', ids(5));
+
+      expect(roundCount).toBe(5);
+      expect(matches).toHaveLength(10);
+      expect(matches.filter((m) => m.round === 1)).toHaveLength(2);
+    });
+  });
+
+  describe('swiss', () => {
+    it('should play log2(players) rounds', () => {
+      expect(swissRoundCount(2)).toBe(1);
+      expect(swissRoundCount(8)).toBe(3);
+      expect(swissRoundCount(9)).toBe(4);
+    });
+
+    it('should pair players on equal points and avoid rematches', () => {
+      const roundOne = [
+        played(1, 0, 'p1', 'p2', 'p1'),
+        played(1, 1, 'p3', 'p4', 'p3'),
+      ];
+
+      const pairings = swissPairings(2, ids(4), roundOne);
+
+      expect(pairings.map((m) => [m.player_a_id, m.player_b_id])).toEqual([
+        ['p1', 'p3'],
+        ['p2', 'p4'],
+      ]);
+    });
+
+    it('should give the bye to the lowest-ranked player who has not had one', () => {
+      const roundOne = [
+        played(1, 0, 'p1', 'p2', 'p1'),
+        played(1, 1, 'p3', null, 'p3'),
+      ];
+
+      const pairings = swissPairings(2, ids(3), roundOne);
+      const bye = pairings.find((m) => m.is_bye);
+
+      expect(bye?.player_a_id).toBe('p2');
+      expect(pairings.find((m) => !m.is_bye)).toMatchObject({ player_a_id: 'p1', player_b_id: 'p3' });
+    });
+  });
+
+  describe('computeStandings', () => {
+    it('should score wins, draws and byes', () => {
+      const standings = computeStandings(ids(3), [
+        played(1, 0, 'p1', 'p2', null),
+        played(1, 1, 'p3', null, 'p3'),
+        played(2, 0, 'p2', 'p3', 'p2'),
+      ]);
+
+      expect(standings.map((s) => [s.player_id, s.points])).toEqual([
+        ['p2', 1.5],
+        ['p3', 1],
+        ['p1', 0.5],
+      ]);
+      expect(standings[0]).toMatchObject({ played: 2, wins: 1, draws: 1, losses: 0 });
+    });
+
+    it('should ignore matches without a result', () => {
+      const standings = computeStandings(ids(2), [
+        { round: 1, position: 0, player_a_id: 'p1', player_b_id: 'p2', winner_id: null, completed_at: null },
+      ]);
+
+      expect(standings.every((s) => s.points === 0 && s.played === 0)).toBe(true);
+    });
+  });
+
+  describe('matchWinner', () => {
+    it('should return the higher scorer or null for a draw', () => {
+      expect(matchWinner('a', 'b', 3, 1)).toBe('a');
+      expect(matchWinner('a', 'b', 0, 2)).toBe('b');
+      expect(matchWinner('a', 'b', 2, 2)).toBeNull();
+    });
+  });
+
+  describe('correcting results', () => {
+    const unplayed = (round: number, position: number, a: string | null, b: string | null): PlayedMatch => ({
+      round,
+      position,
+      player_a_id: a,
+      player_b_id: b,
+      winner_id: null,
+      completed_at: null,
+    });
+
+    it("should lock an elimination result once the winner's next match is played", () => {
+      const semi = played(1, 0, 'p1', 'p4', 'p1');
+      const tournament = {
+        format: 'SINGLE_ELIMINATION' as const,
+        round_count: 2,
+        matches: [semi, played(1, 1, 'p2', 'p3', 'p2'), unplayed(2, 0, 'p1', 'p2')],
+      };
+
+      expect(isResultLocked(tournament, semi)).toBe(false);
+
+      tournament.matches[2] = played(2, 0, 'p1', 'p2', 'p1');
+      expect(isResultLocked(tournament, semi)).toBe(true);
+      expect(isResultLocked(tournament, tournament.matches[2])).toBe(false);
+    });
+
+    it('should lock a Swiss result once the next round is paired', () => {
+      const first = played(1, 0, 'p1', 'p2', 'p1');
+      const tournament = { format: 'SWISS' as const, round_count: 2, matches: [first] };
+
+      expect(isResultLocked(tournament, first)).toBe(false);
+      expect(isResultLocked({ ...tournament, matches: [first, unplayed(2, 0, 'p1', 'p3')] }, first)).toBe(true);
+    });
+
+    it('should never lock round robin results', () => {
+      const first = played(1, 0, 'p1', 'p2', 'p1');
+      const tournament = { format: 'ROUND_ROBIN' as const, round_count: 3, matches: [first, played(2, 0, 'p1', 'p3', 'p3')] };
+
+      expect(isResultLocked(tournament, first)).toBe(false);
+    });
+
+    it('should take the winner back out of the next match and reopen the tournament', async () => {
+      const tx: any = {
+        tournamentMatch: { update: vi.fn().mockResolvedValue({}) },
+        tournament: { update: vi.fn().mockResolvedValue({}) },
+      };
+      const tournament = {
+        id: 'tournament-1',
+        format: 'SINGLE_ELIMINATION' as const,
+        player_ids: ids(4),
+        round_count: 2,
+        matches: [
+          { ...played(1, 0, 'p1', 'p4', 'p1'), id: 'm1' },
+          { ...played(1, 1, 'p2', 'p3', 'p3'), id: 'm2' },
+          { ...unplayed(2, 0, 'p1', 'p3'), id: 'final' },
+        ],
+      };
+
+      await clearTournamentResult(tx, tournament, 'm2');
+
+      expect(tx.tournamentMatch.update).toHaveBeenCalledWith({
+        where: { id: 'm2' },
+        data: { score_a: null, score_b: null, winner_id: null, completed_at: null, rating_match_id: null },
+      });
+      expect(tx.tournamentMatch.update).toHaveBeenCalledWith({
+        where: { tournament_id_round_position: { tournament_id: 'tournament-1', round: 2, position: 0 } },
+        data: { player_b_id: null },
+      });
+      expect(tx.tournament.update).toHaveBeenCalledWith({
+        where: { id: 'tournament-1' },
+        data: { status: 'IN_PROGRESS', winner_id: null, current_round: 1 },
+      });
+    });
+  });
+});
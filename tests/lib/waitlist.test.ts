@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getHoldExpiry, promoteFromWaitlist, WAITLIST_HOLD_HOURS } from '@/lib/waitlist';
+
+describe('Waitlist promotion', () => {
+  describe('getHoldExpiry', () => {
+    it('should hold the spot for WAITLIST_HOLD_HOURS', () => {
+      const now = new Date('2026-03-01T10:00:00Z');
+      const sessionTime = new Date('2026-03-02T10:00:00Z');
+
+      const expiry = getHoldExpiry(sessionTime, now);
+
+      expect(expiry.getTime() - now.getTime()).toBe(WAITLIST_HOLD_HOURS * 60 * 60 * 1000);
+    });
+
+    it('should not hold the spot past the session start', () => {
+      const now = new Date('2026-03-01T10:00:00Z');
+      const sessionTime = new Date('2026-03-01T11:00:00Z');
+
+      expect(getHoldExpiry(sessionTime, now)).toEqual(sessionTime);
+    });
+  });
+
+  describe('promoteFromWaitlist', () => {
+    let tx: any;
+    const futureDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+    const mockSession = (overrides: Record<string, unknown> = {}) => ({
+      id: 'session-1',
+      created_by: 'host-1',
+      sport_type: 'badminton',
+      min_rating: null,
+      date_time: futureDate,
+      max_participants: 4,
+      status: 'PUBLISHED',
+      _count: { user_sessions: 3, waitlist: 0 },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      tx = {
+        session: { findUnique: vi.fn() },
+        waitlist: {
+          findFirst: vi.fn(),
+          update: vi.fn().mockResolvedValue({}),
+          delete: vi.fn().mockResolvedValue({}),
+        },
+        userSession: { create: vi.fn().mockResolvedValue({}) },
+        notification: { create: vi.fn().mockResolvedValue({}) },
+        sportRating: { findUnique: vi.fn().mockResolvedValue(null) },
+      };
+    });
+
+    it('should reserve the freed spot for the next person in line', async () => {
+      tx.session.findUnique.mockResolvedValue(mockSession());
+      tx.waitlist.findFirst
+        .mockResolvedValueOnce({ id: 'wl-1', user_id: 'user-1', auto_join: false })
+        .mockResolvedValueOnce(null);
+
+      const result = await promoteFromWaitlist(tx, 'session-1');
+
+      expect(result).toEqual({ held: ['user-1'], joined: [] });
+      expect(tx.waitlist.update).toHaveBeenCalledWith({
+        where: { id: 'wl-1' },
+        data: expect.objectContaining({
+          notified: true,
+          hold_expires_at: expect.any(Date),
+        }),
+      });
+      expect(tx.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          user_id: 'user-1',
+          type: 'waitlist_spot_available',
+        }),
+      });
+      expect(tx.userSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should join auto-join users directly', async () => {
+      tx.session.findUnique.mockResolvedValue(mockSession());
+      tx.waitlist.findFirst.mockResolvedValueOnce({ id: 'wl-1', user_id: 'user-1', auto_join: true });
+
+      const result = await promoteFromWaitlist(tx, 'session-1');
+
+      expect(result).toEqual({ held: [], joined: ['user-1'] });
+      expect(tx.userSession.create).toHaveBeenCalledWith({
+        data: { user_id: 'user-1', session_id: 'session-1' },
+      });
+      expect(tx.waitlist.delete).toHaveBeenCalledWith({ where: { id: 'wl-1' } });
+    });
+
+    it('should hold the spot instead of auto-joining on approval sessions', async () => {
+      tx.session.findUnique.mockResolvedValue(mockSession({ requires_approval: true }));
+      tx.waitlist.findFirst
+        .mockResolvedValueOnce({ id: 'wl-1', user_id: 'user-1', auto_join: true })
+        .mockResolvedValueOnce(null);
+
+      const result = await promoteFromWaitlist(tx, 'session-1');
+
+      expect(result).toEqual({ held: ['user-1'], joined: [] });
+      expect(tx.userSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should hold the spot instead of auto-joining users below the minimum rating', async () => {
+      tx.session.findUnique.mockResolvedValue(mockSession({ min_rating: 1600 }));
+      tx.sportRating.findUnique.mockResolvedValue({ rating: 1450 });
+      tx.waitlist.findFirst
+        .mockResolvedValueOnce({ id: 'wl-1', user_id: 'user-1', auto_join: true })
+        .mockResolvedValueOnce(null);
+
+      const result = await promoteFromWaitlist(tx, 'session-1');
+
+      expect(result).toEqual({ held: ['user-1'], joined: [] });
+      expect(tx.userSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should not promote when active holds already fill the free spots', async () => {
+      tx.session.findUnique.mockResolvedValue(mockSession({ _count: { user_sessions: 3, waitlist: 1 } }));
+
+      const result = await promoteFromWaitlist(tx, 'session-1');
+
+      expect(result).toEqual({ held: [], joined: [] });
+      expect(tx.waitlist.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should not promote for past sessions', async () => {
+      tx.session.findUnique.mockResolvedValue(mockSession({ date_time: new Date('2020-01-01T00:00:00Z') }));
+
+      const result = await promoteFromWaitlist(tx, 'session-1');
+
+      expect(result).toEqual({ held: [], joined: [] });
+      expect(tx.waitlist.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should not promote for cancelled sessions', async () => {
+      tx.session.findUnique.mockResolvedValue(mockSession({ status: 'CANCELLED' }));
+
+      const result = await promoteFromWaitlist(tx, 'session-1');
+
+      expect(result).toEqual({ held: [], joined: [] });
+      expect(tx.waitlist.findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -16,6 +16,12 @@ export type SessionVibe = 'COMPETITIVE' | 'CASUAL' | 'ACADEMY' | 'LANGUAGE_EXCHA
 
 export type LanguageLevel = 'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED' | 'NATIVE';
 
+export type RecurrenceFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY';
+
+export type SessionStatus = 'DRAFT' | 'PUBLISHED' | 'CANCELLED' | 'COMPLETED';
+
+export type SessionVisibility = 'PUBLIC' | 'UNLISTED' | 'INVITE_ONLY';
+
 export interface User {
   id: string;
   email: string;
@@ -51,6 +57,20 @@ export interface SportCenter {
   latitude?: number;
   longitude?: number;
   image_url?: string;
+  // Average of the visible reviews of sessions held here (null until reviewed)
+  rating_avg?: number | null;
+  review_count?: number;
+}
+
+// Session host with their reputation from session reviews
+export interface SessionHost extends Participant {
+  host_rating_avg: number | null;
+  host_review_count: number;
+}
+
+// GET /api/sport-centers/[id]
+export interface SportCenterDetail extends SportCenter {
+  upcoming_sessions: Session[];
 }
 
 export interface Session {
@@ -62,16 +82,245 @@ export interface Session {
   duration_minutes: number;
   max_participants?: number;
   current_participants: number;
+  // Minimum participant threshold
+  min_participants?: number | null;
+  decide_by?: string | null;
+  confirmed_at?: string | null;
   description_en?: string;
   description_ja?: string;
   // Language exchange & vibe fields
   primary_language?: string;
   allow_english?: boolean;
   vibe?: SessionVibe;
+  // Lowest sport rating allowed to join (COMPETITIVE sessions)
+  min_rating?: number | null;
+  // Recurring series fields
+  series_id?: string | null;
+  series_override?: boolean;
+  series?: SessionSeriesSummary | null;
+  // Lifecycle fields
+  status?: SessionStatus;
+  cancellation_reason?: string | null;
+  cancelled_at?: string | null;
+  visibility?: SessionVisibility;
+  requires_approval?: boolean;
   created_by: string;
   created_at: string;
   sport_center?: SportCenter;
+  creator?: SessionHost;
   participants?: Participant[];
+  co_hosts?: Participant[];
+  // Set by radius searches (`near=`)
+  distance_km?: number;
+  // Set by text searches (`search=`)
+  search_rank?: number;
+  search_snippet?: SearchSnippet | null;
+  // Set by GET /api/sessions/recommendations
+  recommendation?: SessionRecommendation;
+  // Participants per native language (session detail only)
+  language_mix?: LanguageMixEntry[];
+  // Set on the session detail when a tournament has been started
+  tournament?: TournamentSummary | null;
+}
+
+export interface LanguageMixEntry {
+  language: string | null;
+  count: number;
+}
+
+// Excerpt of the session text that matched a search
+export interface SearchSnippet {
+  field: string;
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+// Why a session was suggested in the "For you" section
+export interface SessionRecommendation {
+  score: number;
+  reasons: Array<{
+    code: string;
+    params?: Record<string, string | number>;
+  }>;
+}
+
+export interface SessionSeriesSummary {
+  id: string;
+  frequency: RecurrenceFrequency;
+  starts_at: string;
+  ends_at?: string | null;
+  occurrence_count?: number | null;
+}
+
+export interface SessionInvite {
+  id: string;
+  token: string;
+  expires_at?: string | null;
+  max_uses?: number | null;
+  use_count: number;
+  revoked_at?: string | null;
+  created_at: string;
+  active: boolean;
+}
+
+export type JoinRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface JoinRequest {
+  id: string;
+  message?: string | null;
+  created_at: string;
+  user: Participant & { reliability_score?: number };
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  search?: string | null;
+  sport_type?: SportType | null;
+  skill_level?: SkillLevel | null;
+  vibe?: SessionVibe | null;
+  allow_english: boolean;
+  start_date?: string | null;
+  end_date?: string | null;
+  email_digest: boolean;
+  created_at: string;
+}
+
+export type MatchFormat = 'SINGLES' | 'DOUBLES' | 'TEAM';
+
+export interface MatchPlayer {
+  id: string;
+  user_id: string;
+  side: 'A' | 'B';
+  rating_before: number;
+  rating_after: number;
+  user: Participant;
+}
+
+// A result recorded by the session host
+export interface Match {
+  id: string;
+  session_id: string;
+  sport_type: SportType;
+  format: MatchFormat;
+  score_a: number;
+  score_b: number;
+  created_at: string;
+  players: MatchPlayer[];
+  /** Set for results entered through a tournament bracket */
+  tournament_match?: { id: string } | null;
+}
+
+// A user's Elo rating in one sport
+export interface SportRating {
+  sport_type: SportType;
+  rating: number;
+  matches_played: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  updated_at: string;
+}
+
+// Averages of the peer ratings a user has received (see lib/peer-reviews.ts)
+export interface TrustMetrics {
+  visible: boolean;
+  review_count: number;
+  punctuality: number | null;
+  sportsmanship: number | null;
+  skill_accuracy: number | null;
+  min_reviewers: number;
+}
+
+export interface PeerReviewee {
+  user: Pick<User, 'id' | 'username' | 'display_name' | 'avatar_url'>;
+  is_host: boolean;
+  reviewed: boolean;
+}
+
+export interface PeerReviewStatus {
+  can_review: boolean;
+  opens_at: string;
+  closes_at: string;
+  reviewees: PeerReviewee[];
+}
+
+export type ReliabilityEventType = 'ATTENDED' | 'NO_SHOW' | 'RECOVERY' | 'REVERSAL';
+export type AppealStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ReliabilityAppeal {
+  id: string;
+  status: AppealStatus;
+  admin_note?: string | null;
+  created_at: string;
+  reviewed_at?: string | null;
+}
+
+export interface ReliabilityEvent {
+  id: string;
+  type: ReliabilityEventType;
+  delta: number;
+  score_after: number;
+  recovered_points: number;
+  note?: string | null;
+  reversed_at?: string | null;
+  created_at: string;
+  can_appeal: boolean;
+  session?: {
+    id: string;
+    sport_type: SportType;
+    date_time: string;
+  } | null;
+  appeal?: ReliabilityAppeal | null;
+}
+
+export interface ReliabilityHistory {
+  reliability_score: number;
+  no_show_count: number;
+  events: ReliabilityEvent[];
+}
+
+export type TournamentFormat = 'SINGLE_ELIMINATION' | 'ROUND_ROBIN' | 'SWISS';
+export type TournamentStatus = 'IN_PROGRESS' | 'COMPLETED';
+
+export interface TournamentSummary {
+  id: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+}
+
+export interface TournamentMatch {
+  id: string;
+  round: number;
+  position: number;
+  player_a_id: string | null;
+  player_b_id: string | null;
+  score_a: number | null;
+  score_b: number | null;
+  // Null for draws and unplayed matches
+  winner_id: string | null;
+  completed_at: string | null;
+}
+
+export interface TournamentStanding {
+  player_id: string;
+  points: number;
+  played: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+// A session's bracket as returned by GET /api/sessions/[id]/tournament
+export interface Tournament extends TournamentSummary {
+  session_id: string;
+  player_ids: string[];
+  round_count: number;
+  current_round: number;
+  winner_id: string | null;
+  matches: TournamentMatch[];
+  players: Participant[];
+  standings: TournamentStanding[];
 }
 
 export interface UserSession {